@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+
+/**
+ * Pose Fixture Replay
+ * Feeds recorded pose fixtures through ExerciseRepCounter and
+ * MultiExerciseDetector and checks each fixture's expected results, so
+ * threshold changes in the exercise definitions can't quietly break counting.
+ *
+ * Usage:
+ *   npm run test:poses                              # every fixture in fixtures/poses
+ *   node scripts/replay-pose-fixtures.js a.json b.bin
+ *
+ * Recording:
+ *   Open a coach call with ?recordPoses in the URL (dev builds only). Each
+ *   exercise is downloaded as a fixture when it ends; review the recording,
+ *   add an "expected" block (including detectedExercise) and drop the file
+ *   into fixtures/poses. Exercises without a camera recording are listed at
+ *   the end; synthetic fixtures only exercise the harness.
+ *
+ * Also fails when server/constants/exercises.js (which the server can't
+ * build from the TypeScript) disagrees with the definitions on an
+ * exercise's key, name or measure.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, relative, resolve } from 'path';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const rootDir = resolve(__dirname, '..');
+const fixturesDir = join(rootDir, 'fixtures/poses');
+
+// Differences between the client definitions and the server catalog
+function compareServerCatalog(definitions, serverDefinitions) {
+  const problems = [];
+  const serverByKey = new Map(serverDefinitions.map(definition => [definition.key, definition]));
+  for (const definition of definitions) {
+    const server = serverByKey.get(definition.key);
+    if (!server) {
+      problems.push(`${definition.key} is missing`);
+      continue;
+    }
+    serverByKey.delete(definition.key);
+    for (const field of ['name', 'measure']) {
+      if (server[field] !== definition[field]) {
+        problems.push(`${definition.key} ${field} is ${JSON.stringify(server[field])}, expected ${JSON.stringify(definition[field])}`);
+      }
+    }
+  }
+  for (const key of serverByKey.keys()) {
+    problems.push(`${key} has no exercise definition`);
+  }
+  return problems;
+}
+
+function listFixtures(args) {
+  if (args.length > 0) {
+    return args.map(file => resolve(file));
+  }
+  return readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json') || file.endsWith('.bin'))
+    .sort()
+    .map(file => join(fixturesDir, file));
+}
+
+async function main() {
+  // Load the TypeScript sources through Vite so the replay uses exactly the
+  // code the app ships, without a separate build step
+  const vite = await createServer({
+    root: rootDir,
+    configFile: false,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+    resolve: { alias: { '@': join(rootDir, 'src') } }
+  });
+
+  let failed = 0;
+  try {
+    const recording = await vite.ssrLoadModule('/src/lib/poseRecording.ts');
+    const replay = await vite.ssrLoadModule('/src/lib/poseReplay.ts');
+    const { EXERCISE_DEFINITIONS } = await vite.ssrLoadModule('/src/lib/exerciseDefinitions.ts');
+    const recorded = new Set();
+    const files = listFixtures(process.argv.slice(2));
+
+    const serverCatalog = await import('../server/constants/exercises.js');
+    const catalogProblems = compareServerCatalog(EXERCISE_DEFINITIONS, serverCatalog.EXERCISE_DEFINITIONS);
+    if (catalogProblems.length > 0) {
+      failed++;
+      console.log('✗ server/constants/exercises.js disagrees with src/lib/exerciseDefinitions.ts');
+      catalogProblems.forEach(problem => console.log(`    ${problem}`));
+    }
+
+    if (files.length === 0) {
+      console.log('No pose fixtures found in', relative(rootDir, fixturesDir));
+    }
+
+    for (const file of files) {
+      const name = relative(rootDir, file);
+      let fixture;
+      try {
+        const content = readFileSync(file);
+        fixture = file.endsWith('.bin')
+          ? recording.decodePoseFixtureBinary(content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength))
+          : recording.decodePoseFixture(content.toString('utf8'));
+      } catch (error) {
+        failed++;
+        console.log(`✗ ${name}: ${error.message}`);
+        continue;
+      }
+
+      if (fixture.source === 'camera') {
+        recorded.add(fixture.exercise);
+      }
+
+      const result = replay.replayPoseFixture(fixture);
+      const summary = `${result.exercise}: ${result.reps} reps, form ${result.averageFormScore.toFixed(2)}, ` +
+        `detected ${result.detectedExercise ?? 'none'} (${result.frames} frames, ${result.angleSource} angles)`;
+
+      if (!fixture.expected) {
+        console.log(`? ${name}: no expectations - ${summary}`);
+        continue;
+      }
+
+      const failures = replay.checkReplayExpectations(fixture, result);
+      if (failures.length > 0) {
+        failed++;
+        console.log(`✗ ${name}: ${summary}`);
+        failures.forEach(failure => console.log(`    ${failure}`));
+      } else {
+        console.log(`✓ ${name}: ${summary}`);
+      }
+    }
+
+    const unrecorded = EXERCISE_DEFINITIONS.map(definition => definition.name).filter(exercise => !recorded.has(exercise));
+    if (unrecorded.length > 0) {
+      console.log(`\n⚠ No camera-recorded fixture for: ${unrecorded.join(', ')}`);
+    }
+  } finally {
+    await vite.close();
+  }
+
+  if (failed > 0) {
+    console.log(`\n${failed} check(s) failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
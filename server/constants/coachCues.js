@@ -0,0 +1,165 @@
+import { EXERCISES } from './exercises.js';
+
+// Fixed coaching lines that are pre-synthesized per persona voice (see
+// services/coachCueLibrary.js) so they play without an LLM or TTS round trip.
+// Form corrections must match the `correction` strings in
+// src/lib/exerciseDefinitions.ts - the detector text is the lookup key.
+export const FORM_CORRECTIONS = [
+  'Keep your knees aligned',
+  'Go deeper into the squat',
+  'Keep your arms even',
+  'Lower your chest more',
+  'Lower your hips',
+  'Raise your hips',
+  'Keep body straight',
+  'Keep shoulders level',
+  'Pull higher',
+];
+
+export function cueSlug(text) {
+  return String(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+export const formCueId = (correction) => `form:${cueSlug(correction)}`;
+export const nextExerciseCueId = (exercise) => `next:${cueSlug(exercise)}`;
+
+export const COACH_CUES = [
+  { id: 'reps_left:5', kind: 'rep_count', text: 'Five more!' },
+  { id: 'reps_left:3', kind: 'rep_count', text: 'Three more!' },
+  { id: 'reps_left:2', kind: 'rep_count', text: 'Two more!' },
+  { id: 'reps_left:1', kind: 'rep_count', text: 'Last one!' },
+  { id: 'reps_left:0', kind: 'rep_count', text: 'Set done, nice work!' },
+  { id: 'countdown:3', kind: 'countdown', text: 'Three' },
+  { id: 'countdown:2', kind: 'countdown', text: 'Two' },
+  { id: 'countdown:1', kind: 'countdown', text: 'One' },
+  { id: 'countdown:go', kind: 'countdown', text: 'Go!' },
+  { id: 'transition:rest', kind: 'transition', text: 'Rest.' },
+  ...EXERCISES.map((exercise) => ({
+    id: nextExerciseCueId(exercise),
+    kind: 'transition',
+    text: `Next up, ${exercise.toLowerCase()}.`,
+  })),
+  ...FORM_CORRECTIONS.map((correction) => ({
+    id: formCueId(correction),
+    kind: 'form',
+    text: `${correction}.`,
+  })),
+];
+
+// Cue text for other session languages, by English text (exercise names by
+// catalog name). Cues without a translation are left to the LLM path.
+const TRANSLATIONS = {
+  es: {
+    exercises: {
+      'Squats': 'sentadillas',
+      'Push-ups': 'flexiones',
+      'Lunges': 'zancadas',
+      'Jumping Jacks': 'saltos de tijera',
+      'Planks': 'plancha',
+      'Chin-ups': 'dominadas',
+    },
+    nextUp: (exercise) => `A continuación, ${exercise}.`,
+    text: {
+      'Five more!': '¡Cinco más!',
+      'Three more!': '¡Tres más!',
+      'Two more!': '¡Dos más!',
+      'Last one!': '¡La última!',
+      'Set done, nice work!': '¡Serie terminada, buen trabajo!',
+      'Three': 'Tres',
+      'Two': 'Dos',
+      'One': 'Uno',
+      'Go!': '¡Ya!',
+      'Rest.': 'Descansa.',
+      'Keep your knees aligned.': 'Mantén las rodillas alineadas.',
+      'Go deeper into the squat.': 'Baja más en la sentadilla.',
+      'Keep your arms even.': 'Mantén los brazos parejos.',
+      'Lower your chest more.': 'Baja más el pecho.',
+      'Lower your hips.': 'Baja la cadera.',
+      'Raise your hips.': 'Sube la cadera.',
+      'Keep body straight.': 'Mantén el cuerpo recto.',
+      'Keep shoulders level.': 'Mantén los hombros nivelados.',
+      'Pull higher.': 'Tira más alto.',
+    },
+  },
+  fr: {
+    exercises: {
+      'Squats': 'squats',
+      'Push-ups': 'pompes',
+      'Lunges': 'fentes',
+      'Jumping Jacks': 'jumping jacks',
+      'Planks': 'gainage',
+      'Chin-ups': 'tractions',
+    },
+    nextUp: (exercise) => `Ensuite, ${exercise}.`,
+    text: {
+      'Five more!': 'Encore cinq !',
+      'Three more!': 'Encore trois !',
+      'Two more!': 'Encore deux !',
+      'Last one!': 'Dernière !',
+      'Set done, nice work!': 'Série terminée, bon travail !',
+      'Three': 'Trois',
+      'Two': 'Deux',
+      'One': 'Un',
+      'Go!': 'Go !',
+      'Rest.': 'Repos.',
+      'Keep your knees aligned.': 'Gardez les genoux alignés.',
+      'Go deeper into the squat.': 'Descendez plus bas dans le squat.',
+      'Keep your arms even.': 'Gardez les bras à la même hauteur.',
+      'Lower your chest more.': 'Descendez davantage la poitrine.',
+      'Lower your hips.': 'Baissez les hanches.',
+      'Raise your hips.': 'Remontez les hanches.',
+      'Keep body straight.': 'Gardez le corps droit.',
+      'Keep shoulders level.': 'Gardez les épaules à niveau.',
+      'Pull higher.': 'Tirez plus haut.',
+    },
+  },
+  de: {
+    exercises: {
+      'Squats': 'Kniebeugen',
+      'Push-ups': 'Liegestütze',
+      'Lunges': 'Ausfallschritte',
+      'Jumping Jacks': 'Hampelmänner',
+      'Planks': 'Unterarmstütz',
+      'Chin-ups': 'Klimmzüge',
+    },
+    nextUp: (exercise) => `Als Nächstes: ${exercise}.`,
+    text: {
+      'Five more!': 'Noch fünf!',
+      'Three more!': 'Noch drei!',
+      'Two more!': 'Noch zwei!',
+      'Last one!': 'Die letzte!',
+      'Set done, nice work!': 'Satz geschafft, gute Arbeit!',
+      'Three': 'Drei',
+      'Two': 'Zwei',
+      'One': 'Eins',
+      'Go!': 'Los!',
+      'Rest.': 'Pause.',
+      'Keep your knees aligned.': 'Halte die Knie in einer Linie.',
+      'Go deeper into the squat.': 'Geh tiefer in die Kniebeuge.',
+      'Keep your arms even.': 'Halte die Arme gleichmäßig.',
+      'Lower your chest more.': 'Senk die Brust weiter ab.',
+      'Lower your hips.': 'Senk die Hüfte.',
+      'Raise your hips.': 'Heb die Hüfte an.',
+      'Keep body straight.': 'Halte den Körper gerade.',
+      'Keep shoulders level.': 'Halte die Schultern waagerecht.',
+      'Pull higher.': 'Zieh dich höher.',
+    },
+  },
+};
+
+// The cue list spoken in a session language
+export function getCoachCues(language = 'en') {
+  const translation = TRANSLATIONS[language];
+  if (!translation) return COACH_CUES;
+
+  return COACH_CUES.flatMap((cue) => {
+    const exercise = EXERCISES.find((name) => cue.id === nextExerciseCueId(name));
+    const text = exercise
+      ? translation.exercises[exercise] && translation.nextUp(translation.exercises[exercise])
+      : translation.text[cue.text];
+    return text ? [{ ...cue, text }] : [];
+  });
+}
@@ -1,18 +1,109 @@
-export const EXERCISE = {
-  SQUATS: 'Squats',
-  PUSH_UPS: 'Push-ups',
-  LUNGES: 'Lunges',
-  JUMPING_JACKS: 'Jumping Jacks',
-  PLANKS: 'Planks',
-  CHIN_UPS: 'Chin-ups',
-};
-
-export const EXERCISES = [
-  EXERCISE.SQUATS,
-  EXERCISE.PUSH_UPS,
-  EXERCISE.LUNGES,
-  EXERCISE.JUMPING_JACKS,
-  EXERCISE.PLANKS,
-  EXERCISE.CHIN_UPS,
+// Server-side exercise catalog: what the plan generator needs on top of the
+// client definitions in src/lib/exerciseDefinitions.ts. Keys, names and
+// measures must match them; `npm run test:poses` fails when they don't.
+// EXERCISE/EXERCISES and the plan generator lookups derive from here.
+// `equipment` lists the ways an exercise can be loaded beyond bodyweight, matched
+// against user_fitness_profile.equipment_available when prescribing loads.
+export const EXERCISE_DEFINITIONS = [
+  {
+    key: 'SQUATS',
+    name: 'Squats',
+    measure: 'reps',
+    muscleGroups: ['legs', 'glutes', 'core'],
+    alternatives: ['LUNGES', 'JUMPING_JACKS'],
+    equipment: ['dumbbells', 'kettlebell', 'barbell', 'weighted_vest'],
+    formCues: [
+      'Keep your chest up and core engaged',
+      'Push your knees out in line with your toes',
+      'Drive through your heels to stand up',
+    ],
+  },
+  {
+    key: 'PUSH_UPS',
+    name: 'Push-ups',
+    measure: 'reps',
+    muscleGroups: ['chest', 'shoulders', 'triceps', 'core'],
+    alternatives: ['PLANKS'],
+    equipment: ['weighted_vest', 'resistance_band'],
+    formCues: [
+      'Keep your body in a straight line',
+      'Lower until your chest nearly touches the ground',
+      'Push through your palms, not just your fingers',
+    ],
+  },
+  {
+    key: 'LUNGES',
+    name: 'Lunges',
+    measure: 'reps',
+    muscleGroups: ['legs', 'glutes', 'core'],
+    alternatives: ['SQUATS', 'JUMPING_JACKS'],
+    equipment: ['dumbbells', 'kettlebell', 'weighted_vest'],
+    formCues: [
+      'Step forward with control',
+      'Keep your front knee over your ankle',
+      'Push through your front heel to return',
+    ],
+  },
+  {
+    key: 'JUMPING_JACKS',
+    name: 'Jumping Jacks',
+    measure: 'reps',
+    muscleGroups: ['cardio', 'full-body'],
+    alternatives: ['SQUATS', 'LUNGES'],
+    equipment: [],
+    formCues: [
+      'Land softly on the balls of your feet',
+      'Keep your core engaged throughout',
+      'Maintain a steady rhythm',
+    ],
+  },
+  {
+    key: 'PLANKS',
+    name: 'Planks',
+    measure: 'hold', // targetReps are seconds held
+    muscleGroups: ['core', 'shoulders'],
+    alternatives: ['PUSH_UPS'],
+    equipment: ['weighted_vest'],
+    formCues: [
+      'Keep your body in a straight line from head to heels',
+      'Engage your core and glutes',
+      'Breathe normally throughout',
+    ],
+  },
+  {
+    key: 'CHIN_UPS',
+    name: 'Chin-ups',
+    measure: 'reps',
+    muscleGroups: ['back', 'biceps', 'core'],
+    alternatives: ['PUSH_UPS', 'PLANKS'],
+    equipment: ['weighted_vest'],
+    formCues: [
+      'Pull until your chin clears the bar',
+      'Control the descent',
+      'Engage your core to prevent swinging',
+    ],
+  },
 ];
 
+export const EXERCISE = Object.fromEntries(
+  EXERCISE_DEFINITIONS.map((definition) => [definition.key, definition.name]),
+);
+
+export const EXERCISES = EXERCISE_DEFINITIONS.map((definition) => definition.name);
+
+const definitionsByName = new Map(
+  EXERCISE_DEFINITIONS.map((definition) => [definition.name, definition]),
+);
+
+export function getExerciseDefinition(name) {
+  return definitionsByName.get(name);
+}
+
+export const WEIGHT_UNITS = ['kg', 'lb'];
+
+export const EQUIPMENT = ['bodyweight', 'dumbbells', 'kettlebell', 'barbell', 'resistance_band', 'weighted_vest'];
+
+// Hold exercises (planks) are measured in seconds rather than reps
+export function isHoldExercise(name) {
+  return getExerciseDefinition(name)?.measure === 'hold';
+}
@@ -0,0 +1,31 @@
+// Languages a coaching session can run in. Codes are ISO 639-1, as taken by
+// the STT and TTS engines; the client catalog in src/lib/i18n.ts must cover
+// the same list.
+export const SUPPORTED_LANGUAGES = {
+  en: { name: 'English', piperVoice: 'en_US-lessac-medium' },
+  es: { name: 'Spanish', piperVoice: 'es_ES-davefx-medium' },
+  fr: { name: 'French', piperVoice: 'fr_FR-siwis-medium' },
+  de: { name: 'German', piperVoice: 'de_DE-thorsten-medium' },
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export function isSupportedLanguage(language) {
+  return Object.hasOwn(SUPPORTED_LANGUAGES, language);
+}
+
+// The user's language if the persona offers it, otherwise the persona's first
+// language, so a session never runs in a language the persona isn't set up for
+export function resolveSessionLanguage(userLanguage, persona) {
+  const offered = persona?.languages?.length ? persona.languages : [DEFAULT_LANGUAGE];
+  return offered.includes(userLanguage) ? userLanguage : offered[0];
+}
+
+// System prompt addition; personas are written in English
+export function replyLanguageInstruction(language) {
+  if (!language || language === DEFAULT_LANGUAGE || !isSupportedLanguage(language)) {
+    return '';
+  }
+  const { name } = SUPPORTED_LANGUAGES[language];
+  return `\n\nLANGUAGE: The user's language is ${name}. Always reply in ${name}, including exercise names, counts and form cues, even though these instructions are in English.`;
+}
@@ -0,0 +1,21 @@
+-- Migration: Add load and effort tracking to exercise sets
+-- Description: Weighted/equipment-based sets (weight, unit, equipment) and the
+-- RPE/RIR rating the user gives after each set, used for progressive overload
+
+ALTER TABLE exercise_sets
+  ADD COLUMN IF NOT EXISTS weight DECIMAL(6,2),
+  ADD COLUMN IF NOT EXISTS weight_unit VARCHAR(2) CHECK (weight_unit IN ('kg', 'lb')),
+  ADD COLUMN IF NOT EXISTS equipment VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS rpe DECIMAL(3,1) CHECK (rpe >= 1 AND rpe <= 10),
+  ADD COLUMN IF NOT EXISTS rir SMALLINT CHECK (rir >= 0);
+
+-- Progression lookups: a user's recent loaded sets per exercise
+CREATE INDEX IF NOT EXISTS idx_exercise_sets_loaded
+  ON exercise_sets (exercise_name, completed_at)
+  WHERE weight IS NOT NULL;
+
+COMMENT ON COLUMN exercise_sets.weight IS 'Total external load for the set; NULL for bodyweight';
+COMMENT ON COLUMN exercise_sets.weight_unit IS 'Unit of weight: kg or lb';
+COMMENT ON COLUMN exercise_sets.equipment IS 'bodyweight, dumbbells, kettlebell, barbell, resistance_band or weighted_vest';
+COMMENT ON COLUMN exercise_sets.rpe IS 'Rate of perceived exertion reported after the set (1-10)';
+COMMENT ON COLUMN exercise_sets.rir IS 'Reps in reserve reported after the set';
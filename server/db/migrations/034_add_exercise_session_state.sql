@@ -0,0 +1,18 @@
+-- Migration: Snapshot in-progress workout state on exercise sessions
+-- Description: The client's workout snapshot (plan, per-exercise progress, set
+-- history, interval clock) plus the coach's tracking state, so a workout
+-- interrupted by a reload or dropped socket can be resumed
+
+ALTER TABLE exercise_sessions
+  ADD COLUMN IF NOT EXISTS workout_state JSONB,
+  ADD COLUMN IF NOT EXISTS state_updated_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP;
+
+-- Resume lookups: a user's unfinished sessions with a snapshot
+CREATE INDEX IF NOT EXISTS idx_exercise_sessions_resumable
+  ON exercise_sessions (user_id, avatar_id, state_updated_at)
+  WHERE completed_at IS NULL AND workout_state IS NOT NULL;
+
+COMMENT ON COLUMN exercise_sessions.workout_state IS 'Latest snapshot of the in-progress workout: { client, coach }';
+COMMENT ON COLUMN exercise_sessions.state_updated_at IS 'When workout_state was last written';
+COMMENT ON COLUMN exercise_sessions.paused_at IS 'Set while the user has the workout paused';
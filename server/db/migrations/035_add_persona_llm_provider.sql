@@ -0,0 +1,16 @@
+-- Migration: Per-persona LLM provider and model
+-- Description: Lets each persona choose which LLM provider (openai, local,
+-- scripted) and model drive its responses. NULL falls back to the server
+-- default: openai when an API key is configured, otherwise scripted
+
+ALTER TABLE "AvatarPersona"
+  ADD COLUMN IF NOT EXISTS llm_provider VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS llm_model VARCHAR(100);
+
+ALTER TABLE "AvatarPersona" DROP CONSTRAINT IF EXISTS avatar_persona_llm_provider_check;
+ALTER TABLE "AvatarPersona"
+  ADD CONSTRAINT avatar_persona_llm_provider_check
+  CHECK (llm_provider IS NULL OR llm_provider IN ('openai', 'local', 'scripted'));
+
+COMMENT ON COLUMN "AvatarPersona".llm_provider IS 'LLM provider for this persona: openai, local (OpenAI-compatible endpoint) or scripted; NULL uses the server default';
+COMMENT ON COLUMN "AvatarPersona".llm_model IS 'Model name passed to the provider; NULL uses the provider default';
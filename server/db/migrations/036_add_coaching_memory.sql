@@ -0,0 +1,34 @@
+-- Migration: Long-term coaching memory
+-- Description: A rolling summary per user and coach, plus dated moments
+-- (injuries, goals, preferences, PRs, notable events) extracted from finished
+-- calls, so prompts carry what matters instead of every past transcript
+
+CREATE TABLE IF NOT EXISTS coaching_memory (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES "User"(id) NOT NULL,
+  avatar_id UUID REFERENCES "AvatarPersona"(id) NOT NULL,
+  summary TEXT,
+  summarized_through TIMESTAMPTZ, -- started_at of the last CallSession folded into the summary
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, avatar_id)
+);
+
+CREATE TABLE IF NOT EXISTS coaching_memory_moments (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES "User"(id) NOT NULL,
+  avatar_id UUID REFERENCES "AvatarPersona"(id) NOT NULL,
+  call_session_id UUID REFERENCES "CallSession"(id) ON DELETE SET NULL,
+  kind VARCHAR(20) NOT NULL, -- injury, goal, preference, pr, moment
+  content TEXT NOT NULL, -- "Left knee was sore after lunges"
+  occurred_at TIMESTAMPTZ NOT NULL,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coaching_memory_moments_user_avatar
+  ON coaching_memory_moments (user_id, avatar_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coaching_memory_moments_search
+  ON coaching_memory_moments USING GIN (search_vector);
+
+COMMENT ON TABLE coaching_memory IS 'Rolling LLM summary of all summarized calls between a user and a coach';
+COMMENT ON TABLE coaching_memory_moments IS 'Dated facts and moments from past calls, retrieved by relevance to the current message';
@@ -0,0 +1,22 @@
+-- Migration: Pre-synthesized coaching cues
+-- Description: Short clips (rep counts, countdowns, form corrections, set
+-- transitions) rendered once per persona voice so the client can play them
+-- instantly instead of waiting on LLM + TTS
+
+CREATE TABLE IF NOT EXISTS coach_cue_clips (
+  id SERIAL PRIMARY KEY,
+  avatar_id UUID REFERENCES "AvatarPersona"(id) ON DELETE CASCADE NOT NULL,
+  voice_id VARCHAR(100) NOT NULL, -- Clips are re-rendered when the persona's voice changes
+  cue_id VARCHAR(100) NOT NULL, -- e.g. reps_left:3, countdown:go, form:keep_your_knees_aligned
+  text TEXT NOT NULL,
+  audio_url TEXT NOT NULL,
+  alignment JSONB NOT NULL, -- { characters, start_seconds, end_seconds }
+  duration_seconds NUMERIC(6, 3),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(avatar_id, voice_id, cue_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_cue_clips_avatar ON coach_cue_clips(avatar_id, voice_id);
+
+COMMENT ON TABLE coach_cue_clips IS 'Per-persona library of pre-synthesized coaching cues played client-side without a TTS round trip';
+COMMENT ON COLUMN coach_cue_clips.alignment IS 'Character timings from TTS, used to drive visemes during playback';
@@ -0,0 +1,24 @@
+-- Migration: Per-persona TTS and STT providers
+-- Description: Lets each persona choose its speech engines - hosted
+-- (elevenlabs, openai) or local (piper, coqui, whisper_cpp, vosk) - and carry
+-- voice settings for each engine, so sessions can run offline. NULL falls back
+-- to the server default: the hosted engine when its API key is configured
+
+ALTER TABLE "AvatarPersona"
+  ADD COLUMN IF NOT EXISTS tts_provider VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS stt_provider VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS voice_settings JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE "AvatarPersona" DROP CONSTRAINT IF EXISTS avatar_persona_tts_provider_check;
+ALTER TABLE "AvatarPersona"
+  ADD CONSTRAINT avatar_persona_tts_provider_check
+  CHECK (tts_provider IS NULL OR tts_provider IN ('elevenlabs', 'piper', 'coqui'));
+
+ALTER TABLE "AvatarPersona" DROP CONSTRAINT IF EXISTS avatar_persona_stt_provider_check;
+ALTER TABLE "AvatarPersona"
+  ADD CONSTRAINT avatar_persona_stt_provider_check
+  CHECK (stt_provider IS NULL OR stt_provider IN ('openai', 'whisper_cpp', 'vosk'));
+
+COMMENT ON COLUMN "AvatarPersona".tts_provider IS 'TTS engine for this persona: elevenlabs, piper or coqui; NULL uses the server default';
+COMMENT ON COLUMN "AvatarPersona".stt_provider IS 'STT engine for this persona: openai, whisper_cpp or vosk; NULL uses the server default';
+COMMENT ON COLUMN "AvatarPersona".voice_settings IS 'Voice per engine, e.g. {"elevenlabs": {"voiceId": "..."}, "piper": {"voice": "en_US-ryan-high"}, "coqui": {"speakerId": "p226"}}; elevenlabs falls back to voice_id';
@@ -0,0 +1,25 @@
+-- Migration: Multilingual coaching sessions
+-- Description: Languages each persona can coach in (the user's language from
+-- user_fitness_profile.preferences.language is used when offered, otherwise
+-- the first one), and a language per pre-synthesized cue clip
+
+ALTER TABLE "AvatarPersona"
+  ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{en}';
+
+ALTER TABLE "AvatarPersona" DROP CONSTRAINT IF EXISTS avatar_persona_languages_check;
+ALTER TABLE "AvatarPersona"
+  ADD CONSTRAINT avatar_persona_languages_check
+  CHECK (cardinality(languages) > 0 AND languages <@ ARRAY['en', 'es', 'fr', 'de']);
+
+COMMENT ON COLUMN "AvatarPersona".languages IS 'ISO 639-1 codes this persona coaches in, first is the fallback';
+COMMENT ON COLUMN "AvatarPersona".voice_settings IS 'Voice per engine, e.g. {"elevenlabs": {"voiceId": "..."}, "piper": {"voice": "en_US-ryan-high"}}, with per-language overrides under "languages", e.g. {"languages": {"es": {"piper": {"voice": "es_ES-davefx-medium"}}}}; elevenlabs falls back to voice_id';
+
+ALTER TABLE coach_cue_clips
+  ADD COLUMN IF NOT EXISTS language VARCHAR(5) NOT NULL DEFAULT 'en';
+
+ALTER TABLE coach_cue_clips DROP CONSTRAINT IF EXISTS coach_cue_clips_avatar_id_voice_id_cue_id_key;
+ALTER TABLE coach_cue_clips
+  ADD CONSTRAINT coach_cue_clips_avatar_voice_language_cue_key UNIQUE (avatar_id, voice_id, language, cue_id);
+
+DROP INDEX IF EXISTS idx_coach_cue_clips_avatar;
+CREATE INDEX IF NOT EXISTS idx_coach_cue_clips_avatar ON coach_cue_clips(avatar_id, voice_id, language);
@@ -0,0 +1,30 @@
+-- Migration: Safety incidents
+-- Description: Pain, dizziness, injury statements and fall-like pose signals
+-- caught during a workout, with the risk level they were classified at and
+-- what the coach did about it
+
+CREATE TABLE IF NOT EXISTS safety_incidents (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES "User"(id),
+  avatar_id UUID REFERENCES "AvatarPersona"(id),
+  call_session_id UUID REFERENCES "CallSession"(id) ON DELETE SET NULL,
+  source VARCHAR(20) NOT NULL, -- speech, text, pose
+  risk_level VARCHAR(20) NOT NULL, -- caution, stop, emergency
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb, -- ["chest_pain", "dizziness"]
+  utterance TEXT, -- What the user said, for speech and text
+  signal JSONB, -- Pose signal details: {type: "collapse", dropRatio: 0.42}
+  exercise VARCHAR(50),
+  body_part VARCHAR(50),
+  side VARCHAR(10),
+  action VARCHAR(20) NOT NULL, -- noted, paused
+  resolution VARCHAR(20), -- resumed, ended
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safety_incidents_user
+  ON safety_incidents (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_safety_incidents_level
+  ON safety_incidents (risk_level, created_at DESC);
+
+COMMENT ON TABLE safety_incidents IS 'Risky moments detected during workouts by the coaching safety guard';
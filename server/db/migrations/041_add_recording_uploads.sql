@@ -0,0 +1,38 @@
+-- Migration: Recording uploads
+-- Description: In-flight session recordings as a state machine with a chunk
+-- manifest, so an upload survives a server restart, can be finished by any
+-- instance, and the client can resume by asking which chunks already arrived.
+-- The chunk files live under RECORDING_UPLOAD_DIR (shared between instances).
+
+CREATE TABLE IF NOT EXISTS recording_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL,
+  call_session_id UUID REFERENCES "CallSession"(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+  avatar_id UUID NOT NULL REFERENCES "AvatarPersona"(id) ON DELETE CASCADE,
+  mime_type TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'started'
+    CHECK (status IN ('started', 'receiving', 'assembling', 'processing', 'ready', 'failed')),
+  temp_dir TEXT NOT NULL,
+  server_id TEXT, -- Instance assembling the recording
+  last_chunk_index INTEGER, -- Reported by the client when it finishes
+  duration_sec INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS recording_upload_chunks (
+  recording_id UUID NOT NULL REFERENCES recording_uploads(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  sha256 CHAR(64) NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (recording_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_uploads_status
+  ON recording_uploads (status, updated_at);
+
+COMMENT ON TABLE recording_uploads IS 'Session recordings being uploaded, assembled and processed';
+COMMENT ON TABLE recording_upload_chunks IS 'Chunk manifest of a recording upload, with checksums';
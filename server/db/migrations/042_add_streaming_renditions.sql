@@ -0,0 +1,18 @@
+-- Migration: Streaming renditions
+-- Description: Adaptive HLS output for recordings and community posts: the
+-- master playlist of the rendition ladder, a full-size poster frame and the
+-- thumbnail sprite sheet used for scrubbing. video_url keeps the progressive
+-- MP4/WebM, which stays the download and playback fallback.
+
+ALTER TABLE "SessionRecording"
+  ADD COLUMN IF NOT EXISTS hls_url TEXT,
+  ADD COLUMN IF NOT EXISTS poster_url TEXT,
+  ADD COLUMN IF NOT EXISTS scrub_sprite JSONB; -- {url, interval, columns, rows, count, width, height}
+
+ALTER TABLE "CommunityPost"
+  ADD COLUMN IF NOT EXISTS hls_url TEXT,
+  ADD COLUMN IF NOT EXISTS poster_url TEXT,
+  ADD COLUMN IF NOT EXISTS scrub_sprite JSONB;
+
+COMMENT ON COLUMN "SessionRecording".hls_url IS 'HLS master playlist of the rendition ladder';
+COMMENT ON COLUMN "CommunityPost".hls_url IS 'HLS master playlist of the rendition ladder';
@@ -0,0 +1,32 @@
+-- Migration: Workout events and highlight reels
+-- Description: Timestamped reps, set completions and personal records from a
+-- workout, lined up against the session recording to cut highlight reels. A
+-- highlight is a SessionRecording of its own (highlight_of points at the full
+-- session), so it previews and publishes like any other recording.
+
+CREATE TABLE IF NOT EXISTS workout_events (
+  id BIGSERIAL PRIMARY KEY,
+  call_session_id UUID NOT NULL REFERENCES "CallSession"(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES "User"(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL
+    CHECK (event_type IN ('rep', 'set_complete', 'personal_record')),
+  exercise VARCHAR(255),
+  rep_count INTEGER,
+  form_score DECIMAL(3,2),
+  details JSONB, -- personal_record: {kind: "reps" | "weight", value, previous}
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_events_session
+  ON workout_events (call_session_id, occurred_at);
+
+ALTER TABLE "SessionRecording"
+  ADD COLUMN IF NOT EXISTS highlight_of UUID REFERENCES "SessionRecording"(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS highlight_moments JSONB; -- Clips the reel was cut from
+
+CREATE INDEX IF NOT EXISTS idx_session_recording_highlight_of
+  ON "SessionRecording" (highlight_of)
+  WHERE highlight_of IS NOT NULL;
+
+COMMENT ON TABLE workout_events IS 'Timestamped reps, set completions and personal records, for highlight reels';
+COMMENT ON COLUMN "SessionRecording".highlight_of IS 'Full session recording this highlight reel was cut from';
@@ -0,0 +1,18 @@
+-- Migration: Recording overlay tracks
+-- Description: The pose landmark timeline of a recording (and the rep count,
+-- exercise and form score shown with it), stored as a JSON sidecar next to
+-- the video. Players draw the skeleton overlay from it on demand, and it can
+-- be replayed through the rep counters for analysis. The upload row holds it
+-- until the SessionRecording row exists.
+
+ALTER TABLE recording_uploads
+  ADD COLUMN IF NOT EXISTS overlay_url TEXT;
+
+ALTER TABLE "SessionRecording"
+  ADD COLUMN IF NOT EXISTS overlay_url TEXT;
+
+ALTER TABLE "CommunityPost"
+  ADD COLUMN IF NOT EXISTS overlay_url TEXT;
+
+COMMENT ON COLUMN "SessionRecording".overlay_url IS 'JSON sidecar with the pose landmark and workout stats timeline';
+COMMENT ON COLUMN "CommunityPost".overlay_url IS 'JSON sidecar with the pose landmark and workout stats timeline';
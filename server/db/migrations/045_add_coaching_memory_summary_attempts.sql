@@ -0,0 +1,10 @@
+-- Migration: Coaching memory summary attempts
+-- Description: Which session the summary is stuck on and how many times its
+-- summary couldn't be parsed, so a session the LLM can't summarize is skipped
+-- after a few tries instead of holding back every later one
+
+ALTER TABLE coaching_memory
+  ADD COLUMN IF NOT EXISTS failed_session_id UUID,
+  ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN coaching_memory.failed_attempts IS 'Unparseable summaries of failed_session_id so far; reset once a session is summarized or skipped';
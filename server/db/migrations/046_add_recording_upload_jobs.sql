@@ -0,0 +1,9 @@
+-- Migration: Recording upload jobs
+-- Description: The transcode job that owns an upload once it's assembling,
+-- so the sweeper only fails uploads whose job is gone or has failed rather
+-- than ones still waiting in the queue
+
+ALTER TABLE recording_uploads
+  ADD COLUMN IF NOT EXISTS job_id UUID;
+
+COMMENT ON COLUMN recording_uploads.job_id IS 'Transcode job assembling and processing the upload';
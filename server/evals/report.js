@@ -0,0 +1,119 @@
+/**
+ * Eval report formatting and prompt-version diffs. A diff compares two
+ * reports from ./runner.js scenario by scenario: regressions (passed
+ * before, fail now), fixes, checks whose result changed, and scenarios
+ * whose wording changed without changing the result.
+ */
+
+function byId(results) {
+  return new Map(results.map(result => [result.id, result]));
+}
+
+function checkChanges(before, after) {
+  const previous = new Map(before.checks.map(check => [check.check, check]));
+  return after.checks
+    .filter(check => previous.get(check.check)?.passed !== check.passed)
+    .map(check => ({
+      check: check.check,
+      before: previous.get(check.check)?.detail ?? 'not run',
+      after: check.detail,
+      passed: check.passed
+    }));
+}
+
+/**
+ * Compare a baseline report with the current one
+ */
+export function diffReports(baseline, current) {
+  const before = byId(baseline.results);
+  const regressions = [];
+  const fixes = [];
+  const changed = [];
+  const added = [];
+
+  for (const result of current.results) {
+    const previous = before.get(result.id);
+    if (!previous) {
+      added.push(result.id);
+      continue;
+    }
+
+    const entry = {
+      id: result.id,
+      checks: checkChanges(previous, result),
+      before: previous.outputs,
+      after: result.outputs
+    };
+    if (previous.passed && !result.passed) {
+      regressions.push(entry);
+    } else if (!previous.passed && result.passed) {
+      fixes.push(entry);
+    } else if (JSON.stringify(previous.outputs) !== JSON.stringify(result.outputs)) {
+      changed.push(entry);
+    }
+  }
+
+  const currentIds = new Set(current.results.map(result => result.id));
+  return {
+    baseline: baseline.label,
+    current: current.label,
+    promptChanged: baseline.systemPrompt !== current.systemPrompt,
+    regressions,
+    fixes,
+    changed,
+    added,
+    removed: baseline.results.map(result => result.id).filter(id => !currentIds.has(id)),
+    summary: {
+      baseline: baseline.summary,
+      current: current.summary
+    }
+  };
+}
+
+export function formatReport(report) {
+  const lines = [`${report.label}: ${report.persona} on ${report.provider}`];
+  for (const result of report.results) {
+    lines.push(`  ${result.passed ? '✓' : '✗'} ${result.id}`);
+    for (const check of result.checks.filter(check => !check.passed)) {
+      lines.push(`      ${check.check}: ${check.detail}`);
+    }
+  }
+  lines.push(`  ${report.summary.passed}/${report.summary.total} passed`);
+  return lines.join('\n');
+}
+
+function formatEntry(entry) {
+  const lines = [`  ${entry.id}`];
+  for (const check of entry.checks) {
+    lines.push(`      ${check.check}: ${check.before} → ${check.after}`);
+  }
+  entry.before.forEach((output, index) => {
+    if (output !== entry.after[index]) {
+      lines.push(`      - ${output}`, `      + ${entry.after[index] ?? ''}`);
+    }
+  });
+  return lines.join('\n');
+}
+
+export function formatDiff(diff) {
+  const { baseline, current } = diff.summary;
+  const lines = [
+    `${diff.baseline} → ${diff.current}: ${baseline.passed}/${baseline.total} → ${current.passed}/${current.total} passed`
+  ];
+  if (!diff.promptChanged) {
+    lines.push('  (same system prompt)');
+  }
+  const sections = [
+    ['Regressions', diff.regressions],
+    ['Fixes', diff.fixes],
+    ['Changed wording', diff.changed]
+  ];
+  for (const [title, entries] of sections) {
+    if (entries.length) {
+      lines.push(`${title}:`, ...entries.map(formatEntry));
+    }
+  }
+  if (diff.added.length) lines.push(`New scenarios: ${diff.added.join(', ')}`);
+  if (diff.removed.length) lines.push(`Removed scenarios: ${diff.removed.join(', ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,237 @@
+/**
+ * Runs eval scenarios against a persona prompt. Conversation scenarios go
+ * through the safety guard and then generateLLMResponse with a stand-in
+ * socket and a live workout plan, so the persona prompt, language, safety
+ * handling and workout tool prompt are exactly what a session sends. A turn
+ * the guard answers itself scores its fixed script. Workout-event scenarios
+ * call the coach response handlers directly. Outputs are scored with
+ * ./checks.js.
+ *
+ * Scenario files (evals/scenarios/*.json):
+ *   { "id", "description", "kind": "conversation" | "workout_event",
+ *     "plan": { "exercises": [...] },         // conversation: plan the coach can change
+ *     "turns": ["user message", ...],         // conversation
+ *     "events": [{ "type": "form_correction", ... }],  // workout_event
+ *     "script": [{ "match", "reply", "toolCalls", "afterTools" }],  // scripted model only
+ *     "checks": { "maxWords": 25, ... } }
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { generateLLMResponse } from '../pipeline/llmResponder.js';
+import { getLLMProvider } from '../pipeline/llmProviders/index.js';
+import { createSafetyGuard, safeScript } from '../pipeline/safetyGuard.js';
+import { registerPersona, unregisterPersona } from '../personas/config.js';
+import { createWorkoutControl } from '../tools/workout-control.js';
+import {
+  generateFormCorrectionResponse,
+  generateMilestoneResponse,
+  generatePeriodicFeedbackResponse,
+  generatePlankEncouragementResponse,
+  generateSetCompletionResponse
+} from '../handlers/coachResponses.js';
+import { runChecks } from './checks.js';
+
+const EVALS_DIR = path.dirname(fileURLToPath(import.meta.url));
+export const SCENARIOS_DIR = path.join(EVALS_DIR, 'scenarios');
+export const DEFAULT_PERSONA_PATH = path.join(EVALS_DIR, 'personas', 'coach.json');
+
+// Workout event -> coach handler, with the event's fields as arguments
+const EVENT_HANDLERS = {
+  form_correction: (persona, event) =>
+    generateFormCorrectionResponse(persona, event.exercise, event.formScore, event.correction),
+  plank_encouragement: (persona, event) =>
+    generatePlankEncouragementResponse(persona, event.seconds),
+  milestone: (persona, event) =>
+    generateMilestoneResponse(persona, event.exercise, event.repCount, event.formScore),
+  set_completion: (persona, event) =>
+    generateSetCompletionResponse(persona, event.exercise, event.reps, event.formScore, event.fatigue),
+  periodic_feedback: (persona, event) =>
+    generatePeriodicFeedbackResponse(
+      persona,
+      event.exercise,
+      event.timeSeconds,
+      event.repCount,
+      event.avgFormScore,
+      event.progressRate,
+      event.fatigue
+    )
+};
+
+export function loadScenarios(dir = SCENARIOS_DIR, ids = []) {
+  const scenarios = fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+  return ids.length ? scenarios.filter(scenario => ids.includes(scenario.id)) : scenarios;
+}
+
+export function loadPersonaFile(personaPath = DEFAULT_PERSONA_PATH) {
+  return JSON.parse(fs.readFileSync(personaPath, 'utf8'));
+}
+
+// Scripted replies only apply to the scripted model; real models ignore them
+function prepareModel(providerName, scenario) {
+  if (providerName !== 'scripted') return;
+  const scripted = getLLMProvider('scripted');
+  scripted.reset();
+  // addRule puts a rule first, so add in reverse to keep the file's order
+  for (const rule of [...(scenario.script || [])].reverse()) {
+    scripted.addRule(rule);
+  }
+}
+
+// Just enough of a socket.io socket for generateLLMResponse
+function createEvalSocket(scenario, toolCalls) {
+  let plan = scenario.plan || null;
+  const socket = {
+    id: `eval-${scenario.id}`,
+    language: scenario.language || 'en',
+    events: [],
+    emit(event, payload) {
+      socket.events.push({ event, payload });
+    }
+  };
+
+  const control = createWorkoutControl({
+    socket,
+    getPlan: () => plan,
+    setPlan: (next) => { plan = next; },
+    getUserId: () => null
+  });
+
+  socket.workoutControl = {
+    ...control,
+    async execute(name, args) {
+      // Injuries would be saved to a user's profile; record the call only
+      const outcome = name === 'log_injury'
+        ? { ok: true, result: `Recorded ${[args?.side, args?.bodyPart].filter(Boolean).join(' ')} injury` }
+        : await control.execute(name, args);
+      toolCalls.push({ name, arguments: args, ok: outcome.ok, result: outcome.result });
+      return outcome;
+    }
+  };
+
+  return { socket, getPlan: () => plan };
+}
+
+// Stands in for the connection's utterance scheduler: the guard's fixed
+// lines (keyed "safety <script>") are recorded instead of spoken
+function createEvalScheduler(socket, spoken) {
+  return {
+    request({ key }) {
+      spoken.push(safeScript(key.replace(/^safety /, ''), socket.language));
+      return true;
+    },
+    clear() {},
+    holdOff() {}
+  };
+}
+
+async function runConversation(scenario, avatarId) {
+  const toolCalls = [];
+  const { socket, getPlan } = createEvalSocket(scenario, toolCalls);
+  const spoken = [];
+  const safetyGuard = createSafetyGuard({
+    socket,
+    scheduler: createEvalScheduler(socket, spoken),
+    getSession: () => ({ avatarId, userId: null, callSessionId: null })
+  });
+  const history = [];
+  const outputs = [];
+
+  for (const turn of scenario.turns || []) {
+    const safety = await safetyGuard.screenUtterance(turn, 'text');
+    const response = safety.handled
+      ? spoken.splice(0).join(' ')
+      : await generateLLMResponse(turn, avatarId, socket, null, null, [...history, ...safety.additionalContext]);
+    outputs.push(response);
+    history.push({ role: 'user', content: turn }, { role: 'assistant', content: response });
+  }
+
+  const safetyAlerts = socket.events
+    .filter(({ event }) => event === 'safety_alert')
+    .map(({ payload }) => payload);
+  return { outputs, toolCalls, safetyAlerts, finalPlan: getPlan() };
+}
+
+async function runWorkoutEvents(scenario, persona) {
+  const outputs = [];
+  for (const event of scenario.events || []) {
+    const handler = EVENT_HANDLERS[event.type];
+    if (!handler) {
+      throw new Error(`Unknown workout event "${event.type}" (known: ${Object.keys(EVENT_HANDLERS).join(', ')})`);
+    }
+    outputs.push(await handler(persona, event));
+  }
+  return { outputs, toolCalls: [], safetyAlerts: [] };
+}
+
+/**
+ * Run scenarios against one prompt version.
+ * @param {Array} scenarios - Parsed scenario files
+ * @param {Object} options
+ * @param {Object} options.persona - Persona to evaluate (name, systemPrompt, llmProvider, llmModel, ...)
+ * @param {string} [options.systemPrompt] - Prompt version to use instead of the persona's
+ * @param {string} [options.provider] - LLM provider to use instead of the persona's
+ * @param {string} [options.label] - Name of this prompt version in the report
+ * @returns {Promise<Object>} Report with per-scenario outputs, checks and a summary
+ */
+export async function runEvals(scenarios, { persona, systemPrompt, provider, label = 'current' } = {}) {
+  const avatarId = `eval:${label}`;
+  const providerName = provider || persona.llmProvider || 'scripted';
+  const evalPersona = {
+    ...persona,
+    systemPrompt: systemPrompt ?? persona.systemPrompt,
+    llmProvider: providerName
+  };
+  registerPersona(avatarId, evalPersona);
+
+  const results = [];
+  try {
+    for (const scenario of scenarios) {
+      prepareModel(providerName, scenario);
+      let run;
+      let error = null;
+      try {
+        run = scenario.kind === 'workout_event'
+          ? await runWorkoutEvents(scenario, { ...evalPersona, id: avatarId })
+          : await runConversation(scenario, avatarId);
+      } catch (runError) {
+        error = runError.message;
+        run = { outputs: [], toolCalls: [], safetyAlerts: [] };
+      }
+
+      const checks = error
+        ? [{ check: 'run', passed: false, detail: error }]
+        : runChecks(scenario.checks, {
+          responses: run.outputs,
+          toolCalls: run.toolCalls,
+          safetyAlerts: run.safetyAlerts
+        });
+      results.push({
+        id: scenario.id,
+        kind: scenario.kind || 'conversation',
+        description: scenario.description || '',
+        outputs: run.outputs,
+        toolCalls: run.toolCalls,
+        safetyAlerts: run.safetyAlerts,
+        checks,
+        passed: checks.every(check => check.passed)
+      });
+    }
+  } finally {
+    unregisterPersona(avatarId);
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    label,
+    persona: persona.name || persona.id || 'unknown',
+    provider: providerName,
+    systemPrompt: evalPersona.systemPrompt,
+    results,
+    summary: { total: results.length, passed, failed: results.length - passed }
+  };
+}
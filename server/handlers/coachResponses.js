@@ -1,5 +1,7 @@
 import { createCompletion } from "../pipeline/llmResponder.js";
+import { personaLLMOptions } from "../pipeline/llmProviders/index.js";
 import { logger } from "../lib/cloudwatch-logger.js";
+import { isHoldExercise } from "../constants/exercises.js";
 
 /**
  * Generate form correction response
@@ -18,7 +20,7 @@ export async function generateFormCorrectionResponse(persona, exercise, formScor
     persona.systemPrompt,
     prompt,
     {
-      model: persona.model || 'gpt-4o-mini',
+      ...personaLLMOptions(persona),
       maxTokens: 40,
       temperature: 0.7
     }
@@ -49,7 +51,7 @@ export async function generatePlankEncouragementResponse(persona, plankTimeSecon
     persona.systemPrompt,
     prompt,
     {
-      model: persona.model || 'gpt-4o-mini',
+      ...personaLLMOptions(persona),
       maxTokens: 40,
       temperature: 0.8
     }
@@ -68,7 +70,7 @@ export async function generateMilestoneResponse(persona, exercise, repCount, for
     persona.systemPrompt,
     prompt,
     {
-      model: persona.model || 'gpt-4o-mini',
+      ...personaLLMOptions(persona),
       maxTokens: 30,
       temperature: 0.8
     }
@@ -78,15 +80,18 @@ export async function generateMilestoneResponse(persona, exercise, repCount, for
 /**
  * Generate set completion celebration
  */
-export async function generateSetCompletionResponse(persona, exercise, reps, formScore) {
-  const prompt = `User just completed a full set of ${exercise}: ${reps} reps with ${Math.round(formScore * 100)}% average form score. ` +
+export async function generateSetCompletionResponse(persona, exercise, reps, formScore, fatigue = {}) {
+  let prompt = `User just completed a full set of ${exercise}: ${reps} reps with ${Math.round(formScore * 100)}% average form score. ` +
     `Give an enthusiastic celebration (15-20 words). Mention their specific achievement.`;
+  if (fatigue.isFatigued) {
+    prompt += ` Their rep speed dropped ${Math.round((fatigue.velocityLoss || 0) * 100)}% by the end of the set, so suggest taking the full rest.`;
+  }
   
   return await createCompletion(
     persona.systemPrompt,
     prompt,
     {
-      model: persona.model || 'gpt-4o-mini',
+      ...personaLLMOptions(persona),
       maxTokens: 50,
       temperature: 0.9
     }
@@ -96,13 +101,11 @@ export async function generateSetCompletionResponse(persona, exercise, reps, for
 /**
  * Generate time-based periodic feedback
  */
-import { EXERCISE } from '../constants/exercises.js';
-
-export async function generatePeriodicFeedbackResponse(persona, exercise, timeSeconds, repCount, avgFormScore, progressRate) {
+export async function generatePeriodicFeedbackResponse(persona, exercise, timeSeconds, repCount, avgFormScore, progressRate, fatigue = {}) {
   let prompt = '';
   
   // Special handling for planks (time-based exercise)
-  if (exercise === EXERCISE.PLANKS) {
+  if (isHoldExercise(exercise)) {
     if (avgFormScore < 0.6) {
       prompt = `User holding plank for ${timeSeconds}s with poor form. Give brief alignment tip (10-15 words).`;
     } else if (timeSeconds < 15) {
@@ -117,6 +120,8 @@ export async function generatePeriodicFeedbackResponse(persona, exercise, timeSe
   else {
     if (avgFormScore < 0.6) {
       prompt = `User doing ${exercise} for ${timeSeconds}s with poor form (${Math.round(avgFormScore * 100)}%). Give brief form tip (10-15 words).`;
+    } else if (fatigue.isFatigued) {
+      prompt = `User's ${exercise} reps have slowed ${Math.round((fatigue.velocityLoss || 0) * 100)}% after ${repCount} reps. Acknowledge the fatigue and prioritise controlled reps (10-15 words).`;
     } else if (progressRate < 10) {
       prompt = `User doing ${exercise} for ${timeSeconds}s. ${repCount} reps done. Encourage steady pace (10-15 words).`;
     } else if (progressRate > 40) {
@@ -139,7 +144,7 @@ export async function generatePeriodicFeedbackResponse(persona, exercise, timeSe
     persona.systemPrompt,
     prompt,
     {
-      model: persona.model || 'gpt-4o-mini',
+      ...personaLLMOptions(persona),
       maxTokens: 40,
       temperature: 0.8
     }
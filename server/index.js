@@ -45,7 +45,10 @@ import paymentsRouter from "./routes/payments.js";
 import purchaseRouter from "./routes/purchase.js";
 import recordingsRouter from "./routes/recordings.js";
 import watermarkRouter from "./routes/watermark.js";
-import { setupFeedNamespace } from "./sockets/feed.js";
+import { startJobWorkers } from "./services/jobQueue.js";
+import { registerMediaJobs } from "./services/mediaJobs.js";
+import { startRecordingUploadSweeper } from "./services/recordingUploads.js";
+import { emitJobEvent, setupFeedNamespace } from "./sockets/feed.js";
 // Socket namespaces
 import { setupMediaNamespace } from "./sockets/media.js";
 
@@ -211,6 +214,20 @@ async function startServer() {
         component: "websocket",
       });
 
+      // Fail abandoned recording uploads and remove their chunk files
+      startRecordingUploadSweeper();
+
+      // Background media jobs (transcodes, thumbnails, watermarks)
+      registerMediaJobs();
+      startJobWorkers({ onEvent: (job) => emitJobEvent(io, job) }).catch(
+        (error) => {
+          logger.error("Failed to start job workers", {
+            error: error.message,
+            component: "jobQueue",
+          });
+        },
+      );
+
       // Start system monitoring only in production
       if (process.env.NODE_ENV === "production") {
         const monitoringInterval =
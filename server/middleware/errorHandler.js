@@ -122,6 +122,11 @@ export const errorHandler = (err, req, res, next) => {
     statusCode = 413;
     code = 'PAYLOAD_TOO_LARGE';
     message = 'Request payload too large';
+  } else if (err.code === 'LIMIT_FILE_SIZE') {
+    // Multer upload over its fileSize limit
+    statusCode = 413;
+    code = 'PAYLOAD_TOO_LARGE';
+    message = 'Uploaded file too large';
   }
 
   // Log error with context
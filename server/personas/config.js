@@ -4,8 +4,23 @@ import pool from '../db/index.js';
 const personaCache = new Map();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+// Personas that live only in this process (eval runs), checked before the cache and DB
+const registeredPersonas = new Map();
+
+export function registerPersona(avatarId, persona) {
+  registeredPersonas.set(avatarId, { ...persona, id: avatarId });
+}
+
+export function unregisterPersona(avatarId) {
+  registeredPersonas.delete(avatarId);
+}
+
 // Fetches a single avatar persona from the database, with caching
 export async function getAvatarPersona(avatarId) {
+  if (registeredPersonas.has(avatarId)) {
+    return registeredPersonas.get(avatarId);
+  }
+
   // Check cache first
   const cached = personaCache.get(avatarId);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -14,7 +29,7 @@ export async function getAvatarPersona(avatarId) {
 
   // Try fetching from the database
   const query = `
-    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
+    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", llm_provider as "llmProvider", llm_model as "llmModel", tts_provider as "ttsProvider", stt_provider as "sttProvider", voice_settings as "voiceSettings", languages, pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
     FROM "AvatarPersona"
     WHERE id = $1;
   `;
@@ -36,7 +51,7 @@ export async function getAvatarPersona(avatarId) {
 
   // If not found, try to get the default persona
   const defaultQuery = `
-    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
+    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", llm_provider as "llmProvider", llm_model as "llmModel", tts_provider as "ttsProvider", stt_provider as "sttProvider", voice_settings as "voiceSettings", languages, pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
     FROM "AvatarPersona"
     WHERE name = 'AI Assistant';
   `;
@@ -57,7 +72,7 @@ export async function getAvatarPersona(avatarId) {
 // Fetches all avatar personas from the database
 export async function getAllPersonas() {
   const query = `
-    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
+    SELECT id, name, category, system_prompt as "systemPrompt", personality, voice_id as "voiceId", model_uri as "modelUri", llm_provider as "llmProvider", llm_model as "llmModel", tts_provider as "ttsProvider", stt_provider as "sttProvider", voice_settings as "voiceSettings", languages, pricing_per_min as "pricingPerMin", vision_enabled as "visionEnabled", vision_capture_interval as "visionCaptureInterval", reference_outfits as "referenceOutfits", meta
     FROM "AvatarPersona";
   `;
 
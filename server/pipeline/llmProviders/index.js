@@ -0,0 +1,81 @@
+import { logger } from "../../lib/cloudwatch-logger.js";
+import { createLocalProvider } from "./local.js";
+import { createOpenAIProvider } from "./openai.js";
+import { createScriptedProvider } from "./scripted.js";
+
+/**
+ * LLM providers take an OpenAI chat.completions request (messages, tools,
+ * tool_choice, stream, image_url content parts) and return an OpenAI-shaped
+ * completion, or an async iterable of completion chunks when streaming. An
+ * abort signal cancels the request, including a stream that is being read.
+ *
+ * @typedef {Object} LLMProvider
+ * @property {string} name
+ * @property {string} label - Name used in logs and alerts
+ * @property {string} defaultModel
+ * @property {{ tools: boolean, vision: boolean }} capabilities
+ * @property {(params: Object, options?: { signal?: AbortSignal }) => Promise<Object|AsyncIterable<Object>>} chat
+ *
+ * Selection, highest precedence first:
+ *   LLM_PROVIDER_OVERRIDE env - forces one provider for every persona (CI, dev)
+ *   AvatarPersona.llm_provider / llm_model - per persona
+ *   openai when OPENAI_API_KEY is set, otherwise scripted
+ */
+const PROVIDER_FACTORIES = {
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+  scripted: createScriptedProvider,
+};
+
+export const LLM_PROVIDERS = Object.keys(PROVIDER_FACTORIES);
+
+const providers = new Map();
+
+function defaultProviderName() {
+  return process.env.OPENAI_API_KEY ? "openai" : "scripted";
+}
+
+/**
+ * Get a provider instance by name; instances are created once and shared
+ */
+export function getLLMProvider(name = defaultProviderName()) {
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  if (!providers.has(name)) {
+    providers.set(name, factory());
+    logger.info("LLM provider initialized", {
+      provider: name,
+      component: "llmProviders",
+    });
+  }
+  return providers.get(name);
+}
+
+/**
+ * Resolve the provider and model for a request. A model asked for alongside a
+ * provider that the override replaced belongs to the other provider, so the
+ * override's default model is used instead.
+ */
+export function resolveLLM(providerName = null, model = null) {
+  const override = process.env.LLM_PROVIDER_OVERRIDE;
+  if (override) {
+    const provider = getLLMProvider(override);
+    const keepModel = providerName === override;
+    return { provider, model: (keepModel && model) || provider.defaultModel };
+  }
+
+  const provider = getLLMProvider(providerName || defaultProviderName());
+  return { provider, model: model || provider.defaultModel };
+}
+
+/**
+ * createCompletion options selecting a persona's configured provider and model
+ */
+export function personaLLMOptions(persona) {
+  return {
+    provider: persona?.llmProvider || null,
+    model: persona?.llmModel || null,
+  };
+}
@@ -0,0 +1,26 @@
+import OpenAI from "openai";
+
+/**
+ * Self-hosted model behind an OpenAI-compatible endpoint (Ollama, llama.cpp
+ * server, vLLM, LM Studio). Small local models often lack tool calling or
+ * image input, so both are opt-in via env and stripped by createCompletion
+ * when unsupported.
+ */
+export function createLocalProvider({
+  baseURL = process.env.LLM_LOCAL_BASE_URL || "http://localhost:11434/v1",
+  apiKey = process.env.LLM_LOCAL_API_KEY || "local",
+  defaultModel = process.env.LLM_LOCAL_MODEL || "llama3.1:8b",
+  tools = process.env.LLM_LOCAL_TOOLS !== "false",
+  vision = process.env.LLM_LOCAL_VISION === "true",
+} = {}) {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name: "local",
+    label: "Local LLM",
+    defaultModel,
+    capabilities: { tools, vision },
+    chat: (params, { signal } = {}) =>
+      client.chat.completions.create(params, { signal }),
+  };
+}
@@ -0,0 +1,21 @@
+import OpenAI from "openai";
+
+/**
+ * Hosted OpenAI chat completions. The OpenAI request/response shape is the
+ * lingua franca for every provider, so this adapter is a straight pass-through.
+ */
+export function createOpenAIProvider({
+  apiKey = process.env.OPENAI_API_KEY,
+  defaultModel = "gpt-4o-mini",
+} = {}) {
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+    label: "OpenAI",
+    defaultModel,
+    capabilities: { tools: true, vision: true },
+    chat: (params, { signal } = {}) =>
+      client.chat.completions.create(params, { signal }),
+  };
+}
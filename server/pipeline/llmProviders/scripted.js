@@ -0,0 +1,140 @@
+import fs from "fs";
+
+const DEFAULT_REPLY = "Sounds good, let's keep going.";
+
+// Text of a message whose content may be a string or multimodal parts
+function messageText(message) {
+  if (!message) return "";
+  if (Array.isArray(message.content)) {
+    return message.content
+      .filter((part) => part.type === "text")
+      .map((part) => part.text)
+      .join(" ");
+  }
+  return message.content || "";
+}
+
+function matches(rule, text, params) {
+  if (typeof rule.match === "function") return rule.match(text, params);
+  if (rule.match instanceof RegExp) return rule.match.test(text);
+  return text.toLowerCase().includes(String(rule.match).toLowerCase());
+}
+
+function loadScriptFile(scriptPath) {
+  if (!scriptPath) return [];
+  return JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+}
+
+function toToolCalls(toolCalls, callIndex) {
+  return toolCalls.map((call, index) => ({
+    id: `call_scripted_${callIndex}_${index}`,
+    type: "function",
+    function: {
+      name: call.name,
+      arguments: JSON.stringify(call.arguments || {}),
+    },
+  }));
+}
+
+// Replies word by word, then tool calls, then the finish reason; stops early
+// once the signal aborts
+async function* streamReply(model, id, content, toolCalls, signal) {
+  const chunk = (delta, finishReason = null) => ({
+    id,
+    object: "chat.completion.chunk",
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  yield chunk({ role: "assistant" });
+  for (const word of content.match(/\S+\s*/g) || []) {
+    if (signal?.aborted) return;
+    yield chunk({ content: word });
+  }
+  for (const [index, call] of toolCalls.entries()) {
+    yield chunk({ tool_calls: [{ index, ...call }] });
+  }
+  yield chunk({}, toolCalls.length > 0 ? "tool_calls" : "stop");
+}
+
+/**
+ * Deterministic stand-in for tests and offline runs. Replies come from rules
+ * matched against the latest user message, first match wins:
+ *   { match: "workout plan" | /regex/ | (text, params) => bool,
+ *     reply: "text", toolCalls: [{ name, arguments }], afterTools: "text" }
+ * When the request ends with tool results, the rule's afterTools is the reply.
+ * Rules can also be loaded from the JSON file at LLM_SCRIPT_PATH (string
+ * matches only). Every request is recorded in `calls` for assertions.
+ */
+export function createScriptedProvider({
+  rules = loadScriptFile(process.env.LLM_SCRIPT_PATH),
+  fallback = process.env.LLM_SCRIPT_FALLBACK || DEFAULT_REPLY,
+} = {}) {
+  const initialRules = [...rules];
+  let activeRules = [...rules];
+  const calls = [];
+
+  return {
+    name: "scripted",
+    label: "Scripted LLM",
+    defaultModel: "scripted",
+    capabilities: { tools: true, vision: true },
+    calls,
+
+    addRule(rule) {
+      activeRules.unshift(rule);
+    },
+
+    reset() {
+      activeRules = [...initialRules];
+      calls.length = 0;
+    },
+
+    async chat(params, { signal } = {}) {
+      calls.push(params);
+      const callIndex = calls.length;
+      const lastUser = [...params.messages]
+        .reverse()
+        .find((message) => message.role === "user");
+      const text = messageText(lastUser);
+      const rule = activeRules.find((candidate) =>
+        matches(candidate, text, params),
+      );
+
+      const afterTools = params.messages.at(-1)?.role === "tool";
+      const content = afterTools
+        ? (rule?.afterTools ?? fallback)
+        : (rule?.reply ?? (rule ? "" : fallback));
+      // Tool calls are only produced when the request offered and allows tools
+      const toolCalls =
+        rule?.toolCalls &&
+        params.tools &&
+        params.tool_choice !== "none" &&
+        !afterTools
+          ? toToolCalls(rule.toolCalls, callIndex)
+          : [];
+      const id = `chatcmpl-scripted-${callIndex}`;
+
+      if (params.stream) {
+        return streamReply(params.model, id, content, toolCalls, signal);
+      }
+
+      return {
+        id,
+        object: "chat.completion",
+        model: params.model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content,
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+            },
+            finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+          },
+        ],
+      };
+    },
+  };
+}
@@ -1,15 +1,22 @@
 import dotenv from "dotenv";
-import OpenAI from "openai";
 
+import { replyLanguageInstruction } from "../constants/languages.js";
 import pool from "../db/index.js";
 import { systemAlerts } from "../lib/alerting.js";
 import { logger } from "../lib/cloudwatch-logger.js";
 import { getAvatarPersona } from "../personas/config.js";
+import { personaLLMOptions, resolveLLM } from "./llmProviders/index.js";
 import {
   confirmPurchase,
   executePurchase,
   getTrendingProducts,
 } from "../tools/amazon-purchase.js";
+import { getMemoryContext } from "../services/coachingMemory.js";
+import {
+  getWorkoutTools,
+  isWorkoutTool,
+  workoutToolsPrompt,
+} from "../tools/workout-control.js";
 import { flags } from "../utils/feature-flags.js";
 import {
   EnhancedLLMContext,
@@ -19,14 +26,22 @@ import {
 
 dotenv.config();
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Replace image parts with a placeholder for providers without image input
+function stripVisionContent(messages) {
+  return messages.map((msg) => {
+    if (!Array.isArray(msg.content)) return msg;
+    const text = msg.content
+      .map((item) => (item.type === "text" ? item.text : "[image omitted]"))
+      .join("\n");
+    return { ...msg, content: text };
+  });
+}
 
-// **Helper function for common OpenAI completion logic**
+// **Helper function for common completion logic, routed to the LLM provider**
 export async function createCompletion(systemPrompt, userPrompt, options = {}) {
   const {
-    model = "gpt-4o-mini",
+    provider: providerName = null,
+    model: requestedModel = null,
     maxTokens = 50,
     temperature = 0.7,
     personaName = null,
@@ -34,10 +49,13 @@ export async function createCompletion(systemPrompt, userPrompt, options = {}) {
     messages = null,
     tools = null,
     tool_choice = null,
+    signal = null,
     ...otherOptions
   } = options;
 
-  const completionMessages = messages || [
+  const { provider, model } = resolveLLM(providerName, requestedModel);
+
+  let completionMessages = messages || [
     {
       role: "system",
       content: personaName
@@ -54,8 +72,16 @@ export async function createCompletion(systemPrompt, userPrompt, options = {}) {
       msg.content.some((item) => item.type === "image_url"),
   );
 
-  if (hasVisionContent) {
-    logger.info("[VISION] Sending vision request to OpenAI", {
+  if (hasVisionContent && !provider.capabilities.vision) {
+    logger.warn("[VISION] Provider has no image input, sending text only", {
+      provider: provider.name,
+      model,
+      component: "createCompletion",
+    });
+    completionMessages = stripVisionContent(completionMessages);
+  } else if (hasVisionContent) {
+    logger.info("[VISION] Sending vision request to LLM provider", {
+      provider: provider.name,
       model,
       messageCount: completionMessages.length,
       component: "createCompletion",
@@ -73,17 +99,18 @@ export async function createCompletion(systemPrompt, userPrompt, options = {}) {
       ...otherOptions,
     };
 
-    // Add tools if provided
-    if (tools) {
+    // Add tools if provided and the provider can call them
+    if (tools && provider.capabilities.tools) {
       completionParams.tools = tools;
       if (tool_choice) {
         completionParams.tool_choice = tool_choice;
       }
     }
 
-    completion = await openai.chat.completions.create(completionParams);
+    completion = await provider.chat(completionParams, { signal });
   } catch (apiError) {
-    logger.error("[VISION] OpenAI API error", {
+    logger.error("LLM provider error", {
+      provider: provider.name,
       error: apiError.message,
       status: apiError.status,
       data: apiError.response?.data,
@@ -109,14 +136,17 @@ async function generatePersonaResponse(
   fallbackResponse,
   options = {},
 ) {
+  let llmService = "LLM";
   try {
     const persona = await getAvatarPersona(avatarId);
     if (!persona) {
       return fallbackResponse;
     }
 
+    const llmOptions = { ...personaLLMOptions(persona), ...options };
+    llmService = resolveLLM(llmOptions.provider, llmOptions.model).provider.label;
     const response = await createCompletion(systemPrompt, userPrompt, {
-      ...options,
+      ...llmOptions,
       personaName: persona.name,
     });
 
@@ -131,54 +161,52 @@ async function generatePersonaResponse(
       },
     );
     if (options.alertOnError) {
-      systemAlerts.externalServiceError("OpenAI", error);
+      systemAlerts.externalServiceError(llmService, error);
     }
     return fallbackResponse;
   }
 }
 
 // **Helper function for fetching conversation history across all sessions**
-async function fetchConversationHistory(userId, avatarId) {
+// Long-term memory (summary, profile facts, relevant past moments) plus the
+// most recent turns, within the coaching memory token budget
+async function fetchConversationHistory(userId, avatarId, userMessage = "") {
   if (!userId || !avatarId) return [];
 
   try {
-    // Fetch ALL conversation history between this user and avatar
-    const historyResult = await pool.query(
-      `SELECT transcript, started_at 
-       FROM "CallSession" 
-       WHERE user_id = $1 
-       AND avatar_id = $2
-       AND transcript IS NOT NULL
-       ORDER BY started_at ASC;`,
-      [userId, avatarId],
-    );
-
-    // Combine all transcripts into a single conversation history
-    let combinedHistory = [];
-    let mostRecentImageMessage = null;
+    const query = Array.isArray(userMessage)
+      ? userMessage
+          .filter((item) => item.type === "text")
+          .map((item) => item.text)
+          .join(" ")
+      : userMessage;
+    const { memoryPrompt, recentTurns, sessionCount } =
+      await getMemoryContext({ userId, avatarId, query });
+
+    let combinedHistory = [...recentTurns];
     let mostRecentImageIndex = -1;
 
-    // First pass: collect all messages and find the most recent image
-    for (const session of historyResult.rows) {
-      if (session.transcript && Array.isArray(session.transcript)) {
-        for (let i = 0; i < session.transcript.length; i++) {
-          const msg = session.transcript[i];
-          combinedHistory.push(msg);
-
-          // Check if this message contains an image
-          if (
-            Array.isArray(msg.content) &&
-            msg.content.some((item) => item.type === "image_url")
-          ) {
-            mostRecentImageMessage = msg;
-            mostRecentImageIndex = combinedHistory.length - 1;
-          }
-        }
+    // First pass: find the most recent image
+    combinedHistory.forEach((msg, index) => {
+      if (
+        Array.isArray(msg.content) &&
+        msg.content.some((item) => item.type === "image_url")
+      ) {
+        mostRecentImageIndex = index;
       }
-    }
+    });
 
     // Second pass: strip out all images except the most recent one AND fix old object content
     combinedHistory = combinedHistory.map((msg, index) => {
+      // Turn ids and timestamps stay in the transcript; a reply cut off by the
+      // user is marked so the model knows the rest was never heard
+      if ("turnId" in msg || "interrupted" in msg || "timestamp" in msg) {
+        const { turnId, interrupted, timestamp, ...message } = msg;
+        msg = interrupted
+          ? { ...message, content: `${message.content} [interrupted by the user]` }
+          : message;
+      }
+
       // Fix old workout plan messages with object content (from before the fix)
       if (
         msg.content &&
@@ -246,13 +274,16 @@ async function fetchConversationHistory(userId, avatarId) {
     logger.info("Fetched cross-session history", {
       userId,
       avatarId,
-      sessionCount: historyResult.rows.length,
+      sessionCount,
       messageCount: combinedHistory.length,
-      hasRecentImage: mostRecentImageIndex >= combinedHistory.length - 100,
+      hasMemory: !!memoryPrompt,
+      hasRecentImage: mostRecentImageIndex >= 0,
       component: "llmResponder",
     });
 
-    return combinedHistory;
+    return memoryPrompt
+      ? [{ role: "system", content: memoryPrompt }, ...combinedHistory]
+      : combinedHistory;
   } catch (e) {
     logger.error("Error fetching conversation history", {
       error: e.message,
@@ -265,24 +296,35 @@ async function fetchConversationHistory(userId, avatarId) {
 }
 
 // **Helper function for updating conversation transcript**
+// A cut-off turn saves what the user heard, if the client reported it already
 async function updateTranscript(
   callSessionId,
   userMessage,
   fullResponse,
   isProactive,
+  turn = null,
 ) {
   if (!fullResponse || !callSessionId) return;
 
   try {
+    // Timestamped so highlight reels can find the line in the recording
+    const timestamp = new Date().toISOString();
+    const assistantEntry = {
+      role: "assistant",
+      content: turn?.spoken ?? fullResponse,
+      timestamp,
+      ...(turn && { turnId: turn.id }),
+      ...(turn?.spoken != null && { interrupted: true }),
+    };
     let transcriptUpdate;
     if (isProactive) {
       // Only save the assistant's response for proactive messages
-      transcriptUpdate = [{ role: "assistant", content: fullResponse }];
+      transcriptUpdate = [assistantEntry];
     } else {
       // Normal conversation - save both user and assistant messages
       transcriptUpdate = [
-        { role: "user", content: userMessage },
-        { role: "assistant", content: fullResponse },
+        { role: "user", content: userMessage, timestamp },
+        assistantEntry,
       ];
     }
 
@@ -306,6 +348,61 @@ async function updateTranscript(
   }
 }
 
+/**
+ * Replace a cut-off turn's assistant text in the transcript with the part the
+ * user actually heard
+ */
+export async function truncateTranscriptTurn(callSessionId, turnId, spokenText) {
+  if (!callSessionId || !turnId) return;
+
+  try {
+    await pool.query(
+      `UPDATE "CallSession"
+       SET transcript = (
+         SELECT jsonb_agg(
+           CASE WHEN entry->>'turnId' = $2
+             THEN entry || jsonb_build_object('content', $3::text, 'interrupted', true)
+             ELSE entry
+           END
+           ORDER BY position)
+         FROM jsonb_array_elements(transcript) WITH ORDINALITY AS t(entry, position)
+       )
+       WHERE id = $1 AND transcript @> $4::jsonb;`,
+      [callSessionId, turnId, spokenText, JSON.stringify([{ turnId }])],
+    );
+    logger.info("Transcript truncated to spoken text", {
+      callSessionId,
+      turnId,
+      spokenLength: spokenText.length,
+      component: "llmResponder",
+    });
+  } catch (e) {
+    logger.error("Error truncating transcript", {
+      error: e.message,
+      callSessionId,
+      turnId,
+      component: "llmResponder",
+    });
+  }
+}
+
+// Ends the stream quietly once its turn is cancelled; the provider throws
+// an abort error when the signal fires mid-read
+async function* untilCancelled(stream, turn) {
+  if (!turn) {
+    yield* stream;
+    return;
+  }
+  try {
+    for await (const chunk of stream) {
+      if (turn.signal.aborted) return;
+      yield chunk;
+    }
+  } catch (error) {
+    if (!turn.signal.aborted) throw error;
+  }
+}
+
 // **Helper function for handling streaming responses**
 async function handleStreamingResponse(
   stream,
@@ -315,12 +412,15 @@ async function handleStreamingResponse(
   callSessionId = null,
   persona = null,
   userId = null,
+  toolContext = null,
+  turn = null,
 ) {
   let fullResponse = "";
   let functionCall = null;
   let functionArgs = "";
+  const workoutCalls = []; // By tool call index; several can arrive in one turn
 
-  for await (const chunk of stream) {
+  for await (const chunk of untilCancelled(stream, turn)) {
     const delta = chunk.choices[0]?.delta;
 
     // Handle regular content
@@ -333,6 +433,7 @@ async function handleStreamingResponse(
         content,
         avatarId,
         complete: false,
+        turnId: turn?.id,
       });
 
       // Pass chunk to the stream handler if it exists
@@ -350,6 +451,19 @@ async function handleStreamingResponse(
       });
 
       for (const toolCall of delta.tool_calls) {
+        const index = toolCall.index ?? 0;
+        if (
+          workoutCalls[index] ||
+          (toolCall.function?.name && isWorkoutTool(toolCall.function.name))
+        ) {
+          workoutCalls[index] ||= {
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: "",
+          };
+          workoutCalls[index].arguments += toolCall.function?.arguments || "";
+          continue;
+        }
         if (toolCall.function) {
           if (toolCall.function.name) {
             functionCall = {
@@ -369,6 +483,23 @@ async function handleStreamingResponse(
       }
     }
 
+    // Workout tools change the plan, then the model confirms with the results
+    if (
+      chunk.choices[0]?.finish_reason === "tool_calls" &&
+      workoutCalls.length > 0 &&
+      !functionCall
+    ) {
+      fullResponse += await runWorkoutTools(
+        workoutCalls.filter(Boolean),
+        fullResponse,
+        socket,
+        avatarId,
+        streamHandler,
+        { ...toolContext, turn },
+      );
+      break;
+    }
+
     // Check for completion
     if (chunk.choices[0]?.finish_reason === "tool_calls" && functionCall) {
       // Parse function arguments
@@ -497,6 +628,7 @@ async function handleStreamingResponse(
         fullResponse,
         avatarId,
         complete: true,
+        turnId: turn?.id,
       });
       break; // Exit the loop after handling function call
     } else if (chunk.choices[0]?.finish_reason === "stop") {
@@ -509,6 +641,7 @@ async function handleStreamingResponse(
         fullResponse,
         avatarId,
         complete: true,
+        turnId: turn?.id,
       });
       logger.info("LLM response completed", {
         avatarId,
@@ -521,6 +654,93 @@ async function handleStreamingResponse(
   return fullResponse;
 }
 
+// Execute the coach's workout tool calls and stream its follow-up reply
+async function runWorkoutTools(
+  calls,
+  spokenSoFar,
+  socket,
+  avatarId,
+  streamHandler,
+  toolContext,
+) {
+  const toolMessages = [];
+  for (const call of calls) {
+    let args = {};
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch (parseError) {
+      logger.error("Failed to parse workout tool arguments", {
+        error: parseError.message,
+        tool: call.name,
+        functionArgs: call.arguments,
+        component: "llmResponder",
+      });
+    }
+    const outcome = socket.workoutControl
+      ? await socket.workoutControl.execute(call.name, args)
+      : { ok: false, result: "There is no workout in progress" };
+    logger.info("Workout tool executed", {
+      tool: call.name,
+      ok: outcome.ok,
+      avatarId,
+      component: "llmResponder",
+    });
+    toolMessages.push({
+      role: "tool",
+      tool_call_id: call.id,
+      content: JSON.stringify(outcome),
+    });
+  }
+
+  try {
+    const followUp = await createCompletion(null, null, {
+      ...toolContext.completionOptions,
+      messages: [
+        ...toolContext.messages,
+        {
+          role: "assistant",
+          content: spokenSoFar || null,
+          tool_calls: calls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: call.arguments || "{}" },
+          })),
+        },
+        ...toolMessages,
+      ],
+      // One round of tools per turn
+      tool_choice: "none",
+    });
+    return await handleStreamingResponse(
+      followUp,
+      socket,
+      avatarId,
+      streamHandler,
+      null,
+      null,
+      null,
+      null,
+      toolContext.turn,
+    );
+  } catch (error) {
+    logger.error("Workout tool follow-up failed", {
+      error: error.message,
+      avatarId,
+      component: "llmResponder",
+    });
+    if (streamHandler?.onComplete) {
+      await streamHandler.onComplete();
+    }
+    socket.emit("llm_response_complete", {
+      fullResponse: spokenSoFar,
+      avatarId,
+      complete: true,
+      turnId: toolContext.turn?.id,
+    });
+    return "";
+  }
+}
+
 // **NEW: Interruption Response Generator**
 export async function generateInterruptionResponse(
   avatarId,
@@ -635,14 +855,30 @@ export async function generateLLMResponse(
     component: "llmResponder",
   });
 
+  // A new reply cancels one still being generated, and a barge-in cancels
+  // the LLM stream, TTS and client audio together (see turnManager.js)
+  const turn =
+    socket.turns?.begin({
+      kind: isProactive ? "proactive" : "reply",
+      callSessionId,
+    }) || null;
+  streamHandler?.bindTurn?.(turn);
+
+  let llmService = "LLM";
   try {
     const persona = await getAvatarPersona(avatarId);
     if (!persona) {
       throw new Error(`Avatar persona not found for ID: ${avatarId}`);
     }
+    const llmOptions = personaLLMOptions(persona);
+    llmService = resolveLLM(llmOptions.provider, llmOptions.model).provider.label;
 
     // Fetch conversation history across all sessions
-    const history = await fetchConversationHistory(userId, avatarId);
+    const history = await fetchConversationHistory(
+      userId,
+      avatarId,
+      userMessage,
+    );
 
     // Build messages with system prompt, history, additional context, and user message
     let systemPromptContent = persona.systemPrompt;
@@ -653,6 +889,18 @@ export async function generateLLMResponse(
       systemPromptContent,
     );
 
+    // Reply in the session language (set on the socket at init_session)
+    systemPromptContent += replyLanguageInstruction(socket.language);
+
+    // During a workout the coach can change the plan (see tools/workout-control.js)
+    const workoutControl =
+      !isProactive && socket.workoutControl?.isActive()
+        ? socket.workoutControl
+        : null;
+    if (workoutControl) {
+      systemPromptContent += workoutToolsPrompt(workoutControl.describePlan());
+    }
+
 
     const messages = [
       {
@@ -678,10 +926,9 @@ export async function generateLLMResponse(
       });
     }
 
-    socket.emit("llm_response_start", { avatarId });
+    socket.emit("llm_response_start", { avatarId, turnId: turn?.id });
 
-    // Log the messages being sent to OpenAI
-    logger.info("Sending to OpenAI", {
+    logger.info(`Sending to ${llmService}`, {
       messageCount: messages.length,
       lastMessageType: typeof messages[messages.length - 1].content,
       hasImageInLastMessage:
@@ -692,7 +939,7 @@ export async function generateLLMResponse(
       component: "llmResponder",
     });
 
-    // DEBUG: Log all messages being sent to OpenAI to find object content
+    // DEBUG: Log all messages being sent to the LLM to find object content
     messages.forEach((msg, index) => {
       if (
         msg.content &&
@@ -714,17 +961,23 @@ export async function generateLLMResponse(
 
     // Prepare completion options
     const completionOptions = {
+      ...llmOptions,
       stream: true,
       temperature: 0.7,
       maxTokens: 500,
       presence_penalty: 0.1,
       frequency_penalty: 0.1,
       messages: messages,
+      signal: turn?.signal,
     };
 
     // Add tools based on avatar category and feature flags
     const tools = [];
 
+    if (workoutControl) {
+      tools.push(...getWorkoutTools());
+    }
+
 
     // Add Amazon purchase tools if feature is enabled
     if (flags.FEAT_AMAZON_PURCHASE_ENABLED) {
@@ -807,9 +1060,22 @@ DO NOT attempt verbal purchases or direct payment processing. The modal system h
         callSessionId,
         persona,
         userId,
+        { messages, completionOptions },
+        turn,
       ),
       timeoutPromise,
     ]);
+    socket.turns?.finish(turn);
+
+    if (turn?.signal.aborted) {
+      socket.emit("llm_response_complete", {
+        fullResponse,
+        avatarId,
+        complete: true,
+        turnId: turn.id,
+        cancelled: true,
+      });
+    }
 
     // Update transcript using helper
     await updateTranscript(
@@ -817,10 +1083,17 @@ DO NOT attempt verbal purchases or direct payment processing. The modal system h
       userMessage,
       fullResponse,
       isProactive,
+      turn,
     );
 
     return fullResponse;
   } catch (error) {
+    socket.turns?.finish(turn);
+    // Cancelled before the stream started; the barge-in already handled it
+    if (turn?.signal.aborted) {
+      return "";
+    }
+
     logger.error("LLM response generation failed", {
       error: error.message,
       errorStack: error.stack,
@@ -831,7 +1104,7 @@ DO NOT attempt verbal purchases or direct payment processing. The modal system h
         userMessage.some((item) => item.type === "image_url"),
       component: "llmResponder",
     });
-    systemAlerts.externalServiceError("OpenAI", error);
+    systemAlerts.externalServiceError(llmService, error);
     socket.emit("llm_response_error", {
       error: "Failed to generate response",
       avatarId,
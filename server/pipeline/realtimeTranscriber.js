@@ -1,64 +1,45 @@
 import dotenv from "dotenv";
-import WebSocket from "ws";
 
 import { generateLLMResponse } from "./llmResponder.js";
+import {
+  INPUT_SAMPLE_RATE,
+  estimateSTTCost,
+  resolveSTT,
+} from "./sttProviders/index.js";
 import { createStreamingTTSCallback } from "./ttsSynth.js";
 import { logger } from "../lib/cloudwatch-logger.js";
+import { getAvatarPersona } from "../personas/config.js";
 
 dotenv.config();
 
-// This config is based on your provided code.
-const OPEN_AI_REALTIME_TRANSCRIPTION_CONFIG = {
-  type: "transcription_session.update",
-  session: {
-    input_audio_format: "pcm16",
-    input_audio_transcription: {
-      model: "gpt-4o-transcribe",
-      language: "en",
-    },
-    turn_detection: {
-      type: "server_vad",
-      threshold: 0.3,
-      prefix_padding_ms: 300,
-      silence_duration_ms: 500, // Reduced for more responsive feel
-    },
-  },
-};
-
-export async function createRealtimeTranscriber(clientSocket, avatarId, callSessionId, userId = null) {
-  // IMPORTANT: This URL is a placeholder. You must replace it with the actual URL from your other project.
-  const REALTIME_URL =
-    process.env.OPEN_AI_REALTIME_TRANSCRIPTION_URL ||
-    "wss://api.openai.com/v1/realtime?intent=transcription";
-
-  const serviceWs = new WebSocket(REALTIME_URL, {
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      "OpenAI-Beta": "realtime=v1", // Custom header from your reference
-    },
-  });
+// onUserSpeaking(true/false) follows the STT engine's voice activity detection
+// onBargeIn() runs when the user talks over the avatar, before the client hears of it
+export async function createRealtimeTranscriber(clientSocket, avatarId, callSessionId, userId = null, { onUserSpeaking = () => {}, onBargeIn = () => {}, screenUtterance = async () => ({ handled: false, additionalContext: [] }), language = "en" } = {}) {
+  const persona = await getAvatarPersona(avatarId);
+  const provider = resolveSTT(persona);
 
   let transcription = "";
   let lastFinalTranscript = "";
   let avatarSpeaking = false; // Track if avatar is currently speaking
-
-  serviceWs.on("open", () => {
-    logger.info('Transcription service connected', { component: 'realtimeTranscriber' });
-    logger.info('Sending transcription_session.update config', { component: 'realtimeTranscriber' });
-    serviceWs.send(JSON.stringify(OPEN_AI_REALTIME_TRANSCRIPTION_CONFIG));
-  });
-
-  serviceWs.on("message", async (data) => {
-    const message = JSON.parse(data.toString());
-
-    if (message.type === "conversation.item.input_audio_transcription.delta") {
-      logger.info('Partial delta received', { delta: message.delta, component: 'realtimeTranscriber' });
-      transcription += message.delta;
+  let audioBytes = 0; // For usage/cost reporting
+
+  const handleEvent = async (event) => {
+    if (event.type === "speech_started") {
+      onUserSpeaking(true);
+    } else if (event.type === "speech_stopped") {
+      onUserSpeaking(false);
+    } else if (event.type === "error") {
+      logger.error('Transcription service error', { error: event.error?.message, provider: provider.name, component: 'realtimeTranscriber' });
+      clientSocket.emit("error", { message: "Transcription service error." });
+    } else if (event.type === "partial") {
+      logger.info('Partial transcript received', { text: event.text, component: 'realtimeTranscriber' });
+      transcription = event.text;
       clientSocket.emit("transcription_partial", { text: transcription });
       
       // **INTERRUPTION DETECTION**: Check if avatar is speaking and user just started
       if (avatarSpeaking && transcription.trim().length > 2) {
         logger.info('User spoke while avatar was speaking', { transcription, component: 'realtimeTranscriber' });
+        onBargeIn();
         clientSocket.emit("user_spoke", { 
           partialTranscript: transcription,
           interruptionType: "during_speech"
@@ -66,19 +47,13 @@ export async function createRealtimeTranscriber(clientSocket, avatarId, callSess
         avatarSpeaking = false; // Reset flag
       }
       
-    } else if (
-      message.type === "conversation.item.input_audio_transcription.completed"
-    ) {
-      logger.info('Accumulated transcription from deltas', { transcription, component: 'realtimeTranscriber' });
-      logger.info('Official final transcription from OpenAI', { transcription: message.transcription || "", component: 'realtimeTranscriber' });
+    } else if (event.type === "final") {
+      logger.info('Final transcription from STT provider', { transcription: event.text, provider: provider.name, component: 'realtimeTranscriber' });
 
       const normalize = (t) => t.toLowerCase().replace(/[^a-z0-9]/g, "");
 
-      let finalTranscription = (message.transcription || "").trim();
-      if (!finalTranscription) {
-        // Fallback to accumulated deltas if service didn't include transcript
-        finalTranscription = transcription.trim();
-      }
+      // Fallback to the partial transcript if the engine returned nothing
+      let finalTranscription = (event.text || "").trim() || transcription.trim();
 
       if (!finalTranscription) {
         logger.info('Empty transcript – skipping LLM/TTS pipeline', { component: 'realtimeTranscriber' });
@@ -102,6 +77,13 @@ export async function createRealtimeTranscriber(clientSocket, avatarId, callSess
       logger.info('Passing transcript to LLM and TTS pipeline', { component: 'realtimeTranscriber' });
       clientSocket.emit("transcription_final", { text: finalTranscription });
 
+      // Pain or injury: the safety guard answers instead of the LLM
+      const safety = await screenUtterance(finalTranscription);
+      if (safety.handled) {
+        transcription = "";
+        return;
+      }
+
       if (finalTranscription.trim()) {
         const ttsCallback = createStreamingTTSCallback(avatarId, clientSocket);
         
@@ -144,7 +126,7 @@ export async function createRealtimeTranscriber(clientSocket, avatarId, callSess
           clientSocket,
           callSessionId,
           ttsCallback,
-          [],    // additionalContext
+          safety.additionalContext,
           false, // isProactive
           userId // pass userId for cross-session history
         );
@@ -157,60 +139,41 @@ export async function createRealtimeTranscriber(clientSocket, avatarId, callSess
       // Reset for the next turn
       transcription = "";
     }
-  });
+  };
 
-  serviceWs.on("error", (error) => {
-    logger.error('Transcription service error', { error: error.message, component: 'realtimeTranscriber' });
-    clientSocket.emit("error", { message: "Transcription service error." });
+  const stream = provider.createStream({
+    language,
+    sampleRate: INPUT_SAMPLE_RATE,
+    onEvent: (event) => {
+      handleEvent(event).catch((error) => {
+        logger.error('Error handling transcription event', { error: error.message, type: event.type, component: 'realtimeTranscriber' });
+      });
+    },
   });
 
-  serviceWs.on("close", (code, reason) => {
-    logger.info('Transcription service disconnected', { 
-      code, 
-      reason: reason.toString(), 
-      component: 'realtimeTranscriber' 
-    });
-  });
+  logger.info('Transcriber created', { provider: provider.name, avatarId, language, component: 'realtimeTranscriber' });
 
   return {
     send: (audioData) => {
-      if (serviceWs.readyState === WebSocket.OPEN) {
-        // console.log(`[Transcriber] Forwarding audio chunk to OpenAI realtime service. size=${audioData?.byteLength || audioData?.length}`);
-        // The reference code sends base64 encoded audio
-        serviceWs.send(
-          JSON.stringify({
-            type: "input_audio_buffer.append",
-            audio: Buffer.from(audioData).toString("base64"),
-          }),
-        );
-      }
+      audioBytes += audioData?.byteLength || audioData?.length || 0;
+      stream.send(audioData);
+    },
+    setLanguage: (nextLanguage) => {
+      stream.setLanguage(nextLanguage);
     },
     // Add method to manually set avatar speaking state
     setAvatarSpeaking: (speaking) => {
       avatarSpeaking = speaking;
     },
     close: () => {
+      const audioSeconds = audioBytes / 2 / INPUT_SAMPLE_RATE;
       logger.info('Close called', { 
-        webSocketReadyState: serviceWs.readyState, 
+        provider: provider.name,
+        audioSeconds: Math.round(audioSeconds),
+        estimatedCostUsd: Number(estimateSTTCost(provider, audioSeconds).toFixed(4)),
         component: 'realtimeTranscriber' 
       });
-      if (serviceWs.readyState === WebSocket.CONNECTING) {
-        logger.info('WebSocket is still connecting. Will close on open', { component: 'realtimeTranscriber' });
-        serviceWs.once("open", () => {
-          logger.info('WebSocket opened, now closing as requested', { component: 'realtimeTranscriber' });
-          serviceWs.send(JSON.stringify({ type: "CloseStream" }));
-          serviceWs.close();
-        });
-      } else if (serviceWs.readyState === WebSocket.OPEN) {
-        logger.info('WebSocket is open. Closing now', { component: 'realtimeTranscriber' });
-        serviceWs.send(JSON.stringify({ type: "CloseStream" }));
-        serviceWs.close();
-      } else {
-        logger.info('WebSocket is in state - no action taken', { 
-          webSocketReadyState: serviceWs.readyState, 
-          component: 'realtimeTranscriber' 
-        });
-      }
+      stream.close();
     },
   };
 }
@@ -0,0 +1,469 @@
+import { DEFAULT_LANGUAGE } from "../constants/languages.js";
+import { logger } from "../lib/cloudwatch-logger.js";
+import { recordProfileFacts } from "../services/coachingMemory.js";
+import {
+  recordSafetyIncident,
+  resolveSafetyIncident,
+} from "../services/safetyIncidents.js";
+import { createStreamingTTSCallback } from "./ttsSynth.js";
+
+/**
+ * Safety layer for workout coaching. User utterances (speech and chat) and
+ * pose signals from the client (sudden collapse, no movement after a fall)
+ * are classified into risk levels:
+ *
+ * - caution: soreness or mild discomfort; the LLM answers with a safety
+ *   instruction added to its context
+ * - stop: pain, dizziness, a pop or twist; the workout is paused and the
+ *   coach switches to a fixed script until the user resumes or ends it.
+ *   Pain in one named body part with nothing acute about it is the
+ *   exception: the LLM answers, told to log it and change the plan with the
+ *   workout tools
+ * - emergency: chest pain, trouble breathing, fainting, no movement after a
+ *   fall; as stop, with a script that points to emergency services
+ *
+ * Every non-trivial assessment is logged to safety_incidents, and injuries
+ * with a body part go into user_fitness_profile.injuries.
+ */
+
+export const RISK_LEVELS = {
+  none: 0,
+  caution: 1,
+  stop: 2,
+  emergency: 3,
+};
+
+// Words that cancel the symptom after them: "no pain", "not dizzy", "doesn't hurt"
+const NEGATION =
+  /\b(no|not|never|without|isn't|doesn't|don't|didn't|wasn't|sin|ningún|ninguna|pas|kein|keine|nicht)\b(\s+[\p{L}']+){0,2}/giu;
+
+// [reason, level, pattern]; English plus the other session languages
+const UTTERANCE_RULES = [
+  [
+    "chest_pain",
+    "emergency",
+    /\b(chest|heart)\b.{0,20}\b(pain|hurts?|hurting|tight|tightness|pressure)\b|\b(pain|tightness|pressure)\b.{0,15}\bchest\b|dolor (en el |de )?pecho|douleur (à la |dans la )?poitrine|brustschmerz|schmerzen in der brust/iu,
+  ],
+  [
+    "breathing",
+    "emergency",
+    /\b(can'?t|cannot|can not|unable to|trouble|difficulty|hard to|struggling to)\s+breath(e|ing)\b|no puedo respirar|je n'arrive pas à respirer|bekomme keine luft|kann nicht atmen/iu,
+  ],
+  [
+    "fainting",
+    "emergency",
+    /\b(faint(ed|ing)?|pass(ed|ing)? out|black(ed|ing)? out|about to collapse)\b|desmay|m'évanouir|évanoui|ohnmächtig/iu,
+  ],
+  [
+    "numbness",
+    "emergency",
+    /\b(arm|face|left side)\b.{0,15}\b(numb|tingling)\b|\bnumb(ness)?\b.{0,15}\b(arm|face)\b/iu,
+  ],
+  [
+    "dizziness",
+    "stop",
+    /\b(dizzy|dizziness|light-? ?headed|room is spinning|vertigo|nauseous|nausea|going to (throw up|be sick)|gonna (throw up|puke))\b|mareado|mareada|mareo|vertige|étourdi|schwindel/iu,
+  ],
+  [
+    "acute_injury",
+    "stop",
+    /\b(heard|felt) (a |something )?(pop|snap|crack)\b|\b(popped|snapped|sprained|twisted|rolled|tore|torn|pulled|strained|tweaked|injured|hurt) (my|it)\b|\bi (fell|fell over|fell down)\b|me (he )?(torcido|lesionado)|je me suis (blessé|tordu)|ich habe mich verletzt|umgeknickt/iu,
+  ],
+  [
+    "pain",
+    "stop",
+    /\b(pain|painful|hurts?|hurting)\b|\bdolor\b|\bduele\b|\bdouleur\b|\bj'ai mal\b|\bschmerz(en)?\b|\btut\b.{0,30}\bweh\b/iu,
+  ],
+  [
+    "discomfort",
+    "caution",
+    /\b(sore|soreness|ache|aching|achy|twinge|uncomfortable|discomfort|strain)\b|molesti|inconfort|unangenehm/iu,
+  ],
+];
+
+// "a little", "slightly": pain downgraded to caution
+const MILD_QUALIFIER =
+  /\b(a (little|bit|tad)|slight(ly)?|kind of|kinda|sort of|mild(ly)?)\b|un poco|un peu|ein bisschen|etwas/iu;
+
+// English names used in user_fitness_profile.injuries; other languages map to
+// them. Specific parts first so "knee" wins over a passing "back"
+const BODY_PARTS = [
+  ["neck", /\bneck\b|cuello|\bcou\b|nacken|hals/iu],
+  ["shoulder", /\bshoulders?\b|hombro|épaule|schulter/iu],
+  ["elbow", /\belbows?\b|codo|coude|ellbogen|ellenbogen/iu],
+  ["wrist", /\bwrists?\b|muñeca|poignet|handgelenk/iu],
+  ["hip", /\bhips?\b|cadera|hanche|hüfte/iu],
+  ["hamstring", /\bhamstrings?\b|isquio|ischio/iu],
+  ["groin", /\bgroin\b|ingle|\baine\b|leiste/iu],
+  ["knee", /\bknees?\b|rodilla|genou|knie/iu],
+  ["calf", /\bcal(f|ves)\b|pantorrilla|mollet|wade/iu],
+  ["ankle", /\bankles?\b|tobillo|cheville|knöchel|sprunggelenk/iu],
+  ["foot", /\bfoot\b|\bfeet\b|\bpie\b|\bpied\b|\bfu(ß|ss)/iu],
+  ["lower back", /\blower back\b|espalda baja|lumbar|bas du dos|unterer rücken|kreuz/iu],
+  // "back" alone is too common ("back down", "I'm back")
+  ["back", /\b(my|the) back\b|espalda|\b(mon|le|du) dos\b|rücken/iu],
+  ["chest", /\bchest\b|pecho|poitrine|brust/iu],
+  ["head", /\bhead\b|cabeza|\btête\b|\bkopf\b/iu],
+];
+
+const SIDES = [
+  ["left", /\bleft\b|izquierd|gauche|\blinke?[nrs]?\b/iu],
+  ["right", /\bright\b|derech|droit|\brechte?[nrs]?\b/iu],
+];
+
+const SEVERITY_BY_LEVEL = {
+  caution: "mild",
+  stop: "moderate",
+  emergency: "severe",
+};
+
+// Fixed lines the coach says instead of an LLM reply while a risk is active
+const SAFE_SCRIPTS = {
+  en: {
+    stop: "Let's stop right there. I've paused your workout. Sit or lie down somewhere safe and take slow breaths. Don't push through pain. When you feel okay, tap I'm OK to carry on, or end the workout.",
+    emergency:
+      "Stop exercising now and sit or lie down somewhere safe. I've paused your workout. If you have chest pain, trouble breathing or feel faint, call your local emergency number right away.",
+    collapse:
+      "Are you okay? I've paused your workout. Stay still for a moment, then tap I'm OK when you're ready, or end the workout.",
+    hold: "Your workout is paused for safety. Take your time. Tap I'm OK to carry on, or end the workout. If symptoms get worse, call your local emergency number.",
+  },
+  es: {
+    stop: "Paremos aquí. He pausado tu entrenamiento. Siéntate o túmbate en un lugar seguro y respira despacio. No sigas con dolor. Cuando te sientas bien, toca Estoy bien para continuar, o termina el entrenamiento.",
+    emergency:
+      "Deja de hacer ejercicio ahora y siéntate o túmbate en un lugar seguro. He pausado tu entrenamiento. Si tienes dolor en el pecho, te cuesta respirar o te sientes a punto de desmayarte, llama ya al número de emergencias.",
+    collapse:
+      "¿Estás bien? He pausado tu entrenamiento. Quédate quieto un momento y toca Estoy bien cuando estés listo, o termina el entrenamiento.",
+    hold: "Tu entrenamiento está en pausa por seguridad. Tómate tu tiempo. Toca Estoy bien para continuar, o termina el entrenamiento. Si los síntomas empeoran, llama al número de emergencias.",
+  },
+  fr: {
+    stop: "On s'arrête là. J'ai mis ta séance en pause. Assieds-toi ou allonge-toi dans un endroit sûr et respire lentement. Ne force pas sur la douleur. Quand tu te sens mieux, appuie sur Ça va pour continuer, ou termine la séance.",
+    emergency:
+      "Arrête l'exercice maintenant et assieds-toi ou allonge-toi dans un endroit sûr. J'ai mis ta séance en pause. Si tu as mal à la poitrine, du mal à respirer ou que tu te sens partir, appelle immédiatement les urgences.",
+    collapse:
+      "Ça va ? J'ai mis ta séance en pause. Reste immobile un instant, puis appuie sur Ça va quand tu es prêt, ou termine la séance.",
+    hold: "Ta séance est en pause par sécurité. Prends ton temps. Appuie sur Ça va pour continuer, ou termine la séance. Si les symptômes empirent, appelle les urgences.",
+  },
+  de: {
+    stop: "Lass uns hier aufhören. Ich habe dein Training pausiert. Setz oder leg dich an einen sicheren Ort und atme langsam. Trainiere nicht gegen Schmerzen an. Wenn es dir besser geht, tippe auf Mir geht's gut, um weiterzumachen, oder beende das Training.",
+    emergency:
+      "Hör jetzt mit dem Training auf und setz oder leg dich an einen sicheren Ort. Ich habe dein Training pausiert. Bei Brustschmerzen, Atemnot oder Schwächegefühl ruf sofort den Notruf an.",
+    collapse:
+      "Alles in Ordnung? Ich habe dein Training pausiert. Bleib kurz ruhig und tippe auf Mir geht's gut, wenn du bereit bist, oder beende das Training.",
+    hold: "Dein Training ist aus Sicherheitsgründen pausiert. Lass dir Zeit. Tippe auf Mir geht's gut, um weiterzumachen, oder beende das Training. Wenn die Beschwerden schlimmer werden, ruf den Notruf an.",
+  },
+};
+
+// Pain here is never treated as local
+const NON_LOCAL_BODY_PARTS = new Set(["chest", "head"]);
+
+const CAUTION_INSTRUCTION =
+  "SAFETY: The user just mentioned discomfort during exercise. Check how it feels before anything else, offer an easier variation or a swap, and remind them to stop if it turns into pain. Never tell them to push through pain.";
+
+function painInstruction({ bodyPart, side }) {
+  const where = [side, bodyPart].filter(Boolean).join(" ");
+  return `SAFETY: The user reports pain in their ${where}. Take the exercise that loads it out of the plan: call log_injury for it, then swap_exercise for one that doesn't load the ${bodyPart} (end_workout if nothing fits), and make any other change they asked for. Tell them to stop if the pain gets sharper or comes with dizziness. Never tell them to push through pain.`;
+}
+
+function mostSevere(a, b) {
+  return RISK_LEVELS[b] > RISK_LEVELS[a] ? b : a;
+}
+
+/**
+ * Classify what the user said. Returns
+ * { level, reasons, bodyPart, side }, level "none" when nothing matched.
+ */
+export function classifyUtterance(text) {
+  const cleaned = String(text || "")
+    .replace(/[’‘]/g, "'")
+    .replace(NEGATION, " ");
+  let level = "none";
+  const reasons = [];
+
+  for (const [reason, ruleLevel, pattern] of UTTERANCE_RULES) {
+    if (!pattern.test(cleaned)) continue;
+    let matchedLevel = ruleLevel;
+    if (reason === "pain" && MILD_QUALIFIER.test(cleaned)) {
+      matchedLevel = "caution";
+    }
+    reasons.push(reason);
+    level = mostSevere(level, matchedLevel);
+  }
+
+  const bodyPart = reasons.length
+    ? (BODY_PARTS.find(([, pattern]) => pattern.test(cleaned))?.[0] ?? null)
+    : null;
+  const side = bodyPart
+    ? (SIDES.find(([, pattern]) => pattern.test(cleaned))?.[0] ?? null)
+    : null;
+
+  return { level, reasons, bodyPart, side };
+}
+
+/**
+ * Pain in one named body part and nothing acute (no pop or twist, dizziness
+ * or chest symptoms): the plan changes around it instead of pausing
+ */
+export function isLocalizedPain({ level, reasons, bodyPart }) {
+  return (
+    level === "stop" &&
+    !!bodyPart &&
+    !NON_LOCAL_BODY_PARTS.has(bodyPart) &&
+    reasons.every((reason) => reason === "pain" || reason === "discomfort")
+  );
+}
+
+/**
+ * Classify a pose signal from the client's PoseSafetyMonitor:
+ * { type: "collapse" } or { type: "no_movement", durationMs }
+ */
+export function classifyPoseSignal(signal) {
+  switch (signal?.type) {
+    case "collapse":
+      return { level: "stop", reasons: ["collapse"], bodyPart: null, side: null };
+    case "no_movement":
+      return {
+        level: "emergency",
+        reasons: ["no_movement_after_fall"],
+        bodyPart: null,
+        side: null,
+      };
+    default:
+      return { level: "none", reasons: [], bodyPart: null, side: null };
+  }
+}
+
+export function safeScript(kind, language = DEFAULT_LANGUAGE) {
+  return (SAFE_SCRIPTS[language] || SAFE_SCRIPTS[DEFAULT_LANGUAGE])[kind];
+}
+
+/**
+ * Safety guard for one connection.
+ * @param {Object} options
+ * @param {Socket} options.socket - The client's socket.io connection
+ * @param {Object} options.scheduler - The connection's utterance scheduler
+ * @param {() => {avatarId, userId, callSessionId}} options.getSession
+ * @param {() => boolean} [options.isEnabled] - e.g. only for fitness coaches
+ */
+export function createSafetyGuard({
+  socket,
+  scheduler,
+  getSession,
+  isEnabled = () => true,
+}) {
+  // The incident that paused the workout, until the user resumes or ends it
+  let hold = null;
+
+  const language = () => socket.language || DEFAULT_LANGUAGE;
+
+  // Say a fixed line through TTS, shown in chat like any coach reply
+  const speakScript = (avatarId, text) => async () => {
+    const ttsCallback = createStreamingTTSCallback(avatarId, socket);
+    socket.emit("llm_response_start", { avatarId, isSafety: true });
+    socket.emit("llm_response_chunk", {
+      content: text,
+      avatarId,
+      complete: false,
+    });
+    await ttsCallback.onChunk(text);
+    await ttsCallback.onComplete();
+    socket.emit("llm_response_complete", {
+      fullResponse: text,
+      avatarId,
+      complete: true,
+      isSafety: true,
+    });
+  };
+
+  const say = (kind) => {
+    const { avatarId } = getSession();
+    if (!avatarId) return;
+    scheduler.request({
+      kind: "safety",
+      key: `safety ${kind}`,
+      speak: speakScript(avatarId, safeScript(kind, language())),
+    });
+  };
+
+  async function recordInjury(userId, assessment, utterance) {
+    if (!userId || !assessment.bodyPart) return;
+    try {
+      await recordProfileFacts(userId, [
+        {
+          type: "injury",
+          bodyPart: assessment.bodyPart,
+          side: assessment.side,
+          severity: SEVERITY_BY_LEVEL[assessment.level],
+          status: "active",
+          note: String(utterance || "").slice(0, 200),
+        },
+      ]);
+      socket.emit("workout_injury_logged", {
+        bodyPart: assessment.bodyPart,
+        side: assessment.side,
+        severity: SEVERITY_BY_LEVEL[assessment.level],
+      });
+    } catch (error) {
+      logger.error("[SafetyGuard] Failed to record injury", {
+        error: error.message,
+        userId,
+        bodyPart: assessment.bodyPart,
+        component: "safetyGuard",
+      });
+    }
+  }
+
+  // Pause the workout and switch to the fixed script
+  async function escalate(assessment, { source, utterance = null, signal = null }) {
+    const { avatarId, userId, callSessionId } = getSession();
+    const exercise = signal?.exercise || socket.coachTracking?.currentExercise || null;
+
+    if (!socket.coachTracking) {
+      socket.coachTracking = { completedSets: new Set() };
+    }
+    socket.coachTracking.paused = true;
+    scheduler.clear();
+    // Whatever the coach was saying stops, LLM reply included
+    socket.turns?.cancel("safety");
+
+    const scriptKind = assessment.reasons.includes("collapse")
+      ? "collapse"
+      : assessment.level;
+    const previous = hold;
+    hold = {
+      level: previous ? mostSevere(previous.level, assessment.level) : assessment.level,
+      incidentId: previous?.incidentId ?? null,
+    };
+
+    socket.emit("safety_alert", {
+      level: hold.level,
+      reasons: assessment.reasons,
+      source,
+      bodyPart: assessment.bodyPart,
+      side: assessment.side,
+      message: safeScript(scriptKind, language()),
+    });
+    say(scriptKind);
+
+    logger.warn("[SafetyGuard] Workout paused for safety", {
+      level: assessment.level,
+      reasons: assessment.reasons,
+      source,
+      exercise,
+      socketId: socket.id,
+      component: "safetyGuard",
+    });
+
+    const incidentId = await recordSafetyIncident({
+      userId,
+      avatarId,
+      callSessionId,
+      source,
+      level: assessment.level,
+      reasons: assessment.reasons,
+      utterance,
+      signal,
+      exercise,
+      bodyPart: assessment.bodyPart,
+      side: assessment.side,
+      action: "paused",
+    });
+    // The first incident of a hold is the one resolved when it ends
+    if (hold && !hold.incidentId) hold.incidentId = incidentId;
+
+    await recordInjury(userId, assessment, utterance);
+  }
+
+  return {
+    isHolding: () => hold !== null,
+
+    /**
+     * Check a user utterance before it reaches the LLM. Returns
+     * { handled: true } when the guard answered it (the caller skips the LLM),
+     * otherwise additionalContext to pass to generateLLMResponse.
+     */
+    async screenUtterance(text, source = "speech") {
+      if (!isEnabled()) return { handled: false, additionalContext: [] };
+      const assessment = classifyUtterance(text);
+      const localized = isLocalizedPain(assessment);
+
+      const escalates = hold
+        ? RISK_LEVELS[assessment.level] > RISK_LEVELS[hold.level]
+        : !localized && RISK_LEVELS[assessment.level] >= RISK_LEVELS.stop;
+      if (escalates) {
+        await escalate(assessment, { source, utterance: text });
+        return { handled: true, additionalContext: [] };
+      }
+
+      // While paused for safety the coach only repeats the safe script
+      if (hold) {
+        say("hold");
+        await recordInjury(getSession().userId, assessment, text);
+        return { handled: true, additionalContext: [] };
+      }
+
+      if (assessment.level === "caution" || localized) {
+        const { avatarId, userId, callSessionId } = getSession();
+        recordSafetyIncident({
+          userId,
+          avatarId,
+          callSessionId,
+          source,
+          level: assessment.level,
+          reasons: assessment.reasons,
+          utterance: text,
+          exercise: socket.coachTracking?.currentExercise || null,
+          bodyPart: assessment.bodyPart,
+          side: assessment.side,
+          action: "noted",
+        });
+        return {
+          handled: false,
+          additionalContext: [
+            {
+              role: "system",
+              content: localized
+                ? painInstruction(assessment)
+                : CAUTION_INSTRUCTION,
+            },
+          ],
+        };
+      }
+
+      return { handled: false, additionalContext: [] };
+    },
+
+    async handlePoseSignal(signal) {
+      if (!isEnabled()) return;
+      const assessment = classifyPoseSignal(signal);
+      if (assessment.level === "none") return;
+      // A collapse during an existing hold only matters if it escalates
+      if (hold && RISK_LEVELS[assessment.level] <= RISK_LEVELS[hold.level]) {
+        return;
+      }
+      await escalate(assessment, { source: "pose", signal });
+    },
+
+    /**
+     * The user tapped "I'm OK" (resume) or ended the workout
+     */
+    async resolve(resolution) {
+      if (!hold) return;
+      const { incidentId } = hold;
+      hold = null;
+      if (socket.coachTracking) {
+        socket.coachTracking.paused = resolution !== "resumed";
+      }
+      scheduler.holdOff("encouragement");
+
+      logger.info("[SafetyGuard] Safety hold resolved", {
+        resolution,
+        incidentId,
+        socketId: socket.id,
+        component: "safetyGuard",
+      });
+      if (incidentId) {
+        await resolveSafetyIncident(incidentId, resolution);
+      }
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// PCM16 helpers for engines that need their own voice activity detection
+
+const BYTES_PER_SAMPLE = 2;
+
+// Root mean square level of a mono PCM16 chunk, 0..1
+function rmsLevel(pcm) {
+  const samples = Math.floor(pcm.length / BYTES_PER_SAMPLE);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * BYTES_PER_SAMPLE) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Energy-based VAD mirroring the hosted service's server_vad settings.
+ * Audio before speech is kept for `prefixPaddingMs` so the first syllable
+ * isn't clipped; a turn ends after `silenceDurationMs` below the threshold.
+ * `onUtterance(pcm)` receives the whole turn's audio.
+ */
+export function createEnergyVAD({
+  sampleRate,
+  threshold = Number(process.env.STT_VAD_THRESHOLD || 0.02),
+  prefixPaddingMs = 300,
+  silenceDurationMs = 500,
+  maxUtteranceMs = 30000,
+  onSpeechStarted = () => {},
+  onSpeechStopped = () => {},
+  onUtterance = () => {},
+}) {
+  const bytesPerMs = (sampleRate * BYTES_PER_SAMPLE) / 1000;
+  let prefix = [];
+  let prefixBytes = 0;
+  let utterance = [];
+  let utteranceBytes = 0;
+  let silenceBytes = 0;
+  let speaking = false;
+
+  const finish = () => {
+    speaking = false;
+    silenceBytes = 0;
+    const pcm = Buffer.concat(utterance);
+    utterance = [];
+    utteranceBytes = 0;
+    onSpeechStopped();
+    onUtterance(pcm);
+  };
+
+  return {
+    push(chunk) {
+      const pcm = Buffer.from(chunk);
+      const loud = rmsLevel(pcm) >= threshold;
+
+      if (!speaking) {
+        prefix.push(pcm);
+        prefixBytes += pcm.length;
+        while (prefix.length > 1 && prefixBytes - prefix[0].length >= prefixPaddingMs * bytesPerMs) {
+          prefixBytes -= prefix.shift().length;
+        }
+        if (loud) {
+          speaking = true;
+          utterance = prefix;
+          utteranceBytes = prefixBytes;
+          prefix = [];
+          prefixBytes = 0;
+          onSpeechStarted();
+        }
+        return;
+      }
+
+      utterance.push(pcm);
+      utteranceBytes += pcm.length;
+      silenceBytes = loud ? 0 : silenceBytes + pcm.length;
+      if (
+        silenceBytes >= silenceDurationMs * bytesPerMs ||
+        utteranceBytes >= maxUtteranceMs * bytesPerMs
+      ) {
+        finish();
+      }
+    },
+
+    // Ends an in-progress turn, e.g. when the stream closes
+    flush() {
+      if (speaking) finish();
+    },
+  };
+}
+
+// Wraps mono PCM16 in a WAV header
+export function pcm16ToWav(pcm, sampleRate) {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * BYTES_PER_SAMPLE, 28);
+  header.writeUInt16LE(BYTES_PER_SAMPLE, 32);
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
@@ -0,0 +1,72 @@
+import { logger } from "../../lib/cloudwatch-logger.js";
+import { createOpenAIRealtimeProvider } from "./openaiRealtime.js";
+import { createVoskProvider } from "./vosk.js";
+import { createWhisperCppProvider } from "./whisperCpp.js";
+
+// Microphone audio from the client worklet: mono PCM16
+export const INPUT_SAMPLE_RATE = 16000;
+
+/**
+ * STT providers open one stream per call. Audio goes in with send(); events
+ * come back through onEvent:
+ *   { type: "speech_started" } / { type: "speech_stopped" } - voice activity
+ *   { type: "partial", text } - transcript of the current turn so far
+ *   { type: "final", text } - the turn's transcript (may be empty)
+ *   { type: "error", error }
+ *
+ * @typedef {Object} STTProvider
+ * @property {string} name
+ * @property {{ usdPerMinute: number }} pricing - for cost comparison
+ * @property {(options: { language?: string, sampleRate: number, onEvent: Function }) => { send: Function, setLanguage: Function, close: Function }} createStream
+ *
+ * Selection, highest precedence first:
+ *   STT_PROVIDER_OVERRIDE env - forces one engine for every persona (offline, dev)
+ *   AvatarPersona.stt_provider - per persona
+ *   openai when OPENAI_API_KEY is set, otherwise whisper_cpp
+ */
+const PROVIDER_FACTORIES = {
+  openai: createOpenAIRealtimeProvider,
+  whisper_cpp: createWhisperCppProvider,
+  vosk: createVoskProvider,
+};
+
+export const STT_PROVIDERS = Object.keys(PROVIDER_FACTORIES);
+
+const providers = new Map();
+
+function defaultProviderName() {
+  return process.env.OPENAI_API_KEY ? "openai" : "whisper_cpp";
+}
+
+/**
+ * Get a provider instance by name; instances are created once and shared
+ */
+export function getSTTProvider(name = defaultProviderName()) {
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown STT provider: ${name}`);
+  }
+  if (!providers.has(name)) {
+    providers.set(name, factory());
+    logger.info("STT provider initialized", {
+      provider: name,
+      component: "sttProviders",
+    });
+  }
+  return providers.get(name);
+}
+
+/**
+ * Provider for a persona
+ */
+export function resolveSTT(persona) {
+  return getSTTProvider(
+    process.env.STT_PROVIDER_OVERRIDE ||
+      persona?.sttProvider ||
+      defaultProviderName(),
+  );
+}
+
+export function estimateSTTCost(provider, audioSeconds) {
+  return (audioSeconds / 60) * provider.pricing.usdPerMinute;
+}
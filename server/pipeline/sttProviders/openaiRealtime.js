@@ -0,0 +1,120 @@
+import WebSocket from "ws";
+
+import { logger } from "../../lib/cloudwatch-logger.js";
+
+/**
+ * OpenAI realtime transcription websocket. VAD, deltas and the final
+ * transcript all come from the service.
+ */
+export function createOpenAIRealtimeProvider({
+  url = process.env.OPEN_AI_REALTIME_TRANSCRIPTION_URL ||
+    "wss://api.openai.com/v1/realtime?intent=transcription",
+  apiKey = process.env.OPENAI_API_KEY,
+  model = process.env.OPENAI_TRANSCRIPTION_MODEL || "gpt-4o-transcribe",
+  usdPerMinute = Number(process.env.STT_PRICE_OPENAI || 0.006),
+} = {}) {
+  return {
+    name: "openai",
+    pricing: { usdPerMinute },
+
+    createStream({ language = "en", onEvent }) {
+      const serviceWs = new WebSocket(url, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "OpenAI-Beta": "realtime=v1",
+        },
+      });
+      let transcription = "";
+      let sessionLanguage = language;
+
+      const sendSessionConfig = () =>
+        serviceWs.send(
+          JSON.stringify({
+            type: "transcription_session.update",
+            session: {
+              input_audio_format: "pcm16",
+              input_audio_transcription: { model, language: sessionLanguage },
+              turn_detection: {
+                type: "server_vad",
+                threshold: 0.3,
+                prefix_padding_ms: 300,
+                silence_duration_ms: 500, // Reduced for more responsive feel
+              },
+            },
+          }),
+        );
+
+      serviceWs.on("open", () => {
+        logger.info("Transcription service connected", {
+          provider: "openai",
+          component: "sttProviders",
+        });
+        sendSessionConfig();
+      });
+
+      serviceWs.on("message", (data) => {
+        const message = JSON.parse(data.toString());
+
+        if (message.type === "input_audio_buffer.speech_started") {
+          onEvent({ type: "speech_started" });
+        } else if (message.type === "input_audio_buffer.speech_stopped") {
+          onEvent({ type: "speech_stopped" });
+        } else if (
+          message.type === "conversation.item.input_audio_transcription.delta"
+        ) {
+          transcription += message.delta;
+          onEvent({ type: "partial", text: transcription });
+        } else if (
+          message.type ===
+          "conversation.item.input_audio_transcription.completed"
+        ) {
+          // Fall back to accumulated deltas if the service didn't include the transcript
+          const text = (message.transcription || "").trim() || transcription.trim();
+          transcription = "";
+          onEvent({ type: "final", text });
+        }
+      });
+
+      serviceWs.on("error", (error) => onEvent({ type: "error", error }));
+
+      serviceWs.on("close", (code, reason) => {
+        logger.info("Transcription service disconnected", {
+          provider: "openai",
+          code,
+          reason: reason.toString(),
+          component: "sttProviders",
+        });
+      });
+
+      const closeNow = () => {
+        serviceWs.send(JSON.stringify({ type: "CloseStream" }));
+        serviceWs.close();
+      };
+
+      return {
+        send(audioData) {
+          if (serviceWs.readyState === WebSocket.OPEN) {
+            serviceWs.send(
+              JSON.stringify({
+                type: "input_audio_buffer.append",
+                audio: Buffer.from(audioData).toString("base64"),
+              }),
+            );
+          }
+        },
+        setLanguage(nextLanguage) {
+          sessionLanguage = nextLanguage;
+          if (serviceWs.readyState === WebSocket.OPEN) sendSessionConfig();
+        },
+        close() {
+          if (serviceWs.readyState === WebSocket.CONNECTING) {
+            // Close once the handshake finishes
+            serviceWs.once("open", closeNow);
+          } else if (serviceWs.readyState === WebSocket.OPEN) {
+            closeNow();
+          }
+        },
+      };
+    },
+  };
+}
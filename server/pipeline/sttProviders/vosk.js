@@ -0,0 +1,91 @@
+import WebSocket from "ws";
+
+import { logger } from "../../lib/cloudwatch-logger.js";
+
+/**
+ * Vosk server websocket (alphacep/kaldi-*), fully offline. Vosk endpoints
+ * turns itself: partial hypotheses stream while the user talks and a result
+ * arrives when they stop. A Vosk server runs one model, so each language
+ * needs its own server: VOSK_URL_ES, VOSK_URL_FR, ... fall back to VOSK_URL.
+ */
+export function createVoskProvider({
+  url = process.env.VOSK_URL || "ws://localhost:2700",
+} = {}) {
+  return {
+    name: "vosk",
+    pricing: { usdPerMinute: 0 },
+
+    createStream({ language = "en", sampleRate, onEvent }) {
+      const serviceWs = new WebSocket(
+        process.env[`VOSK_URL_${language.toUpperCase()}`] || url,
+      );
+      let speaking = false;
+
+      serviceWs.on("open", () => {
+        logger.info("Transcription service connected", {
+          provider: "vosk",
+          component: "sttProviders",
+        });
+        serviceWs.send(JSON.stringify({ config: { sample_rate: sampleRate } }));
+      });
+
+      serviceWs.on("message", (data) => {
+        const message = JSON.parse(data.toString());
+
+        if (message.partial) {
+          if (!speaking) {
+            speaking = true;
+            onEvent({ type: "speech_started" });
+          }
+          onEvent({ type: "partial", text: message.partial });
+        } else if (message.text !== undefined) {
+          if (speaking) {
+            speaking = false;
+            onEvent({ type: "speech_stopped" });
+          }
+          // Silence also produces (empty) results
+          if (message.text.trim()) {
+            onEvent({ type: "final", text: message.text.trim() });
+          }
+        }
+      });
+
+      serviceWs.on("error", (error) => onEvent({ type: "error", error }));
+
+      serviceWs.on("close", (code) => {
+        logger.info("Transcription service disconnected", {
+          provider: "vosk",
+          code,
+          component: "sttProviders",
+        });
+      });
+
+      const closeNow = () => {
+        serviceWs.send(JSON.stringify({ eof: 1 }));
+        serviceWs.close();
+      };
+
+      return {
+        setLanguage(nextLanguage) {
+          // Takes effect on the next stream, which connects to that language's server
+          logger.warn("Vosk can't switch language mid-stream", {
+            language: nextLanguage,
+            component: "sttProviders",
+          });
+        },
+        send(audioData) {
+          if (serviceWs.readyState === WebSocket.OPEN) {
+            serviceWs.send(Buffer.from(audioData));
+          }
+        },
+        close() {
+          if (serviceWs.readyState === WebSocket.CONNECTING) {
+            serviceWs.once("open", closeNow);
+          } else if (serviceWs.readyState === WebSocket.OPEN) {
+            closeNow();
+          }
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { logger } from "../../lib/cloudwatch-logger.js";
+import { createEnergyVAD, pcm16ToWav } from "./audio.js";
+
+/**
+ * whisper.cpp running as its HTTP server (`whisper-server -m model.bin`),
+ * fully offline. Whisper isn't streaming, so turns are cut by a local energy
+ * VAD and each one is transcribed when the user stops talking; there are no
+ * partial transcripts.
+ */
+export function createWhisperCppProvider({
+  baseURL = process.env.WHISPER_CPP_URL || "http://localhost:8080",
+} = {}) {
+  return {
+    name: "whisper_cpp",
+    pricing: { usdPerMinute: 0 },
+
+    createStream({ language = "en", sampleRate, onEvent }) {
+      let pending = Promise.resolve();
+      let sessionLanguage = language;
+
+      const transcribe = async (pcm) => {
+        const form = new FormData();
+        form.append(
+          "file",
+          new Blob([pcm16ToWav(pcm, sampleRate)], { type: "audio/wav" }),
+          "turn.wav",
+        );
+        form.append("response_format", "json");
+        form.append("language", sessionLanguage);
+        form.append("temperature", "0");
+
+        const response = await fetch(`${baseURL}/inference`, {
+          method: "POST",
+          body: form,
+        });
+        if (!response.ok) {
+          throw new Error(`whisper.cpp transcription failed: ${response.status}`);
+        }
+        const result = await response.json();
+        return (result.text || "").trim();
+      };
+
+      const vad = createEnergyVAD({
+        sampleRate,
+        onSpeechStarted: () => onEvent({ type: "speech_started" }),
+        onSpeechStopped: () => onEvent({ type: "speech_stopped" }),
+        onUtterance: (pcm) => {
+          // Keep turns in order even if one transcription is slow
+          pending = pending
+            .then(() => transcribe(pcm))
+            .then((text) => onEvent({ type: "final", text }))
+            .catch((error) => onEvent({ type: "error", error }));
+        },
+      });
+
+      logger.info("Transcription stream opened", {
+        provider: "whisper_cpp",
+        baseURL,
+        component: "sttProviders",
+      });
+
+      return {
+        send: (audioData) => vad.push(audioData),
+        setLanguage: (nextLanguage) => {
+          sessionLanguage = nextLanguage;
+        },
+        close: () => vad.flush(),
+      };
+    },
+  };
+}
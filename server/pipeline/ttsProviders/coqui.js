@@ -0,0 +1,53 @@
+import { estimateAlignment, wavDurationSeconds } from "./wav.js";
+
+/**
+ * Coqui TTS running as its demo server (`tts-server --model_name ...`).
+ * Multi-speaker and multilingual models take a speaker and language id;
+ * alignment is estimated from the clip length.
+ * voice_settings.coqui: { speakerId, languageId }. Without a languageId,
+ * non-English sessions pass their language code (XTTS-style models).
+ */
+export function createCoquiProvider({
+  baseURL = process.env.COQUI_TTS_URL || "http://localhost:5002",
+  defaultSpeakerId = process.env.COQUI_DEFAULT_SPEAKER || "",
+} = {}) {
+  async function synthesize(text, voice, { signal } = {}) {
+    const params = new URLSearchParams({
+      text,
+      speaker_id: voice.speakerId,
+      language_id: voice.languageId,
+      style_wav: "",
+    });
+    const response = await fetch(`${baseURL}/api/tts?${params}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Coqui TTS failed: ${response.status}`);
+    }
+    const audio = Buffer.from(await response.arrayBuffer());
+    return {
+      audio,
+      alignment: estimateAlignment(text, wavDurationSeconds(audio)),
+    };
+  }
+
+  return {
+    name: "coqui",
+    contentType: "audio/wav",
+    capabilities: { timestamps: false, streaming: false },
+    pricing: { usdPerThousandChars: 0 },
+
+    voiceFor: ({ settings, language }) => ({
+      speakerId: settings.speakerId || defaultSpeakerId,
+      languageId: settings.languageId || (language === "en" ? "" : language),
+    }),
+
+    voiceKey: (voice) =>
+      `coqui:${voice.speakerId || "default"}${voice.languageId ? `:${voice.languageId}` : ""}`,
+
+    async *stream(text, voice, options) {
+      const { audio, alignment } = await synthesize(text, voice, options);
+      yield { audioBase64: audio.toString("base64"), alignment };
+    },
+
+    synthesize,
+  };
+}
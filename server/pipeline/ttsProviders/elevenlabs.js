@@ -0,0 +1,71 @@
+import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
+
+const DEFAULT_VOICE_ID = "pNInz6obpgDQGcFmaJgB"; // Adam - a standard, professional voice
+
+const toAlignment = (alignment) => ({
+  characters: alignment?.characters || [],
+  start_seconds: alignment?.characterStartTimesSeconds || [],
+  end_seconds: alignment?.characterEndTimesSeconds || [],
+});
+
+/**
+ * ElevenLabs hosted TTS with character timestamps. A persona's voice comes
+ * from voice_settings.elevenlabs.voiceId, then the AvatarPersona.voice_id
+ * column, then the default voice. The flash model is multilingual, so the
+ * same voice can speak every session language.
+ */
+export function createElevenLabsProvider({
+  apiKey = process.env.ELEVENLABS_API_KEY,
+  modelId = process.env.ELEVENLABS_MODEL_ID || "eleven_flash_v2_5",
+  outputFormat = "mp3_44100_128",
+  usdPerThousandChars = Number(process.env.TTS_PRICE_ELEVENLABS || 0.15),
+} = {}) {
+  let client = null;
+  const getClient = () => {
+    if (!apiKey) throw new Error("ElevenLabs API key not configured");
+    client ??= new ElevenLabsClient({ apiKey });
+    return client;
+  };
+
+  return {
+    name: "elevenlabs",
+    modelId,
+    outputFormat,
+    contentType: "audio/mpeg",
+    capabilities: { timestamps: true, streaming: true },
+    pricing: { usdPerThousandChars },
+
+    voiceFor: ({ settings, persona, language }) => ({
+      voiceId: settings.voiceId || persona?.voiceId || DEFAULT_VOICE_ID,
+      languageCode: language,
+    }),
+
+    // Bare voice id, so clips cached before providers existed stay valid
+    voiceKey: (voice) => voice.voiceId,
+
+    async *stream(text, voice, { signal } = {}) {
+      const audioStream = await getClient().textToSpeech.streamWithTimestamps(
+        voice.voiceId,
+        { text, modelId, outputFormat, languageCode: voice.languageCode },
+        { abortSignal: signal },
+      );
+      for await (const chunk of audioStream) {
+        yield {
+          audioBase64: chunk.audioBase64 || null,
+          alignment: chunk.alignment ? toAlignment(chunk.alignment) : null,
+        };
+      }
+    },
+
+    async synthesize(text, voice) {
+      const result = await getClient().textToSpeech.convertWithTimestamps(
+        voice.voiceId,
+        { text, modelId, outputFormat, languageCode: voice.languageCode },
+      );
+      return {
+        audio: Buffer.from(result.audioBase64, "base64"),
+        alignment: toAlignment(result.alignment),
+      };
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { logger } from "../../lib/cloudwatch-logger.js";
+import { createCoquiProvider } from "./coqui.js";
+import { createElevenLabsProvider } from "./elevenlabs.js";
+import { createPiperProvider } from "./piper.js";
+
+/**
+ * TTS providers turn text into audio plus per-character timings, which the
+ * client turns into visemes. Engines without timings estimate them.
+ *
+ * @typedef {Object} TTSProvider
+ * @property {string} name
+ * @property {string} contentType - MIME type of the audio produced
+ * @property {{ timestamps: boolean, streaming: boolean }} capabilities
+ * @property {{ usdPerThousandChars: number }} pricing - for cost comparison
+ * @property {(options: { settings: Object, persona: Object, language: string }) => Object} voiceFor
+ *   - voice for this engine from the persona's voice_settings entry and the session language
+ * @property {(voice: Object) => string} voiceKey - stable id of a voice, e.g. for cached clips
+ * @property {(text: string, voice: Object, options?: { signal?: AbortSignal }) => AsyncIterable<{ audioBase64: string|null, alignment: Object|null }>} stream
+ * @property {(text: string, voice: Object, options?: { signal?: AbortSignal }) => Promise<{ audio: Buffer, alignment: Object }>} synthesize
+ *
+ * Alignment is { characters, start_seconds, end_seconds }, relative to the
+ * start of the chunk's audio.
+ *
+ * Selection, highest precedence first:
+ *   TTS_PROVIDER_OVERRIDE env - forces one engine for every persona (offline, dev)
+ *   AvatarPersona.tts_provider - per persona
+ *   elevenlabs when ELEVENLABS_API_KEY is set, otherwise piper
+ */
+const PROVIDER_FACTORIES = {
+  elevenlabs: createElevenLabsProvider,
+  piper: createPiperProvider,
+  coqui: createCoquiProvider,
+};
+
+export const TTS_PROVIDERS = Object.keys(PROVIDER_FACTORIES);
+
+const providers = new Map();
+
+function defaultProviderName() {
+  return process.env.ELEVENLABS_API_KEY ? "elevenlabs" : "piper";
+}
+
+/**
+ * Get a provider instance by name; instances are created once and shared
+ */
+export function getTTSProvider(name = defaultProviderName()) {
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown TTS provider: ${name}`);
+  }
+  if (!providers.has(name)) {
+    providers.set(name, factory());
+    logger.info("TTS provider initialized", {
+      provider: name,
+      component: "ttsProviders",
+    });
+  }
+  return providers.get(name);
+}
+
+/**
+ * Provider and voice for a persona speaking the given language. Per-language
+ * entries in voice_settings.languages override the engine's base settings.
+ */
+export function resolveTTS(persona, language = "en") {
+  const provider = getTTSProvider(
+    process.env.TTS_PROVIDER_OVERRIDE ||
+      persona?.ttsProvider ||
+      defaultProviderName(),
+  );
+  const voiceSettings = persona?.voiceSettings || {};
+  const settings = {
+    ...voiceSettings[provider.name],
+    ...voiceSettings.languages?.[language]?.[provider.name],
+  };
+  return {
+    provider,
+    voice: provider.voiceFor({ settings, persona, language }),
+  };
+}
+
+export function estimateTTSCost(provider, characters) {
+  return (characters / 1000) * provider.pricing.usdPerThousandChars;
+}
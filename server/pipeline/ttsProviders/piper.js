@@ -0,0 +1,63 @@
+import { SUPPORTED_LANGUAGES } from "../../constants/languages.js";
+import { estimateAlignment, wavDurationSeconds } from "./wav.js";
+
+/**
+ * Piper running as its HTTP server (`python -m piper.http_server`), fully
+ * offline. Piper has no character timings, so alignment is estimated from
+ * the clip length. voice_settings.piper: { voice, speaker, lengthScale }.
+ * Piper voices are single-language; without a configured voice, other
+ * languages use the stock voice listed in constants/languages.js.
+ */
+export function createPiperProvider({
+  baseURL = process.env.PIPER_URL || "http://localhost:5000",
+  defaultVoice = process.env.PIPER_DEFAULT_VOICE || "en_US-lessac-medium",
+} = {}) {
+  async function synthesize(text, voice, { signal } = {}) {
+    const response = await fetch(baseURL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        text,
+        voice: voice.voice,
+        ...(voice.speaker !== undefined && { speaker: voice.speaker }),
+        ...(voice.lengthScale && { length_scale: voice.lengthScale }),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Piper TTS failed: ${response.status}`);
+    }
+    const audio = Buffer.from(await response.arrayBuffer());
+    return {
+      audio,
+      alignment: estimateAlignment(text, wavDurationSeconds(audio)),
+    };
+  }
+
+  return {
+    name: "piper",
+    contentType: "audio/wav",
+    capabilities: { timestamps: false, streaming: false },
+    pricing: { usdPerThousandChars: 0 },
+
+    voiceFor: ({ settings, language }) => ({
+      voice:
+        settings.voice ||
+        (language === "en" ? defaultVoice : SUPPORTED_LANGUAGES[language]?.piperVoice) ||
+        defaultVoice,
+      speaker: settings.speaker,
+      lengthScale: settings.lengthScale,
+    }),
+
+    voiceKey: (voice) =>
+      `piper:${voice.voice}${voice.speaker !== undefined ? `:${voice.speaker}` : ""}`,
+
+    // One chunk per sentence; the streaming TTS callback already splits text
+    async *stream(text, voice, options) {
+      const { audio, alignment } = await synthesize(text, voice, options);
+      yield { audioBase64: audio.toString("base64"), alignment };
+    },
+
+    synthesize,
+  };
+}
@@ -0,0 +1,44 @@
+// Helpers for local engines that return a whole WAV file without timings
+
+// Duration of a PCM WAV file, read from its fmt and data chunks
+export function wavDurationSeconds(buffer) {
+  if (buffer.length < 44 || buffer.toString("ascii", 0, 4) !== "RIFF") {
+    throw new Error("Expected a WAV response");
+  }
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkId === "fmt ") {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (chunkId === "data") {
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF
+      const dataSize =
+        chunkSize > 0 && chunkSize !== 0xffffffff
+          ? Math.min(chunkSize, buffer.length - offset - 8)
+          : buffer.length - offset - 8;
+      return byteRate > 0 ? dataSize / byteRate : 0;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return 0;
+}
+
+// Spreads characters evenly over the clip so visemes still move; spaces and
+// punctuation get a shorter slot than letters
+export function estimateAlignment(text, durationSeconds) {
+  const characters = [...text];
+  const weights = characters.map((char) => (/[a-z0-9]/i.test(char) ? 1 : 0.5));
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  const start_seconds = [];
+  const end_seconds = [];
+  let time = 0;
+  for (const weight of weights) {
+    start_seconds.push(time);
+    time += (weight / total) * durationSeconds;
+    end_seconds.push(time);
+  }
+  return { characters, start_seconds, end_seconds };
+}
@@ -1,18 +1,11 @@
-import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
 import { captureError, trackSpan } from "../lib/monitoring.js";
-import { getPersonaVoiceId } from "../personas/config.js";
+import { getAvatarPersona } from "../personas/config.js";
 import { logger } from "../lib/cloudwatch-logger.js";
-
-const MODEL_ID = "eleven_flash_v2_5";
-const DEFAULT_VOICE_ID = "pNInz6obpgDQGcFmaJgB"; // Adam - a standard, professional voice
+import { estimateTTSCost, resolveTTS } from "./ttsProviders/index.js";
 
 /* ---------- shared helpers ---------- */
-const ensureApiKey = () => {
-  if (!process.env.ELEVENLABS_API_KEY)
-    throw new Error("ElevenLabs API key not configured");
-};
-
-const preprocessTextForTTS = (txt) =>
+// Acronym expansions are English; other languages only get punctuation cleanup
+const expandAcronyms = (txt) =>
   txt
     .replace(/\bUI\b/g, "user interface")
     .replace(/\bAPI\b/g, "A P I")
@@ -21,7 +14,10 @@ const preprocessTextForTTS = (txt) =>
     .replace(/\bVC\b/g, "venture capital")
     .replace(/\bSaaS\b/g, "Software as a Service")
     .replace(/\bAI\b/g, "artificial intelligence")
-    .replace(/\bML\b/g, "machine learning")
+    .replace(/\bML\b/g, "machine learning");
+
+const preprocessTextForTTS = (txt, language = "en") =>
+  (language === "en" ? expandAcronyms(txt) : txt)
     .replace(/\.{3,}/g, "...")
     .replace(/!{2,}/g, "!")
     .replace(/\?{2,}/g, "?")
@@ -29,88 +25,125 @@ const preprocessTextForTTS = (txt) =>
     .replace(/[^.!?]$/, (m) => m + ".");
 
 /* ---------- streaming (NDJSON) ---------- */
-export async function synthesizeTTSStreaming(text, avatarId, socket) {
-  const processed = preprocessTextForTTS(text);
-  let voiceId = await getPersonaVoiceId(avatarId);
-  if (!voiceId) {
-    logger.warn('Voice ID for avatar not found, using default', { avatarId, defaultVoiceId: DEFAULT_VOICE_ID, component: 'ttsSynth' });
-    voiceId = DEFAULT_VOICE_ID;
-  }
-  
+// Speaks in the session language set on the socket at init_session. Audio for
+// a response turn is tagged with the turn and segment, so the client can drop
+// it once the turn is cancelled; a cancelled turn stops the stream quietly.
+export async function synthesizeTTSStreaming(text, avatarId, socket, { turn = null, segment = null } = {}) {
+  const language = socket.language || "en";
+  const processed = preprocessTextForTTS(text, language);
+  const persona = await getAvatarPersona(avatarId);
+  const { provider, voice } = resolveTTS(persona, language);
+
   return trackSpan("tts.synthesize_streaming", "tts", {
-    "tts.model_id": MODEL_ID,
-    "tts.voice_id": voiceId,
+    "tts.provider": provider.name,
+    "tts.voice": provider.voiceKey(voice),
     "tts.avatar_id": avatarId,
+    "tts.language": language,
     "tts.text_length": processed.length,
-    "tts.output_format": "mp3_44100_128"
+    "tts.estimated_cost_usd": estimateTTSCost(provider, processed.length),
   }, async () => {
+    const signal = turn?.signal;
+    const tag = turn ? { turnId: turn.id, segment } : {};
     try {
-      ensureApiKey();
-      const elevenlabs = new ElevenLabsClient({
-        apiKey: process.env.ELEVENLABS_API_KEY,
-      });
-
-      const audioStream = await elevenlabs.textToSpeech.streamWithTimestamps(
-        voiceId,
-        {
-          text: processed,
-          modelId: MODEL_ID,
-          outputFormat: "mp3_44100_128",
-        },
-      );
-
-      for await (const chunk of audioStream) {
-
+      for await (const chunk of provider.stream(processed, voice, { signal })) {
+        if (signal?.aborted) break;
         if (chunk.alignment) {
           socket.emit("tts_stream_alignment", {
-            characters: chunk.alignment.characters,
-            start_seconds: chunk.alignment.characterStartTimesSeconds,
-            end_seconds: chunk.alignment.characterEndTimesSeconds,
+            ...chunk.alignment,
             avatarId,
+            ...tag,
           });
         }
         if (chunk.audioBase64) {
           socket.emit("tts_stream", {
             audio: chunk.audioBase64,
             avatarId,
+            ...tag,
           });
         }
       }
 
       return true;
     } catch (e) {
-      logger.error('TTS streaming error', { error: e.message, avatarId, component: 'ttsSynth' });
+      if (signal?.aborted) return false;
+      logger.error('TTS streaming error', { error: e.message, avatarId, provider: provider.name, component: 'ttsSynth' });
       captureError(e, "tts", "synthesizeTTSStreaming", {
         avatar_id: avatarId,
         text_length: processed?.length,
-        voice_id: await getPersonaVoiceId(avatarId),
+        provider: provider.name,
+        voice: provider.voiceKey(voice),
       });
       return false;
     }
   });
 }
 
+// Stable id of the engine and voice a persona is spoken with, so cached
+// clips are re-rendered when either changes
+export async function getTTSVoiceKey(avatarId, language = "en") {
+  const { provider, voice } = resolveTTS(await getAvatarPersona(avatarId), language);
+  return provider.voiceKey(voice);
+}
+
+/* ---------- one-shot (for cached clips) ---------- */
+// Renders a whole clip with character timings so it can be stored and
+// replayed later with matching visemes.
+export async function synthesizeTTSWithTimestamps(text, avatarId, language = "en") {
+  const processed = preprocessTextForTTS(text, language);
+  const { provider, voice } = resolveTTS(await getAvatarPersona(avatarId), language);
+
+  return trackSpan("tts.synthesize_with_timestamps", "tts", {
+    "tts.provider": provider.name,
+    "tts.voice": provider.voiceKey(voice),
+    "tts.avatar_id": avatarId,
+    "tts.language": language,
+    "tts.text_length": processed.length,
+    "tts.estimated_cost_usd": estimateTTSCost(provider, processed.length),
+  }, async () => {
+    const { audio, alignment } = await provider.synthesize(processed, voice);
+    return {
+      voiceKey: provider.voiceKey(voice),
+      contentType: provider.contentType,
+      audio,
+      alignment,
+    };
+  });
+}
+
 /* ------------------------------------------------------------
  * Simple helper to stream LLM chunks to TTS.
- * Flushes to ElevenLabs once we detect a sentence boundary (. ! ?) or
- * the buffer exceeds 120 characters.
+ * Flushes to the TTS provider once we detect a sentence boundary (. ! ?) or
+ * the buffer exceeds 120 characters. Once bound to a response turn, each
+ * flushed sentence becomes one of the turn's segments and nothing more is
+ * spoken after the turn is cancelled.
  * ---------------------------------------------------------- */
 export function createStreamingTTSCallback(avatarId, socket) {
   let buffer = "";
+  let turn = null;
   const SENTENCE_REGEX = /[.!?]\s*$/;
 
   const flush = async () => {
     const txt = buffer.trim();
     if (!txt) return;
     buffer = "";
+    if (turn?.signal.aborted) return;
     try {
-      await synthesizeTTSStreaming(txt, avatarId, socket);
+      const segment = turn ? turn.addSegment(txt) : null;
+      await synthesizeTTSStreaming(txt, avatarId, socket, { turn, segment });
     } catch (err) {
       logger.error('TTS flush error', { error: err.message, avatarId, component: 'ttsSynth' });
     }
   };
 
   return {
+    /**
+     * Ties the spoken output to a response turn from the turn manager.
+     * @param {Object|null} responseTurn
+     */
+    bindTurn(responseTurn) {
+      turn = responseTurn;
+    },
+
     /**
      * Processes a chunk of text from the LLM.
      * @param {string} chunk - The piece of text.
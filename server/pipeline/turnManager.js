@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto";
+
+import { logger } from "../lib/cloudwatch-logger.js";
+
+/**
+ * Tracks the avatar's response turns for one connection, so a barge-in can
+ * cancel the whole turn at once: the LLM stream, the TTS streams and the
+ * audio the client has queued.
+ *
+ * - begin() starts a turn with its own AbortController and cancels the one
+ *   before it if that is still generating. The signal goes to the LLM and TTS
+ *   providers; audio is tagged with the turn id.
+ * - Each sentence sent to TTS is a segment of the turn. When a turn is
+ *   cancelled the client reports how much of each segment it played, and
+ *   spokenText() turns that into the text the user actually heard.
+ * - The last turn stays cancellable after it finishes generating, since its
+ *   audio is usually still playing.
+ */
+
+const KEEP_TURNS = 10; // Finished turns kept around for late playback reports
+const FULLY_PLAYED = 0.98;
+
+// The first share of the text, cut back to a whole word
+function textPrefix(text, ratio) {
+  const cut = text.slice(0, Math.floor(text.length * ratio));
+  if (cut.length === text.length) return text;
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : "").trim();
+}
+
+export function createTurnManager({ socket }) {
+  const turns = new Map();
+  let latest = null;
+
+  function emitCancelled(turn, reason) {
+    socket.emit("turn_cancelled", { turnId: turn.id, reason });
+    logger.info("Response turn cancelled", {
+      socketId: socket.id,
+      turnId: turn.id,
+      kind: turn.kind,
+      reason,
+      segments: turn.segments.length,
+      component: "turnManager",
+    });
+  }
+
+  function abort(turn, reason) {
+    if (turn.cancelled) return false;
+    turn.cancelled = true;
+    turn.cancelledWhileGenerating = !turn.finished;
+    turn.controller.abort(reason);
+    emitCancelled(turn, reason);
+    return true;
+  }
+
+  return {
+    /**
+     * Start a response turn, cancelling the previous one if it is still
+     * generating
+     */
+    begin({ kind = "reply", callSessionId = null } = {}) {
+      if (latest && !latest.finished) {
+        abort(latest, "superseded");
+      }
+
+      const controller = new AbortController();
+      const turn = {
+        id: randomUUID(),
+        kind,
+        callSessionId,
+        controller,
+        signal: controller.signal,
+        segments: [],
+        cancelled: false,
+        cancelledWhileGenerating: false,
+        finished: false,
+        spoken: null,
+        addSegment(text) {
+          turn.segments.push(text);
+          return turn.segments.length - 1;
+        },
+      };
+
+      turns.set(turn.id, turn);
+      if (turns.size > KEEP_TURNS) {
+        turns.delete(turns.keys().next().value);
+      }
+      latest = turn;
+      socket.emit("turn_start", { turnId: turn.id, kind });
+      return turn;
+    },
+
+    // Generation is done; the turn can still be cancelled while it plays
+    finish(turn) {
+      if (turn) turn.finished = true;
+    },
+
+    get(turnId) {
+      return turns.get(turnId) || null;
+    },
+
+    /**
+     * Cancel the latest turn (generating or still playing). Returns the turn,
+     * or null when there was nothing to cancel.
+     */
+    cancel(reason = "barge_in") {
+      if (!latest || !abort(latest, reason)) return null;
+      return latest;
+    },
+
+    /**
+     * Text the user heard before a turn was cut off. The client reports the
+     * seconds of audio it received and played per segment; a partly played
+     * segment is cut in proportion, back to a whole word. The estimate is
+     * rough for a segment whose audio was still arriving, but segments are a
+     * sentence long.
+     */
+    spokenText(turnId, { playedSeconds = {}, receivedSeconds = {} } = {}) {
+      const turn = turns.get(turnId);
+      if (!turn) return null;
+
+      const spoken = [];
+      for (const [index, text] of turn.segments.entries()) {
+        const received = Number(receivedSeconds[index]) || 0;
+        const played = Math.min(Number(playedSeconds[index]) || 0, received);
+        if (received === 0 || played === 0) break;
+
+        const ratio = played / received;
+        if (ratio >= FULLY_PLAYED) {
+          spoken.push(text);
+          continue;
+        }
+        const partial = textPrefix(text, ratio);
+        if (partial) spoken.push(partial);
+        break;
+      }
+
+      turn.spoken = spoken.join(" ");
+      return turn.spoken;
+    },
+  };
+}
@@ -0,0 +1,285 @@
+import { logger } from "../lib/cloudwatch-logger.js";
+
+/**
+ * Arbitrates proactive coach speech for one connection. Every coaching
+ * message (safety warnings, set completions, form cues, encouragement) goes
+ * through request(); the scheduler decides whether it is spoken, when, and
+ * whether it cuts off what is already playing.
+ *
+ * - Priority: safety > set_complete > form > encouragement. Higher priority
+ *   requests jump the queue, drop stale lower-priority ones, and preempt a
+ *   lower-priority utterance that is still playing.
+ * - Cooldowns per kind, scaled by the user's verbosity setting.
+ * - Dedupe: a cue similar to one spoken recently (or already queued) is
+ *   dropped or replaces the queued one.
+ * - Quiet periods: nothing but safety while the user is talking, shortly
+ *   after they stop, or while the avatar is answering them.
+ */
+
+export const UTTERANCE_PRIORITY = {
+  encouragement: 1,
+  form: 2,
+  set_complete: 3,
+  safety: 4,
+};
+
+// cooldownMs: minimum time between two utterances of the kind
+// maxWaitMs: how long a queued utterance stays relevant
+// dedupeMs: how long a spoken cue suppresses similar ones
+const KIND_SETTINGS = {
+  safety: { cooldownMs: 0, maxWaitMs: 10000, dedupeMs: 10000 },
+  set_complete: { cooldownMs: 0, maxWaitMs: 8000, dedupeMs: 5000 },
+  form: { cooldownMs: 5000, maxWaitMs: 4000, dedupeMs: 20000 },
+  encouragement: { cooldownMs: 15000, maxWaitMs: 3000, dedupeMs: 0 },
+};
+
+export const VERBOSITY_LEVELS = {
+  quiet: { cooldownScale: 2, minPriority: UTTERANCE_PRIORITY.form },
+  normal: { cooldownScale: 1, minPriority: UTTERANCE_PRIORITY.encouragement },
+  chatty: { cooldownScale: 0.6, minPriority: UTTERANCE_PRIORITY.encouragement },
+};
+
+const MIN_GAP_MS = 2000; // Between any two scheduled utterances
+const QUIET_AFTER_SPEECH_MS = 1500; // After the user stops talking
+const RETRY_MS = 250;
+const MAX_PLAYBACK_MS = 30000; // Release a finished utterance if speaking_end never comes
+const SIMILARITY_THRESHOLD = 0.6;
+
+function words(text) {
+  return new Set(
+    String(text || "")
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter(Boolean),
+  );
+}
+
+// Jaccard similarity of the two keys' word sets
+function similarity(a, b) {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * @param {Object} options
+ * @param {(utterance) => void} [options.interrupt] - stop the given utterance's audio on the client
+ * @param {string} [options.verbosity] - one of VERBOSITY_LEVELS
+ * @param {string} [options.socketId] - for logging
+ */
+export function createUtteranceScheduler({
+  interrupt = () => {},
+  verbosity = "normal",
+  socketId = null,
+} = {}) {
+  let level = VERBOSITY_LEVELS[verbosity] ? verbosity : "normal";
+  let queue = [];
+  let speaking = null; // Utterance in flight or still playing
+  let lastSpokenAt = 0;
+  const lastByKind = {}; // kind -> time spoken (or held off until)
+  let recent = []; // [{ kind, key, at }] for dedupe
+  let userSpeaking = false;
+  let userSpeechEndedAt = 0;
+  let avatarSpeaking = false;
+  let timer = null;
+  let nextId = 1;
+
+  const log = (message, fields) =>
+    logger.info(`[CoachScheduler] ${message}`, {
+      ...fields,
+      socketId,
+      component: "utteranceScheduler",
+    });
+
+  const cooldownFor = (kind) =>
+    KIND_SETTINGS[kind].cooldownMs * VERBOSITY_LEVELS[level].cooldownScale;
+
+  function isReady(kind, now = Date.now()) {
+    if (UTTERANCE_PRIORITY[kind] < VERBOSITY_LEVELS[level].minPriority) {
+      return false;
+    }
+    return now - (lastByKind[kind] || 0) >= cooldownFor(kind);
+  }
+
+  function isDuplicate(kind, key, now) {
+    const { dedupeMs } = KIND_SETTINGS[kind];
+    return recent.some(
+      (entry) =>
+        entry.kind === kind &&
+        now - entry.at < dedupeMs &&
+        similarity(entry.key, key) >= SIMILARITY_THRESHOLD,
+    );
+  }
+
+  function inQuietPeriod(now) {
+    return (
+      userSpeaking ||
+      now - userSpeechEndedAt < QUIET_AFTER_SPEECH_MS ||
+      // The avatar is talking but not on our behalf, e.g. answering the user
+      (avatarSpeaking && !speaking)
+    );
+  }
+
+  function schedulePump(delay = RETRY_MS) {
+    if (timer || queue.length === 0) return;
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, delay);
+  }
+
+  async function deliver(utterance) {
+    const now = Date.now();
+    speaking = utterance;
+    lastSpokenAt = now;
+    lastByKind[utterance.kind] = now;
+    recent = recent
+      .filter((entry) => now - entry.at < KIND_SETTINGS[entry.kind].dedupeMs)
+      .concat({ kind: utterance.kind, key: utterance.key, at: now });
+    // Anything less urgent that was waiting is stale once this is said
+    queue = queue.filter((item) => item.priority >= utterance.priority);
+
+    try {
+      await utterance.speak();
+    } catch (error) {
+      logger.error("[CoachScheduler] Utterance failed", {
+        error: error.message,
+        kind: utterance.kind,
+        key: utterance.key,
+        socketId,
+        component: "utteranceScheduler",
+      });
+    } finally {
+      if (speaking === utterance) {
+        // Audio may still be playing; avatar_speaking_end releases it
+        if (!avatarSpeaking) speaking = null;
+        utterance.done = true;
+      }
+      pump();
+    }
+  }
+
+  function pump() {
+    const now = Date.now();
+    if (
+      speaking?.done &&
+      (!avatarSpeaking || now - lastSpokenAt > MAX_PLAYBACK_MS)
+    ) {
+      speaking = null;
+    }
+    queue = queue.filter((item) => {
+      if (now - item.requestedAt <= KIND_SETTINGS[item.kind].maxWaitMs) {
+        return true;
+      }
+      log("Dropped stale utterance", { kind: item.kind, key: item.key });
+      return false;
+    });
+    const next = queue[0];
+    if (!next) return;
+
+    const isSafety = next.kind === "safety";
+    const preempts = speaking && next.priority > speaking.priority;
+
+    if (speaking && !preempts) return schedulePump();
+    if (!isSafety && inQuietPeriod(now)) return schedulePump();
+    if (!preempts && now - lastSpokenAt < MIN_GAP_MS) {
+      return schedulePump(MIN_GAP_MS - (now - lastSpokenAt));
+    }
+
+    queue.shift();
+    if (preempts) {
+      log("Preempting utterance", {
+        preempted: speaking.kind,
+        by: next.kind,
+        key: next.key,
+      });
+      interrupt(speaking);
+    }
+    deliver(next);
+  }
+
+  return {
+    /**
+     * Ask to say something. `speak` produces the audio (LLM + TTS or a
+     * direct message); `key` identifies the cue for dedupe, e.g. the form
+     * correction text. Returns false if it was rejected outright.
+     */
+    request({ kind, key = kind, speak }) {
+      const now = Date.now();
+      if (!UTTERANCE_PRIORITY[kind]) {
+        throw new Error(`Unknown utterance kind: ${kind}`);
+      }
+      if (!isReady(kind, now) || isDuplicate(kind, key, now)) {
+        return false;
+      }
+
+      const utterance = {
+        id: nextId++,
+        kind,
+        key,
+        speak,
+        priority: UTTERANCE_PRIORITY[kind],
+        requestedAt: now,
+      };
+
+      // A similar queued cue is replaced by the newer one
+      queue = queue.filter(
+        (item) =>
+          !(
+            item.kind === kind &&
+            similarity(item.key, key) >= SIMILARITY_THRESHOLD
+          ),
+      );
+      queue.push(utterance);
+      queue.sort((a, b) => b.priority - a.priority || a.id - b.id);
+      pump();
+      return true;
+    },
+
+    // Whether a request of this kind would pass its cooldown right now, so
+    // callers can skip building prompts that would be rejected
+    isReady: (kind) => isReady(kind),
+
+    // Restart a kind's cooldown without speaking, e.g. when an exercise starts
+    holdOff(kind) {
+      lastByKind[kind] = Date.now();
+    },
+
+    setUserSpeaking(isSpeaking) {
+      if (userSpeaking && !isSpeaking) userSpeechEndedAt = Date.now();
+      userSpeaking = isSpeaking;
+      if (!isSpeaking) schedulePump(QUIET_AFTER_SPEECH_MS);
+    },
+
+    setAvatarSpeaking(isSpeaking) {
+      avatarSpeaking = isSpeaking;
+      if (!isSpeaking) {
+        if (speaking?.done) speaking = null;
+        pump();
+      }
+    },
+
+    setVerbosity(nextLevel) {
+      if (!VERBOSITY_LEVELS[nextLevel]) return false;
+      level = nextLevel;
+      return true;
+    },
+
+    getVerbosity: () => level,
+
+    // Drop everything queued, e.g. on pause or session end
+    clear() {
+      queue = [];
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
@@ -4,6 +4,11 @@ import multer from "multer";
 import pool from "../db/index.js";
 import { verifyAdminToken } from "../middleware/adminAuth.js";
 import { creditsService } from "../services/creditsService.js";
+import {
+  discardFailedJob,
+  listFailedJobs,
+  retryFailedJob,
+} from "../services/jobQueue.js";
 import storageService from "../services/storage.js";
 
 const router = express.Router();
@@ -114,7 +119,11 @@ router.get("/personas", async (req, res, next) => {
       audio_references as "audioReferences",
       vision_enabled,
       vision_capture_interval,
-      reference_outfits as "referenceOutfits"
+      reference_outfits as "referenceOutfits",
+      languages,
+      voice_settings as "voiceSettings",
+      tts_provider as "ttsProvider",
+      stt_provider as "sttProvider"
     FROM "AvatarPersona" 
     ORDER BY is_published DESC, name ASC;
   `;
@@ -148,7 +157,11 @@ router.get("/personas/:id", async (req, res, next) => {
       audio_references as "audioReferences",
       vision_enabled,
       vision_capture_interval,
-      reference_outfits as "referenceOutfits"
+      reference_outfits as "referenceOutfits",
+      languages,
+      voice_settings as "voiceSettings",
+      tts_provider as "ttsProvider",
+      stt_provider as "sttProvider"
     FROM "AvatarPersona" 
     WHERE id = $1;
   `;
@@ -183,6 +196,10 @@ router.post("/personas", async (req, res, next) => {
     vision_enabled,
     vision_capture_interval,
     referenceOutfits,
+    languages,
+    voiceSettings,
+    ttsProvider,
+    sttProvider,
   } = req.body;
 
   if (!name || !systemPrompt || !voiceId) {
@@ -217,11 +234,16 @@ router.post("/personas", async (req, res, next) => {
     audio_references,
     vision_enabled,
     vision_capture_interval,
-    reference_outfits
+    reference_outfits,
+    languages,
+    voice_settings,
+    tts_provider,
+    stt_provider
   )
   VALUES (
     $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 
-    $11, $12, $13, $14, $15, $16, $17, $18
+    $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+    $21, $22
   )
   RETURNING 
     id, 
@@ -244,7 +266,11 @@ router.post("/personas", async (req, res, next) => {
     audio_references as "audioReferences",
     vision_enabled,
     vision_capture_interval,
-    reference_outfits as "referenceOutfits";
+    reference_outfits as "referenceOutfits",
+    languages,
+    voice_settings as "voiceSettings",
+    tts_provider as "ttsProvider",
+    stt_provider as "sttProvider";
 `;
 
   const result = await pool.query(query, [
@@ -266,6 +292,10 @@ router.post("/personas", async (req, res, next) => {
     vision_enabled || false, // $16
     vision_capture_interval || 5, // $17
     Array.isArray(referenceOutfits) ? JSON.stringify(referenceOutfits) : '[]', // $18
+    Array.isArray(languages) && languages.length > 0 ? languages : ["en"], // $19
+    JSON.stringify(voiceSettings || {}), // $20
+    ttsProvider || null, // $21
+    sttProvider || null, // $22
   ]);
 
   res.status(201).json(result.rows[0]);
@@ -300,6 +330,10 @@ router.patch("/personas/:id", async (req, res, next) => {
     vision_enabled: "vision_enabled",
     vision_capture_interval: "vision_capture_interval",
     referenceOutfits: "reference_outfits",
+    languages: "languages",
+    voiceSettings: "voice_settings",
+    ttsProvider: "tts_provider",
+    sttProvider: "stt_provider",
   };
 
   // Build SET clause dynamically
@@ -308,7 +342,11 @@ router.patch("/personas/:id", async (req, res, next) => {
       updateFields.push(`${dbField} = $${paramCount}`);
 
       // Handle special cases for data transformation
-      if (frontendField === "personality" || frontendField === "meta") {
+      if (
+        frontendField === "personality" ||
+        frontendField === "meta" ||
+        frontendField === "voiceSettings"
+      ) {
         values.push(
           typeof updates[frontendField] === "string"
             ? updates[frontendField]
@@ -321,10 +359,17 @@ router.patch("/personas/:id", async (req, res, next) => {
             ? JSON.stringify(updates[frontendField])
             : '[]'
         );
+      } else if (
+        frontendField === "ttsProvider" ||
+        frontendField === "sttProvider"
+      ) {
+        // Empty selection means the server default
+        values.push(updates[frontendField] || null);
       } else {
         if (
           frontendField === "preferredGenres" ||
-          frontendField === "audioReferences"
+          frontendField === "audioReferences" ||
+          frontendField === "languages"
         ) {
           values.push(
             Array.isArray(updates[frontendField]) ? updates[frontendField] : [],
@@ -368,7 +413,11 @@ router.patch("/personas/:id", async (req, res, next) => {
         preferred_genres as "preferredGenres",
         audio_references as "audioReferences",
         vision_enabled,
-        vision_capture_interval;
+        vision_capture_interval,
+        languages,
+        voice_settings as "voiceSettings",
+        tts_provider as "ttsProvider",
+        stt_provider as "sttProvider";
     `;
 
   values.push(id);
@@ -534,6 +583,35 @@ router.post(
 );
 
 
+// ==============================================================================
+// BACKGROUND JOB ROUTES
+// ==============================================================================
+
+// List media jobs that failed all their attempts, newest first
+router.get("/jobs/failed", async (req, res, next) => {
+  const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+  const jobs = await listFailedJobs({ limit });
+  res.json({ jobs });
+});
+
+// Requeue a failed job with a fresh set of attempts
+router.post("/jobs/:jobId/retry", async (req, res, next) => {
+  const job = await retryFailedJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: "Failed job not found" });
+  }
+  res.json({ message: "Job requeued", job });
+});
+
+// Drop a failed job from the list
+router.delete("/jobs/:jobId", async (req, res, next) => {
+  const discarded = await discardFailedJob(req.params.jobId);
+  if (!discarded) {
+    return res.status(404).json({ error: "Failed job not found" });
+  }
+  res.json({ message: "Job discarded", jobId: req.params.jobId });
+});
+
 // ==============================================================================
 // CREDIT MANAGEMENT ROUTES
 // ==============================================================================
@@ -70,11 +70,9 @@ router.post('/process-video', verifyJWTMiddleware, async (req, res, next) => {
   }
   
   // Process video in background
-  setImmediate(async () => {
-    await storageService.processVideoAfterUpload(key);
-  });
+  const job = await storageService.processVideoAfterUpload(key, { userId: req.user.userId });
   
-  res.json({ message: 'Video processing initiated' });
+  res.json({ message: 'Video processing initiated', jobId: job.id });
 });
 
 /**
@@ -108,14 +106,13 @@ router.post('/upload/:key', verifyJWTMiddleware, upload.single('video'), async (
   await storageService.saveFileLocally(key, req.file.buffer);
   
   // Process video in background (local and production)
-  setImmediate(async () => {
-    await storageService.processVideoAfterUpload(key, req.file.buffer);
-  });
+  const job = await storageService.processVideoAfterUpload(key, { userId });
 
   res.json({
     message: 'Video uploaded successfully',
     key,
-    publicUrl: storageService.getPublicUrl(key)
+    publicUrl: storageService.getPublicUrl(key),
+    jobId: job.id
   });
 });
 
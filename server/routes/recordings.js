@@ -1,169 +1,181 @@
+import { randomUUID } from 'crypto';
 import express from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
 import pool from '../db/index.js';
-import storageService from '../services/storage.js';
-import { v4 as uuidv4 } from 'uuid';
+import { planHighlightReel } from '../services/highlightReel.js';
+import { enqueueJob, getJob } from '../services/jobQueue.js';
+import {
+  finishRecordingUpload,
+  getRecordingManifest,
+  getRecordingStatus,
+  receiveRecordingChunk,
+  saveRecordingOverlay,
+  startRecordingUpload
+} from '../services/recordingUploads.js';
 import { verifyJWTMiddleware } from '../middleware/auth.js';
 
 const router = express.Router();
 const upload = multer({ dest: path.join(os.tmpdir(), 'uploads') });
-
-// Active recording sessions
-const activeRecordings = new Map();
+const overlayUpload = multer({
+  dest: path.join(os.tmpdir(), 'uploads'),
+  limits: {
+    fileSize: 40 * 1024 * 1024, // 40MB, a little over an hour of 10fps landmarks
+  },
+});
 
 /**
- * Start a new recording session
+ * Start a new recording upload
  */
 router.post('/start', async (req, res, next) => {
-  const { sessionId, avatarId, userId, mimeType } = req.body;
-  
-  if (!sessionId || !avatarId || !userId) {
-    return res.status(400).json({ error: 'Missing required fields' });
+  try {
+    const { sessionId, avatarId, userId, mimeType, callSessionId } = req.body;
+    const result = await startRecordingUpload({ sessionId, avatarId, userId, mimeType, callSessionId });
+    res.json(result);
+  } catch (error) {
+    next(error);
   }
-
-  const recordingId = uuidv4();
-  const tempDir = path.join(os.tmpdir(), 'recordings', recordingId);
-  
-  // Create temp directory for chunks
-  await fs.mkdir(tempDir, { recursive: true });
-  
-  // Store recording metadata
-  activeRecordings.set(recordingId, {
-    sessionId,
-    avatarId,
-    userId,
-    mimeType,
-    tempDir,
-    chunks: [],
-    startTime: Date.now()
-  });
-
-  console.log(`[Recordings] Started recording session: ${recordingId}`);
-  
-  res.json({ recordingId });
 });
 
 /**
- * Upload a recording chunk
+ * Upload a recording chunk, with an optional SHA-256 checksum of its bytes
  */
 router.post('/chunk', upload.single('chunk'), async (req, res, next) => {
-  const { recordingId, chunkIndex } = req.body;
   const chunkFile = req.file;
-  
-  if (!recordingId || !chunkFile) {
-    return res.status(400).json({ error: 'Missing recording ID or chunk' });
+  try {
+    const { recordingId, chunkIndex, checksum } = req.body;
+    if (!recordingId || !chunkFile) {
+      return res.status(400).json({ error: 'Missing recording ID or chunk' });
+    }
+
+    const buffer = await fs.readFile(chunkFile.path);
+    const result = await receiveRecordingChunk(recordingId, chunkIndex, buffer, { checksum });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  } finally {
+    if (chunkFile) {
+      await fs.rm(chunkFile.path, { force: true });
+    }
   }
+});
 
-  const recording = activeRecordings.get(recordingId);
-  if (!recording) {
-    return res.status(404).json({ error: 'Recording session not found' });
+/**
+ * Which chunks the server already has, for resuming an interrupted upload
+ */
+router.get('/:recordingId/manifest', async (req, res, next) => {
+  try {
+    res.json(await getRecordingManifest(req.params.recordingId));
+  } catch (error) {
+    next(error);
   }
+});
 
-  // Move chunk to recording directory
-  const chunkPath = path.join(recording.tempDir, `chunk_${chunkIndex.padStart(6, '0')}.webm`);
-  await fs.rename(chunkFile.path, chunkPath);
-  
-  // Track chunk
-  recording.chunks.push({
-    index: parseInt(chunkIndex),
-    path: chunkPath,
-    size: chunkFile.size
-  });
+/**
+ * Whether a finished recording is ready, with its video once it is
+ */
+router.get('/:recordingId/status', async (req, res, next) => {
+  try {
+    res.json(await getRecordingStatus(req.params.recordingId));
+  } catch (error) {
+    next(error);
+  }
+});
 
-  console.log(`[Recordings] Received chunk ${chunkIndex} for recording ${recordingId}`);
-  
-  res.json({ success: true });
+/**
+ * Upload the overlay track (pose landmark and workout stats timeline) that
+ * goes with one of the user's recordings, before it's finished
+ */
+router.post('/:recordingId/overlay', verifyJWTMiddleware, overlayUpload.single('overlay'), async (req, res, next) => {
+  const overlayFile = req.file;
+  try {
+    if (!overlayFile) {
+      return res.status(400).json({ error: 'Missing overlay track' });
+    }
+    const buffer = await fs.readFile(overlayFile.path);
+    res.json(await saveRecordingOverlay(req.params.recordingId, buffer, req.user.userId));
+  } catch (error) {
+    next(error);
+  } finally {
+    if (overlayFile) {
+      await fs.rm(overlayFile.path, { force: true });
+    }
+  }
 });
 
 /**
- * Finalize recording and create video
+ * Finalize recording and create video in a background job; poll
+ * /:recordingId/status for the result. Responds with the missing chunk
+ * indices instead while any are still missing.
  */
 router.post('/finish', async (req, res, next) => {
-  const { recordingId, totalChunks, duration } = req.body;
-  
-  const recording = activeRecordings.get(recordingId);
-  if (!recording) {
-    return res.status(404).json({ error: 'Recording session not found' });
+  try {
+    const { recordingId, lastChunkIndex, totalChunks, duration, acceptMissing } = req.body;
+    const result = await finishRecordingUpload(recordingId, {
+      lastChunkIndex: lastChunkIndex ?? (totalChunks != null ? totalChunks - 1 : null),
+      duration: duration ?? null,
+      acceptMissing: !!acceptMissing
+    });
+    res.status(result.jobId ? 202 : 200).json(result);
+  } catch (error) {
+    next(error);
   }
+});
 
-  console.log(`[Recordings] Finalizing recording ${recordingId} with ${recording.chunks.length} chunks`);
-
-  let videoUrl = null;
-  let thumbnailUrl = null;
-  let processedDuration = duration || 0;
-  let fileSize = 0;
-
+/**
+ * Cut a highlight reel from one of the user's recordings. Runs as a
+ * background job; poll /highlight-jobs/:jobId, then publish the reel's
+ * recording like any other.
+ */
+router.post('/:recordingId/highlights', verifyJWTMiddleware, async (req, res, next) => {
   try {
-    // Sort chunks by index
-    recording.chunks.sort((a, b) => a.index - b.index);
-    
-    // Concatenate chunks into single video file
-    const outputPath = path.join(recording.tempDir, 'final_video.webm');
-    await concatenateChunks(recording.chunks, outputPath);
-    
-    // Read the final video buffer
-    const videoBuffer = await fs.readFile(outputPath);
-    fileSize = videoBuffer.length;
-    
-    // Process video (generate thumbnail, validate, etc.)
-    const processedData = await storageService.processVideoBuffer(videoBuffer);
-    processedDuration = processedData.duration || duration || 0;
-    
-    // For now, save video locally and use local URLs
-    const videoKey = `recordings/${recordingId}/video.mp4`;
-    const thumbnailKey = `recordings/${recordingId}/thumbnail.jpg`;
-    
-    await storageService.saveFileLocally(videoKey, videoBuffer);
-    videoUrl = storageService.getPublicUrl(videoKey);
-    
-    if (processedData.thumbnailBuffer && processedData.thumbnailBuffer.length > 0) {
-      await storageService.saveFileLocally(thumbnailKey, processedData.thumbnailBuffer);
-      thumbnailUrl = storageService.getPublicUrl(thumbnailKey);
+    const recordingResult = await pool.query(
+      `SELECT * FROM "SessionRecording" WHERE id = $1 AND user_id = $2 AND highlight_of IS NULL`,
+      [req.params.recordingId, req.user.userId]
+    );
+    const recording = recordingResult.rows[0];
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found for this user.' });
     }
-    
-  } catch (videoError) {
-    console.error('[Recordings] Video processing failed, saving recording without video:', videoError);
-    // Continue without video - save recording metadata only
+
+    const { clips } = await planHighlightReel(recording);
+    if (clips.length === 0) {
+      return res.status(422).json({ error: 'No highlight moments in this recording' });
+    }
+
+    const job = await enqueueJob('highlight', {
+      recordingId: recording.id,
+      highlightId: randomUUID(),
+      userId: req.user.userId
+    });
+    res.status(202).json({ jobId: job.id, clips: clips.length });
+  } catch (error) {
+    next(error);
   }
-    
-    // Always save recording to database (even if video processing failed)
-    await pool.query(`
-      INSERT INTO "SessionRecording" 
-      (id, session_id, call_session_id, user_id, avatar_id, video_url, thumbnail_url, duration_sec, created_at, file_size)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9)
-      RETURNING *
-    `, [
-      recordingId,
-      recording.sessionId,
-      recording.callSessionId || null, // Include the real CallSession ID
-      recording.userId,
-      recording.avatarId,
-      videoUrl,
-      thumbnailUrl,
-      processedDuration,
-      fileSize
-    ]);
+});
 
-  // Cleanup temp files
+/**
+ * Progress of a highlight reel; result is the reel's recording once completed
+ */
+router.get('/highlight-jobs/:jobId', verifyJWTMiddleware, async (req, res, next) => {
   try {
-    await fs.rm(recording.tempDir, { recursive: true, force: true });
-  } catch (cleanupError) {
-    console.warn('[Recordings] Failed to cleanup temp files:', cleanupError);
+    const job = await getJob(req.params.jobId);
+    if (!job || job.type !== 'highlight' || job.data.userId !== req.user.userId) {
+      return res.status(404).json({ error: 'Highlight job not found' });
+    }
+    res.json({
+      jobId: job.id,
+      status: job.status,
+      progress: job.progress,
+      stage: job.stage,
+      error: job.status === 'failed' ? job.error : null,
+      result: job.result ?? null
+    });
+  } catch (error) {
+    next(error);
   }
-  
-  activeRecordings.delete(recordingId);
-  
-  console.log(`[Recordings] Recording ${recordingId} finalized and saved`);
-  
-  res.json({ 
-    recordingId,
-    videoUrl,
-    thumbnailUrl,
-    duration: processedDuration 
-  });
 });
 
 /**
@@ -211,8 +223,9 @@ router.post('/publish/:recordingId', async (req, res, next) => {
   // Create community post with proper call_id linkage
   const postResult = await pool.query(`
     INSERT INTO "CommunityPost" 
-    (call_id, video_url, thumbnail_url, duration_sec, transcript, handle, wallet_address, posted_by, recording_id)
-    SELECT $1, $2, $3, $4, $5, u.handle, u.wallet_address, u.id, $6
+    (call_id, video_url, thumbnail_url, duration_sec, transcript, handle, wallet_address, posted_by, recording_id,
+     hls_url, poster_url, scrub_sprite, overlay_url)
+    SELECT $1, $2, $3, $4, $5, u.handle, u.wallet_address, u.id, $6, $8, $9, $10, $11
     FROM "User" u WHERE u.id = $7
     RETURNING *
   `, [
@@ -222,7 +235,11 @@ router.post('/publish/:recordingId', async (req, res, next) => {
     recording.duration_sec,
     transcript || '',
     recordingId,
-    recording.user_id
+    recording.user_id,
+    recording.hls_url,
+    recording.poster_url,
+    recording.scrub_sprite,
+    recording.overlay_url
   ]);
   
   // --- Move: Mark the recording as published only after successful post creation ---
@@ -285,8 +302,9 @@ router.post('/toggle-visibility/:sessionRecordingId', verifyJWTMiddleware, async
     // Create CommunityPost (reference: publish route)
     const postInsertResult = await pool.query(
       `INSERT INTO "CommunityPost" 
-        (call_id, video_url, thumbnail_url, duration_sec, transcript, handle, wallet_address, posted_by, recording_id)
-        SELECT $1, $2, $3, $4, $5, u.handle, u.wallet_address, u.id, $6
+        (call_id, video_url, thumbnail_url, duration_sec, transcript, handle, wallet_address, posted_by, recording_id,
+         hls_url, poster_url, scrub_sprite, overlay_url)
+        SELECT $1, $2, $3, $4, $5, u.handle, u.wallet_address, u.id, $6, $8, $9, $10, $11
         FROM "User" u WHERE u.id = $7
         RETURNING *`,
       [
@@ -296,7 +314,11 @@ router.post('/toggle-visibility/:sessionRecordingId', verifyJWTMiddleware, async
         recording.duration_sec,
         transcript || '',
         sessionRecordingId,
-        userId
+        userId,
+        recording.hls_url,
+        recording.poster_url,
+        recording.scrub_sprite,
+        recording.overlay_url
       ]
     );
     // Mark as published in SessionRecording
@@ -342,40 +364,4 @@ router.post('/toggle-visibility/:sessionRecordingId', verifyJWTMiddleware, async
   });
 });
 
-/**
- * Concatenate video chunks into single file
- */
-async function concatenateChunks(chunks, outputPath) {
-  const chunkPaths = chunks.map(chunk => chunk.path);
-  
-  // Create file list for ffmpeg
-  const fileListPath = path.join(path.dirname(outputPath), 'filelist.txt');
-  const fileListContent = chunkPaths.map(p => `file '${p}'`).join('\n');
-  await fs.writeFile(fileListPath, fileListContent);
-  
-  // Use ffmpeg to concatenate
-  const { spawn } = await import('child_process');
-  const ffmpegPath = (await import('ffmpeg-static')).default;
-  
-  return new Promise((resolve, reject) => {
-    const ffmpeg = spawn(ffmpegPath, [
-      '-f', 'concat',
-      '-safe', '0',
-      '-i', fileListPath,
-      '-c', 'copy',
-      outputPath
-    ]);
-    
-    ffmpeg.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`FFmpeg failed with code ${code}`));
-      }
-    });
-    
-    ffmpeg.on('error', reject);
-  });
-}
-
 export default router; 
\ No newline at end of file
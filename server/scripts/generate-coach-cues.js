@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+/**
+ * Coach Cue Pre-synthesis Script
+ *
+ * Renders the fixed coaching cues (rep counts, countdowns, form corrections,
+ * set transitions) in every persona's voice, in each language the persona
+ * coaches in, and stores them for instant client-side playback. Only missing
+ * or reworded cues are rendered.
+ * Run with: node scripts/generate-coach-cues.js [avatarId] [--force]
+ */
+
+import dotenv from 'dotenv';
+import pool from '../db/index.js';
+import { getAllPersonas } from '../personas/config.js';
+import { ensureCueLibrary } from '../services/coachCueLibrary.js';
+
+dotenv.config();
+
+async function main() {
+  const force = process.argv.includes('--force');
+  const avatarArg = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+
+  try {
+    const personas = Object.values(await getAllPersonas())
+      .filter((persona) => !avatarArg || persona.id === avatarArg);
+
+    if (personas.length === 0) {
+      console.log('No personas found');
+      return;
+    }
+
+    for (const persona of personas) {
+      console.log(`🎙️  ${persona.name} (${persona.id})`);
+      for (const language of persona.languages || ['en']) {
+        const generated = await ensureCueLibrary(persona.id, { force, language });
+        console.log(`   ${language}: ${generated} cue(s) rendered`);
+      }
+    }
+
+    console.log('\n✅ Coach cue libraries are up to date');
+  } catch (error) {
+    console.error('💥 Fatal error:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+/**
+ * Coach Eval Script
+ *
+ * Runs the scripted conversation and workout-event scenarios in evals/scenarios
+ * against a persona prompt and scores the replies with rule-based checks
+ * (word limits, banned phrases, safety escalation, workout tool calls).
+ * The scripted model gives deterministic replies for checking the harness and
+ * handlers offline; use --provider openai (or another provider) to evaluate
+ * what a prompt actually produces.
+ *
+ * Run with: node scripts/run-evals.js [options]
+ *   --persona <avatarId>       Evaluate a stored persona instead of evals/personas/coach.json
+ *   --persona-file <path>      Evaluate a persona JSON file
+ *   --prompt-file <path>       Use this system prompt instead of the persona's
+ *   --compare-prompt <path>    Also run this prompt and diff it against the first
+ *   --baseline <report.json>   Diff against a saved report
+ *   --provider <name>          LLM provider (scripted, openai, ...)
+ *   --scenario <id>            Only run this scenario (repeatable)
+ *   --out <path>               Save the report (the compared prompt's, if any)
+ * Exits non-zero when a scenario fails or a diff has regressions.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import pool from '../db/index.js';
+import { getAvatarPersona } from '../personas/config.js';
+import { loadPersonaFile, loadScenarios, runEvals } from '../evals/runner.js';
+import { diffReports, formatDiff, formatReport } from '../evals/report.js';
+
+dotenv.config();
+
+function parseArgs(argv) {
+  const options = { scenarios: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--persona': options.persona = value; i++; break;
+      case '--persona-file': options.personaFile = value; i++; break;
+      case '--prompt-file': options.promptFile = value; i++; break;
+      case '--compare-prompt': options.comparePrompt = value; i++; break;
+      case '--baseline': options.baseline = value; i++; break;
+      case '--provider': options.provider = value; i++; break;
+      case '--scenario': options.scenarios.push(value); i++; break;
+      case '--out': options.out = value; i++; break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return options;
+}
+
+function readPrompt(promptPath) {
+  return fs.readFileSync(promptPath, 'utf8').trim();
+}
+
+async function loadPersona(options) {
+  if (options.persona) {
+    const persona = await getAvatarPersona(options.persona);
+    if (!persona) throw new Error(`Persona not found: ${options.persona}`);
+    return persona;
+  }
+  return loadPersonaFile(options.personaFile);
+}
+
+async function main() {
+  let exitCode = 0;
+
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const persona = await loadPersona(options);
+    const scenarios = loadScenarios(undefined, options.scenarios);
+    if (scenarios.length === 0) {
+      throw new Error('No scenarios to run');
+    }
+
+    console.log(`🧪 Running ${scenarios.length} scenario(s) for ${persona.name || persona.id}\n`);
+
+    const report = await runEvals(scenarios, {
+      persona,
+      provider: options.provider,
+      systemPrompt: options.promptFile ? readPrompt(options.promptFile) : undefined,
+      label: options.promptFile || 'current'
+    });
+    console.log(formatReport(report));
+
+    let finalReport = report;
+    let diff = null;
+    if (options.comparePrompt) {
+      finalReport = await runEvals(scenarios, {
+        persona,
+        provider: options.provider,
+        systemPrompt: readPrompt(options.comparePrompt),
+        label: options.comparePrompt
+      });
+      console.log(`\n${formatReport(finalReport)}`);
+      diff = diffReports(report, finalReport);
+    } else if (options.baseline) {
+      diff = diffReports(JSON.parse(fs.readFileSync(options.baseline, 'utf8')), report);
+    }
+
+    if (diff) {
+      console.log(`\n${formatDiff(diff)}`);
+      if (diff.regressions.length > 0) exitCode = 1;
+    }
+    if (finalReport.summary.failed > 0) exitCode = 1;
+
+    if (options.out) {
+      fs.writeFileSync(options.out, JSON.stringify(diff ? { ...finalReport, diff } : finalReport, null, 2));
+      console.log(`\n📄 Report saved to ${options.out}`);
+    }
+  } catch (error) {
+    console.error('💥 Fatal error:', error);
+    exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+
+  // LLM response timeouts are still pending; don't wait for them
+  process.exit(exitCode);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,131 @@
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import storageService from './storage.js';
+import { getTTSVoiceKey, synthesizeTTSWithTimestamps } from '../pipeline/ttsSynth.js';
+import { formCueId, getCoachCues, nextExerciseCueId } from '../constants/coachCues.js';
+
+const inFlight = new Map(); // avatarId:language -> generation promise
+
+function toManifestEntry(row) {
+  return {
+    cueId: row.cue_id,
+    text: row.text,
+    url: row.audio_url,
+    alignment: row.alignment,
+    duration: row.duration_seconds === null ? null : Number(row.duration_seconds)
+  };
+}
+
+/**
+ * Clips already rendered for the persona's current voice in the session
+ * language. This is what the client preloads; cues missing from it fall back
+ * to the LLM + TTS path.
+ */
+export async function getCueLibrary(avatarId, language = 'en') {
+  try {
+    const voiceId = await getTTSVoiceKey(avatarId, language);
+    const result = await pool.query(
+      `SELECT cue_id, text, audio_url, alignment, duration_seconds
+       FROM coach_cue_clips
+       WHERE avatar_id = $1 AND voice_id = $2 AND language = $3
+       ORDER BY cue_id`,
+      [avatarId, voiceId, language]
+    );
+    return result.rows.map(toManifestEntry);
+  } catch (error) {
+    logger.error('Error loading coach cue library', {
+      error: error.message,
+      avatarId,
+      language,
+      component: 'coachCueLibrary'
+    });
+    return [];
+  }
+}
+
+async function generateMissingCues(avatarId, { force = false, language = 'en' } = {}) {
+  const voiceId = await getTTSVoiceKey(avatarId, language);
+  const cues = getCoachCues(language);
+  const existing = await pool.query(
+    `SELECT cue_id, text FROM coach_cue_clips WHERE avatar_id = $1 AND voice_id = $2 AND language = $3`,
+    [avatarId, voiceId, language]
+  );
+  const rendered = new Map(existing.rows.map((row) => [row.cue_id, row.text]));
+  // A cue whose wording changed is rendered again
+  const missing = cues.filter((cue) => force || rendered.get(cue.id) !== cue.text);
+
+  let generated = 0;
+  for (const cue of missing) {
+    try {
+      const { audio, alignment, contentType } = await synthesizeTTSWithTimestamps(cue.text, avatarId, language);
+      const extension = contentType === 'audio/wav' ? 'wav' : 'mp3';
+      const key = `coach-cues/${avatarId}/${voiceId.replace(/:/g, '-')}/${language}/${cue.id.replace(/:/g, '-')}.${extension}`;
+      const audioUrl = await storageService.uploadFile(key, audio, contentType);
+      const duration = alignment.end_seconds.length > 0
+        ? alignment.end_seconds[alignment.end_seconds.length - 1]
+        : null;
+
+      await pool.query(
+        `INSERT INTO coach_cue_clips (avatar_id, voice_id, language, cue_id, text, audio_url, alignment, duration_seconds)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (avatar_id, voice_id, language, cue_id) DO UPDATE
+         SET text = EXCLUDED.text,
+             audio_url = EXCLUDED.audio_url,
+             alignment = EXCLUDED.alignment,
+             duration_seconds = EXCLUDED.duration_seconds,
+             created_at = NOW()`,
+        [avatarId, voiceId, language, cue.id, cue.text, audioUrl, JSON.stringify(alignment), duration]
+      );
+      generated++;
+    } catch (error) {
+      // One failed clip just means that cue goes through the LLM path
+      logger.error('Failed to pre-synthesize coach cue', {
+        error: error.message,
+        avatarId,
+        language,
+        cueId: cue.id,
+        component: 'coachCueLibrary'
+      });
+    }
+  }
+
+  logger.info('Coach cue library up to date', {
+    avatarId,
+    voiceId,
+    language,
+    generated,
+    total: cues.length,
+    component: 'coachCueLibrary'
+  });
+  return generated;
+}
+
+/**
+ * Render any cues the persona's voice doesn't have yet in the language.
+ * Concurrent calls for the same persona and language share one run.
+ */
+export function ensureCueLibrary(avatarId, options = {}) {
+  const runKey = `${avatarId}:${options.language || 'en'}`;
+  if (!inFlight.has(runKey)) {
+    const run = generateMissingCues(avatarId, options)
+      .finally(() => inFlight.delete(runKey));
+    inFlight.set(runKey, run);
+  }
+  return inFlight.get(runKey);
+}
+
+/**
+ * Cached cue for a detector form correction, if the library has one
+ */
+export function findFormCue(library, correction) {
+  const cueId = formCueId(correction);
+  return library.some((cue) => cue.cueId === cueId) ? cueId : null;
+}
+
+/**
+ * Cached "next up" cue for an exercise, if the library has one
+ */
+export function findNextExerciseCue(library, exercise) {
+  const cueId = nextExerciseCueId(exercise);
+  return library.some((cue) => cue.cueId === cueId) ? cueId : null;
+}
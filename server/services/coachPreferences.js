@@ -0,0 +1,99 @@
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import { VERBOSITY_LEVELS } from '../pipeline/utteranceScheduler.js';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../constants/languages.js';
+
+/**
+ * Get how talkative the coach should be for a user, from
+ * user_fitness_profile.preferences.coachVerbosity
+ */
+export async function getCoachVerbosity(userId) {
+  try {
+    const result = await pool.query(
+      `SELECT preferences->>'coachVerbosity' AS verbosity
+       FROM user_fitness_profile
+       WHERE user_id = $1`,
+      [userId]
+    );
+    const verbosity = result.rows[0]?.verbosity;
+    return VERBOSITY_LEVELS[verbosity] ? verbosity : 'normal';
+  } catch (error) {
+    logger.error('Error loading coach verbosity', {
+      error: error.message,
+      userId,
+      component: 'coachPreferences'
+    });
+    return 'normal';
+  }
+}
+
+// Merge one key into user_fitness_profile.preferences, creating the profile if needed
+async function savePreference(userId, key, value) {
+  await pool.query(
+    `INSERT INTO user_fitness_profile (user_id, fitness_level, preferences, created_at, updated_at)
+     VALUES ($1, 'beginner', jsonb_build_object($2::text, $3::text), NOW(), NOW())
+     ON CONFLICT (user_id) DO UPDATE
+     SET preferences = COALESCE(user_fitness_profile.preferences, '{}'::jsonb) || jsonb_build_object($2::text, $3::text),
+         updated_at = NOW()`,
+    [userId, key, value]
+  );
+}
+
+/**
+ * Store the user's coach verbosity, leaving the rest of preferences
+ * untouched. Creates the fitness profile if needed.
+ */
+export async function saveCoachVerbosity(userId, verbosity) {
+  if (!VERBOSITY_LEVELS[verbosity]) {
+    throw new Error(`Unknown verbosity: ${verbosity}`);
+  }
+
+  await savePreference(userId, 'coachVerbosity', verbosity);
+
+  logger.info('Saved coach verbosity', {
+    userId,
+    verbosity,
+    component: 'coachPreferences'
+  });
+}
+
+/**
+ * Get the language the user coaches in, from
+ * user_fitness_profile.preferences.language
+ */
+export async function getCoachLanguage(userId) {
+  try {
+    const result = await pool.query(
+      `SELECT preferences->>'language' AS language
+       FROM user_fitness_profile
+       WHERE user_id = $1`,
+      [userId]
+    );
+    const language = result.rows[0]?.language;
+    return isSupportedLanguage(language) ? language : DEFAULT_LANGUAGE;
+  } catch (error) {
+    logger.error('Error loading coach language', {
+      error: error.message,
+      userId,
+      component: 'coachPreferences'
+    });
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+/**
+ * Store the user's session language
+ */
+export async function saveCoachLanguage(userId, language) {
+  if (!isSupportedLanguage(language)) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+
+  await savePreference(userId, 'language', language);
+
+  logger.info('Saved coach language', {
+    userId,
+    language,
+    component: 'coachPreferences'
+  });
+}
@@ -0,0 +1,562 @@
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import { getAvatarPersona } from '../personas/config.js';
+import { personaLLMOptions, resolveLLM } from '../pipeline/llmProviders/index.js';
+
+// Prompt tokens for memory plus recent turns; the summary, facts and moments
+// may use up to MEMORY_BLOCK_SHARE of it and recent turns fill the rest
+export const MEMORY_TOKEN_BUDGET = Number(process.env.COACH_MEMORY_TOKEN_BUDGET) || 3000;
+const MEMORY_BLOCK_SHARE = 0.35;
+const IMAGE_TOKENS = 85;
+const RECENT_SESSION_LIMIT = 5;
+const RELEVANT_MOMENT_LIMIT = 5;
+const LATEST_MOMENT_LIMIT = 3;
+const SUMMARY_BATCH_SIZE = 5;
+const MAX_SUMMARY_ATTEMPTS = 3; // Unparseable summaries of one session before it's skipped
+const TRANSCRIPT_CHAR_LIMIT = 12000;
+const PREFERENCE_NOTE_LIMIT = 20;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was',
+  'one', 'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'got', 'let',
+  'she', 'too', 'use', 'that', 'this', 'with', 'have', 'from', 'they', 'will', 'what', 'when', 'were',
+  'just', 'like', 'been', 'some', 'them', 'then', 'than', 'very', 'into', 'about', 'would', 'there',
+  'could', 'should', 'today', 'really', 'going', 'want', 'know', 'think', 'yeah', 'okay'
+]);
+
+const SUMMARY_PROMPT = `You maintain a fitness coach's long-term memory of one client.
+You are given the memory so far and the transcript of the client's latest session.
+Respond with JSON only:
+{
+  "summary": "the updated rolling summary of everything known about the client, at most 150 words",
+  "facts": [
+    { "type": "injury", "bodyPart": "knee", "side": "left|right|null", "severity": "mild|moderate|severe", "status": "active|resolved", "note": "sore after lunges" },
+    { "type": "goal", "text": "run a 5k in under 30 minutes" },
+    { "type": "preference", "text": "hates burpees", "exercise": "Burpees or null", "stance": "prefers|avoids|null" },
+    { "type": "pr", "exercise": "Push-ups", "value": 25, "unit": "reps" }
+  ],
+  "moments": ["short, specific things from this session worth bringing up later"]
+}
+Only include facts the client actually stated in this session. Use empty arrays when there are none.`;
+
+// Refreshes in flight, keyed by user and avatar, so overlapping call ends
+// don't summarize the same sessions twice
+const refreshing = new Set();
+
+/**
+ * Rough token count (about four characters per token) for prompt budgeting
+ */
+export function estimateTokens(text) {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+function messageTokens(message) {
+  if (Array.isArray(message.content)) {
+    return message.content.reduce(
+      (sum, item) => sum + (item.type === 'image_url' ? IMAGE_TOKENS : estimateTokens(item.text)),
+      4
+    );
+  }
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '');
+  return 4 + estimateTokens(content);
+}
+
+function messageText(message) {
+  if (Array.isArray(message.content)) {
+    return message.content.filter(item => item.type === 'text').map(item => item.text).join(' ');
+  }
+  return typeof message.content === 'string' ? message.content : '';
+}
+
+/**
+ * "today", "yesterday", "on Tuesday", "last Tuesday" or "on Mar 3"
+ */
+export function describeWhen(date, now = new Date()) {
+  const then = new Date(date);
+  const startOfDay = d => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(now) - startOfDay(then)) / (24 * 60 * 60 * 1000));
+  const weekday = then.toLocaleDateString('en-US', { weekday: 'long' });
+
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `on ${weekday}`;
+  if (days < 14) return `last ${weekday}`;
+  return `on ${then.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+/**
+ * One line for an injury stored in user_fitness_profile.injuries; older
+ * profiles may hold plain strings
+ */
+export function describeInjury(injury) {
+  if (typeof injury === 'string') return injury;
+  const part = [injury.side, injury.bodyPart].filter(Boolean).join(' ');
+  const severity = injury.severity ? ` (${injury.severity})` : '';
+  const note = injury.note ? `: ${injury.note}` : '';
+  const status = injury.status === 'resolved' ? ', since resolved' : '';
+  return `${part}${severity}${note}${status}`;
+}
+
+export function normalizeGoals(goals) {
+  if (Array.isArray(goals)) return goals;
+  // Early profiles stored goals as { strength: true, cardio: true }
+  if (goals && typeof goals === 'object') return Object.keys(goals).filter(key => goals[key]);
+  return [];
+}
+
+function cleanText(value, maxLength = 200) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function searchTerms(text) {
+  const words = String(text || '').toLowerCase().match(/[a-z]{3,}/g) || [];
+  return [...new Set(words)].filter(word => !STOP_WORDS.has(word)).slice(0, 12);
+}
+
+async function getMemoryRow(userId, avatarId) {
+  const result = await pool.query(
+    `SELECT summary, summarized_through
+     FROM coaching_memory
+     WHERE user_id = $1 AND avatar_id = $2`,
+    [userId, avatarId]
+  );
+  return result.rows[0] || null;
+}
+
+async function getProfileFacts(userId) {
+  const result = await pool.query(
+    `SELECT goals, injuries, preferences
+     FROM user_fitness_profile
+     WHERE user_id = $1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Past moments relevant to the current message (full-text match), plus the
+ * latest few so recent events surface even when nothing matches
+ */
+async function getMoments(userId, avatarId, query) {
+  const terms = searchTerms(query);
+  const relevant = terms.length > 0
+    ? await pool.query(
+      `SELECT id, kind, content, occurred_at
+       FROM coaching_memory_moments
+       WHERE user_id = $1 AND avatar_id = $2
+         AND search_vector @@ to_tsquery('english', $3)
+       ORDER BY ts_rank(search_vector, to_tsquery('english', $3)) DESC, occurred_at DESC
+       LIMIT $4`,
+      [userId, avatarId, terms.join(' | '), RELEVANT_MOMENT_LIMIT]
+    )
+    : { rows: [] };
+  const latest = await pool.query(
+    `SELECT id, kind, content, occurred_at
+     FROM coaching_memory_moments
+     WHERE user_id = $1 AND avatar_id = $2
+     ORDER BY occurred_at DESC
+     LIMIT $3`,
+    [userId, avatarId, LATEST_MOMENT_LIMIT]
+  );
+
+  const seen = new Set();
+  return [...relevant.rows, ...latest.rows].filter(moment => {
+    if (seen.has(moment.id)) return false;
+    seen.add(moment.id);
+    return true;
+  });
+}
+
+async function getRecentSessions(userId, avatarId) {
+  const result = await pool.query(
+    `SELECT id, transcript, started_at
+     FROM "CallSession"
+     WHERE user_id = $1 AND avatar_id = $2 AND transcript IS NOT NULL
+     ORDER BY started_at DESC
+     LIMIT $3`,
+    [userId, avatarId, RECENT_SESSION_LIMIT]
+  );
+  return result.rows;
+}
+
+function buildMemoryPrompt(memory, profile, moments, budget) {
+  const lines = [];
+  let used = 0;
+  const add = line => {
+    const tokens = estimateTokens(line);
+    if (used + tokens > budget) return false;
+    lines.push(line);
+    used += tokens;
+    return true;
+  };
+
+  add('What you remember about this user from past sessions. Bring it up naturally when relevant; do not recite it.');
+
+  const injuries = Array.isArray(profile?.injuries) ? profile.injuries : [];
+  const activeInjuries = injuries.filter(injury => injury?.status !== 'resolved');
+  if (activeInjuries.length > 0) {
+    add(`Injuries: ${activeInjuries.map(injury => {
+      const reported = injury.date ? ` (reported ${describeWhen(injury.date)})` : '';
+      return `${describeInjury(injury)}${reported}`;
+    }).join('; ')}`);
+  }
+  const goals = normalizeGoals(profile?.goals).filter(goal => goal !== 'general_fitness');
+  if (goals.length > 0) {
+    add(`Goals: ${goals.join('; ')}`);
+  }
+  const notes = profile?.preferences?.notes || [];
+  if (notes.length > 0) {
+    add(`Preferences: ${notes.join('; ')}`);
+  }
+  if (memory?.summary) {
+    add(`Summary: ${memory.summary.slice(0, Math.max(0, (budget - used) * 4 - 20))}`);
+  }
+
+  if (moments.length > 0 && add('Past moments:')) {
+    for (const moment of moments) {
+      if (!add(`- ${describeWhen(moment.occurred_at)}: ${moment.content}`)) break;
+    }
+  }
+
+  return { prompt: lines.length > 1 ? lines.join('\n') : null, tokens: used };
+}
+
+/**
+ * Memory for a coaching prompt within a token budget: a system prompt with
+ * the rolling summary, profile facts and past moments relevant to `query`,
+ * and as many of the most recent transcript turns (this call and earlier
+ * ones) as fit in what is left
+ */
+export async function getMemoryContext({ userId, avatarId, query = '', tokenBudget = MEMORY_TOKEN_BUDGET }) {
+  if (!userId || !avatarId) return { memoryPrompt: null, recentTurns: [], sessionCount: 0 };
+
+  const [memory, profile, moments, sessions] = await Promise.all([
+    getMemoryRow(userId, avatarId).catch(() => null),
+    getProfileFacts(userId).catch(() => null),
+    getMoments(userId, avatarId, query).catch(error => {
+      logger.error('Error retrieving coaching moments', { error: error.message, userId, component: 'coachingMemory' });
+      return [];
+    }),
+    getRecentSessions(userId, avatarId)
+  ]);
+
+  const { prompt, tokens } = buildMemoryPrompt(memory, profile, moments, Math.floor(tokenBudget * MEMORY_BLOCK_SHARE));
+
+  // Walk back from the newest turn until the remaining budget is spent
+  const recentTurns = [];
+  let remaining = tokenBudget - tokens;
+  for (const session of sessions) {
+    const transcript = Array.isArray(session.transcript) ? session.transcript : [];
+    for (let i = transcript.length - 1; i >= 0 && remaining > 0; i--) {
+      const cost = messageTokens(transcript[i]);
+      if (cost > remaining) {
+        remaining = 0;
+        break;
+      }
+      recentTurns.unshift(transcript[i]);
+      remaining -= cost;
+    }
+    if (remaining <= 0) break;
+  }
+
+  return { memoryPrompt: prompt, recentTurns, sessionCount: sessions.length };
+}
+
+function transcriptText(transcript) {
+  const text = (Array.isArray(transcript) ? transcript : [])
+    .map(message => {
+      const content = messageText(message);
+      if (!content) return null;
+      return `${message.role === 'user' ? 'Client' : 'Coach'}: ${content}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+  // Keep the end of long sessions; that's where wrap-ups and complaints land
+  return text.length > TRANSCRIPT_CHAR_LIMIT ? text.slice(-TRANSCRIPT_CHAR_LIMIT) : text;
+}
+
+async function summarizeSession(persona, summary, session) {
+  const transcript = transcriptText(session.transcript);
+  if (!transcript) return { summary, facts: [], moments: [] };
+
+  const { provider: providerName, model: requestedModel } = personaLLMOptions(persona);
+  const { provider, model } = resolveLLM(providerName, requestedModel);
+  const completion = await provider.chat({
+    model,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Memory so far:\n${summary || '(nothing yet)'}\n\nSession on ${new Date(session.started_at).toDateString()}:\n${transcript}`
+      }
+    ],
+    max_tokens: 700,
+    temperature: 0.2
+  });
+
+  const response = completion.choices[0]?.message?.content || '';
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    return {
+      summary: cleanText(parsed.summary, 1500) || summary,
+      facts: Array.isArray(parsed.facts) ? parsed.facts.filter(fact => fact && typeof fact === 'object') : [],
+      moments: Array.isArray(parsed.moments) ? parsed.moments.map(moment => cleanText(moment)).filter(Boolean) : []
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold extracted facts into a fitness profile: injuries keyed by side and
+ * body part (latest report wins), goals deduplicated, preferences as notes
+ * plus preferredExercises/avoidExercises when tied to an exercise
+ */
+export function mergeProfileFacts(profile, facts, reportedAt) {
+  const injuries = Array.isArray(profile?.injuries) ? profile.injuries.filter(injury => typeof injury === 'object') : [];
+  const goals = normalizeGoals(profile?.goals);
+  const preferences = { ...(profile?.preferences || {}) };
+  const date = new Date(reportedAt).toISOString();
+
+  for (const fact of facts) {
+    if (fact.type === 'injury' && cleanText(fact.bodyPart)) {
+      const injury = {
+        bodyPart: cleanText(fact.bodyPart, 50).toLowerCase(),
+        side: ['left', 'right'].includes(fact.side) ? fact.side : null,
+        severity: ['mild', 'moderate', 'severe'].includes(fact.severity) ? fact.severity : null,
+        status: fact.status === 'resolved' ? 'resolved' : 'active',
+        note: cleanText(fact.note) || null,
+        date
+      };
+      const index = injuries.findIndex(existing => existing.bodyPart === injury.bodyPart && (existing.side || null) === injury.side);
+      if (index >= 0) injuries[index] = injury;
+      else injuries.push(injury);
+    } else if (fact.type === 'goal' && cleanText(fact.text)) {
+      const goal = cleanText(fact.text);
+      if (!goals.some(existing => existing.toLowerCase() === goal.toLowerCase())) goals.push(goal);
+    } else if (fact.type === 'preference' && cleanText(fact.text)) {
+      const note = cleanText(fact.text);
+      preferences.notes = [...(preferences.notes || []).filter(existing => existing !== note), note].slice(-PREFERENCE_NOTE_LIMIT);
+      const exercise = cleanText(fact.exercise, 50);
+      if (exercise && ['prefers', 'avoids'].includes(fact.stance)) {
+        const add = fact.stance === 'prefers' ? 'preferredExercises' : 'avoidExercises';
+        const remove = fact.stance === 'prefers' ? 'avoidExercises' : 'preferredExercises';
+        preferences[add] = [...new Set([...(preferences[add] || []), exercise])];
+        preferences[remove] = (preferences[remove] || []).filter(existing => existing !== exercise);
+      }
+    }
+  }
+
+  return { injuries, goals, preferences };
+}
+
+function describeFact(fact) {
+  switch (fact.type) {
+    case 'injury':
+      return cleanText(fact.bodyPart) ? `Injury: ${describeInjury({ ...fact, bodyPart: cleanText(fact.bodyPart, 50) })}` : null;
+    case 'goal':
+      return cleanText(fact.text) ? `Goal: ${cleanText(fact.text)}` : null;
+    case 'preference':
+      return cleanText(fact.text) ? `Preference: ${cleanText(fact.text)}` : null;
+    case 'pr':
+      return cleanText(fact.exercise) && Number.isFinite(Number(fact.value))
+        ? `Personal record: ${cleanText(fact.exercise, 50)} ${Number(fact.value)} ${cleanText(fact.unit, 20)}`.trim()
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Merge facts into the fitness profile within the caller's transaction
+async function saveProfileFacts(client, userId, facts, reportedAt) {
+  const current = await client.query(
+    `SELECT goals, injuries, preferences
+     FROM user_fitness_profile
+     WHERE user_id = $1
+     FOR UPDATE`,
+    [userId]
+  );
+  const { injuries, goals, preferences } = mergeProfileFacts(current.rows[0], facts, reportedAt);
+  await client.query(
+    `INSERT INTO user_fitness_profile (user_id, fitness_level, goals, injuries, preferences, created_at, updated_at)
+     VALUES ($1, 'beginner', $2, $3, $4, NOW(), NOW())
+     ON CONFLICT (user_id) DO UPDATE
+     SET goals = EXCLUDED.goals,
+         injuries = EXCLUDED.injuries,
+         preferences = EXCLUDED.preferences,
+         updated_at = NOW()`,
+    [userId, JSON.stringify(goals), JSON.stringify(injuries), JSON.stringify(preferences)]
+  );
+}
+
+async function saveSessionMemory(userId, avatarId, session, extracted) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO coaching_memory (user_id, avatar_id, summary, summarized_through, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (user_id, avatar_id) DO UPDATE
+       SET summary = EXCLUDED.summary,
+           summarized_through = EXCLUDED.summarized_through,
+           failed_session_id = NULL,
+           failed_attempts = 0,
+           updated_at = NOW()`,
+      [userId, avatarId, extracted.summary, session.started_at]
+    );
+
+    const moments = [
+      ...extracted.facts.map(fact => ({ kind: fact.type, content: describeFact(fact) })),
+      ...extracted.moments.map(content => ({ kind: 'moment', content }))
+    ].filter(moment => moment.content);
+    for (const moment of moments) {
+      await client.query(
+        `INSERT INTO coaching_memory_moments (user_id, avatar_id, call_session_id, kind, content, occurred_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [userId, avatarId, session.id, moment.kind, moment.content, session.started_at]
+      );
+    }
+
+    if (extracted.facts.length > 0) {
+      await saveProfileFacts(client, userId, extracted.facts, session.started_at);
+    }
+
+    await client.query('COMMIT');
+    return moments.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Count a summary of the session that couldn't be parsed; returns how many
+// times that has happened for it in a row
+async function recordSummaryFailure(userId, avatarId, session) {
+  const result = await pool.query(
+    `INSERT INTO coaching_memory (user_id, avatar_id, failed_session_id, failed_attempts, updated_at)
+     VALUES ($1, $2, $3, 1, NOW())
+     ON CONFLICT (user_id, avatar_id) DO UPDATE
+     SET failed_attempts = CASE
+           WHEN coaching_memory.failed_session_id = EXCLUDED.failed_session_id THEN coaching_memory.failed_attempts + 1
+           ELSE 1
+         END,
+         failed_session_id = EXCLUDED.failed_session_id,
+         updated_at = NOW()
+     RETURNING failed_attempts`,
+    [userId, avatarId, session.id]
+  );
+  return result.rows[0].failed_attempts;
+}
+
+// Move the summary past a session without folding it in
+async function skipSession(userId, avatarId, session) {
+  await pool.query(
+    `UPDATE coaching_memory
+     SET summarized_through = $3,
+         failed_session_id = NULL,
+         failed_attempts = 0,
+         updated_at = NOW()
+     WHERE user_id = $1 AND avatar_id = $2`,
+    [userId, avatarId, session.started_at]
+  );
+}
+
+/**
+ * Store facts reported mid-session (e.g. an injury the coach logged) in the
+ * fitness profile right away instead of waiting for the post-call summary
+ */
+export async function recordProfileFacts(userId, facts, reportedAt = new Date()) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await saveProfileFacts(client, userId, facts, reportedAt);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fold finished calls that aren't in the rolling summary yet into it,
+ * oldest first, extracting facts and moments along the way. Safe to call
+ * fire-and-forget when a call ends; failures are logged and the remaining
+ * calls are picked up on the next refresh. A call whose summary can't be
+ * parsed MAX_SUMMARY_ATTEMPTS times is skipped.
+ */
+export async function refreshCoachingMemory(userId, avatarId) {
+  if (!userId || !avatarId) return;
+  const key = `${userId}:${avatarId}`;
+  if (refreshing.has(key)) return;
+  refreshing.add(key);
+
+  try {
+    const memory = await getMemoryRow(userId, avatarId);
+    const sessions = await pool.query(
+      `SELECT id, transcript, started_at
+       FROM "CallSession"
+       WHERE user_id = $1 AND avatar_id = $2
+         AND ended_at IS NOT NULL
+         AND transcript IS NOT NULL
+         AND started_at > COALESCE($3, '-infinity'::timestamptz)
+       ORDER BY started_at ASC
+       LIMIT $4`,
+      [userId, avatarId, memory?.summarized_through || null, SUMMARY_BATCH_SIZE]
+    );
+    if (sessions.rows.length === 0) return;
+
+    const persona = await getAvatarPersona(avatarId);
+    let summary = memory?.summary || null;
+    for (const session of sessions.rows) {
+      const extracted = await summarizeSession(persona, summary, session);
+      if (!extracted) {
+        const attempts = await recordSummaryFailure(userId, avatarId, session);
+        if (attempts < MAX_SUMMARY_ATTEMPTS) {
+          logger.warn('Could not parse coaching memory summary, will retry', {
+            userId,
+            callSessionId: session.id,
+            attempts,
+            component: 'coachingMemory'
+          });
+          break;
+        }
+        await skipSession(userId, avatarId, session);
+        logger.error('Could not parse coaching memory summary, skipping session', {
+          userId,
+          avatarId,
+          callSessionId: session.id,
+          attempts,
+          component: 'coachingMemory'
+        });
+        continue;
+      }
+      const momentCount = await saveSessionMemory(userId, avatarId, session, extracted);
+      summary = extracted.summary;
+
+      logger.info('Updated coaching memory', {
+        userId,
+        avatarId,
+        callSessionId: session.id,
+        factCount: extracted.facts.length,
+        momentCount,
+        component: 'coachingMemory'
+      });
+    }
+  } catch (error) {
+    logger.error('Error refreshing coaching memory', {
+      error: error.message,
+      userId,
+      avatarId,
+      component: 'coachingMemory'
+    });
+  } finally {
+    refreshing.delete(key);
+  }
+}
@@ -0,0 +1,87 @@
+import { getExerciseDefinition } from '../constants/exercises.js';
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+
+const ANGLE_SOURCES = ['image', 'world'];
+
+/**
+ * Get a user's per-exercise rep calibrations from
+ * user_fitness_profile.preferences.calibration, keyed by exercise name
+ */
+export async function getExerciseCalibrations(userId) {
+  try {
+    const result = await pool.query(
+      `SELECT preferences->'calibration' AS calibration
+       FROM user_fitness_profile
+       WHERE user_id = $1`,
+      [userId]
+    );
+    return result.rows[0]?.calibration || {};
+  } catch (error) {
+    logger.error('Error loading exercise calibrations', {
+      error: error.message,
+      userId,
+      component: 'exerciseCalibration'
+    });
+    return {};
+  }
+}
+
+/**
+ * Check a calibration sent by the client before it is stored
+ */
+export function validateExerciseCalibration(exercise, calibration) {
+  if (!getExerciseDefinition(exercise)) {
+    return `Unknown exercise: ${exercise}`;
+  }
+  const { bottom, top, reps, angleSource } = calibration || {};
+  if (![bottom, top, reps].every(Number.isFinite)) {
+    return 'Calibration needs numeric bottom, top and reps';
+  }
+  if (bottom < 0 || top > 180 || bottom >= top) {
+    return 'Calibration angles must satisfy 0 <= bottom < top <= 180';
+  }
+  if (!ANGLE_SOURCES.includes(angleSource)) {
+    return `Unknown angle source: ${angleSource}`;
+  }
+  return null;
+}
+
+/**
+ * Store one exercise's calibration, leaving the other exercises and the rest
+ * of preferences untouched. Creates the fitness profile if needed.
+ */
+export async function saveExerciseCalibration(userId, exercise, calibration) {
+  const { bottom, top, reps, angleSource } = calibration;
+  const entry = {
+    bottom,
+    top,
+    reps,
+    angleSource,
+    calibratedAt: new Date().toISOString()
+  };
+
+  await pool.query(
+    `INSERT INTO user_fitness_profile (user_id, fitness_level, preferences, created_at, updated_at)
+     VALUES ($1, 'beginner', jsonb_build_object('calibration', jsonb_build_object($2::text, $3::jsonb)), NOW(), NOW())
+     ON CONFLICT (user_id) DO UPDATE
+     SET preferences = jsonb_set(
+           COALESCE(user_fitness_profile.preferences, '{}'::jsonb),
+           '{calibration}',
+           COALESCE(user_fitness_profile.preferences->'calibration', '{}'::jsonb) || jsonb_build_object($2::text, $3::jsonb)
+         ),
+         updated_at = NOW()`,
+    [userId, exercise, JSON.stringify(entry)]
+  );
+
+  logger.info('Saved exercise calibration', {
+    userId,
+    exercise,
+    bottom,
+    top,
+    angleSource,
+    component: 'exerciseCalibration'
+  });
+
+  return entry;
+}
@@ -0,0 +1,279 @@
+import { EQUIPMENT, WEIGHT_UNITS } from '../constants/exercises.js';
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+
+/**
+ * Get the exercise session for a call, creating it on the first completed set
+ * or workout snapshot
+ */
+export async function getOrCreateExerciseSession({ userId, avatarId, callSessionId }) {
+  const existing = await pool.query(
+    `SELECT id FROM exercise_sessions
+     WHERE call_session_id = $1 AND completed_at IS NULL
+     ORDER BY id DESC
+     LIMIT 1`,
+    [callSessionId]
+  );
+
+  if (existing.rows.length > 0) {
+    return existing.rows[0].id;
+  }
+
+  const created = await pool.query(
+    `INSERT INTO exercise_sessions (user_id, avatar_id, call_session_id)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [userId, avatarId, callSessionId]
+  );
+
+  logger.info('[ExerciseTracking] Created exercise session', {
+    exerciseSessionId: created.rows[0].id,
+    callSessionId,
+    userId,
+    component: 'exerciseTracking'
+  });
+
+  return created.rows[0].id;
+}
+
+/**
+ * Normalise a client-reported load ({ weight, unit, equipment }); anything
+ * unrecognised falls back to bodyweight rather than failing the set
+ */
+export function normalizeSetLoad(load) {
+  const weight = Number(load?.weight);
+  return {
+    weight: Number.isFinite(weight) && weight > 0 ? Math.round(weight * 100) / 100 : null,
+    unit: WEIGHT_UNITS.includes(load?.unit) ? load.unit : 'kg',
+    equipment: EQUIPMENT.includes(load?.equipment) ? load.equipment : 'bodyweight'
+  };
+}
+
+/**
+ * Persist a completed set. `feedback` holds per-set analytics such as
+ * left/right asymmetry, per-side rep counts and fatigue; `load` is the
+ * external weight used, if any.
+ */
+export async function recordExerciseSet(exerciseSessionId, set) {
+  const { exerciseName, targetReps = null, completedReps, formScore = null, feedback = {}, load = null } = set;
+  const { weight, unit, equipment } = normalizeSetLoad(load);
+
+  const result = await pool.query(
+    `INSERT INTO exercise_sets
+       (session_id, exercise_name, target_reps, completed_reps, form_score, feedback,
+        weight, weight_unit, equipment, completed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+     RETURNING id`,
+    [
+      exerciseSessionId,
+      exerciseName,
+      targetReps,
+      completedReps,
+      formScore === null ? null : Math.round(formScore * 100) / 100,
+      JSON.stringify(feedback),
+      weight,
+      weight === null ? null : unit,
+      equipment
+    ]
+  );
+
+  return result.rows[0].id;
+}
+
+/**
+ * Log a rep, set completion or personal record with the time it happened, so
+ * highlight reels can find the moment in the session recording
+ */
+export async function recordWorkoutEvent(callSessionId, { userId = null, type, exercise = null, repCount = null, formScore = null, details = null }) {
+  await pool.query(
+    `INSERT INTO workout_events
+       (call_session_id, user_id, event_type, exercise, rep_count, form_score, details)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      callSessionId,
+      userId,
+      type,
+      exercise,
+      repCount,
+      formScore === null || formScore === undefined ? null : Math.round(formScore * 100) / 100,
+      details === null ? null : JSON.stringify(details)
+    ]
+  );
+}
+
+/**
+ * Check a just-recorded set against the user's earlier sets of the exercise:
+ * the heaviest weight for loaded sets, the most reps otherwise. A first ever
+ * set isn't a record. Returns { kind, value, previous } or null, and keeps the
+ * best in exercise_achievements.
+ */
+export async function checkPersonalRecord(userId, setId) {
+  const { rows } = await pool.query(
+    `SELECT es.exercise_name, es.completed_reps, es.weight, es.weight_unit,
+            (SELECT MAX(prev.completed_reps) FROM exercise_sets prev
+             JOIN exercise_sessions ps ON ps.id = prev.session_id
+             WHERE ps.user_id = $1 AND prev.exercise_name = es.exercise_name
+               AND prev.id <> es.id AND prev.weight IS NULL) AS best_reps,
+            (SELECT MAX(prev.weight) FROM exercise_sets prev
+             JOIN exercise_sessions ps ON ps.id = prev.session_id
+             WHERE ps.user_id = $1 AND prev.exercise_name = es.exercise_name
+               AND prev.id <> es.id AND prev.weight_unit = es.weight_unit) AS best_weight
+     FROM exercise_sets es
+     WHERE es.id = $2`,
+    [userId, setId]
+  );
+  const set = rows[0];
+  if (!set) return null;
+
+  let record = null;
+  if (set.weight !== null) {
+    const weight = Number(set.weight);
+    if (set.best_weight !== null && weight > Number(set.best_weight)) {
+      record = { kind: 'weight', value: weight, previous: Number(set.best_weight), unit: set.weight_unit };
+    }
+  } else if (set.best_reps !== null && set.completed_reps > set.best_reps) {
+    record = { kind: 'reps', value: set.completed_reps, previous: set.best_reps };
+  }
+  if (!record) return null;
+
+  await pool.query(
+    `INSERT INTO exercise_achievements (user_id, exercise_name, achievement_type, value)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, exercise_name, achievement_type)
+     DO UPDATE SET value = GREATEST(exercise_achievements.value, EXCLUDED.value), achieved_at = NOW()`,
+    [
+      userId,
+      set.exercise_name,
+      record.kind === 'weight' ? 'personal_record_weight' : 'personal_record',
+      Math.round(record.value)
+    ]
+  );
+
+  logger.info('[ExerciseTracking] Personal record', {
+    userId,
+    exercise: set.exercise_name,
+    ...record,
+    component: 'exerciseTracking'
+  });
+  return record;
+}
+
+/**
+ * Attach the RPE/RIR the user reported after a set
+ */
+export async function recordSetEffort(setId, { rpe = null, rir = null }) {
+  const validRpe = Number.isFinite(rpe) && rpe >= 1 && rpe <= 10 ? rpe : null;
+  const validRir = Number.isInteger(rir) && rir >= 0 ? rir : null;
+  if (validRpe === null && validRir === null) return false;
+
+  await pool.query(
+    `UPDATE exercise_sets
+     SET rpe = COALESCE($2, rpe), rir = COALESCE($3, rir)
+     WHERE id = $1`,
+    [setId, validRpe, validRir]
+  );
+  return true;
+}
+
+/**
+ * A user's recent loaded sets, newest first, for progressive overload
+ */
+export async function getRecentLoadedSets(userId, days = 30) {
+  const result = await pool.query(
+    `SELECT es.exercise_name, es.target_reps, es.completed_reps, es.weight, es.weight_unit,
+            es.equipment, es.rpe, es.rir, es.completed_at
+     FROM exercise_sets es
+     JOIN exercise_sessions s ON s.id = es.session_id
+     WHERE s.user_id = $1
+       AND es.weight IS NOT NULL
+       AND es.completed_at > NOW() - make_interval(days => $2)
+     ORDER BY es.completed_at DESC`,
+    [userId, days]
+  );
+  return result.rows;
+}
+
+// Snapshots older than this aren't offered for resume
+const RESUME_WINDOW_HOURS = 12;
+
+/**
+ * Store the latest in-progress workout snapshot: the client's plan/progress
+ * state and the coach's tracking state
+ */
+export async function saveWorkoutState(exerciseSessionId, { client, coach }) {
+  await pool.query(
+    `UPDATE exercise_sessions
+     SET workout_state = $2, state_updated_at = NOW(), updated_at = NOW(),
+         paused_at = CASE WHEN $3 THEN COALESCE(paused_at, NOW()) ELSE NULL END
+     WHERE id = $1`,
+    [exerciseSessionId, JSON.stringify({ client, coach }), !!client?.paused]
+  );
+}
+
+/**
+ * The user's most recent unfinished workout with this coach, if it was
+ * snapshotted recently enough to resume
+ */
+export async function getResumableWorkout(userId, avatarId) {
+  const result = await pool.query(
+    `SELECT id, workout_state, state_updated_at
+     FROM exercise_sessions
+     WHERE user_id = $1 AND avatar_id = $2
+       AND completed_at IS NULL
+       AND workout_state IS NOT NULL
+       AND state_updated_at > NOW() - make_interval(hours => $3)
+     ORDER BY state_updated_at DESC
+     LIMIT 1`,
+    [userId, avatarId, RESUME_WINDOW_HOURS]
+  );
+  const row = result.rows[0];
+  if (!row?.workout_state?.client?.plan) return null;
+  return {
+    exerciseSessionId: row.id,
+    client: row.workout_state.client,
+    coach: row.workout_state.coach || {},
+    updatedAt: row.state_updated_at
+  };
+}
+
+/**
+ * Move a resumed workout onto the current call, so later sets land in the same session
+ */
+export async function resumeExerciseSession(exerciseSessionId, callSessionId) {
+  await pool.query(
+    `UPDATE exercise_sessions
+     SET call_session_id = $2, updated_at = NOW()
+     WHERE id = $1`,
+    [exerciseSessionId, callSessionId]
+  );
+  logger.info('[ExerciseTracking] Resumed exercise session', {
+    exerciseSessionId,
+    callSessionId,
+    component: 'exerciseTracking'
+  });
+}
+
+/**
+ * Close an exercise session, either finished or abandoned in favour of a new workout
+ */
+export async function completeExerciseSession(exerciseSessionId) {
+  await pool.query(
+    `UPDATE exercise_sessions
+     SET completed_at = COALESCE(completed_at, NOW()), workout_state = NULL,
+         paused_at = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [exerciseSessionId]
+  );
+}
+
+/**
+ * Close whatever exercise session is open for a call
+ */
+export async function completeCallExerciseSession(callSessionId) {
+  await pool.query(
+    `UPDATE exercise_sessions
+     SET completed_at = NOW(), workout_state = NULL, paused_at = NULL, updated_at = NOW()
+     WHERE call_session_id = $1 AND completed_at IS NULL`,
+    [callSessionId]
+  );
+}
@@ -0,0 +1,124 @@
+import { spawn } from 'child_process';
+import { once } from 'events';
+import ffmpegPath from 'ffmpeg-static';
+import ffprobeStatic from 'ffprobe-static';
+
+const ffprobePath = typeof ffprobeStatic === 'string' ? ffprobeStatic : ffprobeStatic.path;
+
+function parseTimestamp(value) {
+  const [hours, minutes, seconds] = value.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Write the input buffers to ffmpeg's stdin, waiting for it to drain. If
+// ffmpeg exits early the writes fail with EPIPE; feeding stops there and the
+// exit code reports the failure.
+async function feedStdin(ffmpegProcess, input, exited) {
+  const { stdin } = ffmpegProcess;
+  stdin.on('error', () => {});
+  for await (const buffer of input) {
+    if (stdin.destroyed || ffmpegProcess.exitCode !== null) return;
+    if (!stdin.write(buffer)) {
+      // once() rejects when stdin errors; the next pass sees it destroyed
+      await Promise.race([once(stdin, 'drain').catch(() => {}), exited]);
+    }
+  }
+  stdin.end();
+}
+
+/**
+ * Run ffmpeg, reporting the share of the input encoded so far (from the
+ * Duration and time= lines it writes to stderr). input, an (async) iterable
+ * of buffers, is piped to stdin for args reading pipe:0.
+ */
+export function runFfmpeg(args, { onProgress = null, input = null } = {}) {
+  return new Promise((resolve, reject) => {
+    const ffmpegProcess = spawn(ffmpegPath, args);
+    const exited = once(ffmpegProcess, 'close').catch(() => {});
+    let duration = null;
+    let errorOutput = '';
+
+    ffmpegProcess.stderr.on('data', (data) => {
+      const output = data.toString();
+      errorOutput = (errorOutput + output).slice(-4000);
+
+      if (duration === null) {
+        const match = output.match(/Duration: (\d+:\d+:\d+(?:\.\d+)?)/);
+        if (match) duration = parseTimestamp(match[1]);
+      }
+      const time = output.match(/time=(\d+:\d+:\d+(?:\.\d+)?)/);
+      if (time && duration && onProgress) {
+        onProgress(Math.min(1, parseTimestamp(time[1]) / duration));
+      }
+    });
+
+    ffmpegProcess.on('error', reject);
+    ffmpegProcess.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`FFmpeg failed with code ${code}: ${errorOutput.split('\n').slice(-4).join(' ')}`));
+      }
+    });
+
+    if (input) {
+      feedStdin(ffmpegProcess, input, exited).catch((error) => {
+        ffmpegProcess.kill();
+        reject(error);
+      });
+    }
+  });
+}
+
+/**
+ * Display size (after rotation), duration and whether there's an audio track
+ */
+export function probeVideo(inputPath) {
+  return new Promise((resolve, reject) => {
+    const ffprobeProcess = spawn(ffprobePath, [
+      '-v', 'error',
+      '-show_streams',
+      '-show_format',
+      '-of', 'json',
+      inputPath
+    ]);
+    let output = '';
+    let errorOutput = '';
+
+    ffprobeProcess.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+    ffprobeProcess.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+
+    ffprobeProcess.on('error', reject);
+    ffprobeProcess.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`FFprobe failed with code ${code}: ${errorOutput.trim()}`));
+        return;
+      }
+
+      const { streams = [], format = {} } = JSON.parse(output);
+      const video = streams.find(stream => stream.codec_type === 'video');
+      if (!video) {
+        reject(new Error('No video stream found'));
+        return;
+      }
+
+      const rotation = Math.abs(
+        Number(video.tags?.rotate ?? video.side_data_list?.find(data => data.rotation !== undefined)?.rotation ?? 0)
+      );
+      const sideways = rotation === 90 || rotation === 270;
+      // WebM from MediaRecorder often has no container duration
+      const duration = parseFloat(format.duration) || parseFloat(video.duration) || 0;
+
+      resolve({
+        width: sideways ? video.height : video.width,
+        height: sideways ? video.width : video.height,
+        duration,
+        hasAudio: streams.some(stream => stream.codec_type === 'audio')
+      });
+    });
+  });
+}
@@ -0,0 +1,400 @@
+import fs from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import { probeVideo, runFfmpeg } from './ffmpeg.js';
+import { enqueueJob } from './jobQueue.js';
+import storageService from './storage.js';
+
+/**
+ * Highlight reels: short cuts of a session recording around its best moments
+ * (personal records, set completions, the rep with the best form, and what
+ * the coach said), with the rep count, form score and moment banners burned
+ * in.
+ *
+ * Moments come from workout_events and the timestamped CallSession
+ * transcript, placed on the video's timeline from when the recording upload
+ * started. The reel is saved as a SessionRecording of its own (highlight_of
+ * points at the full session), so it gets the HLS ladder and publishes through
+ * /recordings/publish like any other recording.
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FONT_PATH = path.resolve(__dirname, '../../src/assets/fonts/Chakra_Petch/ChakraPetch-Bold.ttf');
+
+const MAX_REEL_SECONDS = 45;
+const MERGE_GAP_SECONDS = 1; // Clips closer than this play as one
+const OUTPUT_SHORT_SIDE = 720;
+const REP_OVERLAY_HOLD_SECONDS = 15; // Rep count stays up this long after the last rep
+const BANNER_SECONDS = 2.5;
+const CAPTION_LINE_CHARS = 32;
+
+// Seconds of video kept around each kind of moment, and which win when the
+// reel is full
+const MOMENTS = {
+  personal_record: { before: 4, after: 3, score: 100 },
+  set_complete: { before: 5, after: 2, score: 70 },
+  best_rep: { before: 2, after: 1, score: 30 },
+  coach_quote: { before: 0.5, after: 0, score: 40 }
+};
+const QUOTE_MIN_CHARS = 15;
+const QUOTE_MAX_CHARS = 120;
+const READING_WORDS_PER_SECOND = 2.5;
+
+function formatLoad({ value, unit }) {
+  return `${value}${unit ? ` ${unit}` : ''}`;
+}
+
+function bannerText(moment) {
+  if (moment.type === 'personal_record') {
+    const record = moment.details || {};
+    return record.kind === 'weight' ? `NEW PR  ${formatLoad(record)}` : `NEW PR  ${record.value} REPS`;
+  }
+  if (moment.type === 'set_complete') {
+    return `SET COMPLETE  ${moment.repCount ?? ''} REPS`.trim();
+  }
+  return null;
+}
+
+function wrapCaption(text) {
+  const lines = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && `${line} ${word}`.length > CAPTION_LINE_CHARS) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+function quoteSeconds(text) {
+  return Math.min(8, Math.max(2, text.split(/\s+/).length / READING_WORDS_PER_SECOND));
+}
+
+// When the video starts, in wall-clock time: the recording upload starts with
+// MediaRecorder. Older recordings without an upload row fall back to when the
+// row was saved, less the duration.
+async function videoStartTime(recording) {
+  const { rows } = await pool.query(
+    `SELECT created_at FROM recording_uploads WHERE id = $1`,
+    [recording.id]
+  );
+  if (rows[0]) return new Date(rows[0].created_at).getTime();
+  return new Date(recording.created_at).getTime() - (recording.duration_sec || 0) * 1000;
+}
+
+async function findMoments(recording) {
+  const start = await videoStartTime(recording);
+  // Unknown for some WebM recordings; clips then just end with the video
+  const duration = recording.duration_sec || Infinity;
+  const offset = (timestamp) => (new Date(timestamp).getTime() - start) / 1000;
+  const inVideo = (at) => at >= 0 && at <= duration;
+
+  const eventsResult = await pool.query(
+    `SELECT event_type, exercise, rep_count, form_score, details, occurred_at
+     FROM workout_events
+     WHERE call_session_id = $1
+     ORDER BY occurred_at`,
+    [recording.call_session_id]
+  );
+  const events = eventsResult.rows
+    .map(event => ({
+      type: event.event_type,
+      at: offset(event.occurred_at),
+      exercise: event.exercise,
+      repCount: event.rep_count,
+      formScore: event.form_score === null ? null : Number(event.form_score),
+      details: event.details
+    }))
+    .filter(event => inVideo(event.at));
+
+  const reps = events.filter(event => event.type === 'rep');
+  const moments = events.filter(event => event.type !== 'rep');
+
+  // The cleanest rep of each exercise
+  const bestReps = new Map();
+  for (const rep of reps) {
+    const best = bestReps.get(rep.exercise);
+    if (rep.formScore !== null && (!best || rep.formScore > best.formScore)) {
+      bestReps.set(rep.exercise, rep);
+    }
+  }
+  moments.push(...[...bestReps.values()].map(rep => ({ ...rep, type: 'best_rep' })));
+
+  const sessionResult = await pool.query(
+    `SELECT transcript FROM "CallSession" WHERE id = $1`,
+    [recording.call_session_id]
+  );
+  const transcript = sessionResult.rows[0]?.transcript || [];
+  for (const entry of transcript) {
+    const text = entry.content?.trim();
+    if (
+      entry.role !== 'assistant' ||
+      !entry.timestamp ||
+      entry.interrupted ||
+      !text ||
+      text.startsWith('[') ||
+      text.length < QUOTE_MIN_CHARS ||
+      text.length > QUOTE_MAX_CHARS
+    ) {
+      continue;
+    }
+    const at = offset(entry.timestamp);
+    if (!inVideo(at)) continue;
+    moments.push({ type: 'coach_quote', at, text, exclaimed: text.includes('!') });
+  }
+
+  return { moments, reps };
+}
+
+function momentWindow(moment, duration) {
+  const { before, after } = MOMENTS[moment.type];
+  const hold = moment.type === 'coach_quote' ? quoteSeconds(moment.text) : after;
+  return { start: Math.max(0, moment.at - before), end: Math.min(duration, moment.at + hold) };
+}
+
+function mergeWindows(windows) {
+  const merged = [];
+  for (const window of [...windows].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && window.start - last.end <= MERGE_GAP_SECONDS) {
+      last.end = Math.max(last.end, window.end);
+      last.moments.push(...window.moments);
+    } else {
+      merged.push({ ...window, moments: [...window.moments] });
+    }
+  }
+  return merged;
+}
+
+const totalLength = (clips) => clips.reduce((sum, clip) => sum + clip.end - clip.start, 0);
+
+// Best moments first until the reel is full, then back into session order
+function planClips(moments, duration) {
+  const ranked = [...moments].sort((a, b) => {
+    const score = (moment) => MOMENTS[moment.type].score + (moment.exclaimed ? 10 : 0);
+    return score(b) - score(a) || a.at - b.at;
+  });
+
+  let clips = [];
+  for (const moment of ranked) {
+    const window = { ...momentWindow(moment, duration), moments: [moment] };
+    if (window.end <= window.start) continue;
+    const candidate = mergeWindows([...clips, window]);
+    if (totalLength(candidate) <= MAX_REEL_SECONDS) clips = candidate;
+  }
+  return clips;
+}
+
+/**
+ * The moments of a recording and the clips a reel of it would be cut from.
+ * No clips means there's nothing to make a reel of.
+ */
+export async function planHighlightReel(recording) {
+  if (!recording.call_session_id) return { moments: [], reps: [], clips: [] };
+  const { moments, reps } = await findMoments(recording);
+  return { moments, reps, clips: planClips(moments, recording.duration_sec || Infinity) };
+}
+
+// drawtext reads the text from a file, so quotes, colons and % in what the
+// coach said need no escaping
+async function textFile(workDir, text) {
+  const filePath = path.join(workDir, `text-${Math.random().toString(36).slice(2)}.txt`);
+  await fs.writeFile(filePath, text);
+  return filePath;
+}
+
+const enable = (from, to) => `enable='between(t,${from.toFixed(2)},${to.toFixed(2)})'`;
+
+function drawText(file, options) {
+  return `drawtext=fontfile='${FONT_PATH}':textfile='${file}':${options}`;
+}
+
+function gaugeColor(score) {
+  if (score >= 0.8) return '0x39D98A';
+  if (score >= 0.6) return '0xFFD400';
+  return '0xFF5A5A';
+}
+
+async function clipFilters(clip, reps, source, workDir) {
+  const length = clip.end - clip.start;
+  const local = (at) => at - clip.start;
+  const filters = [
+    source.height > source.width ? `scale=${OUTPUT_SHORT_SIDE}:-2` : `scale=-2:${OUTPUT_SHORT_SIDE}`,
+    'fps=30',
+    'setsar=1'
+  ];
+
+  // Rep count, exercise and form gauge, from each rep until the next one
+  for (const [index, rep] of reps.entries()) {
+    const next = reps[index + 1];
+    const from = Math.max(0, local(rep.at));
+    const to = Math.min(length, local(Math.min(next ? next.at : Infinity, rep.at + REP_OVERLAY_HOLD_SECONDS)));
+    if (to <= from) continue;
+
+    const label = await textFile(workDir, (rep.exercise || '').replace(/[_-]+/g, ' ').toUpperCase());
+    const count = await textFile(workDir, `${rep.repCount} REPS`);
+    filters.push(
+      drawText(label, `fontsize=28:fontcolor=white:borderw=2:bordercolor=black@0.6:x=32:y=32:${enable(from, to)}`),
+      drawText(count, `fontsize=64:fontcolor=white:borderw=3:bordercolor=black@0.6:x=32:y=66:${enable(from, to)}`)
+    );
+    if (rep.formScore !== null) {
+      const form = await textFile(workDir, `FORM ${Math.round(rep.formScore * 100)}%`);
+      filters.push(
+        drawText(form, `fontsize=26:fontcolor=white:borderw=2:bordercolor=black@0.6:x=32:y=146:${enable(from, to)}`),
+        `drawbox=x=32:y=184:w=220:h=12:color=black@0.5:t=fill:${enable(from, to)}`,
+        `drawbox=x=32:y=184:w=${Math.max(2, Math.round(220 * rep.formScore))}:h=12:color=${gaugeColor(rep.formScore)}:t=fill:${enable(from, to)}`
+      );
+    }
+  }
+
+  for (const moment of clip.moments) {
+    const from = Math.max(0, local(moment.at));
+    const banner = bannerText(moment);
+    if (banner) {
+      const file = await textFile(workDir, banner);
+      const color = moment.type === 'personal_record' ? '0xFFD400' : 'white';
+      filters.push(drawText(
+        file,
+        `fontsize=52:fontcolor=${color}:box=1:boxcolor=black@0.55:boxborderw=18:x=(w-text_w)/2:y=h*0.3:${enable(Math.max(0, from - 0.3), Math.min(length, from + BANNER_SECONDS))}`
+      ));
+    }
+    if (moment.type === 'coach_quote') {
+      const file = await textFile(workDir, wrapCaption(moment.text));
+      filters.push(drawText(
+        file,
+        `fontsize=32:fontcolor=white:line_spacing=8:box=1:boxcolor=black@0.55:boxborderw=14:x=(w-text_w)/2:y=h-text_h-64:${enable(from, Math.min(length, from + quoteSeconds(moment.text)))}`
+      ));
+    }
+  }
+
+  return filters.join(',');
+}
+
+async function renderClip(inputPath, outputPath, clip, reps, source, workDir) {
+  const clipReps = reps.filter(rep => rep.at < clip.end && rep.at + REP_OVERLAY_HOLD_SECONDS > clip.start);
+  await runFfmpeg([
+    '-ss', clip.start.toFixed(2),
+    '-i', inputPath,
+    '-t', (clip.end - clip.start).toFixed(2),
+    '-vf', await clipFilters(clip, clipReps, source, workDir),
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '21',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-ac', '2',
+    '-ar', '48000',
+    '-b:a', '128k',
+    '-y',
+    outputPath
+  ]);
+}
+
+/**
+ * Cut the reel for a recording and save it as a new SessionRecording with the
+ * given id (so a retried job overwrites its own earlier attempt). Returns the
+ * new recording's { recordingId, videoUrl, thumbnailUrl, duration, moments }.
+ */
+export async function buildHighlightReel(sourceRecordingId, highlightId, { onProgress = () => {} } = {}) {
+  const { rows } = await pool.query(`SELECT * FROM "SessionRecording" WHERE id = $1`, [sourceRecordingId]);
+  const recording = rows[0];
+  if (!recording) throw new Error(`Recording ${sourceRecordingId} not found`);
+
+  const { reps, clips } = await planHighlightReel(recording);
+  if (clips.length === 0) throw new Error(`No highlight moments in recording ${sourceRecordingId}`);
+
+  const workDir = await fs.mkdtemp(path.join(tmpdir(), 'highlight-'));
+  const inputPath = path.join(workDir, `source${path.extname(new URL(recording.video_url).pathname) || '.mp4'}`);
+  const outputPath = path.join(workDir, 'reel.mp4');
+
+  try {
+    onProgress(2, 'downloading');
+    const response = await fetch(recording.video_url);
+    if (!response.ok) throw new Error(`Failed to fetch video: ${response.status}`);
+    await fs.writeFile(inputPath, Buffer.from(await response.arrayBuffer()));
+    const source = await probeVideo(inputPath);
+
+    const clipPaths = [];
+    for (const [index, clip] of clips.entries()) {
+      onProgress(10 + (index / clips.length) * 70, 'cutting');
+      const clipPath = path.join(workDir, `clip-${index}.mp4`);
+      await renderClip(inputPath, clipPath, clip, reps, source, workDir);
+      clipPaths.push(clipPath);
+    }
+
+    // Every clip has the same encoding, so they join without re-encoding
+    onProgress(80, 'joining');
+    const listPath = path.join(workDir, 'clips.txt');
+    await fs.writeFile(listPath, clipPaths.map(clipPath => `file '${clipPath}'`).join('\n'));
+    await runFfmpeg(['-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', '-movflags', '+faststart', '-y', outputPath]);
+
+    onProgress(88, 'uploading');
+    const videoBuffer = await fs.readFile(outputPath);
+    const processed = await storageService.processVideoBuffer(videoBuffer);
+    const videoKey = `recordings/${highlightId}/video.mp4`;
+    const videoUrl = await storageService.uploadFile(videoKey, videoBuffer, 'video/mp4');
+    let thumbnailUrl = null;
+    if (processed.thumbnailBuffer?.length > 0) {
+      thumbnailUrl = await storageService.uploadFile(
+        `recordings/${highlightId}/thumbnail.jpg`,
+        processed.thumbnailBuffer,
+        'image/jpeg'
+      );
+    }
+
+    const duration = Math.round(processed.duration || totalLength(clips));
+    const moments = clips.flatMap(clip => clip.moments.map(({ type, at, exercise, repCount, formScore, details, text }) => ({
+      type, at, exercise, repCount, formScore, details, text
+    })));
+
+    await pool.query(
+      `INSERT INTO "SessionRecording"
+       (id, session_id, user_id, avatar_id, call_session_id, video_url, thumbnail_url, duration_sec, file_size,
+        highlight_of, highlight_moments)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (id) DO UPDATE SET
+         video_url = EXCLUDED.video_url,
+         thumbnail_url = EXCLUDED.thumbnail_url,
+         duration_sec = EXCLUDED.duration_sec,
+         file_size = EXCLUDED.file_size,
+         highlight_moments = EXCLUDED.highlight_moments`,
+      [
+        highlightId,
+        recording.session_id,
+        recording.user_id,
+        recording.avatar_id,
+        recording.call_session_id,
+        videoUrl,
+        thumbnailUrl,
+        duration,
+        videoBuffer.length,
+        recording.id,
+        JSON.stringify(moments)
+      ]
+    );
+    await enqueueJob('hls', { key: videoKey, recordingId: highlightId, userId: recording.user_id });
+
+    logger.info('Highlight reel built', {
+      recordingId: recording.id,
+      highlightId,
+      clips: clips.length,
+      moments: moments.length,
+      duration,
+      component: 'highlightReel'
+    });
+
+    onProgress(100, 'done');
+    return { recordingId: highlightId, videoUrl, thumbnailUrl, duration, moments };
+  } finally {
+    await storageService.cleanupTempDir(workDir);
+  }
+}
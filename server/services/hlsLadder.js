@@ -0,0 +1,221 @@
+import fs from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import { probeVideo, runFfmpeg } from './ffmpeg.js';
+import storageService from './storage.js';
+
+/**
+ * Adaptive streaming output for a stored video: an HLS rendition ladder
+ * (H.264/AAC, 4 second segments with aligned keyframes so players can switch
+ * between renditions at any segment), a full-size poster frame and a sprite
+ * sheet of thumbnails for scrubbing.
+ *
+ * Rungs are picked by the short side so portrait phone recordings get the same
+ * ladder as landscape ones, and never upscale. Everything lands under
+ * hls/<video key>/ in storage; the master playlist refers to the renditions
+ * with relative paths, so it works from S3/CloudFront and /uploads alike.
+ */
+
+const LADDER = [
+  { name: '1080p', shortSide: 1080, videoKbps: 5000, audioKbps: 128 },
+  { name: '720p', shortSide: 720, videoKbps: 2800, audioKbps: 128 },
+  { name: '480p', shortSide: 480, videoKbps: 1400, audioKbps: 96 },
+  { name: '360p', shortSide: 360, videoKbps: 800, audioKbps: 64 }
+];
+const SEGMENT_SECONDS = 4;
+const SPRITE_TILE_WIDTH = 160;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MAX_TILES = 100;
+
+const CONTENT_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.jpg': 'image/jpeg'
+};
+
+const even = (value) => Math.max(2, Math.round(value / 2) * 2);
+
+function pickRenditions({ width, height }) {
+  const shortSide = Math.min(width, height);
+  const rungs = LADDER.filter(rung => rung.shortSide <= shortSide);
+  // Tiny sources still get one rendition, at their own size
+  if (rungs.length > 0) return rungs;
+  return [{ ...LADDER[LADDER.length - 1], name: `${even(shortSide)}p`, shortSide: even(shortSide) }];
+}
+
+async function encodeLadder(inputPath, outputDir, source, renditions, onProgress) {
+  const portrait = source.height > source.width;
+  const scale = (rung) => (portrait ? `scale=${rung.shortSide}:-2` : `scale=-2:${rung.shortSide}`);
+  const filterComplex = [
+    `[0:v]split=${renditions.length}${renditions.map((_, i) => `[v${i}]`).join('')}`,
+    ...renditions.map((rung, i) => `[v${i}]${scale(rung)}[v${i}out]`)
+  ].join(';');
+
+  const args = ['-i', inputPath, '-filter_complex', filterComplex];
+  renditions.forEach((rung, i) => {
+    args.push(
+      '-map', `[v${i}out]`,
+      `-b:v:${i}`, `${rung.videoKbps}k`,
+      `-maxrate:v:${i}`, `${Math.round(rung.videoKbps * 1.07)}k`,
+      `-bufsize:v:${i}`, `${Math.round(rung.videoKbps * 1.5)}k`
+    );
+    if (source.hasAudio) {
+      args.push('-map', 'a:0', `-b:a:${i}`, `${rung.audioKbps}k`);
+    }
+  });
+
+  const streamMap = renditions
+    .map((rung, i) => (source.hasAudio ? `v:${i},a:${i},name:${rung.name}` : `v:${i},name:${rung.name}`))
+    .join(' ');
+
+  args.push(
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'main',
+    '-pix_fmt', 'yuv420p',
+    '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    '-sc_threshold', '0',
+    '-c:a', 'aac',
+    '-ac', '2',
+    '-ar', '48000',
+    '-f', 'hls',
+    '-hls_time', String(SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_flags', 'independent_segments',
+    '-hls_segment_filename', path.join(outputDir, '%v', 'segment_%03d.ts'),
+    '-master_pl_name', 'master.m3u8',
+    '-var_stream_map', streamMap,
+    '-y',
+    path.join(outputDir, '%v', 'index.m3u8')
+  );
+
+  await runFfmpeg(args, { onProgress });
+}
+
+// Duration from a rendition playlist, for sources (MediaRecorder WebM) that
+// don't carry one in the container
+async function playlistDuration(playlistPath) {
+  const playlist = await fs.readFile(playlistPath, 'utf8');
+  return [...playlist.matchAll(/#EXTINF:([\d.]+)/g)].reduce((sum, match) => sum + parseFloat(match[1]), 0);
+}
+
+async function createPoster(inputPath, outputDir, duration) {
+  const posterPath = path.join(outputDir, 'poster.jpg');
+  const at = Math.min(1, duration / 3);
+  await runFfmpeg(['-ss', at.toFixed(2), '-i', inputPath, '-frames:v', '1', '-q:v', '2', '-y', posterPath]);
+}
+
+async function createSprite(inputPath, outputDir, source, duration) {
+  const interval = Math.max(1, Math.ceil(duration / SPRITE_MAX_TILES));
+  const count = Math.max(1, Math.ceil(duration / interval));
+  const columns = Math.min(SPRITE_COLUMNS, count);
+  const rows = Math.ceil(count / columns);
+  const width = SPRITE_TILE_WIDTH;
+  const height = even((SPRITE_TILE_WIDTH * source.height) / source.width);
+
+  await runFfmpeg([
+    '-i', inputPath,
+    '-vf', `fps=1/${interval},scale=${width}:${height},tile=${columns}x${rows}`,
+    '-frames:v', '1',
+    '-q:v', '5',
+    '-y',
+    path.join(outputDir, 'sprite.jpg')
+  ]);
+  return { interval, count, columns, rows, width, height };
+}
+
+async function listFiles(dir) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(entry => {
+      const entryPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+    })
+  );
+  return files.flat();
+}
+
+/**
+ * Build the ladder, poster and sprite for a stored video and upload them.
+ * Returns { hlsUrl, posterUrl, sprite, renditions }.
+ */
+export async function buildStreamingRenditions(key, { onProgress = () => {} } = {}) {
+  const prefix = `hls/${key.replace(/\.[^./]+$/, '')}`;
+  const workDir = await fs.mkdtemp(path.join(tmpdir(), 'hls-'));
+  const inputPath = path.join(workDir, `source${path.extname(key) || '.mp4'}`);
+  const outputDir = path.join(workDir, 'out');
+
+  try {
+    onProgress(2, 'downloading');
+    await fs.writeFile(inputPath, await storageService.readFile(key));
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const source = await probeVideo(inputPath);
+    const renditions = pickRenditions(source);
+
+    onProgress(5, 'encoding');
+    await encodeLadder(inputPath, outputDir, source, renditions, (share) => onProgress(5 + share * 75));
+
+    const duration = source.duration || (await playlistDuration(path.join(outputDir, renditions[0].name, 'index.m3u8')));
+
+    onProgress(82, 'poster');
+    await createPoster(inputPath, outputDir, duration);
+    onProgress(85, 'sprite');
+    const sprite = await createSprite(inputPath, outputDir, source, duration);
+
+    const files = await listFiles(outputDir);
+    for (const [index, filePath] of files.entries()) {
+      const relative = path.relative(outputDir, filePath).split(path.sep).join('/');
+      await storageService.uploadFile(
+        `${prefix}/${relative}`,
+        await fs.readFile(filePath),
+        CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream'
+      );
+      onProgress(88 + ((index + 1) / files.length) * 12, 'uploading');
+    }
+
+    logger.info('Streaming renditions built', {
+      key,
+      renditions: renditions.map(rung => rung.name),
+      duration,
+      files: files.length,
+      component: 'hlsLadder'
+    });
+
+    return {
+      hlsUrl: storageService.getPublicUrl(`${prefix}/master.m3u8`),
+      posterUrl: storageService.getPublicUrl(`${prefix}/poster.jpg`),
+      sprite: { url: storageService.getPublicUrl(`${prefix}/sprite.jpg`), ...sprite },
+      renditions: renditions.map(rung => rung.name)
+    };
+  } finally {
+    await storageService.cleanupTempDir(workDir);
+  }
+}
+
+/**
+ * Attach renditions to a recording (and any post published from it), or to the
+ * post whose video is at key
+ */
+export async function saveStreamingRenditions({ key, recordingId = null }, { hlsUrl, posterUrl, sprite }) {
+  const values = [hlsUrl, posterUrl, JSON.stringify(sprite)];
+
+  if (recordingId) {
+    await pool.query(
+      `UPDATE "SessionRecording" SET hls_url = $1, poster_url = $2, scrub_sprite = $3 WHERE id = $4`,
+      [...values, recordingId]
+    );
+    await pool.query(
+      `UPDATE "CommunityPost" SET hls_url = $1, poster_url = $2, scrub_sprite = $3 WHERE recording_id = $4`,
+      [...values, recordingId]
+    );
+    return;
+  }
+
+  await pool.query(
+    `UPDATE "CommunityPost" SET hls_url = $1, poster_url = $2, scrub_sprite = $3 WHERE video_url LIKE $4`,
+    [...values, `%${key}%`]
+  );
+}
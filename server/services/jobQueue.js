@@ -0,0 +1,573 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../lib/cloudwatch-logger.js';
+
+/**
+ * Background jobs for the heavy media work (ffmpeg transcodes, thumbnails,
+ * watermarks, the HLS ladder, highlight reels), so requests don't spawn ffmpeg
+ * inline and the number of encodes running at once is bounded.
+ *
+ * - With Redis the queue is shared between instances (reusing lib/redisClient);
+ *   without it (JOB_QUEUE_DRIVER=memory, or Redis unreachable at startup) jobs
+ *   run in this process and are lost on restart.
+ * - A failing job is retried with exponential backoff, then kept in the failed
+ *   list for an admin to retry or discard.
+ * - A running job sends heartbeats. One whose heartbeats stop (its instance
+ *   crashed or was replaced) is taken back by whichever worker notices and
+ *   counted as a failed attempt.
+ * - Job data has to survive JSON, so handlers get storage keys and ids, not
+ *   buffers.
+ * - Every state change and progress report goes to the event listener passed
+ *   to startJobWorkers (the feed namespace).
+ */
+
+export const JOB_TYPES = {
+  transcode: { maxAttempts: 3 },
+  thumbnail: { maxAttempts: 3 },
+  watermark: { maxAttempts: 2 },
+  hls: { maxAttempts: 3 },
+  highlight: { maxAttempts: 2 }
+};
+
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY || 2));
+const POLL_INTERVAL_MS = 1000;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const FINISHED_TTL_SEC = 24 * 60 * 60; // Completed jobs are kept this long for waitForJob and the feed
+const REDIS_PING_TIMEOUT_MS = 3000;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const STALE_AFTER_MS = 60 * 1000; // No heartbeat for this long means the worker is gone
+
+const handlers = new Map();
+let driverPromise = null;
+let onEvent = null;
+let started = false;
+let pumping = false;
+let running = 0;
+let pollTimer = null;
+let lastStaleCheck = 0;
+
+// Moves a job from the ready list to the active set in one step, so a crash
+// can't lose a job between the two; one claimed but never started is
+// requeued once it goes stale
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if id then redis.call('ZADD', KEYS[2], ARGV[1], id) end
+return id`;
+
+// Redis keys: ready list, delayed retries (zset by run time), active (zset by
+// last heartbeat, shared by every instance), failed (zset by failure time),
+// and one JSON record per job
+function createRedisDriver(redis) {
+  const key = (name) => `jobs:${name}`;
+
+  return {
+    name: 'redis',
+    async save(job, { ttlSec = null } = {}) {
+      const value = JSON.stringify(job);
+      if (ttlSec) {
+        await redis.set(key(`job:${job.id}`), value, 'EX', ttlSec);
+      } else {
+        await redis.set(key(`job:${job.id}`), value);
+      }
+    },
+    async get(id) {
+      const value = await redis.get(key(`job:${id}`));
+      return value ? JSON.parse(value) : null;
+    },
+    async remove(id) {
+      await redis.del(key(`job:${id}`));
+    },
+    async push(id) {
+      await redis.lpush(key('ready'), id);
+    },
+    async delay(id, runAt) {
+      await redis.zadd(key('delayed'), runAt, id);
+    },
+    async claim() {
+      const due = await redis.zrangebyscore(key('delayed'), '-inf', Date.now(), 'LIMIT', 0, 20);
+      for (const id of due) {
+        // Only the instance that removes it from the delayed set requeues it
+        if (await redis.zrem(key('delayed'), id)) {
+          await redis.lpush(key('ready'), id);
+        }
+      }
+      return redis.eval(CLAIM_SCRIPT, 2, key('ready'), key('active'), Date.now());
+    },
+    async heartbeat(id) {
+      // XX: a job already released (or taken back as stale) isn't re-added
+      await redis.zadd(key('active'), 'XX', Date.now(), id);
+    },
+    async release(id) {
+      await redis.zrem(key('active'), id);
+    },
+    // Active jobs without a heartbeat since before; only the instance that
+    // removes one from the active set gets it
+    async claimStale(before) {
+      const ids = await redis.zrangebyscore(key('active'), '-inf', before, 'LIMIT', 0, 20);
+      const stale = [];
+      for (const id of ids) {
+        if (await redis.zrem(key('active'), id)) stale.push(id);
+      }
+      return stale;
+    },
+    async markFailed(id) {
+      await redis.zadd(key('failed'), Date.now(), id);
+    },
+    async unmarkFailed(id) {
+      return (await redis.zrem(key('failed'), id)) > 0;
+    },
+    async listFailed(limit) {
+      return redis.zrevrange(key('failed'), 0, limit - 1);
+    }
+  };
+}
+
+function createMemoryDriver() {
+  const jobs = new Map();
+  const ready = [];
+  const delayed = new Map();
+  const failed = new Map();
+  const expiry = new Map();
+
+  return {
+    name: 'memory',
+    async save(job, { ttlSec = null } = {}) {
+      jobs.set(job.id, structuredClone(job));
+      clearTimeout(expiry.get(job.id));
+      expiry.delete(job.id);
+      if (ttlSec) {
+        const timer = setTimeout(() => {
+          jobs.delete(job.id);
+          expiry.delete(job.id);
+        }, ttlSec * 1000);
+        timer.unref();
+        expiry.set(job.id, timer);
+      }
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? structuredClone(job) : null;
+    },
+    async remove(id) {
+      jobs.delete(id);
+      clearTimeout(expiry.get(id));
+      expiry.delete(id);
+    },
+    async push(id) {
+      ready.push(id);
+    },
+    async delay(id, runAt) {
+      delayed.set(id, runAt);
+    },
+    async claim() {
+      const now = Date.now();
+      for (const [id, runAt] of delayed) {
+        if (runAt <= now) {
+          delayed.delete(id);
+          ready.push(id);
+        }
+      }
+      return ready.shift() ?? null;
+    },
+    async heartbeat() {},
+    async release() {},
+    // Jobs only run in this process, so none can outlive their worker
+    async claimStale() {
+      return [];
+    },
+    async markFailed(id) {
+      failed.set(id, Date.now());
+    },
+    async unmarkFailed(id) {
+      return failed.delete(id);
+    },
+    async listFailed(limit) {
+      return [...failed.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([id]) => id);
+    }
+  };
+}
+
+async function connectRedis() {
+  const { default: redis } = await import('../lib/redisClient.js');
+  await Promise.race([
+    redis.ping(),
+    new Promise((_, reject) => setTimeout(() => reject(new Error('Redis ping timed out')), REDIS_PING_TIMEOUT_MS).unref())
+  ]);
+  return redis;
+}
+
+function getDriver() {
+  if (!driverPromise) {
+    driverPromise = (async () => {
+      const wanted = process.env.JOB_QUEUE_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+      if (wanted === 'redis') {
+        try {
+          return createRedisDriver(await connectRedis());
+        } catch (error) {
+          logger.warn('Redis unavailable, running jobs in process', {
+            error: error.message,
+            component: 'jobQueue'
+          });
+        }
+      }
+      return createMemoryDriver();
+    })();
+  }
+  return driverPromise;
+}
+
+function publicJob(job) {
+  return {
+    jobId: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.result,
+    userId: job.data?.userId ?? null,
+    postId: job.data?.postId ?? null,
+    updatedAt: job.updatedAt
+  };
+}
+
+function emit(job) {
+  if (!onEvent) return;
+  try {
+    onEvent(publicJob(job));
+  } catch (error) {
+    logger.warn('Job event listener failed', { error: error.message, jobId: job.id, component: 'jobQueue' });
+  }
+}
+
+function backoffDelay(attempts) {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Register the handler for a job type: run(data, { job, progress }) returns
+ * the job's (JSON) result; the optional onFailed(data, error, job) runs once
+ * the last attempt has failed.
+ */
+export function registerJobHandler(type, { run, onFailed = null }) {
+  if (!JOB_TYPES[type]) {
+    throw new Error(`Unknown job type: ${type}`);
+  }
+  handlers.set(type, { run, onFailed });
+}
+
+/**
+ * Queue a job. Returns the job record; its id is what progress events, the
+ * admin view and waitForJob refer to.
+ */
+export async function enqueueJob(type, data = {}, { maxAttempts = JOB_TYPES[type]?.maxAttempts } = {}) {
+  if (!JOB_TYPES[type]) {
+    throw new Error(`Unknown job type: ${type}`);
+  }
+
+  const driver = await getDriver();
+  const now = Date.now();
+  const job = {
+    id: randomUUID(),
+    type,
+    data,
+    status: 'queued',
+    progress: 0,
+    stage: null,
+    attempts: 0,
+    maxAttempts,
+    error: null,
+    result: null,
+    createdAt: now,
+    updatedAt: now,
+    runAt: now
+  };
+  await driver.save(job);
+  await driver.push(job.id);
+
+  logger.info('Job queued', { jobId: job.id, type, driver: driver.name, component: 'jobQueue' });
+  emit(job);
+  setImmediate(pump);
+  return job;
+}
+
+export async function getJob(jobId) {
+  return (await getDriver()).get(jobId);
+}
+
+/**
+ * Resolve with a job's result once it completes; reject when it fails for
+ * good or the timeout passes first.
+ */
+export async function waitForJob(jobId, { timeoutMs = 10 * 60 * 1000, intervalMs = 500 } = {}) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const job = await getJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.status === 'completed') return job.result;
+    if (job.status === 'failed') {
+      throw new Error(job.error || `Job ${jobId} failed`);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+  throw new Error(`Timed out waiting for job ${jobId}`);
+}
+
+// Count a failed attempt: back on the queue after a backoff, or into the
+// failed list once the attempts are used up
+async function failAttempt(driver, job, error) {
+  job.error = error.message;
+  job.updatedAt = Date.now();
+
+  if (job.attempts < job.maxAttempts) {
+    job.status = 'retrying';
+    job.runAt = Date.now() + backoffDelay(job.attempts);
+    await driver.save(job);
+    await driver.delay(job.id, job.runAt);
+    logger.warn('Job failed, retrying', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      retryInMs: job.runAt - Date.now(),
+      error: error.message,
+      component: 'jobQueue'
+    });
+    emit(job);
+    return;
+  }
+
+  job.status = 'failed';
+  await driver.save(job);
+  await driver.markFailed(job.id);
+  logger.error('Job failed', {
+    jobId: job.id,
+    type: job.type,
+    attempts: job.attempts,
+    error: error.message,
+    component: 'jobQueue'
+  });
+  emit(job);
+
+  try {
+    await handlers.get(job.type)?.onFailed?.(job.data, error, job);
+  } catch (hookError) {
+    logger.error('Job failure handler failed', {
+      jobId: job.id,
+      type: job.type,
+      error: hookError.message,
+      component: 'jobQueue'
+    });
+  }
+}
+
+// Run the handler while keeping the job's heartbeat (and saved progress)
+// fresh. The heartbeat stops before the caller saves the outcome, so a late
+// one can't overwrite it.
+async function runWithHeartbeat(driver, job, run) {
+  const timer = setInterval(() => {
+    job.heartbeatAt = Date.now();
+    Promise.all([driver.heartbeat(job.id), driver.save(job)]).catch(error =>
+      logger.warn('Job heartbeat failed', { jobId: job.id, error: error.message, component: 'jobQueue' })
+    );
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+  try {
+    return await run();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+async function runJob(driver, job) {
+  const handler = handlers.get(job.type);
+  job.status = 'active';
+  job.attempts += 1;
+  job.progress = 0;
+  job.stage = null;
+  job.error = null;
+  job.claimedAt = Date.now();
+  job.heartbeatAt = job.claimedAt;
+  job.updatedAt = job.claimedAt;
+  await driver.save(job);
+  emit(job);
+
+  const progress = (percent, stage = job.stage) => {
+    const rounded = Math.max(0, Math.min(100, Math.round(percent)));
+    if (rounded === job.progress && stage === job.stage) return;
+    job.progress = rounded;
+    job.stage = stage;
+    job.updatedAt = Date.now();
+    emit(job);
+  };
+
+  const startedAt = Date.now();
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    const result = await runWithHeartbeat(driver, job, () => handler.run(job.data, { job, progress }));
+
+    job.status = 'completed';
+    job.progress = 100;
+    job.result = result ?? null;
+    job.updatedAt = Date.now();
+    await driver.save(job, { ttlSec: FINISHED_TTL_SEC });
+    logger.info('Job completed', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      durationMs: Date.now() - startedAt,
+      component: 'jobQueue'
+    });
+    emit(job);
+  } catch (error) {
+    await failAttempt(driver, job, error);
+  } finally {
+    await driver.release(job.id);
+  }
+}
+
+// Take back jobs whose worker stopped sending heartbeats. The interrupted run
+// counts as an attempt, so a job that keeps taking its worker down ends up in
+// the failed list.
+async function reclaimStaleJobs(driver) {
+  lastStaleCheck = Date.now();
+  const ids = await driver.claimStale(Date.now() - STALE_AFTER_MS);
+  for (const id of ids) {
+    const job = await driver.get(id);
+    // Finished just before its worker went away
+    if (!job || job.status === 'completed' || job.status === 'failed') continue;
+
+    // Claimed, but the worker went away before starting it. A retry goes back
+    // through the delayed set, where it may already be waiting
+    if (job.status !== 'active') {
+      logger.warn('Job worker stopped before starting the job, requeueing', {
+        jobId: id,
+        type: job.type,
+        status: job.status,
+        component: 'jobQueue'
+      });
+      if (job.status === 'retrying') {
+        await driver.delay(id, Date.now());
+      } else {
+        await driver.push(id);
+      }
+      continue;
+    }
+
+    logger.warn('Job worker stopped responding, taking the job back', {
+      jobId: id,
+      type: job.type,
+      attempts: job.attempts,
+      claimedAt: job.claimedAt,
+      heartbeatAt: job.heartbeatAt,
+      component: 'jobQueue'
+    });
+    await failAttempt(driver, job, new Error('Worker stopped while running the job'));
+  }
+  return ids.length;
+}
+
+async function pump() {
+  if (!started || pumping) return;
+  pumping = true;
+  clearTimeout(pollTimer);
+
+  try {
+    const driver = await getDriver();
+    if (Date.now() - lastStaleCheck >= HEARTBEAT_INTERVAL_MS) {
+      await reclaimStaleJobs(driver);
+    }
+    while (running < CONCURRENCY) {
+      const id = await driver.claim();
+      if (!id) break;
+      const job = await driver.get(id);
+      if (!job) {
+        await driver.release(id);
+        continue;
+      }
+
+      running++;
+      runJob(driver, job)
+        .catch(error =>
+          logger.error('Job runner error', { jobId: id, error: error.message, component: 'jobQueue' })
+        )
+        .finally(() => {
+          running--;
+          setImmediate(pump);
+        });
+    }
+  } catch (error) {
+    logger.error('Job queue poll failed', { error: error.message, component: 'jobQueue' });
+  } finally {
+    pumping = false;
+    pollTimer = setTimeout(pump, POLL_INTERVAL_MS);
+    pollTimer.unref();
+  }
+}
+
+/**
+ * Start taking jobs off the queue. onEvent receives every job state change
+ * and progress report.
+ */
+export async function startJobWorkers({ onEvent: listener = null } = {}) {
+  onEvent = listener;
+  if (started) return;
+  started = true;
+
+  const driver = await getDriver();
+  const reclaimed = await reclaimStaleJobs(driver);
+  logger.info('Job workers started', {
+    driver: driver.name,
+    concurrency: CONCURRENCY,
+    reclaimed,
+    component: 'jobQueue'
+  });
+  pump();
+}
+
+export async function listFailedJobs({ limit = 50 } = {}) {
+  const driver = await getDriver();
+  const ids = await driver.listFailed(limit);
+  const jobs = await Promise.all(ids.map(id => driver.get(id)));
+  return jobs.filter(Boolean);
+}
+
+/**
+ * Put a failed job back on the queue with a fresh set of attempts. Returns
+ * null if the job isn't in the failed list.
+ */
+export async function retryFailedJob(jobId) {
+  const driver = await getDriver();
+  const job = await driver.get(jobId);
+  if (!job || !(await driver.unmarkFailed(jobId))) return null;
+
+  job.status = 'queued';
+  job.attempts = 0;
+  job.progress = 0;
+  job.stage = null;
+  job.error = null;
+  job.updatedAt = Date.now();
+  await driver.save(job);
+  await driver.push(job.id);
+
+  logger.info('Failed job requeued', { jobId, type: job.type, component: 'jobQueue' });
+  emit(job);
+  setImmediate(pump);
+  return job;
+}
+
+export async function discardFailedJob(jobId) {
+  const driver = await getDriver();
+  if (!(await driver.unmarkFailed(jobId))) return false;
+  await driver.remove(jobId);
+  return true;
+}
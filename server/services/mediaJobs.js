@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runFfmpeg } from './ffmpeg.js';
+import { buildHighlightReel } from './highlightReel.js';
+import { buildStreamingRenditions, saveStreamingRenditions } from './hlsLadder.js';
+import { enqueueJob, registerJobHandler } from './jobQueue.js';
+import { failRecordingTranscode, transcodeRecording } from './recordingUploads.js';
+import storageService from './storage.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const LOGO_PATH = path.resolve(__dirname, '../../public/watermark-logo.png');
+const TEXT_PATH = path.resolve(__dirname, '../../public/watermark-text.png');
+
+// Scale to 1080x1920 and overlay the logo and text images, encoded for the
+// widest device (and QuickTime) compatibility
+async function watermarkVideo({ videoUrl }, { job, progress }) {
+  const tempDir = path.join(tmpdir(), 'watermark', job.id);
+  const inputPath = path.join(tempDir, 'input.mp4');
+  const outputPath = path.join(tempDir, 'output.mp4');
+
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+
+    progress(5, 'downloading');
+    const response = await fetch(videoUrl);
+    if (!response.ok) throw new Error(`Failed to fetch video: ${response.status}`);
+    await fs.writeFile(inputPath, Buffer.from(await response.arrayBuffer()));
+
+    const filterComplex = `
+      [0:v]scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black[scaled];
+      [1:v]scale=150:150[logo];
+      [2:v]scale=200:-1[text];
+      [scaled][logo]overlay=main_w-overlay_w-20:80:format=auto:alpha=0.7[with_logo];
+      [with_logo][text]overlay=main_w-overlay_w-20:240:format=auto:alpha=0.7[final]
+    `.replace(/\s+/g, '');
+
+    progress(10, 'encoding');
+    await runFfmpeg([
+      '-i', inputPath,
+      '-i', LOGO_PATH,           // Logo input
+      '-i', TEXT_PATH,           // Text image input
+      '-filter_complex', filterComplex,
+      '-map', '[final]',        // Use the final video output
+      '-map', '0:a?',           // Map audio if it exists
+      '-c:v', 'libx264',        // H.264 codec for better compatibility
+      '-profile:v', 'baseline', // Baseline profile for maximum compatibility
+      '-level', '3.1',          // Level 3.1 for wide device compatibility
+      '-pix_fmt', 'yuv420p',    // Pixel format required for QuickTime
+      '-c:a', 'aac',            // AAC audio codec for better compatibility
+      '-ac', '2',               // Stereo audio
+      '-ar', '48000',           // 48kHz sample rate
+      '-b:a', '128k',           // Audio bitrate
+      '-movflags', '+faststart', // Move moov atom to beginning for streaming
+      '-f', 'mp4',              // Force MP4 container format
+      '-y',
+      outputPath
+    ], { onProgress: (share) => progress(10 + share * 80) });
+
+    progress(90, 'uploading');
+    const key = `watermarked/${job.id}.mp4`;
+    const url = await storageService.uploadFile(key, await fs.readFile(outputPath), 'video/mp4');
+    return { key, url };
+  } finally {
+    await storageService.cleanupTempDir(tempDir);
+  }
+}
+
+/**
+ * Register the handlers for the media job types. Call before startJobWorkers.
+ */
+export function registerMediaJobs() {
+  // Recording assembly from the uploaded chunks
+  registerJobHandler('transcode', {
+    run: ({ recordingId }, { progress }) => transcodeRecording(recordingId, { progress }),
+    // Keep the recording without its video
+    onFailed: ({ recordingId }, error) => failRecordingTranscode(recordingId, error)
+  });
+
+  // Thumbnail and duration of a community post video
+  registerJobHandler('thumbnail', {
+    async run({ key, userId = null }, { progress }) {
+      progress(10, 'processing');
+      const result = await storageService.processVideo(key);
+      progress(90, 'saving');
+      await storageService.updatePostAfterProcessing(key, result.videoUrl, result.thumbnailUrl, result.duration);
+      await enqueueJob('hls', { key, userId });
+      return { videoUrl: result.videoUrl, thumbnailUrl: result.thumbnailUrl, duration: result.duration };
+    },
+    // Let the post exist with its original video
+    onFailed: ({ key }) => storageService.updatePostWithFallback(key)
+  });
+
+  registerJobHandler('watermark', { run: watermarkVideo });
+
+  // Rendition ladder, poster and scrub sprite; until it's done (or if it
+  // fails) players use the progressive video
+  registerJobHandler('hls', {
+    async run({ key, recordingId = null }, { progress }) {
+      const renditions = await buildStreamingRenditions(key, { onProgress: progress });
+      await saveStreamingRenditions({ key, recordingId }, renditions);
+      return renditions;
+    }
+  });
+
+  // Highlight reel cut from a session recording, saved as a recording of its own
+  registerJobHandler('highlight', {
+    run: ({ recordingId, highlightId }, { progress }) =>
+      buildHighlightReel(recordingId, highlightId, { onProgress: progress })
+  });
+}
@@ -0,0 +1,607 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+import { API_ERRORS } from '../middleware/errorHandler.js';
+import { runFfmpeg } from './ffmpeg.js';
+import { enqueueJob, getJob } from './jobQueue.js';
+import storageService from './storage.js';
+
+/**
+ * Session recording uploads, shared by the media socket (recording_chunk) and
+ * the /api/recordings REST routes. State lives in recording_uploads and the
+ * chunk manifest in recording_upload_chunks, so an upload survives a restart
+ * and any instance can finish it:
+ *
+ *   started → receiving → assembling → processing → ready
+ *                                                  ↘ failed
+ *
+ * Chunk files are written under RECORDING_UPLOAD_DIR, which must be shared
+ * between instances. A client that lost its connection asks for the manifest
+ * and resends whatever is missing; finishing with gaps reports the missing
+ * chunks instead of assembling. From assembling on, the upload belongs to its
+ * transcode job (recording_uploads.job_id).
+ */
+
+export const RECORDING_STATES = ['started', 'receiving', 'assembling', 'processing', 'ready', 'failed'];
+
+const ACCEPTING_CHUNKS = new Set(['started', 'receiving']);
+const PROCESSING = ['assembling', 'processing'];
+const JOB_RUNNING = new Set(['queued', 'active', 'retrying']);
+const UPLOAD_DIR = process.env.RECORDING_UPLOAD_DIR || path.join(os.tmpdir(), 'pitchroom_recordings');
+const SERVER_ID = process.env.SERVER_ID || `${os.hostname()}:${process.pid}`;
+const ABANDONED_AFTER_MS = Number(process.env.RECORDING_ABANDONED_AFTER_MS || 6 * 60 * 60 * 1000);
+const STUCK_AFTER_MS = 30 * 60 * 1000; // Assembly whose job is gone or has failed
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Chunk writes still in flight on this instance, awaited before assembling
+const pendingWrites = new Map();
+
+export function chunkChecksum(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+function chunkPath(tempDir, index) {
+  return path.join(tempDir, `chunk_${String(index).padStart(6, '0')}.webm`);
+}
+
+async function getUpload(recordingId) {
+  if (!UUID_PATTERN.test(String(recordingId))) {
+    throw API_ERRORS.NOT_FOUND('Recording');
+  }
+  const { rows } = await pool.query('SELECT * FROM recording_uploads WHERE id = $1', [recordingId]);
+  if (rows.length === 0) {
+    throw API_ERRORS.NOT_FOUND('Recording');
+  }
+  return rows[0];
+}
+
+// Move an upload on from one of the states in from; false when it has
+// already moved elsewhere (e.g. the sweeper failed it)
+async function setStatus(recordingId, status, { from, error = null }) {
+  const { rowCount } = await pool.query(
+    `UPDATE recording_uploads
+     SET status = $2, error = $3, updated_at = NOW()
+     WHERE id = $1 AND status = ANY($4::text[])`,
+    [recordingId, status, error, from]
+  );
+  return rowCount > 0;
+}
+
+// Indices below the last chunk that never arrived. Without a reported last
+// chunk, only gaps below the highest index received count.
+function findMissing(chunks, lastChunkIndex) {
+  const received = new Set(chunks.map(chunk => chunk.index));
+  const last = lastChunkIndex ?? Math.max(-1, ...received);
+  const missing = [];
+  for (let index = 0; index <= last; index++) {
+    if (!received.has(index)) missing.push(index);
+  }
+  return missing;
+}
+
+/**
+ * Open a recording upload. Returns { recordingId, status }.
+ */
+export async function startRecordingUpload({ sessionId, callSessionId = null, userId, avatarId, mimeType = null }) {
+  if (!sessionId || !avatarId || !userId) {
+    throw API_ERRORS.VALIDATION_ERROR('Missing required fields');
+  }
+
+  const recordingId = crypto.randomUUID();
+  const tempDir = path.join(UPLOAD_DIR, recordingId);
+  await fs.mkdir(tempDir, { recursive: true });
+
+  await pool.query(
+    `INSERT INTO recording_uploads (id, session_id, call_session_id, user_id, avatar_id, mime_type, temp_dir)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [recordingId, sessionId, callSessionId, userId, avatarId, mimeType, tempDir]
+  );
+
+  logger.info('Recording upload started', {
+    recordingId,
+    callSessionId,
+    userId,
+    component: 'recordingUploads'
+  });
+  return { recordingId, status: 'started' };
+}
+
+/**
+ * Store one chunk. A chunk resent with the same content is acknowledged as a
+ * duplicate; a checksum that doesn't match the bytes, or a different chunk at
+ * an index already stored, is rejected.
+ */
+export async function receiveRecordingChunk(recordingId, chunkIndex, data, { checksum = null } = {}) {
+  const index = Number.parseInt(chunkIndex, 10);
+  if (!Number.isInteger(index) || index < 0) {
+    throw API_ERRORS.VALIDATION_ERROR('Invalid chunk index', 'chunkIndex');
+  }
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const digest = chunkChecksum(buffer);
+  if (checksum && String(checksum).toLowerCase() !== digest) {
+    throw API_ERRORS.BAD_REQUEST('Chunk checksum mismatch', { chunkIndex: index });
+  }
+
+  const upload = await getUpload(recordingId);
+  if (!ACCEPTING_CHUNKS.has(upload.status)) {
+    throw API_ERRORS.CONFLICT(`Recording is already ${upload.status}`, 'recording');
+  }
+
+  const existing = await pool.query(
+    'SELECT sha256 FROM recording_upload_chunks WHERE recording_id = $1 AND chunk_index = $2',
+    [recordingId, index]
+  );
+  if (existing.rows.length > 0) {
+    if (existing.rows[0].sha256 === digest) {
+      return { chunkIndex: index, checksum: digest, duplicate: true };
+    }
+    throw API_ERRORS.CONFLICT('A different chunk is already stored at this index', 'chunk');
+  }
+
+  if (index === 0 && upload.mime_type?.includes('webm') && (buffer[0] !== 0x1a || buffer[1] !== 0x45)) {
+    logger.warn('Chunk 0 missing EBML header', { recordingId, component: 'recordingUploads' });
+  }
+
+  const write = (async () => {
+    // Written aside and renamed, so a crash never leaves a partial chunk in place
+    const target = chunkPath(upload.temp_dir, index);
+    await fs.mkdir(upload.temp_dir, { recursive: true });
+    await fs.writeFile(`${target}.part`, buffer);
+    await fs.rename(`${target}.part`, target);
+    await pool.query(
+      `INSERT INTO recording_upload_chunks (recording_id, chunk_index, size, sha256)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (recording_id, chunk_index) DO NOTHING`,
+      [recordingId, index, buffer.length, digest]
+    );
+    await pool.query(
+      `UPDATE recording_uploads
+       SET status = 'receiving', updated_at = NOW()
+       WHERE id = $1 AND status IN ('started', 'receiving')`,
+      [recordingId]
+    );
+  })();
+
+  if (!pendingWrites.has(recordingId)) pendingWrites.set(recordingId, new Set());
+  const writes = pendingWrites.get(recordingId);
+  writes.add(write);
+  try {
+    await write;
+  } finally {
+    writes.delete(write);
+    if (writes.size === 0) pendingWrites.delete(recordingId);
+  }
+
+  return { chunkIndex: index, checksum: digest, duplicate: false };
+}
+
+/**
+ * What the server has for a recording, for a client resuming an upload:
+ * { recordingId, status, chunks: [{ index, size, checksum }], missing, error }
+ */
+export async function getRecordingManifest(recordingId) {
+  const upload = await getUpload(recordingId);
+  const { rows } = await pool.query(
+    `SELECT chunk_index, size, sha256
+     FROM recording_upload_chunks
+     WHERE recording_id = $1
+     ORDER BY chunk_index`,
+    [recordingId]
+  );
+  const chunks = rows.map(row => ({ index: row.chunk_index, size: row.size, checksum: row.sha256 }));
+  return {
+    recordingId,
+    status: upload.status,
+    chunks,
+    missing: findMissing(chunks, upload.last_chunk_index),
+    error: upload.error
+  };
+}
+
+/**
+ * Store the overlay track (pose landmark and workout stats timeline) the
+ * client recorded alongside the video, as recordings/<id>/overlay.json.
+ * Only the upload's owner can send it, before the recording is ready.
+ * Usually sent just before finishing; the recording row picks it up then, or
+ * here if it already exists.
+ */
+export async function saveRecordingOverlay(recordingId, buffer, userId) {
+  const upload = await getUpload(recordingId);
+  if (String(upload.user_id) !== String(userId)) {
+    throw API_ERRORS.FORBIDDEN('Recording belongs to another user');
+  }
+  if (upload.status === 'ready' || upload.status === 'failed') {
+    throw API_ERRORS.CONFLICT(`Recording is already ${upload.status}`, 'recording');
+  }
+
+  let track;
+  try {
+    track = JSON.parse(buffer.toString('utf8'));
+  } catch {
+    throw API_ERRORS.VALIDATION_ERROR('Overlay track is not valid JSON', 'overlay');
+  }
+  if (!track || !Array.isArray(track.frames) || !Array.isArray(track.stats)) {
+    throw API_ERRORS.VALIDATION_ERROR('Overlay track is missing frames or stats', 'overlay');
+  }
+
+  const overlayUrl = await storageService.uploadFile(
+    `recordings/${recordingId}/overlay.json`,
+    buffer,
+    'application/json'
+  );
+  await pool.query(
+    'UPDATE recording_uploads SET overlay_url = $2, updated_at = NOW() WHERE id = $1',
+    [recordingId, overlayUrl]
+  );
+  await pool.query('UPDATE "SessionRecording" SET overlay_url = $2 WHERE id = $1', [recordingId, overlayUrl]);
+
+  logger.info('Recording overlay track saved', {
+    recordingId,
+    frames: track.frames.length,
+    size: buffer.length,
+    component: 'recordingUploads'
+  });
+  return { recordingId, overlayUrl };
+}
+
+// The stored chunks in order. A chunk damaged on disk is left out rather
+// than corrupting the rest.
+async function* chunkBuffers(upload, chunks) {
+  for (const chunk of chunks) {
+    const buffer = await fs.readFile(chunkPath(upload.temp_dir, chunk.index));
+    if (chunkChecksum(buffer) !== chunk.checksum) {
+      logger.warn('Recording chunk failed checksum, skipping', {
+        recordingId: upload.id,
+        chunkIndex: chunk.index,
+        component: 'recordingUploads'
+      });
+      continue;
+    }
+    yield buffer;
+  }
+}
+
+// Pipe the chunks through FFmpeg's stdin. The concat demuxer would need a WebM
+// header in every segment, and only the first MediaRecorder chunk has one.
+async function mergeChunks(upload, chunks) {
+  const outputIsMp4 = !!upload.mime_type?.includes('mp4');
+  const outputPath = path.join(upload.temp_dir, outputIsMp4 ? 'final_video.mp4' : 'final_video.webm');
+
+  if (!outputIsMp4) {
+    try {
+      // Fast path – copy WebM without re-encode
+      await runFfmpeg(['-f', 'webm', '-i', 'pipe:0', '-c', 'copy', '-y', outputPath], {
+        input: chunkBuffers(upload, chunks)
+      });
+      return { outputPath, outputIsMp4 };
+    } catch (copyError) {
+      logger.warn('Fast WebM copy failed – falling back to encode', {
+        error: copyError.message,
+        recordingId: upload.id,
+        component: 'recordingUploads'
+      });
+    }
+  }
+
+  await runFfmpeg(
+    outputIsMp4
+      ? ['-f', 'mp4', '-i', 'pipe:0', '-c', 'copy', '-movflags', '+faststart', '-y', outputPath]
+      : [
+          '-f', 'webm', '-i', 'pipe:0',
+          '-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '28', '-pix_fmt', 'yuv420p',
+          '-c:a', 'aac', '-b:a', '128k',
+          '-movflags', '+faststart', '-y', outputPath
+        ],
+    { input: chunkBuffers(upload, chunks) }
+  );
+  return { outputPath, outputIsMp4 };
+}
+
+// Keeps an upload the job is working on from looking stuck
+async function touchUpload(recordingId) {
+  await pool.query(
+    `UPDATE recording_uploads SET updated_at = NOW() WHERE id = $1 AND status IN ('assembling', 'processing')`,
+    [recordingId]
+  );
+}
+
+async function saveSessionRecording(upload, { videoUrl = null, thumbnailUrl = null, duration = null, fileSize = 0 } = {}) {
+  // The overlay track may have arrived while the video was being processed
+  await pool.query(
+    `INSERT INTO "SessionRecording"
+     (id, session_id, user_id, avatar_id, call_session_id, video_url, thumbnail_url, duration_sec, created_at, file_size,
+      overlay_url)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9,
+             (SELECT overlay_url FROM recording_uploads WHERE id = $1))
+     ON CONFLICT (id) DO NOTHING`,
+    [
+      upload.id,
+      upload.session_id,
+      upload.user_id,
+      upload.avatar_id,
+      upload.call_session_id,
+      videoUrl,
+      thumbnailUrl,
+      duration ?? upload.duration_sec ?? 0,
+      fileSize
+    ]
+  );
+}
+
+/**
+ * The transcode job: assemble the chunks, extract the thumbnail and duration,
+ * upload both and save the SessionRecording row. Runs on whichever instance
+ * picks the job up, which is why the chunk directory has to be shared. The
+ * job owns the upload from assembling to ready; an upload that was failed in
+ * the meantime (by the sweeper) is left alone.
+ */
+export async function transcodeRecording(recordingId, { progress = () => {} } = {}) {
+  const upload = await getUpload(recordingId);
+  if (!PROCESSING.includes(upload.status)) {
+    logger.warn('Recording upload is no longer being processed, skipping transcode', {
+      recordingId,
+      status: upload.status,
+      component: 'recordingUploads'
+    });
+    return { recordingId, status: upload.status, skipped: true };
+  }
+  const { chunks } = await getRecordingManifest(recordingId);
+
+  const report = (percent, stage) => {
+    progress(percent, stage);
+    touchUpload(recordingId).catch(error =>
+      logger.warn('Could not update recording upload', { error: error.message, recordingId, component: 'recordingUploads' })
+    );
+  };
+
+  report(10, 'assembling');
+  const { outputPath, outputIsMp4 } = await mergeChunks(upload, chunks);
+  if (!(await setStatus(recordingId, 'processing', { from: PROCESSING }))) {
+    return { recordingId, status: (await getUpload(recordingId)).status, skipped: true };
+  }
+
+  report(50, 'thumbnail');
+  const videoBuffer = await fs.readFile(outputPath);
+  const processed = await storageService.processVideoBuffer(videoBuffer);
+
+  report(70, 'uploading');
+  const videoKey = `recordings/${recordingId}/video.${outputIsMp4 ? 'mp4' : 'webm'}`;
+  const videoUrl = await storageService.uploadFile(
+    videoKey,
+    videoBuffer,
+    outputIsMp4 ? 'video/mp4' : 'video/webm'
+  );
+  let thumbnailUrl = null;
+  if (processed.thumbnailBuffer?.length > 0) {
+    thumbnailUrl = await storageService.uploadFile(
+      `recordings/${recordingId}/thumbnail.jpg`,
+      processed.thumbnailBuffer,
+      'image/jpeg'
+    );
+  }
+  const duration = processed.duration || upload.duration_sec || 0;
+
+  report(90, 'saving');
+  await saveSessionRecording(upload, { videoUrl, thumbnailUrl, duration, fileSize: videoBuffer.length });
+  if (!(await setStatus(recordingId, 'ready', { from: ['processing'] }))) {
+    return { recordingId, status: (await getUpload(recordingId)).status, skipped: true };
+  }
+  await storageService.cleanupTempDir(upload.temp_dir);
+
+  // The adaptive renditions follow in the background; the recording plays
+  // from video_url until they're ready
+  await enqueueJob('hls', { key: videoKey, recordingId, userId: upload.user_id });
+
+  logger.info('Recording upload finished', {
+    recordingId,
+    chunkCount: chunks.length,
+    fileSize: videoBuffer.length,
+    component: 'recordingUploads'
+  });
+  return { recordingId, status: 'ready', videoUrl, thumbnailUrl, duration };
+}
+
+/**
+ * When the transcode job has used up its attempts: the recording is still
+ * saved, without video, and the upload marked failed.
+ */
+export async function failRecordingTranscode(recordingId, error) {
+  const upload = await getUpload(recordingId);
+  if (!PROCESSING.includes(upload.status)) return;
+
+  await saveSessionRecording(upload);
+  if (await setStatus(recordingId, 'failed', { from: PROCESSING, error: error.message })) {
+    await storageService.cleanupTempDir(upload.temp_dir);
+  }
+  logger.error('Video processing failed, saved recording without video', {
+    error: error.message,
+    recordingId,
+    component: 'recordingUploads'
+  });
+}
+
+async function finishedResult(upload) {
+  const { rows } = await pool.query(
+    'SELECT video_url, thumbnail_url, duration_sec FROM "SessionRecording" WHERE id = $1',
+    [upload.id]
+  );
+  return {
+    recordingId: upload.id,
+    status: upload.status,
+    videoUrl: rows[0]?.video_url ?? null,
+    thumbnailUrl: rows[0]?.thumbnail_url ?? null,
+    duration: rows[0]?.duration_sec ?? upload.duration_sec ?? 0,
+    error: upload.error
+  };
+}
+
+/**
+ * Finish an upload: once every chunk up to lastChunkIndex is stored, hand it
+ * to the transcode job. Returns { status: 'receiving', missing } while chunks
+ * are missing (pass acceptMissing to assemble what arrived anyway), otherwise
+ * the status and jobId without waiting for the job; follow it through
+ * getRecordingStatus. Finishing a finished recording returns the finished
+ * recording { recordingId, status, videoUrl, thumbnailUrl, duration }.
+ */
+export async function finishRecordingUpload(recordingId, { lastChunkIndex = null, duration = null, acceptMissing = false } = {}) {
+  await Promise.all([...(pendingWrites.get(recordingId) || [])]);
+
+  let upload = await getUpload(recordingId);
+  if (upload.status === 'ready' || upload.status === 'failed') {
+    return finishedResult(upload);
+  }
+  if (!ACCEPTING_CHUNKS.has(upload.status)) {
+    return { recordingId, status: upload.status, jobId: upload.job_id };
+  }
+
+  if (lastChunkIndex !== null || duration !== null) {
+    const { rows } = await pool.query(
+      `UPDATE recording_uploads
+       SET last_chunk_index = COALESCE($2, last_chunk_index),
+           duration_sec = COALESCE($3, duration_sec),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [recordingId, lastChunkIndex, duration === null ? null : Math.round(duration)]
+    );
+    upload = rows[0];
+  }
+
+  const manifest = await getRecordingManifest(recordingId);
+  if (manifest.chunks.length === 0) {
+    await setStatus(recordingId, 'failed', { from: [...ACCEPTING_CHUNKS], error: 'No chunks received' });
+    await storageService.cleanupTempDir(upload.temp_dir);
+    throw API_ERRORS.BAD_REQUEST('No chunks received');
+  }
+  if (manifest.missing.length > 0) {
+    if (!acceptMissing) {
+      return { recordingId, status: manifest.status, missing: manifest.missing };
+    }
+    logger.warn('Assembling recording with missing chunks', {
+      recordingId,
+      missingChunks: manifest.missing.slice(0, 20),
+      totalMissing: manifest.missing.length,
+      component: 'recordingUploads'
+    });
+  }
+
+  // Only one request (on any instance) gets to assemble
+  const claimed = await pool.query(
+    `UPDATE recording_uploads
+     SET status = 'assembling', server_id = $2, updated_at = NOW()
+     WHERE id = $1 AND status IN ('started', 'receiving')
+     RETURNING *`,
+    [recordingId, SERVER_ID]
+  );
+  if (claimed.rows.length === 0) {
+    const current = await getUpload(recordingId);
+    return { recordingId, status: current.status, jobId: current.job_id };
+  }
+
+  // From here the job owns the upload; the sweeper leaves it alone while the
+  // job is queued or running
+  const job = await enqueueJob('transcode', { recordingId, userId: upload.user_id });
+  await pool.query('UPDATE recording_uploads SET job_id = $2 WHERE id = $1', [recordingId, job.id]);
+
+  return { recordingId, status: 'assembling', jobId: job.id };
+}
+
+/**
+ * Where a finished upload is: the recording once ready, the error once
+ * failed, otherwise the transcode job's progress
+ */
+export async function getRecordingStatus(recordingId) {
+  const upload = await getUpload(recordingId);
+  if (upload.status === 'ready' || upload.status === 'failed') {
+    return finishedResult(upload);
+  }
+  const job = upload.job_id ? await getJob(upload.job_id) : null;
+  return {
+    recordingId,
+    status: upload.status,
+    jobId: upload.job_id,
+    progress: job?.progress ?? 0,
+    stage: job?.stage ?? null
+  };
+}
+
+/**
+ * Fail uploads nobody finished, and assembly whose transcode job is gone or
+ * has failed without settling the upload, then remove their chunk
+ * directories along with any directory that no longer belongs to an active
+ * upload. Uploads whose job is still queued or running are left to it.
+ */
+export async function sweepRecordingUploads({ abandonedAfterMs = ABANDONED_AFTER_MS, stuckAfterMs = STUCK_AFTER_MS } = {}) {
+  const { rows: abandoned } = await pool.query(
+    `UPDATE recording_uploads
+     SET status = 'failed', error = 'Abandoned upload', updated_at = NOW()
+     WHERE status IN ('started', 'receiving') AND updated_at < NOW() - make_interval(secs => $1)
+     RETURNING id, temp_dir`,
+    [abandonedAfterMs / 1000]
+  );
+
+  const { rows: stale } = await pool.query(
+    `SELECT id, job_id, temp_dir
+     FROM recording_uploads
+     WHERE status IN ('assembling', 'processing') AND updated_at < NOW() - make_interval(secs => $1)`,
+    [stuckAfterMs / 1000]
+  );
+  const interrupted = [];
+  for (const upload of stale) {
+    const job = upload.job_id ? await getJob(upload.job_id) : null;
+    if (job && JOB_RUNNING.has(job.status)) continue;
+    if (await setStatus(upload.id, 'failed', { from: PROCESSING, error: 'Interrupted while processing' })) {
+      interrupted.push(upload);
+    }
+  }
+
+  const expired = [...abandoned, ...interrupted];
+  for (const upload of expired) {
+    await storageService.cleanupTempDir(upload.temp_dir);
+  }
+
+  let removedDirs = 0;
+  const entries = await fs.readdir(UPLOAD_DIR).catch(() => []);
+  const candidates = entries.filter(entry => UUID_PATTERN.test(entry));
+  if (candidates.length > 0) {
+    const { rows: active } = await pool.query(
+      `SELECT id FROM recording_uploads
+       WHERE id = ANY($1::uuid[]) AND status IN ('started', 'receiving', 'assembling', 'processing')`,
+      [candidates]
+    );
+    const activeIds = new Set(active.map(row => row.id));
+    for (const entry of candidates) {
+      if (activeIds.has(entry)) continue;
+      const dir = path.join(UPLOAD_DIR, entry);
+      // A directory is created just before its upload row; leave fresh ones alone
+      const stats = await fs.stat(dir).catch(() => null);
+      if (!stats || Date.now() - stats.mtimeMs < stuckAfterMs) continue;
+      await storageService.cleanupTempDir(dir);
+      removedDirs++;
+    }
+  }
+
+  if (expired.length > 0 || removedDirs > 0) {
+    logger.info('Swept recording uploads', {
+      failed: expired.length,
+      removedDirs,
+      component: 'recordingUploads'
+    });
+  }
+  return { failed: expired.length, removedDirs };
+}
+
+export function startRecordingUploadSweeper(intervalMs = SWEEP_INTERVAL_MS) {
+  const sweep = () =>
+    sweepRecordingUploads().catch(error =>
+      logger.error('Recording upload sweep failed', { error: error.message, component: 'recordingUploads' })
+    );
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+  return timer;
+}
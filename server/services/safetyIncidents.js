@@ -0,0 +1,86 @@
+import pool from '../db/index.js';
+import { logger } from '../lib/cloudwatch-logger.js';
+
+/**
+ * Store a risky moment the safety guard caught during a workout.
+ * Returns the incident id, or null if it couldn't be stored.
+ */
+export async function recordSafetyIncident({
+  userId = null,
+  avatarId = null,
+  callSessionId = null,
+  source,
+  level,
+  reasons = [],
+  utterance = null,
+  signal = null,
+  exercise = null,
+  bodyPart = null,
+  side = null,
+  action
+}) {
+  try {
+    const result = await pool.query(
+      `INSERT INTO safety_incidents
+         (user_id, avatar_id, call_session_id, source, risk_level, reasons, utterance, signal, exercise, body_part, side, action)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [
+        userId,
+        avatarId,
+        callSessionId,
+        source,
+        level,
+        JSON.stringify(reasons),
+        utterance,
+        signal ? JSON.stringify(signal) : null,
+        exercise,
+        bodyPart,
+        side,
+        action
+      ]
+    );
+    const incidentId = result.rows[0].id;
+
+    logger.warn('Safety incident recorded', {
+      incidentId,
+      userId,
+      source,
+      level,
+      reasons,
+      action,
+      component: 'safetyIncidents'
+    });
+    return incidentId;
+  } catch (error) {
+    logger.error('Error recording safety incident', {
+      error: error.message,
+      userId,
+      source,
+      level,
+      component: 'safetyIncidents'
+    });
+    return null;
+  }
+}
+
+/**
+ * Record how a paused incident ended: 'resumed' or 'ended'
+ */
+export async function resolveSafetyIncident(incidentId, resolution) {
+  try {
+    await pool.query(
+      `UPDATE safety_incidents
+       SET resolution = $2, resolved_at = NOW()
+       WHERE id = $1 AND resolution IS NULL`,
+      [incidentId, resolution]
+    );
+  } catch (error) {
+    logger.error('Error resolving safety incident', {
+      error: error.message,
+      incidentId,
+      resolution,
+      component: 'safetyIncidents'
+    });
+  }
+}
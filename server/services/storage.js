@@ -1,10 +1,11 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { tmpdir } from 'os';
+import { enqueueJob } from './jobQueue.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -116,6 +117,38 @@ class StorageService {
     return await fs.readFile(filePath);
   }
 
+  /**
+   * Read a stored file (S3 in production, filesystem in development)
+   */
+  async readFile(key) {
+    if (!this.isProduction) {
+      return this.readFileLocally(key);
+    }
+
+    const getCommand = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    });
+    const response = await this.s3Client.send(getCommand);
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  /**
+   * Delete a stored file; a missing one is not an error
+   */
+  async deleteFile(key) {
+    if (!this.isProduction) {
+      await fs.rm(path.join(this.localStoragePath, key), { force: true });
+      return;
+    }
+
+    const deleteCommand = new DeleteObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    });
+    await this.s3Client.send(deleteCommand);
+  }
+
   /**
    * Process uploaded video file
    */
@@ -129,13 +162,7 @@ class StorageService {
 
   async processVideoS3(key) {
     // Get the original video from S3
-    const getCommand = new GetObjectCommand({
-      Bucket: this.bucketName,
-      Key: key,
-    });
-
-    const response = await this.s3Client.send(getCommand);
-    const buffer = Buffer.from(await response.Body.transformToByteArray());
+    const buffer = await this.readFile(key);
 
     // Process video and generate thumbnail
     const { thumbnailBuffer, duration, transcript } = await this.processVideoBuffer(buffer);
@@ -352,33 +379,27 @@ class StorageService {
   }
 
   /**
-   * Process video after upload (both local and production)
+   * Queue thumbnail and duration extraction for an uploaded post video (both
+   * local and production). The job reads the video back from storage; progress
+   * goes to the uploader on the feed socket. Returns the queued job.
    */
-  async processVideoAfterUpload(key, originalBuffer) {
-    console.log('[Storage] Processing video for key:', key);
-    
+  async processVideoAfterUpload(key, { userId = null } = {}) {
+    console.log('[Storage] Queueing video processing for key:', key);
+    return enqueueJob('thumbnail', { key, userId });
+  }
+
+  /**
+   * Give the post its original video and a default duration when processing
+   * failed for good, so it still shows up
+   */
+  async updatePostWithFallback(key) {
     try {
-      // Process the video we just saved
-      const result = await this.processVideo(key, originalBuffer);
-      
-      // Update database with processed info
-      await this.updatePostAfterProcessing(key, result.videoUrl, result.thumbnailUrl, result.duration);
-      
-      console.log('[Storage] Video processing completed successfully');
-    } catch (error) {
-      console.error('[Storage] Video processing failed:', error);
-      
-      // Try to update with basic info even if processing failed
-      try {
-        const fallbackVideoUrl = this.getPublicUrl(key);
-        const fallbackDuration = 10; // Default duration
-        await this.updatePostAfterProcessing(key, fallbackVideoUrl, null, fallbackDuration);
-        console.log('[Storage] Updated post with fallback info after processing failure');
-      } catch (updateError) {
-        console.error('[Storage] Failed to update post with fallback info:', updateError);
-      }
-      
-      // Don't throw - let the post exist with original video
+      const fallbackVideoUrl = this.getPublicUrl(key);
+      const fallbackDuration = 10; // Default duration
+      await this.updatePostAfterProcessing(key, fallbackVideoUrl, null, fallbackDuration);
+      console.log('[Storage] Updated post with fallback info after processing failure');
+    } catch (updateError) {
+      console.error('[Storage] Failed to update post with fallback info:', updateError);
     }
   }
 
@@ -509,12 +530,6 @@ class StorageService {
     }
   }
 
-  async createTempRecordingDir(recordingId) {
-    const dir = path.join(tmpdir(), 'pitchroom_recordings', recordingId);
-    await fs.mkdir(dir, { recursive: true });
-    return dir;
-  }
-
   async cleanupTempDir(dirPath) {
     try {
       await fs.rm(dirPath, { recursive: true, force: true });
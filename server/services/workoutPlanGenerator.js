@@ -1,18 +1,17 @@
 import pool from '../db/index.js';
-import { generateLLMResponse } from '../pipeline/llmResponder.js';
+import { createCompletion, generateLLMResponse } from '../pipeline/llmResponder.js';
+import { personaLLMOptions } from '../pipeline/llmProviders/index.js';
+import { getAvatarPersona } from '../personas/config.js';
 import { logger } from '../lib/cloudwatch-logger.js';
 import { v4 as uuidv4 } from 'uuid';
-import { EXERCISE, EXERCISES } from '../constants/exercises.js';
+import { EQUIPMENT, EXERCISE, EXERCISES, WEIGHT_UNITS, getExerciseDefinition } from '../constants/exercises.js';
+import { describeInjury, normalizeGoals } from './coachingMemory.js';
+import { getRecentLoadedSets } from './exerciseTracking.js';
 
-// Muscle group mapping for exercises
-const EXERCISE_MUSCLE_GROUPS = {
-  [EXERCISE.SQUATS]: ['legs', 'glutes', 'core'],
-  [EXERCISE.PUSH_UPS]: ['chest', 'shoulders', 'triceps', 'core'],
-  [EXERCISE.LUNGES]: ['legs', 'glutes', 'core'],
-  [EXERCISE.JUMPING_JACKS]: ['cardio', 'full-body'],
-  [EXERCISE.PLANKS]: ['core', 'shoulders'],
-  [EXERCISE.CHIN_UPS]: ['back', 'biceps', 'core']
-};
+// Progressive overload: the load step added once every set hits its target
+// with reps in reserve, and the hardest RPE that still counts as reps in reserve
+const LOAD_STEP = { kg: 2.5, lb: 5 };
+const PROGRESSION_MAX_RPE = 8;
 
 /**
  * Extract workout history from user's past transcripts
@@ -118,6 +117,90 @@ async function getUserFitnessProfile(userId) {
   }
 }
 
+/**
+ * Get a user's recent loaded sets, tolerating databases without load columns yet
+ */
+async function getLoadHistory(userId) {
+  try {
+    return await getRecentLoadedSets(userId, 30);
+  } catch (error) {
+    logger.error('Error getting load history', { error: error.message, userId });
+    return [];
+  }
+}
+
+/**
+ * Equipment the user has, or null when the profile doesn't say (no filtering)
+ */
+function getAvailableEquipment(fitnessProfile) {
+  const equipment = fitnessProfile.equipment_available;
+  return Array.isArray(equipment) ? equipment : null;
+}
+
+/**
+ * Next load per exercise from its most recent loaded session: add a step when
+ * every set hit its target without grinding, hold when the last session was
+ * near max effort, and back off a step when reps were missed
+ */
+function suggestProgressiveLoads(loadedSets, availableEquipment) {
+  const suggestions = {};
+  const byExercise = new Map();
+  for (const set of loadedSets) {
+    if (!byExercise.has(set.exercise_name)) byExercise.set(set.exercise_name, []);
+    byExercise.get(set.exercise_name).push(set);
+  }
+
+  for (const [exercise, sets] of byExercise) {
+    // Sets arrive newest first; keep the latest session's sets at the latest load
+    const latest = sets[0];
+    const sessionDay = new Date(latest.completed_at).toDateString();
+    const lastSession = sets.filter(set =>
+      new Date(set.completed_at).toDateString() === sessionDay && set.equipment === latest.equipment
+    );
+
+    if (availableEquipment && !availableEquipment.includes(latest.equipment)) continue;
+
+    const unit = latest.weight_unit || 'kg';
+    const weight = Number(latest.weight);
+    const missedReps = lastSession.some(set => set.target_reps && set.completed_reps < set.target_reps);
+    const efforts = lastSession
+      .map(set => (set.rpe !== null ? Number(set.rpe) : set.rir !== null ? 10 - set.rir : null))
+      .filter(effort => effort !== null);
+    const hardestEffort = efforts.length > 0 ? Math.max(...efforts) : null;
+
+    let nextWeight = weight;
+    let reason = `Last session at ${weight} ${unit} was near max effort - repeat it`;
+    if (missedReps) {
+      nextWeight = Math.max(LOAD_STEP[unit], weight - LOAD_STEP[unit]);
+      reason = `Missed reps at ${weight} ${unit} last time - back off one step`;
+    } else if (hardestEffort === null || hardestEffort <= PROGRESSION_MAX_RPE) {
+      nextWeight = weight + LOAD_STEP[unit];
+      reason = `Hit every target at ${weight} ${unit}${hardestEffort !== null ? ` (RPE ≤ ${hardestEffort})` : ''} - add ${LOAD_STEP[unit]} ${unit}`;
+    }
+
+    suggestions[exercise] = {
+      load: { weight: nextWeight, unit, equipment: latest.equipment },
+      reason
+    };
+  }
+
+  return suggestions;
+}
+
+/**
+ * Keep an LLM-prescribed load only if it is well-formed and the user has the equipment
+ */
+function sanitizePlanLoad(exerciseType, load, availableEquipment) {
+  if (!load || typeof load !== 'object') return undefined;
+  const weight = Number(load.weight);
+  const equipment = load.equipment;
+  const loadable = getExerciseDefinition(exerciseType)?.equipment || [];
+  if (!Number.isFinite(weight) || weight <= 0) return undefined;
+  if (!EQUIPMENT.includes(equipment) || !loadable.includes(equipment)) return undefined;
+  if (availableEquipment && !availableEquipment.includes(equipment)) return undefined;
+  return { weight, unit: WEIGHT_UNITS.includes(load.unit) ? load.unit : 'kg', equipment };
+}
+
 /**
  * Analyze recent workouts for patterns and recovery needs
  */
@@ -161,7 +244,7 @@ function analyzeRecentWorkouts(workoutHistory) {
       }
       
       // Track muscle groups
-      const muscleGroups = EXERCISE_MUSCLE_GROUPS[exercise.type] || [];
+      const muscleGroups = getExerciseDefinition(exercise.type)?.muscleGroups || [];
       for (const muscle of muscleGroups) {
         if (!muscleGroupLastWorked[muscle]) {
           const daysSince = Math.floor(
@@ -242,12 +325,15 @@ async function generateWorkoutPlan(userId, sessionContext = {}) {
   
   try {
     // Get user history and profile
-    const [workoutHistory, fitnessProfile] = await Promise.all([
+    const [workoutHistory, fitnessProfile, loadHistory] = await Promise.all([
       getWorkoutHistoryFromTranscripts(userId, 30),
-      getUserFitnessProfile(userId)
+      getUserFitnessProfile(userId),
+      getLoadHistory(userId)
     ]);
     
     const analysis = analyzeRecentWorkouts(workoutHistory);
+    const availableEquipment = getAvailableEquipment(fitnessProfile);
+    const loadSuggestions = suggestProgressiveLoads(loadHistory, availableEquipment);
     
     // Get enabled exercises for this avatar
     let availableExercises = [...EXERCISES];
@@ -299,8 +385,8 @@ async function generateWorkoutPlan(userId, sessionContext = {}) {
 
 User Profile:
 - Fitness Level: ${fitnessProfile.fitness_level}
-- Goals: ${fitnessProfile.goals.join(', ')}
-- Injuries/Limitations: ${fitnessProfile.injuries.length > 0 ? fitnessProfile.injuries.join(', ') : 'None'}
+- Goals: ${normalizeGoals(fitnessProfile.goals).join(', ') || 'general_fitness'}
+- Injuries/Limitations: ${fitnessProfile.injuries?.length > 0 ? fitnessProfile.injuries.map(describeInjury).join(', ') : 'None'}
 - Preferred Duration: ${fitnessProfile.preferred_duration} minutes
 
 Recent Workout Analysis:
@@ -318,8 +404,18 @@ ${Object.entries(analysis.muscleGroupsWorked)
 Available Exercises: ${availableExercises.join(', ')}
 ${availableExercises.length < 3 ? 'NOTE: Limited exercises available. Create a plan using ONLY these exercises with appropriate sets/reps variations.' : ''}
 
+Equipment Available: ${availableEquipment ? availableEquipment.join(', ') || 'None (bodyweight only)' : 'Unknown (assume bodyweight only)'}
+Loadable Exercises: ${availableExercises
+  .map(name => `${name} (${(getExerciseDefinition(name)?.equipment || []).join(', ') || 'bodyweight only'})`)
+  .join('; ')}
+
+Load Progression (from the user's logged sets - prescribe exactly these loads):
+${Object.entries(loadSuggestions)
+  .map(([exercise, suggestion]) => `- ${exercise}: ${suggestion.load.weight} ${suggestion.load.unit} ${suggestion.load.equipment} - ${suggestion.reason}`)
+  .join('\n') || 'No loaded sets logged yet'}
+
 Requirements:
-1. Apply progressive overload principles
+1. Apply progressive overload principles (more load when load progression is listed, otherwise more reps or sets)
 2. Ensure proper muscle recovery (major muscle groups need 48-72 hours)
 3. Balance the workout across muscle groups
 4. Start with a warm-up exercise
@@ -337,7 +433,8 @@ Return a JSON object with this structure:
       "targetReps": number,
       "restDuration": seconds,
       "order": number,
-      "reasoning": "why this exercise and rep scheme"
+      "reasoning": "why this exercise and rep scheme",
+      "load": { "weight": number, "unit": "kg|lb", "equipment": "one of the exercise's loadable equipment" } // omit for bodyweight
     }
   ],
   "totalDuration": estimated minutes,
@@ -346,22 +443,17 @@ Return a JSON object with this structure:
   "progressionNotes": "explanation of progression strategy"
 }`;
 
-    // Use OpenAI directly for structured response
-    const { default: OpenAI } = await import('openai');
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: 'You are a professional fitness coach creating personalized workout plans.' },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.7,
-    });
-    
-    const response = completion.choices[0].message.content;
+    // Structured response from the coach persona's LLM provider
+    const persona = sessionContext.avatarId ? await getAvatarPersona(sessionContext.avatarId) : null;
+    const response = await createCompletion(
+      'You are a professional fitness coach creating personalized workout plans.',
+      prompt,
+      {
+        ...personaLLMOptions(persona),
+        maxTokens: 1500,
+        temperature: 0.7,
+      }
+    );
     
     // Parse the response
     let plan;
@@ -376,7 +468,7 @@ Return a JSON object with this structure:
     } catch (parseError) {
       logger.error('Error parsing workout plan', { error: parseError.message, response });
       // Fallback to default plan
-      plan = generateDefaultPlan(fitnessProfile.fitness_level, availableExercises);
+      plan = generateDefaultPlan(fitnessProfile.fitness_level, availableExercises, loadSuggestions);
     }
     
     // Add metadata
@@ -386,6 +478,7 @@ Return a JSON object with this structure:
       sessionId: sessionContext.sessionId,
       exercises: plan.exercises.map(ex => ({
         ...ex,
+        load: loadSuggestions[ex.exerciseType]?.load || sanitizePlanLoad(ex.exerciseType, ex.load, availableEquipment),
         alternatives: getExerciseAlternatives(ex.exerciseType),
         formCues: getFormCues(ex.exerciseType)
       })),
@@ -409,62 +502,21 @@ Return a JSON object with this structure:
  * Get alternative exercises for a given exercise
  */
 function getExerciseAlternatives(exerciseType) {
-    const alternatives = {
-      [EXERCISE.SQUATS]: [EXERCISE.LUNGES, EXERCISE.JUMPING_JACKS],
-      [EXERCISE.PUSH_UPS]: [EXERCISE.PLANKS],
-      [EXERCISE.LUNGES]: [EXERCISE.SQUATS, EXERCISE.JUMPING_JACKS],
-      [EXERCISE.JUMPING_JACKS]: [EXERCISE.SQUATS, EXERCISE.LUNGES],
-      [EXERCISE.PLANKS]: [EXERCISE.PUSH_UPS],
-      [EXERCISE.CHIN_UPS]: [EXERCISE.PUSH_UPS, EXERCISE.PLANKS]
-    };
-  
-  return alternatives[exerciseType] || [];
+  const definition = getExerciseDefinition(exerciseType);
+  return (definition?.alternatives || []).map(key => EXERCISE[key]).filter(Boolean);
 }
 
 /**
  * Get form cues for an exercise
  */
 function getFormCues(exerciseType) {
-  const cues = {
-    [EXERCISE.SQUATS]: [
-      'Keep your chest up and core engaged',
-      'Push your knees out in line with your toes',
-      'Drive through your heels to stand up'
-    ],
-    [EXERCISE.PUSH_UPS]: [
-      'Keep your body in a straight line',
-      'Lower until your chest nearly touches the ground',
-      'Push through your palms, not just your fingers'
-    ],
-    [EXERCISE.LUNGES]: [
-      'Step forward with control',
-      'Keep your front knee over your ankle',
-      'Push through your front heel to return'
-    ],
-    [EXERCISE.JUMPING_JACKS]: [
-      'Land softly on the balls of your feet',
-      'Keep your core engaged throughout',
-      'Maintain a steady rhythm'
-    ],
-    [EXERCISE.PLANKS]: [
-      'Keep your body in a straight line from head to heels',
-      'Engage your core and glutes',
-      'Breathe normally throughout'
-    ],
-    [EXERCISE.CHIN_UPS]: [
-      'Pull until your chin clears the bar',
-      'Control the descent',
-      'Engage your core to prevent swinging'
-    ]
-  };
-  
-  return cues[exerciseType] || ['Focus on proper form', 'Control the movement'];
+  return getExerciseDefinition(exerciseType)?.formCues || ['Focus on proper form', 'Control the movement'];
 }
 
 /**
  * Generate a default workout plan
  */
-function generateDefaultPlan(fitnessLevel = 'beginner', availableExercises = null) {
+function generateDefaultPlan(fitnessLevel = 'beginner', availableExercises = null, loadSuggestions = {}) {
   const plans = {
     beginner: {
       exercises: [
@@ -644,6 +696,7 @@ function generateDefaultPlan(fitnessLevel = 'beginner', availableExercises = nul
     ...plan,
     exercises: plan.exercises.map(ex => ({
       ...ex,
+      ...(loadSuggestions[ex.exerciseType] ? { load: loadSuggestions[ex.exerciseType].load } : {}),
       alternatives: getExerciseAlternatives(ex.exerciseType),
       formCues: getFormCues(ex.exerciseType)
     })),
@@ -653,6 +706,7 @@ function generateDefaultPlan(fitnessLevel = 'beginner', availableExercises = nul
 
 export {
   generateWorkoutPlan,
+  suggestProgressiveLoads,
   getWorkoutHistoryFromTranscripts,
   getUserFitnessProfile,
   analyzeRecentWorkouts
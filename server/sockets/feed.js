@@ -10,6 +10,9 @@ export function setupFeedNamespace(io) {
   feedNamespace.on('connection', (socket) => {
     console.log(`[Feed] User ${socket.userId} connected to feed namespace`);
 
+    // Personal room for progress of the user's own background jobs
+    socket.join(`user:${socket.userId}`);
+
     // Join post-specific room for real-time updates
     socket.on('join_post', (postId) => {
       socket.join(`post:${postId}`);
@@ -161,4 +164,16 @@ export function emitToFeedNamespace(io, event, data) {
 export function emitToPostRoom(io, postId, event, data) {
   const feedNamespace = io.of('/feed');
   feedNamespace.to(`post:${postId}`).emit(event, data);
-}
\ No newline at end of file
+}
+
+// Background job progress goes to the user who queued the job and to the
+// post's room; jobs without either aren't broadcast
+export function emitJobEvent(io, job) {
+  const feedNamespace = io.of('/feed');
+  const rooms = [];
+  if (job.userId) rooms.push(`user:${job.userId}`);
+  if (job.postId) rooms.push(`post:${job.postId}`);
+  if (rooms.length > 0) {
+    feedNamespace.to(rooms).emit('job_progress', job);
+  }
+}
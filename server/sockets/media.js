@@ -1,19 +1,22 @@
-import crypto from "crypto";
-import fs from "fs/promises";
-import path from "path";
-
-import { EXERCISE } from "../constants/exercises.js";
+import { isHoldExercise } from "../constants/exercises.js";
+import {
+  DEFAULT_LANGUAGE,
+  resolveSessionLanguage,
+} from "../constants/languages.js";
 import pool from "../db/index.js";
 import { logger } from "../lib/cloudwatch-logger.js";
-import redis from "../lib/redisClient.js";
 import { getAvatarPersona } from "../personas/config.js";
 import {
   createCompletion,
   generateInterruptionResponse,
   generateLLMResponse,
+  truncateTranscriptTurn,
 } from "../pipeline/llmResponder.js";
 import { PurchaseFlowEventHandler } from "../pipeline/purchaseFlowEnhancer.js";
 import { createRealtimeTranscriber } from "../pipeline/realtimeTranscriber.js";
+import { createSafetyGuard } from "../pipeline/safetyGuard.js";
+import { createTurnManager } from "../pipeline/turnManager.js";
+import { createUtteranceScheduler } from "../pipeline/utteranceScheduler.js";
 import {
   createStreamingTTSCallback,
   synthesizeTTSStreaming,
@@ -22,30 +25,66 @@ import {
   adjustFuturePlans,
   getSessionPerformanceSummary,
 } from "../services/adaptivePlanAdjustment.js";
+import {
+  ensureCueLibrary,
+  findFormCue,
+  findNextExerciseCue,
+  getCueLibrary,
+} from "../services/coachCueLibrary.js";
+import { refreshCoachingMemory } from "../services/coachingMemory.js";
+import {
+  getCoachLanguage,
+  getCoachVerbosity,
+  saveCoachLanguage,
+  saveCoachVerbosity,
+} from "../services/coachPreferences.js";
 import { creditsService } from "../services/creditsService.js";
+import {
+  getExerciseCalibrations,
+  saveExerciseCalibration,
+  validateExerciseCalibration,
+} from "../services/exerciseCalibration.js";
+import {
+  completeCallExerciseSession,
+  completeExerciseSession,
+  getOrCreateExerciseSession,
+  checkPersonalRecord,
+  getResumableWorkout,
+  recordExerciseSet,
+  recordSetEffort,
+  recordWorkoutEvent,
+  resumeExerciseSession,
+  saveWorkoutState,
+} from "../services/exerciseTracking.js";
+import {
+  finishRecordingUpload,
+  getRecordingManifest,
+  receiveRecordingChunk,
+  startRecordingUpload,
+} from "../services/recordingUploads.js";
 import storageService from "../services/storage.js";
 import { generateWorkoutPlan } from "../services/workoutPlanGenerator.js";
 import {
   executePurchase,
   getTrendingProducts,
 } from "../tools/amazon-purchase.js";
+import { createWorkoutControl } from "../tools/workout-control.js";
 
 // Credit system uses avatar-specific pricing_per_min
 
-// Active recording sessions for WebSocket streaming
-const activeRecordings = new Map();
-
-// Helper functions for Redis persistence
-async function setRecordingMeta(recordingId, meta) {
-  await redis.hmset(`rec:${recordingId}`, meta);
-}
-
-async function addChunkPath(recordingId, chunkPath) {
-  await redis.rpush(`rec:${recordingId}:chunks`, chunkPath);
-}
-
-async function clearRecordingKeys(recordingId) {
-  await redis.del(`rec:${recordingId}`, `rec:${recordingId}:chunks`);
+const CUE_ACK_TIMEOUT_MS = 2000; // Client answer to coach_cue before falling back to the LLM
+
+// Coach tracking fields worth carrying over a reconnect (the Sets are per-socket dedupe state)
+function serializeCoachTracking(tracking = {}) {
+  return {
+    currentExerciseSessionId: tracking.currentExerciseSessionId || null,
+    totalReps: tracking.totalReps ?? 0,
+    recentFormScores: tracking.recentFormScores || [],
+    lastRepTempo: tracking.lastRepTempo || null,
+    angleSource: tracking.angleSource || null,
+    load: tracking.load || null,
+    lastSetIds: tracking.lastSetIds || {},
+  };
 }
 
 export function setupMediaNamespace(io) {
@@ -112,7 +151,152 @@ export function setupMediaNamespace(io) {
     let totalCreditsSpent = 0;
     let userId = null;
     let perMinuteCost = 10; // Default 10 credits per minute
-    let isAvatarSpeaking = false; // Track avatar speaking state to prevent overlaps
+
+    // Arbitrates proactive coaching speech: safety, set complete, form, encouragement
+    const coachScheduler = createUtteranceScheduler({
+      socketId: socket.id,
+      // Cut off a lower-priority cue's audio when something more urgent preempts it
+      interrupt: (utterance) =>
+        socket.emit("coach_preempted", { kind: utterance.kind }),
+    });
+    // Pre-synthesized cues the client has preloaded for this coach
+    let cueLibrary = [];
+
+    // Response turns, so a barge-in cancels the LLM stream, TTS and client audio together
+    socket.turns = createTurnManager({ socket });
+
+    // Plan changes the coach makes through LLM tool calls (adjust_reps, swap_exercise, ...)
+    socket.workoutControl = createWorkoutControl({
+      socket,
+      getPlan: () => (socket.workoutCompleted ? null : workoutPlan),
+      setPlan: (plan) => {
+        workoutPlan = plan;
+      },
+      getUserId: () => userId,
+    });
+
+    // Pain, dizziness and fall signals pause the workout and switch the coach
+    // to a fixed safe script (fitness sessions only)
+    const safetyGuard = createSafetyGuard({
+      socket,
+      scheduler: coachScheduler,
+      getSession: () => ({
+        avatarId,
+        userId,
+        callSessionId: currentCallSessionId,
+      }),
+      isEnabled: () => !!socket.isFitnessSession,
+    });
+
+    // Ask the client to play a preloaded cue clip. Resolves false when it
+    // couldn't (clip failed to load, no audio yet) or didn't answer in time.
+    const emitCoachCue = (cueId) =>
+      new Promise((resolve) => {
+        socket
+          .timeout(CUE_ACK_TIMEOUT_MS)
+          .emit("coach_cue", { cueId, avatarId }, (error, response) => {
+            if (error || !response?.played) {
+              logger.warn("Coach cue not played on the client", {
+                cueId,
+                avatarId,
+                reason: error ? "timeout" : "not loaded",
+                component: "mediaSocket",
+              });
+            }
+            resolve(!error && response?.played === true);
+          });
+      });
+
+    const sendCueLibrary = (cueAvatarId) => {
+      const language = socket.language || DEFAULT_LANGUAGE;
+      getCueLibrary(cueAvatarId, language).then((library) => {
+        cueLibrary = library;
+        socket.emit("coach_cue_library", {
+          avatarId: cueAvatarId,
+          language,
+          cues: library,
+        });
+        // Render anything missing in the background for next time
+        ensureCueLibrary(cueAvatarId, { language }).catch((error) =>
+          logger.error("Error generating coach cues", {
+            error: error.message,
+            avatarId: cueAvatarId,
+            language,
+            component: "mediaSocket",
+          }),
+        );
+      });
+    };
+
+    // Generate a workout plan, send it to the client and have the coach announce it
+    const generateAndAnnounceWorkoutPlan = async () => {
+      const ttsCallback = createStreamingTTSCallback(avatarId, socket);
+      try {
+        // Check if session is still active
+        if (isSessionEnding || !socket.connected) {
+          return;
+        }
+
+        workoutPlan = await generateWorkoutPlan(userId, {
+          sessionId: currentCallSessionId,
+          avatarId: avatarId,
+        });
+
+        // Store workout plan in transcript as a string message
+        const planMessage = {
+          role: "system",
+          content: `Workout plan generated: ${JSON.stringify(workoutPlan)}`,
+        };
+
+        await pool.query(
+          `UPDATE "CallSession" 
+         SET transcript = transcript || $1::jsonb 
+         WHERE id = $2`,
+          [JSON.stringify([planMessage]), currentCallSessionId],
+        );
+
+        // Emit workout plan to frontend
+        socket.emit("workout_plan_generated", workoutPlan);
+
+        // Check again if session is still active before announcing
+        if (isSessionEnding || !socket.connected) {
+          return;
+        }
+
+        // Announce workout plan separately
+        const exerciseList = workoutPlan.exercises
+          .map(
+            (ex, idx) =>
+              `${idx + 1}. ${ex.exerciseType}: ${ex.sets} sets of ${ex.targetReps} reps`,
+          )
+          .join(", ");
+
+        const planAnnouncementContext = [
+          {
+            role: "system",
+            content: `The workout plan is now ready. Announce the exercises to the user enthusiastically. The plan includes: ${exerciseList}. Example: 'Alright, your workout is ready! Here's what we'll be doing today: ${exerciseList}. I'll use auto-detection to track your movements, so just start with any exercise when you're ready!'`,
+          },
+        ];
+
+        // Send workout plan announcement
+        await generateLLMResponse(
+          "Announce the workout plan",
+          avatarId,
+          socket,
+          currentCallSessionId,
+          ttsCallback,
+          planAnnouncementContext,
+          true, // isProactive
+          userId,
+        );
+      } catch (planError) {
+        logger.error("Error generating workout plan", {
+          error: planError.message,
+          userId,
+          component: "mediaSocket",
+        });
+      }
+    };
 
     // Initialize session and transcriber
     socket.on("init_session", async (data) => {
@@ -292,6 +476,19 @@ export function setupMediaNamespace(io) {
 
       // ---------------------------
 
+      // Session language: the user's choice when this persona coaches in it.
+      // STT, the LLM prompt and TTS all read it from the socket.
+      const sessionPersona = await getAvatarPersona(data.avatarId);
+      const userLanguage = userId
+        ? await getCoachLanguage(userId)
+        : DEFAULT_LANGUAGE;
+      socket.language = resolveSessionLanguage(userLanguage, sessionPersona);
+      socket.isFitnessSession = sessionPersona?.category === "fitness";
+      socket.emit("coach_language", {
+        language: socket.language,
+        available: sessionPersona?.languages || [DEFAULT_LANGUAGE],
+      });
+
       if (transcriber) {
         logger.info("Closing existing transcriber before creating new one", {
           socketId: socket.id,
@@ -307,6 +504,15 @@ export function setupMediaNamespace(io) {
           data.avatarId,
           currentCallSessionId,
           userId,
+          {
+            // Hold coaching cues while the user is talking
+            onUserSpeaking: (speaking) =>
+              coachScheduler.setUserSpeaking(speaking),
+            onBargeIn: () => socket.turns.cancel("barge_in"),
+            screenUtterance: (text) =>
+              safetyGuard.screenUtterance(text, "speech"),
+            language: socket.language,
+          },
         );
 
         if (isSessionEnding) {
@@ -326,7 +532,7 @@ export function setupMediaNamespace(io) {
         });
 
         // Reset avatar speaking state on new session
-        isAvatarSpeaking = false;
+        coachScheduler.setAvatarSpeaking(false);
 
         socket.emit("session_ready", { sessionId: socket.id, ...data });
 
@@ -368,6 +574,20 @@ export function setupMediaNamespace(io) {
               component: "mediaSocket",
             });
 
+            // Personal rep thresholds from earlier calibration sessions
+            if (isFitnessCoach && userId) {
+              getExerciseCalibrations(userId).then((calibrations) => {
+                socket.emit("exercise_calibrations", calibrations);
+              });
+              getCoachVerbosity(userId).then((verbosity) => {
+                coachScheduler.setVerbosity(verbosity);
+                socket.emit("coach_verbosity", { verbosity });
+              });
+            }
+            if (isFitnessCoach) {
+              sendCueLibrary(data.avatarId);
+            }
+
             let introContent =
               "The user just connected to start a new session. Generate a brief, self-aware greeting that: 1) States your name/identity clearly, 2) If you've talked before, specifically mention what you previously discussed or worked on together, 3) If this is your first meeting, introduce yourself and your expertise. Examples: 'Hey! I'm Sarah, your AI stylist. Last time we worked on your business casual wardrobe. Ready to explore more looks?' or 'Hi! I'm Marcus, your venture advisor. Following up on our product-market fit discussion from yesterday. What's on your mind today?' Keep it under 30 words. Be specific about past conversations.";
 
@@ -375,6 +595,30 @@ export function setupMediaNamespace(io) {
             if (isFitnessCoach) {
               introContent =
                 "The user just connected for a fitness session. Generate a brief, energetic greeting that: 1) States your name clearly, 2) Welcomes them to the workout session, 3) Mentions that you're preparing their personalized workout plan. Keep it under 30 words. Example: 'Hey! I'm Jake, your AI fitness coach. Great to see you! I'm preparing your personalized workout plan right now. Let's get you moving!'";
+
+              // An interrupted workout is offered for resume instead of a new plan
+              const resumable = userId
+                ? await getResumableWorkout(userId, data.avatarId).catch(
+                    (error) => {
+                      logger.error("Error checking for resumable workout", {
+                        error: error.message,
+                        userId,
+                        component: "mediaSocket",
+                      });
+                      return null;
+                    },
+                  )
+                : null;
+              if (resumable && !socket.workoutCompleted) {
+                socket.pendingWorkoutRecovery = resumable;
+                socket.emit("workout_recovery_available", {
+                  exerciseSessionId: resumable.exerciseSessionId,
+                  snapshot: resumable.client,
+                  position: resumable.client.position,
+                  updatedAt: resumable.updatedAt,
+                });
+                introContent = `The user just reconnected and their last workout was interrupted at ${resumable.client.position}. Generate a brief, energetic greeting that: 1) States your name clearly, 2) Mentions where they left off, 3) Asks whether they want to resume that workout or start fresh (they can tap Resume or Start fresh on screen). Keep it under 30 words.`;
+              }
             }
 
             // Create a system instruction for generating a contextual intro
@@ -396,8 +640,13 @@ export function setupMediaNamespace(io) {
               data.userId, // pass userId for cross-session history
             );
 
-            // If this is a fitness coach, generate workout plan after intro (but not if workout was just completed)
-            if (isFitnessCoach && !socket.workoutCompleted) {
+            // If this is a fitness coach, generate workout plan after intro (but not if workout was just completed,
+            // or an interrupted workout is waiting on the user's resume decision)
+            if (
+              isFitnessCoach &&
+              !socket.workoutCompleted &&
+              !socket.pendingWorkoutRecovery
+            ) {
               logger.info("Generating workout plan after intro", {
                 socketId: socket.id,
                 sessionId: currentCallSessionId,
@@ -405,71 +654,7 @@ export function setupMediaNamespace(io) {
                 component: "mediaSocket",
               });
 
-              try {
-                // Check if session is still active
-                if (isSessionEnding || !socket.connected) {
-                  return;
-                }
-
-                workoutPlan = await generateWorkoutPlan(data.userId, {
-                  sessionId: currentCallSessionId,
-                  avatarId: data.avatarId,
-                });
-
-                // Store workout plan in transcript as a string message
-                const planMessage = {
-                  role: "system",
-                  content: `Workout plan generated: ${JSON.stringify(workoutPlan)}`,
-                };
-
-                await pool.query(
-                  `UPDATE "CallSession" 
-                 SET transcript = transcript || $1::jsonb 
-                 WHERE id = $2`,
-                  [JSON.stringify([planMessage]), currentCallSessionId],
-                );
-
-                // Emit workout plan to frontend
-                socket.emit("workout_plan_generated", workoutPlan);
-
-                // Check again if session is still active before announcing
-                if (isSessionEnding || !socket.connected) {
-                  return;
-                }
-
-                // Announce workout plan separately
-                const exerciseList = workoutPlan.exercises
-                  .map(
-                    (ex, idx) =>
-                      `${idx + 1}. ${ex.exerciseType}: ${ex.sets} sets of ${ex.targetReps} reps`,
-                  )
-                  .join(", ");
-
-                const planAnnouncementContext = [
-                  {
-                    role: "system",
-                    content: `The workout plan is now ready. Announce the exercises to the user enthusiastically. The plan includes: ${exerciseList}. Example: 'Alright, your workout is ready! Here's what we'll be doing today: ${exerciseList}. I'll use auto-detection to track your movements, so just start with any exercise when you're ready!'`,
-                  },
-                ];
-
-                // Send workout plan announcement
-                await generateLLMResponse(
-                  "Announce the workout plan",
-                  data.avatarId,
-                  socket,
-                  currentCallSessionId,
-                  ttsCallback,
-                  planAnnouncementContext,
-                  true, // isProactive
-                  data.userId,
-                );
-              } catch (planError) {
-                logger.error("Error generating workout plan", {
-                  error: planError.message,
-                  userId: data.userId,
-                  component: "mediaSocket",
-                });
-              }
+              await generateAndAnnounceWorkoutPlan();
             }
           } catch (introError) {
             logger.error("Error generating avatar intro", {
@@ -493,6 +678,11 @@ export function setupMediaNamespace(io) {
     });
 
     // --- RECORDING EVENTS ---
+    // Uploads are stored and assembled by services/recordingUploads.js (shared
+    // with the REST routes), so they survive reconnects and restarts
+
+    const recordingErrorMessage = (error, fallback) =>
+      error.isAPIError ? error.message : fallback;
 
     // Start recording session
     socket.on("recording_start", async (data) => {
@@ -502,52 +692,17 @@ export function setupMediaNamespace(io) {
           avatarId: recAvatarId,
           userId: recUserId,
           mimeType,
-        } = data;
-
-        if (!sessionId || !recAvatarId || !recUserId) {
-          socket.emit("recording_error", { error: "Missing required fields" });
-          return;
-        }
+        } = data || {};
 
-        const recordingId = crypto.randomUUID();
-        // Create per-recording temp dir via storage service helper
-        const tempDir =
-          await storageService.createTempRecordingDir(recordingId);
-
-        // Store recording metadata (memory + Redis)
-        activeRecordings.set(recordingId, {
-          sessionId,
-          callSessionId: currentCallSessionId,
-          avatarId: recAvatarId,
-          userId: recUserId,
-          mimeType,
-          tempDir,
-          chunks: [],
-          startTime: Date.now(),
-          socketId: socket.id,
-          receivedIdx: new Set(), // <-- track indices to detect duplicates
-          inFlight: new Set(),
-        });
-
-        await setRecordingMeta(recordingId, {
+        const { recordingId } = await startRecordingUpload({
           sessionId,
           callSessionId: currentCallSessionId,
           avatarId: recAvatarId,
           userId: recUserId,
           mimeType,
-          tempDir,
-          startTime: Date.now(),
-          serverId: process.env.SERVER_ID || process.pid,
         });
 
         currentRecordingId = recordingId;
-        logger.info("Started WebSocket recording session", {
-          recordingId,
-          callSessionId: currentCallSessionId,
-          socketId: socket.id,
-          component: "mediaSocket",
-        });
-
         socket.emit("recording_started", { recordingId });
       } catch (error) {
         logger.error("Error starting recording", {
@@ -555,452 +710,101 @@ export function setupMediaNamespace(io) {
           socketId: socket.id,
           component: "mediaSocket",
         });
-        socket.emit("recording_error", { error: "Failed to start recording" });
+        socket.emit("recording_error", {
+          error: recordingErrorMessage(error, "Failed to start recording"),
+        });
       }
     });
 
-    // Stream recording chunk
-    socket.on("recording_chunk", async (meta, binaryPayload) => {
-      try {
-        const { recordingId, chunkIndex } = meta || {};
+    // Stream recording chunk; acknowledged so the client knows what to resend
+    socket.on("recording_chunk", async (meta, binaryPayload, ack) => {
+      const { recordingId, chunkIndex, checksum } = meta || {};
+      const reply = typeof ack === "function" ? ack : () => {};
 
-        if (!recordingId || binaryPayload == null) {
-          return; // Silently ignore malformed chunks
-        }
-
-        const recording = activeRecordings.get(recordingId);
-        if (!recording) {
-          // Ignore stray chunks that arrive after recording is finished
-          // This prevents accidental creation of a new recording session
-          const payloadSize = binaryPayload ? binaryPayload.length : 0;
-          logger.info("Stray chunk ignored", {
-            recordingId,
-            chunkIndex: chunkIndex,
-            size: payloadSize,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-          return;
-        }
-
-        // DEBUG: Log every received chunk
-        const payloadSize = binaryPayload ? binaryPayload.length : 0;
-        // logger.info("Received recording chunk", {
-        //   recordingId,
-        //   chunkIndex: chunkIndex,
-        //   size: payloadSize,
-        //   socketId: socket.id,
-        //   component: "mediaSocket",
-        // });
-
-        // Ensure Node Buffer (Socket.IO already gives Buffer for binary attachments)
-        const chunkBuffer = Buffer.isBuffer(binaryPayload)
-          ? binaryPayload
-          : Buffer.from(binaryPayload);
-
-        const idx = parseInt(chunkIndex);
-        // DUPLICATE DETECTION ----------------------------------
-        if (recording.receivedIdx && recording.receivedIdx.has(idx)) {
-          logger.warn("Duplicate chunk detected - ignoring", {
-            chunkIndex: idx,
-            recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-          return;
-        }
-        if (!recording.receivedIdx) recording.receivedIdx = new Set();
-        recording.receivedIdx.add(idx);
-        // ------------------------------------------------------
-
-        // Convert base64 chunk to buffer and validate header
-        if (idx === 0) {
-          if (chunkBuffer[0] !== 0x1a || chunkBuffer[1] !== 0x45) {
-            logger.warn("Chunk 0 missing EBML header", {
-              recordingId,
-              socketId: socket.id,
-              component: "mediaSocket",
-            });
-          }
-        } else {
-          // For subsequent chunks just log first two bytes for diagnostics in hex
-        }
+      if (!recordingId || binaryPayload == null) {
+        return; // Silently ignore malformed chunks
+      }
 
-        const chunkPath = path.join(
-          recording.tempDir,
-          `chunk_${chunkIndex.toString().padStart(6, "0")}.webm`,
+      try {
+        const result = await receiveRecordingChunk(
+          recordingId,
+          chunkIndex,
+          binaryPayload,
+          { checksum },
         );
-        // Write only if file doesn\'t already exist (extra safety)
-        const writePromise = (async () => {
-          try {
-            await fs.access(chunkPath);
-            logger.warn("File already exists for chunk - skipping write", {
-              chunkIndex: idx,
-              chunkPath,
-              recordingId,
-              socketId: socket.id,
-              component: "mediaSocket",
-            });
-          } catch {
-            await fs.writeFile(chunkPath, chunkBuffer);
-          }
-        })();
-        recording.inFlight.add(writePromise);
-        try {
-          await writePromise;
-        } finally {
-          recording.inFlight.delete(writePromise);
-        }
-
-        // Track chunk metadata (only once)
-        if (!recording.chunks.some((c) => c.index === idx)) {
-          recording.chunks.push({
-            index: idx,
-            path: chunkPath,
-            size: chunkBuffer.length,
-          });
-          await addChunkPath(recordingId, chunkPath);
-        }
+        reply({ ok: true, ...result });
       } catch (error) {
-        logger.error("Error processing audio chunk", {
+        logger.warn("Recording chunk rejected", {
           error: error.message,
+          recordingId,
+          chunkIndex,
           socketId: socket.id,
           component: "mediaSocket",
         });
-        // Don't emit error to avoid spamming client
+        reply({
+          ok: false,
+          chunkIndex,
+          status: error.statusCode || 500,
+          error: recordingErrorMessage(error, "Failed to store chunk"),
+        });
       }
     });
 
-    // Finish recording
-    socket.on("recording_finish", async (data) => {
+    // Resume an upload after a reconnect: which chunks the server already has
+    socket.on("recording_resume", async (data, ack) => {
+      const reply = typeof ack === "function" ? ack : () => {};
       try {
-        const { recordingId, lastChunkIndex, totalChunks, duration } = data;
-        const effectiveLastIndex =
-          typeof lastChunkIndex === "number"
-            ? lastChunkIndex
-            : typeof totalChunks === "number"
-              ? totalChunks - 1
-              : null;
-
-        const recording = activeRecordings.get(recordingId);
-        if (!recording) {
-          socket.emit("recording_error", {
-            error: "Recording session not found",
-          });
-          return;
-        }
-
-        logger.info("Finalizing WebSocket recording", {
-          recordingId,
-          reportedLastChunkIndex: effectiveLastIndex,
-          receivedChunks: recording.chunks.length,
-          socketId: socket.id,
-          component: "mediaSocket",
+        const manifest = await getRecordingManifest(data?.recordingId);
+        currentRecordingId = manifest.recordingId;
+        reply({ ok: true, ...manifest });
+      } catch (error) {
+        reply({
+          ok: false,
+          status: error.statusCode || 500,
+          error: recordingErrorMessage(error, "Failed to resume recording"),
         });
+      }
+    });
 
-        // Await any in-flight fs writes to finish
-        if (recording.inFlight && recording.inFlight.size) {
-          logger.info("Waiting for in-flight writes", {
-            inFlightCount: recording.inFlight.size,
-            recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-          await Promise.all([...recording.inFlight]);
-        }
-
-        // Wait until chunk list size stabilises (handle races between final dataavailable and finish)
-        let prevCount;
-        do {
-          prevCount = recording.chunks.length;
-          // eslint-disable-next-line no-await-in-loop
-          await new Promise((r) => setTimeout(r, 300));
-        } while (recording.chunks.length !== prevCount);
-
-        if (recording.chunks.length === 0) {
-          logger.warn("No chunks received - aborting recording", {
+    // Finish recording
+    socket.on("recording_finish", async (data) => {
+      const { recordingId, lastChunkIndex, totalChunks, duration, acceptMissing } =
+        data || {};
+      try {
+        const result = await finishRecordingUpload(recordingId, {
+          lastChunkIndex:
+            typeof lastChunkIndex === "number"
+              ? lastChunkIndex
+              : typeof totalChunks === "number"
+                ? totalChunks - 1
+                : null,
+          duration: typeof duration === "number" ? duration : null,
+          acceptMissing: !!acceptMissing,
+        });
+
+        if (result.missing) {
+          socket.emit("recording_missing", {
             recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
+            missing: result.missing,
           });
-          await clearRecordingKeys(recordingId);
-          activeRecordings.delete(recordingId);
-          socket.emit("recording_error", { error: "No chunks received" });
           return;
         }
-
-        let videoUrl = null;
-        let thumbnailUrl = null;
-        let processedDuration = duration || 0;
-        let fileSize = 0;
-
-        try {
-          // Merge by piping all chunks through stdin to FFmpeg. This avoids
-          // the concat demuxer requirement that every segment have its own
-          // WebM header (only the first MediaRecorder chunk does).
-
-          logger.info("Merging chunks via FFmpeg stdin", {
-            chunkCount: recording.chunks.length,
-            recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-
-          const sortedChunks = recording.chunks.sort(
-            (a, b) => a.index - b.index,
-          );
-
-          const { spawn } = await import("child_process");
-          const ffmpegPath = (await import("ffmpeg-static")).default;
-
-          const outputIsMp4 =
-            recording.mimeType && recording.mimeType.includes("mp4");
-          const outputPath = path.join(
-            recording.tempDir,
-            outputIsMp4 ? "final_video.mp4" : "final_video.webm",
-          );
-
-          const runFfmpeg = (ffmpegArgs) =>
-            new Promise((resolve, reject) => {
-              logger.info("FFmpeg args selected", {
-                args: ffmpegArgs.join(" "),
-                recordingId,
-                mimeType: recording.mimeType,
-                component: "mediaSocket",
-              });
-
-              const ff = spawn(ffmpegPath, ffmpegArgs);
-
-              ff.stderr.on("data", (d) => {
-                logger.info("FFmpeg output", {
-                  output: d.toString(),
-                  recordingId,
-                  socketId: socket.id,
-                  component: "mediaSocket",
-                });
-              });
-
-              ff.on("error", reject);
-              ff.on("close", (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`ffmpeg exited ${code}`));
-              });
-
-              (async () => {
-                try {
-                  for (const c of sortedChunks) {
-                    const buf = await fs.readFile(c.path);
-                    ff.stdin.write(buf);
-                  }
-                  ff.stdin.end();
-                } catch (pipeErr) {
-                  reject(pipeErr);
-                }
-              })();
-            });
-
-          const attemptCopyArgs = [
-            "-f",
-            "webm",
-            "-i",
-            "pipe:0",
-            "-c",
-            "copy",
-            "-y",
-            outputPath,
-          ];
-
-          let succeeded = false;
-
-          try {
-            if (!outputIsMp4) {
-              // Fast path – copy WebM without re-encode
-              await runFfmpeg(attemptCopyArgs);
-              succeeded = true;
-            }
-          } catch (copyErr) {
-            logger.warn("Fast WebM copy failed – falling back to encode", {
-              error: copyErr.message,
-              recordingId,
-              component: "mediaSocket",
-            });
-          }
-
-          if (!succeeded) {
-            // Build slower encode / remux args
-            const encodeArgs = outputIsMp4
-              ? [
-                  "-f",
-                  "mp4",
-                  "-i",
-                  "pipe:0",
-                  "-c",
-                  "copy",
-                  "-movflags",
-                  "+faststart",
-                  "-y",
-                  outputPath,
-                ]
-              : [
-                  "-f",
-                  "webm",
-                  "-i",
-                  "pipe:0",
-                  "-c:v",
-                  "libx264",
-                  "-preset",
-                  "ultrafast",
-                  "-crf",
-                  "28",
-                  "-pix_fmt",
-                  "yuv420p",
-                  "-c:a",
-                  "aac",
-                  "-b:a",
-                  "128k",
-                  "-movflags",
-                  "+faststart",
-                  "-y",
-                  outputPath,
-                ];
-
-            await runFfmpeg(encodeArgs);
-          }
-
-          // Read the merged buffer
-          const videoBuffer = await fs.readFile(outputPath);
-          const mimeTypeForUpload = outputIsMp4 ? "video/mp4" : "video/webm";
-          fileSize = videoBuffer.length;
-
-          // Process video (generate thumbnail, validate, etc.)
-          const processedData =
-            await storageService.processVideoBuffer(videoBuffer);
-          processedDuration = processedData.duration || duration || 0;
-
-          // Save video locally and use local URLs
-          const videoKey = outputIsMp4
-            ? `recordings/${recordingId}/video.mp4`
-            : `recordings/${recordingId}/video.webm`;
-          const thumbnailKey = `recordings/${recordingId}/thumbnail.jpg`;
-
-          videoUrl = await storageService.uploadFile(
-            videoKey,
-            videoBuffer,
-            mimeTypeForUpload,
-          );
-
-          if (
-            processedData.thumbnailBuffer &&
-            processedData.thumbnailBuffer.length > 0
-          ) {
-            thumbnailUrl = await storageService.uploadFile(
-              thumbnailKey,
-              processedData.thumbnailBuffer,
-              "image/jpeg",
-            );
-          }
-        } catch (videoError) {
-          logger.error(
-            "Video processing failed, saving recording without video",
-            {
-              error: videoError.message,
-              recordingId,
-              socketId: socket.id,
-              component: "mediaSocket",
-            },
-          );
-          // Continue without video - save recording metadata only
-        }
-
-        // Always save recording to database (even if video processing failed)
-        try {
-          await pool.query(
-            `
-            INSERT INTO "SessionRecording" 
-            (id, session_id, user_id, avatar_id, call_session_id, video_url, thumbnail_url, duration_sec, created_at, file_size)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9)
-            RETURNING *
-          `,
-            [
-              recordingId,
-              recording.sessionId,
-              recording.userId,
-              recording.avatarId,
-              recording.callSessionId,
-              videoUrl,
-              thumbnailUrl,
-              processedDuration,
-              fileSize,
-            ],
-          );
-
-          logger.info("WebSocket recording saved to database", {
-            recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-        } catch (dbError) {
-          logger.error("Database insert failed", {
-            error: dbError.message,
+        currentRecordingId = null;
+        if (result.status !== "ready" && result.status !== "failed") {
+          // The transcode job is running; the client polls for the result
+          socket.emit("recording_processing", {
             recordingId,
-            socketId: socket.id,
-            component: "mediaSocket",
-          });
-          socket.emit("recording_error", {
-            error: "Failed to save recording to database",
+            jobId: result.jobId,
           });
           return;
         }
 
-        // Cleanup temp files AFTER video processing and database insert
-        await storageService.cleanupTempDir(recording.tempDir);
-        logger.info("Cleaned up temp files for recording", {
-          recordingId,
-          socketId: socket.id,
-          component: "mediaSocket",
-        });
-
-        await clearRecordingKeys(recordingId);
-
-        activeRecordings.delete(recordingId);
-        currentRecordingId = null;
-
-        logger.info("WebSocket recording finalized and saved", {
-          recordingId,
-          socketId: socket.id,
-          component: "mediaSocket",
-        });
-
         socket.emit("recording_finished", {
           recordingId,
-          videoUrl,
-          thumbnailUrl,
-          duration: processedDuration,
+          videoUrl: result.videoUrl,
+          thumbnailUrl: result.thumbnailUrl,
+          duration: result.duration,
         });
-
-        // --- MISSING CHUNK REPORT (after all writes) -----------------------
-        if (typeof effectiveLastIndex === "number") {
-          const expectedTotal = effectiveLastIndex + 1;
-          if (
-            recording.receivedIdx &&
-            recording.receivedIdx.size < expectedTotal
-          ) {
-            const missing = [];
-            for (let i = 0; i <= effectiveLastIndex; i++) {
-              if (!recording.receivedIdx.has(i)) missing.push(i);
-            }
-            if (missing.length) {
-              logger.warn("Missing chunks detected", {
-                recordingId,
-                missingChunks: missing.slice(0, 20),
-                totalMissing: missing.length,
-                socketId: socket.id,
-                component: "mediaSocket",
-              });
-            }
-          }
-        }
-        // -------------------------------------------------------------------
       } catch (error) {
         logger.error("Error finalizing recording", {
           error: error.message,
@@ -1009,7 +813,7 @@ export function setupMediaNamespace(io) {
           component: "mediaSocket",
         });
         socket.emit("recording_error", {
-          error: "Failed to finalize recording",
+          error: recordingErrorMessage(error, "Failed to finalize recording"),
         });
       }
     });
@@ -1044,6 +848,7 @@ export function setupMediaNamespace(io) {
         socketId: socket.id,
         component: "mediaSocket",
       });
+      coachScheduler.clear();
 
       // --- Stop Credit Charging ---
       if (creditTimer) {
@@ -1057,21 +862,13 @@ export function setupMediaNamespace(io) {
       }
       // ---------------------------
 
-      // --- Clean up any active recording ---
+      // --- Recording uploads stay resumable ---
       if (currentRecordingId) {
-        const recording = activeRecordings.get(currentRecordingId);
-        if (recording) {
-          // Don't delete files if recording is still being finalized
-          // The recording_finish event will handle cleanup
-          logger.info(
-            "Recording session will be cleaned up by recording_finish event",
-            {
-              recordingId: currentRecordingId,
-              socketId: socket.id,
-              component: "mediaSocket",
-            },
-          );
-        }
+        logger.info("Recording upload left open for the client to resume", {
+          recordingId: currentRecordingId,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
         currentRecordingId = null;
       }
       // ---------------------------
@@ -1089,6 +886,8 @@ export function setupMediaNamespace(io) {
             socketId: socket.id,
             component: "mediaSocket",
           });
+          // Fold the finished call into long-term coaching memory
+          refreshCoachingMemory(userId, avatarId);
           currentCallSessionId = null; // Clear the ID
         } catch (dbError) {
           logger.error("Error ending CallSession", {
@@ -1117,7 +916,17 @@ export function setupMediaNamespace(io) {
 
     // **EXERCISE MILESTONE**: Handle special milestone events (PRs, achievements)
     socket.on("exercise_milestone", async (data) => {
-      const { exercise, reps, formScore, sessionId, setComplete } = data;
+      const {
+        exercise,
+        reps,
+        formScore,
+        sessionId,
+        setComplete,
+        isFatigued,
+        asymmetry,
+        angleSource,
+        load,
+      } = data;
 
       logger.info("[EXERCISE] Milestone achieved", {
         exercise,
@@ -1132,8 +941,6 @@ export function setupMediaNamespace(io) {
       // Initialize tracking if needed
       if (!socket.coachTracking) {
         socket.coachTracking = {
-          lastFormFeedbackTime: 0,
-          lastPlankEncouragementTime: 0,
           completedSets: new Set(),
           currentExerciseSessionId: sessionId || `${exercise}-${Date.now()}`,
         };
@@ -1174,7 +981,7 @@ export function setupMediaNamespace(io) {
         if (currentCallSessionId && userId) {
           const exerciseMessage = {
             role: "user",
-            content: `[Exercise Completed] ${exercise}: ${reps} reps (Form Score: ${Math.round(formScore * 100)}%)`,
+            content: `[Exercise Completed] ${exercise}: ${reps} reps (Form Score: ${Math.round(formScore * 100)}%)${asymmetry?.repsBySide ? ` - left ${asymmetry.repsBySide.left} / right ${asymmetry.repsBySide.right}` : ""}${isFatigued ? " - rep speed dropped off, showing fatigue" : ""}`,
             timestamp: new Date().toISOString(),
           };
 
@@ -1188,12 +995,62 @@ export function setupMediaNamespace(io) {
 
           logger.info("[EXERCISE] Stored in call session transcript", {
             userId,
-            avatarId,
-            currentCallSessionId,
+            avatarId,
+            currentCallSessionId,
+            exercise,
+            reps,
+            component: "mediaSocket",
+          });
+        }
+
+        // Persist the set with its rep analytics
+        if (setComplete && currentCallSessionId && userId && avatarId) {
+          const exerciseSessionId = await getOrCreateExerciseSession({
+            userId,
+            avatarId,
+            callSessionId: currentCallSessionId,
+          });
+          const plannedExercise = workoutPlan?.exercises?.find(
+            (ex) => ex.exerciseType === exercise,
+          );
+          const setId = await recordExerciseSet(exerciseSessionId, {
+            exerciseName: exercise,
+            targetReps: plannedExercise?.targetReps,
+            completedReps: reps,
+            formScore,
+            feedback: {
+              asymmetry: asymmetry || null,
+              isFatigued: !!isFatigued,
+              angleSource:
+                angleSource || socket.coachTracking?.angleSource || "image",
+            },
+            load: load || socket.coachTracking?.load || null,
+          });
+          // RPE/RIR arrives after the set, once the user has rated it
+          socket.coachTracking.lastSetIds = {
+            ...socket.coachTracking.lastSetIds,
+            [exercise]: setId,
+          };
+
+          // Moments for the highlight reel
+          await recordWorkoutEvent(currentCallSessionId, {
+            userId,
+            type: "set_complete",
             exercise,
-            reps,
-            component: "mediaSocket",
+            repCount: reps,
+            formScore,
           });
+          const record = await checkPersonalRecord(userId, setId);
+          if (record) {
+            await recordWorkoutEvent(currentCallSessionId, {
+              userId,
+              type: "personal_record",
+              exercise,
+              repCount: reps,
+              formScore,
+              details: record,
+            });
+          }
         }
 
         // No celebration for individual sets - only announce next exercise
@@ -1530,6 +1387,7 @@ export function setupMediaNamespace(io) {
 
     // Clean up on disconnect
     socket.on("disconnect", async () => {
+      coachScheduler.clear();
       if (creditTimer) {
         clearInterval(creditTimer);
         creditTimer = null;
@@ -1552,6 +1410,8 @@ export function setupMediaNamespace(io) {
             socketId: socket.id,
             component: "mediaSocket",
           });
+          // Fold the finished call into long-term coaching memory
+          refreshCoachingMemory(userId, avatarId);
           currentCallSessionId = null;
         } catch (dbError) {
           logger.error("Error ending CallSession on disconnect", {
@@ -1647,6 +1507,15 @@ export function setupMediaNamespace(io) {
       }
 
       try {
+        // "Stop, my knee hurts" while the coach is talking
+        if (data?.partialTranscript) {
+          const safety = await safetyGuard.screenUtterance(
+            data.partialTranscript,
+            "speech",
+          );
+          if (safety.handled) return;
+        }
+
         // Generate natural interruption response
         const interruptionResponse = await generateInterruptionResponse(
           avatarId,
@@ -1763,6 +1632,10 @@ export function setupMediaNamespace(io) {
         // Emit transcription events for consistency with voice flow
         socket.emit("transcription_final", { text: inputText });
 
+        // Pain or injury: the safety guard answers instead of the LLM
+        const safety = await safetyGuard.screenUtterance(inputText, "text");
+        if (safety.handled) return;
+
         // Check if user is requesting a different workout after completion
         const lowerInput = inputText.toLowerCase();
         const isRequestingNewWorkout =
@@ -1804,6 +1677,7 @@ export function setupMediaNamespace(io) {
             );
 
             // Emit new workout plan to frontend
+            workoutPlan = newWorkoutPlan;
             socket.emit("workout_plan_generated", newWorkoutPlan);
 
             // Announce the new workout
@@ -1877,7 +1751,7 @@ export function setupMediaNamespace(io) {
           socket,
           currentCallSessionId,
           ttsCallback,
-          [], // additionalContext
+          safety.additionalContext,
           false, // isProactive
           userId, // pass userId for cross-session history
         );
@@ -1899,7 +1773,7 @@ export function setupMediaNamespace(io) {
 
     // **AVATAR SPEAKING TRACKING**: Track when avatar starts/stops speaking
     socket.on("avatar_speaking_start", () => {
-      isAvatarSpeaking = true;
+      coachScheduler.setAvatarSpeaking(true);
 
       if (transcriber && transcriber.setAvatarSpeaking) {
         transcriber.setAvatarSpeaking(true);
@@ -1907,7 +1781,7 @@ export function setupMediaNamespace(io) {
     });
 
     socket.on("avatar_speaking_end", () => {
-      isAvatarSpeaking = false;
+      coachScheduler.setAvatarSpeaking(false);
       logger.info("Avatar stopped speaking", {
         socketId: socket.id,
         component: "mediaSocket",
@@ -1929,8 +1803,18 @@ export function setupMediaNamespace(io) {
 
     // **EXERCISE TRACKING**: Handle pose data updates from fitness coach sessions
     socket.on("exercise_update", async (data) => {
-      const { sessionId, exercise, repCount, formScore, formCorrections } =
-        data;
+      const {
+        sessionId,
+        exercise,
+        repCount,
+        formScore,
+        formCorrections,
+        velocityLoss,
+        isFatigued,
+        repTempo,
+        angleSource,
+        load,
+      } = data;
 
       try {
         if (!currentCallSessionId) {
@@ -1938,6 +1822,11 @@ export function setupMediaNamespace(io) {
           return;
         }
 
+        // No coaching prompts while the workout is paused
+        if (socket.coachTracking?.paused) {
+          return;
+        }
+
         // Skip all updates if this specific exercise session is complete
         if (
           socket.coachTracking &&
@@ -1959,11 +1848,8 @@ export function setupMediaNamespace(io) {
         // Initialize tracking for this socket if needed
         if (!socket.coachTracking) {
           socket.coachTracking = {
-            lastFormFeedbackTime: 0,
-            lastPlankEncouragementTime: 0,
             completedSets: new Set(),
             exerciseStartTime: Date.now(),
-            lastPeriodicFeedbackTime: 0,
             totalReps: 0,
             recentFormScores: [],
           };
@@ -1974,7 +1860,6 @@ export function setupMediaNamespace(io) {
         // Initialize exercise start time if not set (for auto-detection without new_exercise_started event)
         if (!socket.coachTracking.exerciseStartTime) {
           socket.coachTracking.exerciseStartTime = now;
-          socket.coachTracking.lastPeriodicFeedbackTime = 0;
           socket.coachTracking.totalReps = 0;
           socket.coachTracking.recentFormScores = [];
         }
@@ -1983,6 +1868,40 @@ export function setupMediaNamespace(io) {
         if (socket.coachTracking.totalReps !== undefined) {
           socket.coachTracking.totalReps = repCount;
         }
+        if (repTempo) {
+          socket.coachTracking.lastRepTempo = repTempo;
+        }
+        if (angleSource) {
+          // 'world' when form scores came from 3D landmarks, 'image' for 2D
+          socket.coachTracking.angleSource = angleSource;
+        }
+        if (load) {
+          socket.coachTracking.load = load;
+        }
+        // Timestamped rep events for highlight reels; the count resets with
+        // each exercise
+        const lastRep = socket.coachTracking.lastRepEvent;
+        if (
+          userId &&
+          repCount > 0 &&
+          (lastRep?.exercise !== exercise || repCount > lastRep.repCount)
+        ) {
+          socket.coachTracking.lastRepEvent = { exercise, repCount };
+          recordWorkoutEvent(currentCallSessionId, {
+            userId,
+            type: "rep",
+            exercise,
+            repCount,
+            formScore,
+          }).catch((error) =>
+            logger.error("Failed to record rep event", {
+              error: error.message,
+              exercise,
+              repCount,
+              component: "mediaSocket",
+            }),
+          );
+        }
         if (socket.coachTracking.recentFormScores) {
           socket.coachTracking.recentFormScores.push(formScore);
           // Keep only last 10 form scores
@@ -1991,22 +1910,34 @@ export function setupMediaNamespace(io) {
           }
         }
 
+        // Proactive coaching goes through the utterance scheduler, which
+        // owns cooldowns, priorities and quiet periods
+        const speakProactively = (context) => () =>
+          generateLLMResponse(
+            context,
+            avatarId,
+            socket,
+            currentCallSessionId,
+            createStreamingTTSCallback(avatarId, socket),
+            [], // additionalContext
+            true, // isProactive
+            userId,
+          );
+
+        // Fixed lines the client already has as audio play instantly; one
+        // the client couldn't play goes through the LLM instead
+        const playCue = (cueId, fallbackContext) => async () => {
+          if (!(await emitCoachCue(cueId))) {
+            await speakProactively(fallbackContext)();
+          }
+        };
+
         // TIME-BASED PERIODIC FEEDBACK
         const timeSinceStart =
           now - (socket.coachTracking.exerciseStartTime || now);
-        const timeSinceLastPeriodic =
-          now - (socket.coachTracking.lastPeriodicFeedbackTime || 0);
-        const PERIODIC_FEEDBACK_INTERVAL = 15000; // 15 seconds
 
         // Give periodic feedback based on time and progress
-        // Check if avatar is still speaking to prevent overlaps
-        if (
-          timeSinceLastPeriodic >= PERIODIC_FEEDBACK_INTERVAL &&
-          timeSinceStart > 5000 &&
-          !isAvatarSpeaking
-        ) {
-          socket.coachTracking.lastPeriodicFeedbackTime = now;
-
+        if (timeSinceStart > 5000 && coachScheduler.isReady("encouragement")) {
           // Calculate average form score
           const avgFormScore =
             socket.coachTracking.recentFormScores.length > 0
@@ -2024,7 +1955,7 @@ export function setupMediaNamespace(io) {
           let periodicContext = "";
           const encouragementNumber = Math.floor(Math.random() * 3) + 1; // Random 1-3 for variety
 
-          if (exercise === EXERCISE.PLANKS) {
+          if (isHoldExercise(exercise)) {
             if (avgFormScore < 0.6) {
               periodicContext = `User's plank form is dropping (${Math.round(avgFormScore * 100)}% score). Time: ${timeSeconds}s. Give a specific form correction tip that's different from previous feedback. Be conversational and aware you're in an ongoing workout.`;
             } else if (timeSeconds < 15) {
@@ -2042,8 +1973,14 @@ export function setupMediaNamespace(io) {
           } else {
             if (avgFormScore < 0.6) {
               periodicContext = `User's ${exercise} form needs work (${Math.round(avgFormScore * 100)}% score) after ${repCount} reps. Give a specific, actionable form tip that builds on previous feedback without repeating.`;
+            } else if (isFatigued) {
+              periodicContext = `User's ${exercise} rep speed has dropped ${Math.round((velocityLoss || 0) * 100)}% since their fastest rep (${repCount} reps in) - they're fatiguing. Encourage slower, controlled reps and remind them it's fine to stop a rep or two short rather than grind with poor form.`;
             } else if (progressRate < 10) {
-              periodicContext = `User doing ${exercise} slowly: ${repCount} reps in ${timeSeconds}s. Acknowledge their controlled pace positively and encourage consistency. Be conversational, not robotic.`;
+              const lastTempo = socket.coachTracking.lastRepTempo;
+              const tempoNote = lastTempo
+                ? ` Last rep: ${(lastTempo.eccentricMs / 1000).toFixed(1)}s down, ${(lastTempo.pauseMs / 1000).toFixed(1)}s pause, ${(lastTempo.concentricMs / 1000).toFixed(1)}s up.`
+                : "";
+              periodicContext = `User doing ${exercise} slowly: ${repCount} reps in ${timeSeconds}s.${tempoNote} Acknowledge their controlled pace positively and encourage consistency. Be conversational, not robotic.`;
             } else if (progressRate > 40) {
               periodicContext = `User's ${exercise} pace is very fast (${Math.round(progressRate)} reps/min). Remind about form over speed in a new way, referencing their progress so far.`;
             } else {
@@ -2059,61 +1996,38 @@ export function setupMediaNamespace(io) {
           // Add instruction to be conversational and avoid repetition
           periodicContext += ` Keep it to 10-15 words. Be aware this is ongoing exercise coaching - reference their journey and progress naturally. Don't repeat phrases from the last few messages.`;
 
-          // Use generateLLMResponse for proper persistence
-          const ttsCallback = createStreamingTTSCallback(avatarId, socket);
-          await generateLLMResponse(
-            periodicContext,
-            avatarId,
-            socket,
-            currentCallSessionId,
-            ttsCallback,
-            [], // additionalContext
-            true, // isProactive
-            userId,
-          );
+          coachScheduler.request({
+            kind: "encouragement",
+            speak: speakProactively(periodicContext),
+          });
         }
 
         // FORM CORRECTION FEEDBACK
-        if (formScore < 0.7 && formCorrections?.length > 0) {
-          const timeSinceLastFeedback =
-            now - socket.coachTracking.lastFormFeedbackTime;
-          const FORM_FEEDBACK_COOLDOWN = 5000; // 5 seconds
+        if (
+          formScore < 0.7 &&
+          formCorrections?.length > 0 &&
+          coachScheduler.isReady("form")
+        ) {
+          const formContext = `During ${exercise}, user's form issue: "${formCorrections[0]}". Provide a specific, encouraging correction that builds on conversation history. Be aware of what corrections you've already given. Keep it conversational and supportive (10-15 words).`;
+          const cueId = findFormCue(cueLibrary, formCorrections[0]);
+
+          // Keyed by the correction so the same cue isn't repeated back to back
+          const queued = coachScheduler.request({
+            kind: "form",
+            key: `${exercise} ${formCorrections[0]}`,
+            speak: cueId
+              ? playCue(cueId, formContext)
+              : speakProactively(formContext),
+          });
 
-          logger.info("[EXERCISE] Form correction check", {
+          logger.info("[EXERCISE] Form correction requested", {
             exercise,
             formScore,
-            needsCorrection: formScore < 0.7,
-            hasCorrections: formCorrections?.length > 0,
-            corrections: formCorrections,
-            timeSinceLastFeedback,
-            cooldownMet: timeSinceLastFeedback > FORM_FEEDBACK_COOLDOWN,
+            correction: formCorrections[0],
+            cached: Boolean(cueId),
+            queued,
             component: "mediaSocket",
           });
-
-          if (timeSinceLastFeedback > FORM_FEEDBACK_COOLDOWN) {
-            socket.coachTracking.lastFormFeedbackTime = now;
-
-            const formContext = `During ${exercise}, user's form issue: "${formCorrections[0]}". Provide a specific, encouraging correction that builds on conversation history. Be aware of what corrections you've already given. Keep it conversational and supportive (10-15 words).`;
-
-            logger.info("[EXERCISE] Sending form correction", {
-              formContext,
-              avatarId,
-              component: "mediaSocket",
-            });
-
-            // Use generateLLMResponse for proper persistence
-            const ttsCallback = createStreamingTTSCallback(avatarId, socket);
-            await generateLLMResponse(
-              formContext,
-              avatarId,
-              socket,
-              currentCallSessionId,
-              ttsCallback,
-              [], // additionalContext
-              true, // isProactive
-              userId,
-            );
-          }
         }
 
         // REMOVED: Plank-specific time encouragement - now handled by general periodic feedback
@@ -2157,14 +2071,19 @@ export function setupMediaNamespace(io) {
       try {
         const avatarData = await getAvatarPersona(avatarId);
 
-        await publishStreamingResponse(
-          correctionContext,
-          avatarData,
-          sessionId,
-          socket,
-          true,
-          data.userId,
-        );
+        coachScheduler.request({
+          kind: "form",
+          key: `wrong exercise ${detectedExercise} ${expectedExercise}`,
+          speak: () =>
+            publishStreamingResponse(
+              correctionContext,
+              avatarData,
+              sessionId,
+              socket,
+              true,
+              data.userId,
+            ),
+        });
       } catch (error) {
         logger.error("[EXERCISE] Error sending wrong exercise correction", {
           error: error.message,
@@ -2186,6 +2105,10 @@ export function setupMediaNamespace(io) {
         component: "mediaSocket",
       });
 
+      if (socket.coachTracking?.paused) {
+        return;
+      }
+
       // Get the workout plan to find target reps
       let targetReps = 10; // default
       if (workoutPlan && workoutPlan.exercises) {
@@ -2199,15 +2122,23 @@ export function setupMediaNamespace(io) {
 
       // Very succinct announcement - exactly 5 words or less
       const announcementContext = `Next: ${nextExercise}, ${targetReps} reps`;
+      const cueId = findNextExerciseCue(cueLibrary, nextExercise);
 
       try {
-        const avatarData = await getAvatarPersona(avatarId);
-
         // Send directly as a simple message, not through LLM
-        socket.emit("simple_message", {
-          message: announcementContext,
-          avatarId: avatarId,
-          sessionId: sessionId,
+        coachScheduler.request({
+          kind: "set_complete",
+          key: announcementContext,
+          speak: async () => {
+            if (cueId) {
+              await emitCoachCue(cueId);
+            }
+            socket.emit("simple_message", {
+              message: announcementContext,
+              avatarId: avatarId,
+              sessionId: sessionId,
+            });
+          },
         });
       } catch (error) {
         logger.error("[EXERCISE] Error announcing next exercise", {
@@ -2232,17 +2163,16 @@ export function setupMediaNamespace(io) {
       // Initialize or reset coach tracking for new exercise session
       if (!socket.coachTracking) {
         socket.coachTracking = {
-          lastFormFeedbackTime: 0,
-          lastPlankEncouragementTime: 0,
           completedSets: new Set(),
         };
       }
 
       // Create unique session ID and reset milestones
       socket.coachTracking.currentExerciseSessionId = `${exercise}-${timestamp}`;
+      socket.coachTracking.currentExercise = exercise;
       socket.coachTracking.announcedMilestones = new Set();
       socket.coachTracking.exerciseStartTime = Date.now();
-      socket.coachTracking.lastPeriodicFeedbackTime = Date.now();
+      coachScheduler.holdOff("encouragement");
       socket.coachTracking.totalReps = 0;
       socket.coachTracking.recentFormScores = [];
 
@@ -2280,6 +2210,307 @@ export function setupMediaNamespace(io) {
       }
     });
 
+    // **EXERCISE CALIBRATION**: Store personal rep thresholds from a guided calibration
+    socket.on("exercise_calibration_save", async (data) => {
+      const { exercise, calibration } = data || {};
+
+      if (!userId) {
+        socket.emit("exercise_error", { error: "No active session" });
+        return;
+      }
+
+      const validationError = validateExerciseCalibration(exercise, calibration);
+      if (validationError) {
+        logger.warn("[EXERCISE] Rejected calibration", {
+          exercise,
+          error: validationError,
+          component: "mediaSocket",
+        });
+        socket.emit("exercise_error", { error: validationError });
+        return;
+      }
+
+      try {
+        const saved = await saveExerciseCalibration(
+          userId,
+          exercise,
+          calibration,
+        );
+        socket.emit("exercise_calibration_saved", {
+          exercise,
+          calibration: saved,
+        });
+      } catch (error) {
+        logger.error("Error saving exercise calibration", {
+          error: error.message,
+          exercise,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+        socket.emit("exercise_error", {
+          error: "Failed to save calibration",
+        });
+      }
+    });
+
+    // **COACH VERBOSITY**: How often the coach chimes in unprompted
+    socket.on("coach_verbosity", async (data) => {
+      const { verbosity } = data || {};
+
+      if (!coachScheduler.setVerbosity(verbosity)) {
+        socket.emit("exercise_error", {
+          error: `Unknown verbosity: ${verbosity}`,
+        });
+        return;
+      }
+      socket.emit("coach_verbosity", { verbosity });
+
+      if (!userId) return;
+      try {
+        await saveCoachVerbosity(userId, verbosity);
+      } catch (error) {
+        logger.error("Error saving coach verbosity", {
+          error: error.message,
+          verbosity,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+      }
+    });
+
+    // **COACH LANGUAGE**: User switched the session language
+    socket.on("coach_language", async (data) => {
+      const { language } = data || {};
+      const persona = avatarId ? await getAvatarPersona(avatarId) : null;
+      const available = persona?.languages || [DEFAULT_LANGUAGE];
+
+      if (!available.includes(language)) {
+        socket.emit("exercise_error", {
+          error: `This coach doesn't speak ${language}`,
+        });
+        return;
+      }
+
+      socket.language = language;
+      transcriber?.setLanguage(language);
+      socket.emit("coach_language", { language, available });
+      if (persona?.category === "fitness") {
+        sendCueLibrary(avatarId);
+      }
+
+      if (!userId) return;
+      try {
+        await saveCoachLanguage(userId, language);
+      } catch (error) {
+        logger.error("Error saving coach language", {
+          error: error.message,
+          language,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+      }
+    });
+
+    // **SET EFFORT**: RPE/RIR reported by voice or tap after a set
+    socket.on("exercise_set_effort", async (data) => {
+      const { exercise, rpe, rir } = data || {};
+      const setId = socket.coachTracking?.lastSetIds?.[exercise];
+
+      if (!setId) {
+        socket.emit("exercise_error", {
+          error: `No recorded set to rate for ${exercise}`,
+        });
+        return;
+      }
+
+      try {
+        const saved = await recordSetEffort(setId, { rpe, rir });
+        if (!saved) {
+          socket.emit("exercise_error", { error: "Invalid RPE/RIR" });
+          return;
+        }
+        logger.info("[EXERCISE] Set effort recorded", {
+          exercise,
+          setId,
+          rpe,
+          rir,
+          component: "mediaSocket",
+        });
+      } catch (error) {
+        logger.error("Error recording set effort", {
+          error: error.message,
+          exercise,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+        socket.emit("exercise_error", { error: "Failed to save set effort" });
+      }
+    });
+
+    // **WORKOUT RECOVERY**: Snapshot in-progress workout state against the exercise session
+    socket.on("workout_snapshot", async (data) => {
+      const { snapshot } = data || {};
+      if (!snapshot?.plan || !currentCallSessionId || !userId || !avatarId) {
+        return;
+      }
+
+      try {
+        const exerciseSessionId = await getOrCreateExerciseSession({
+          userId,
+          avatarId,
+          callSessionId: currentCallSessionId,
+        });
+        await saveWorkoutState(exerciseSessionId, {
+          client: snapshot,
+          coach: serializeCoachTracking(socket.coachTracking),
+        });
+      } catch (error) {
+        logger.error("Error saving workout snapshot", {
+          error: error.message,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+      }
+    });
+
+    // Resume or discard the interrupted workout offered in init_session
+    socket.on("workout_recovery", async (data) => {
+      const { resume, snapshot } = data || {};
+      const recovery = socket.pendingWorkoutRecovery;
+      socket.pendingWorkoutRecovery = null;
+
+      if (!recovery) {
+        socket.emit("workout_error", { error: "No workout to resume" });
+        return;
+      }
+
+      try {
+        if (!resume) {
+          await completeExerciseSession(recovery.exerciseSessionId);
+          logger.info("[WORKOUT] Interrupted workout discarded", {
+            exerciseSessionId: recovery.exerciseSessionId,
+            component: "mediaSocket",
+          });
+          await generateAndAnnounceWorkoutPlan();
+          return;
+        }
+
+        // The client may hold a newer local snapshot than the server's
+        const client =
+          snapshot?.plan && snapshot.savedAt > (recovery.client.savedAt || 0)
+            ? snapshot
+            : recovery.client;
+        await resumeExerciseSession(
+          recovery.exerciseSessionId,
+          currentCallSessionId,
+        );
+        workoutPlan = client.plan;
+        socket.coachTracking = {
+          completedSets: new Set(),
+          announcedMilestones: new Set(),
+          ...recovery.coach,
+          // Restored workouts start paused until the user is back in position
+          paused: true,
+        };
+
+        logger.info("[WORKOUT] Interrupted workout resumed", {
+          exerciseSessionId: recovery.exerciseSessionId,
+          position: client.position,
+          component: "mediaSocket",
+        });
+        socket.emit("workout_resumed", { snapshot: client });
+      } catch (error) {
+        logger.error("Error recovering workout", {
+          error: error.message,
+          resume,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+        socket.emit("workout_error", { error: "Failed to recover workout" });
+      }
+    });
+
+    // **PAUSE**: Freeze coach prompts while the user has the workout paused
+    socket.on("workout_pause", (data) => {
+      const { paused } = data || {};
+      if (!socket.coachTracking) {
+        socket.coachTracking = {
+          completedSets: new Set(),
+        };
+      }
+      socket.coachTracking.paused = !!paused;
+      if (paused) {
+        coachScheduler.clear();
+      } else {
+        // Resuming from the pause button also ends a safety hold
+        if (safetyGuard.isHolding()) {
+          safetyGuard.resolve("resumed");
+        }
+        // Don't fire a backlog of periodic feedback the moment they resume
+        coachScheduler.holdOff("encouragement");
+      }
+
+      logger.info("[WORKOUT] Workout pause toggled", {
+        paused: !!paused,
+        socketId: socket.id,
+        component: "mediaSocket",
+      });
+    });
+
+    // **SAFETY**: Fall-like pose signals from the client's PoseSafetyMonitor
+    socket.on("pose_safety_signal", async (data) => {
+      logger.warn("[SAFETY] Pose safety signal", {
+        signal: data,
+        socketId: socket.id,
+        component: "mediaSocket",
+      });
+      try {
+        await safetyGuard.handlePoseSignal(data);
+      } catch (error) {
+        logger.error("Error handling pose safety signal", {
+          error: error.message,
+          socketId: socket.id,
+          component: "mediaSocket",
+        });
+      }
+    });
+
+    // **BARGE-IN**: The client stopped the avatar (e.g. an exercise started)
+    socket.on("interrupt_avatar", (data) => {
+      socket.turns.cancel(data?.reason || "client");
+    });
+
+    // **BARGE-IN**: How much of a cancelled turn's audio the client played, so
+    // the transcript keeps only what the user heard
+    socket.on("turn_playback", async (data) => {
+      const { turnId, playedSeconds, receivedSeconds } = data || {};
+      const turn = socket.turns.get(turnId);
+      if (!turn?.cancelled) return;
+
+      const spoken = socket.turns.spokenText(turnId, {
+        playedSeconds,
+        receivedSeconds,
+      });
+      // Played to the end after it was fully generated: nothing was cut off
+      if (
+        !turn.cancelledWhileGenerating &&
+        spoken === turn.segments.join(" ")
+      ) {
+        return;
+      }
+      await truncateTranscriptTurn(turn.callSessionId, turnId, spoken);
+    });
+
+    // **SAFETY**: The user tapped "I'm OK" or ended the workout after a safety alert
+    socket.on("safety_resolve", async (data) => {
+      const { resolution } = data || {};
+      if (!["resumed", "ended"].includes(resolution)) {
+        socket.emit("workout_error", { error: "Unknown safety resolution" });
+        return;
+      }
+      await safetyGuard.resolve(resolution);
+    });
+
     // **WORKOUT COMPLETION**: Handle workout completion and adaptive adjustments
     socket.on("workout_complete", async (data) => {
       const { sessionId, summary } = data;
@@ -2301,6 +2532,9 @@ export function setupMediaNamespace(io) {
         const performanceSummary =
           await getSessionPerformanceSummary(currentCallSessionId);
 
+        // Finished workouts are no longer offered for resume
+        await completeCallExerciseSession(currentCallSessionId);
+
         if (performanceSummary && workoutPlan) {
           // Calculate performance vs plan
           const performanceData = {
@@ -2339,6 +2573,15 @@ export function setupMediaNamespace(io) {
             completionMessage += `- Completed ${summary.completedExercises} out of ${summary.totalExercises} exercises\n`;
             completionMessage += `- Total reps: ${summary.totalReps}\n`;
             completionMessage += `- Average form score: ${Math.round(summary.averageFormScore * 100)}%\n`;
+            if (summary.totalVolume > 0) {
+              completionMessage += `- Total volume: ${Math.round(summary.totalVolume)} kg lifted\n`;
+            }
+            if (summary.averageRpe) {
+              completionMessage += `- Average effort: RPE ${summary.averageRpe.toFixed(1)}\n`;
+            }
+            if (summary.intervalScore) {
+              completionMessage += `- ${summary.intervalScore.format.toUpperCase()} score: ${summary.intervalScore.description}\n`;
+            }
 
             if (summary.achievements && summary.achievements.length > 0) {
               completionMessage += `\nAchievements:\n${summary.achievements.join("\n")}\n`;
@@ -0,0 +1,403 @@
+// Workout tools the coach can call mid-conversation to change the live plan
+import { z } from "zod";
+
+import {
+  EXERCISE,
+  EXERCISES,
+  getExerciseDefinition,
+} from "../constants/exercises.js";
+import { logger } from "../lib/cloudwatch-logger.js";
+import { recordProfileFacts } from "../services/coachingMemory.js";
+
+const MAX_TARGET_REPS = 100;
+const MAX_SETS = 10;
+const MAX_EXTRA_SETS = 3;
+const MIN_REST_EXTENSION = 10;
+const MAX_REST_EXTENSION = 180;
+
+// Interval formats (AMRAP, EMOM, ...) run on the clock; see src/lib/workoutFormats.ts
+function isIntervalPlan(plan) {
+  return !!plan.format && plan.format !== "sets";
+}
+
+// "push ups", "Push-Ups" and "pushup" all name "Push-ups"
+function exerciseKey(name) {
+  return String(name)
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+    .replace(/s$/, "");
+}
+
+function findExercise(name) {
+  return EXERCISES.find((exercise) => exerciseKey(exercise) === exerciseKey(name));
+}
+
+const ExerciseName = z
+  .string()
+  .min(1)
+  .transform((name, ctx) => {
+    const exercise = findExercise(name);
+    if (!exercise) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Unknown exercise "${name}". Known exercises: ${EXERCISES.join(", ")}`,
+      });
+      return z.NEVER;
+    }
+    return exercise;
+  });
+
+const ARGUMENT_SCHEMAS = {
+  adjust_reps: z.object({
+    exercise: ExerciseName,
+    targetReps: z.number().int().min(1).max(MAX_TARGET_REPS),
+    sets: z.number().int().min(1).max(MAX_SETS).optional(),
+  }),
+  swap_exercise: z.object({
+    from: ExerciseName,
+    to: ExerciseName,
+    reason: z.string().max(200).optional(),
+  }),
+  add_set: z.object({
+    exercise: ExerciseName,
+    count: z.number().int().min(1).max(MAX_EXTRA_SETS).default(1),
+  }),
+  extend_rest: z.object({
+    seconds: z.number().int().min(MIN_REST_EXTENSION).max(MAX_REST_EXTENSION),
+  }),
+  end_workout: z.object({
+    reason: z.string().max(200).optional(),
+  }),
+  log_injury: z.object({
+    bodyPart: z.string().min(1).max(50),
+    side: z.enum(["left", "right"]).optional(),
+    severity: z.enum(["mild", "moderate", "severe"]).optional(),
+    note: z.string().max(200).optional(),
+    avoidExercise: ExerciseName.optional(),
+  }),
+};
+
+const exerciseParameter = {
+  type: "string",
+  enum: EXERCISES,
+};
+
+// OpenAI-style tool definitions
+export function getWorkoutTools() {
+  return [
+    {
+      type: "function",
+      function: {
+        name: "adjust_reps",
+        description:
+          "Change the target reps (seconds for holds like planks) and optionally the number of sets for an exercise in the current plan, e.g. when the user asks for fewer reps or is struggling.",
+        parameters: {
+          type: "object",
+          properties: {
+            exercise: exerciseParameter,
+            targetReps: { type: "integer", minimum: 1, maximum: MAX_TARGET_REPS },
+            sets: { type: "integer", minimum: 1, maximum: MAX_SETS },
+          },
+          required: ["exercise", "targetReps"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "swap_exercise",
+        description:
+          "Replace an exercise in the plan with a different one, keeping its sets and reps. Use when the user can't or doesn't want to do an exercise, e.g. because something hurts.",
+        parameters: {
+          type: "object",
+          properties: {
+            from: exerciseParameter,
+            to: exerciseParameter,
+            reason: { type: "string" },
+          },
+          required: ["from", "to"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "add_set",
+        description: "Add one or more sets to an exercise in the plan.",
+        parameters: {
+          type: "object",
+          properties: {
+            exercise: exerciseParameter,
+            count: { type: "integer", minimum: 1, maximum: MAX_EXTRA_SETS },
+          },
+          required: ["exercise"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "extend_rest",
+        description:
+          "Give the user more time in the rest period they are in now.",
+        parameters: {
+          type: "object",
+          properties: {
+            seconds: {
+              type: "integer",
+              minimum: MIN_REST_EXTENSION,
+              maximum: MAX_REST_EXTENSION,
+            },
+          },
+          required: ["seconds"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "end_workout",
+        description:
+          "End the workout now and show the summary. Only when the user clearly wants to stop or should stop.",
+        parameters: {
+          type: "object",
+          properties: {
+            reason: { type: "string" },
+          },
+          required: [],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "log_injury",
+        description:
+          "Record pain or an injury the user reports so future plans and sessions take it into account. Call it alongside swap_exercise or end_workout when the plan should change too.",
+        parameters: {
+          type: "object",
+          properties: {
+            bodyPart: { type: "string", description: "e.g. wrist, knee, lower back" },
+            side: { type: "string", enum: ["left", "right"] },
+            severity: { type: "string", enum: ["mild", "moderate", "severe"] },
+            note: { type: "string" },
+            avoidExercise: {
+              ...exerciseParameter,
+              description: "An exercise to avoid until it heals",
+            },
+          },
+          required: ["bodyPart"],
+        },
+      },
+    },
+  ];
+}
+
+export function isWorkoutTool(name) {
+  return Object.hasOwn(ARGUMENT_SCHEMAS, name);
+}
+
+function planExercise(plan, exercise) {
+  const index = plan.exercises.findIndex((ex) => ex.exerciseType === exercise);
+  if (index < 0) {
+    throw new Error(`${exercise} is not in the current plan`);
+  }
+  return index;
+}
+
+function updateExercise(plan, index, changes) {
+  return {
+    ...plan,
+    exercises: plan.exercises.map((ex, i) =>
+      i === index ? { ...ex, ...changes } : ex,
+    ),
+  };
+}
+
+// Validated arguments -> { plan, change, result }; throws with a message the
+// model can relay when the call doesn't fit the plan
+function applyTool(name, args, plan) {
+  // The client's interval session copies the schedule when the workout starts
+  if (isIntervalPlan(plan) && name !== "end_workout") {
+    throw new Error(
+      "Interval workouts run on a fixed schedule; they can only be ended early",
+    );
+  }
+
+  switch (name) {
+    case "adjust_reps": {
+      const index = planExercise(plan, args.exercise);
+      const sets = args.sets ?? plan.exercises[index].sets;
+      return {
+        plan: updateExercise(plan, index, { targetReps: args.targetReps, sets }),
+        change: { type: name, exercise: args.exercise, targetReps: args.targetReps, sets },
+        result: `${args.exercise} is now ${sets} sets of ${args.targetReps}`,
+      };
+    }
+    case "swap_exercise": {
+      const index = planExercise(plan, args.from);
+      if (args.from === args.to) {
+        throw new Error(`${args.from} is already in that slot`);
+      }
+      if (plan.exercises.some((ex) => ex.exerciseType === args.to)) {
+        throw new Error(`${args.to} is already in the plan`);
+      }
+      // The load was prescribed for the old exercise
+      const { load: _load, ...kept } = plan.exercises[index];
+      const definition = getExerciseDefinition(args.to);
+      const swapped = {
+        ...kept,
+        exerciseType: args.to,
+        alternatives: (definition?.alternatives || [])
+          .map((key) => EXERCISE[key])
+          .filter(Boolean),
+        formCues: definition?.formCues || [],
+      };
+      return {
+        plan: {
+          ...plan,
+          exercises: plan.exercises.map((ex, i) => (i === index ? swapped : ex)),
+        },
+        change: { type: name, from: args.from, to: args.to },
+        result: `Swapped ${args.from} for ${args.to}`,
+      };
+    }
+    case "add_set": {
+      const index = planExercise(plan, args.exercise);
+      const sets = Math.min(MAX_SETS, plan.exercises[index].sets + args.count);
+      return {
+        plan: updateExercise(plan, index, { sets }),
+        change: { type: name, exercise: args.exercise, sets },
+        result: `${args.exercise} now has ${sets} sets`,
+      };
+    }
+    case "extend_rest":
+      return {
+        plan,
+        change: { type: name, seconds: args.seconds },
+        result: `Added ${args.seconds}s to the current rest (if the user is resting)`,
+      };
+    case "end_workout":
+      return {
+        plan,
+        change: { type: name, reason: args.reason || null },
+        result: "Workout ended; the user sees their summary",
+      };
+    default:
+      throw new Error(`Unknown workout tool: ${name}`);
+  }
+}
+
+/**
+ * Server side of the coach's workout tools for one connection. Tool calls are
+ * validated against the live plan, applied to the server's copy through
+ * setPlan, and pushed to the client as `workout_plan_change { change, plan }`
+ * for WorkoutFlowManager/PlanAwareRepCounter to pick up. Results are short
+ * strings the model reads back as tool messages.
+ */
+export function createWorkoutControl({ socket, getPlan, setPlan, getUserId }) {
+  async function logInjury(args) {
+    const userId = getUserId();
+    if (!userId) throw new Error("No signed-in user to record the injury for");
+
+    const facts = [
+      {
+        type: "injury",
+        bodyPart: args.bodyPart,
+        side: args.side,
+        severity: args.severity,
+        status: "active",
+        note: args.note,
+      },
+    ];
+    if (args.avoidExercise) {
+      facts.push({
+        type: "preference",
+        text: `Avoid ${args.avoidExercise} while the ${args.bodyPart} heals`,
+        exercise: args.avoidExercise,
+        stance: "avoids",
+      });
+    }
+    await recordProfileFacts(userId, facts);
+    socket.emit("workout_injury_logged", {
+      bodyPart: args.bodyPart,
+      side: args.side || null,
+      severity: args.severity || null,
+    });
+    return `Recorded ${[args.side, args.bodyPart].filter(Boolean).join(" ")} injury`;
+  }
+
+  return {
+    // Tools are only offered while there is a plan to change
+    isActive: () => !!getPlan()?.exercises?.length,
+
+    // Current plan for the system prompt, so tool arguments name real exercises
+    describePlan() {
+      const plan = getPlan();
+      if (!plan?.exercises?.length) return "";
+      return plan.exercises
+        .map((ex) => `${ex.exerciseType}: ${ex.sets} x ${ex.targetReps}`)
+        .join(", ");
+    },
+
+    async execute(name, rawArgs) {
+      const parsed = ARGUMENT_SCHEMAS[name]?.safeParse(rawArgs || {});
+      if (!parsed) {
+        return { ok: false, result: `Unknown workout tool: ${name}` };
+      }
+      if (!parsed.success) {
+        const message = parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`)
+          .join("; ");
+        return { ok: false, result: `Invalid arguments: ${message}` };
+      }
+
+      try {
+        if (name === "log_injury") {
+          return { ok: true, result: await logInjury(parsed.data) };
+        }
+
+        const plan = getPlan();
+        if (!plan?.exercises?.length) {
+          throw new Error("There is no workout in progress");
+        }
+        const applied = applyTool(name, parsed.data, plan);
+        setPlan(applied.plan);
+        socket.emit("workout_plan_change", {
+          change: applied.change,
+          plan: applied.plan,
+        });
+
+        logger.info("[WorkoutTools] Applied workout change", {
+          change: applied.change,
+          socketId: socket.id,
+          component: "workoutControl",
+        });
+        return { ok: true, result: applied.result };
+      } catch (error) {
+        logger.warn("[WorkoutTools] Rejected workout tool call", {
+          tool: name,
+          args: parsed.data,
+          reason: error.message,
+          socketId: socket.id,
+          component: "workoutControl",
+        });
+        return { ok: false, result: error.message };
+      }
+    },
+  };
+}
+
+// System prompt section offered with the tools
+export function workoutToolsPrompt(planSummary) {
+  return `
+
+WORKOUT CONTROL:
+The user is in a workout. Current plan: ${planSummary}.
+When the user asks to change the workout or reports pain, change it with your tools instead of only talking about it:
+- adjust_reps, add_set, swap_exercise: change the plan
+- extend_rest: more rest right now
+- end_workout: stop the workout
+- log_injury: record pain or an injury; combine it with swap_exercise or end_workout when they shouldn't continue the exercise
+After a tool call, briefly confirm what changed. If a tool reports an error, tell the user what you can do instead.`;
+}
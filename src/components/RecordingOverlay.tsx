@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  drawOverlayStats,
+  drawPoseSkeleton,
+  overlayAt,
+  validateOverlayTrack,
+  type OverlayTrack
+} from '@/lib/recordingOverlay';
+
+interface RecordingOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  trackUrl: string;
+  visible: boolean;
+}
+
+// Where the video image is drawn inside its element, for object-cover/contain
+function displayedVideoRect(video: HTMLVideoElement) {
+  const width = video.clientWidth;
+  const height = video.clientHeight;
+  if (!video.videoWidth || !video.videoHeight) {
+    return { x: 0, y: 0, width, height };
+  }
+  const fit = getComputedStyle(video).objectFit === 'cover' ? Math.max : Math.min;
+  const scale = fit(width / video.videoWidth, height / video.videoHeight);
+  const drawnWidth = video.videoWidth * scale;
+  const drawnHeight = video.videoHeight * scale;
+  return { x: (width - drawnWidth) / 2, y: (height - drawnHeight) / 2, width: drawnWidth, height: drawnHeight };
+}
+
+// Skeleton and workout stats drawn over a recording from its overlay track,
+// which is only fetched once the overlay is first turned on
+const RecordingOverlay = ({ videoRef, trackUrl, visible }: RecordingOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [track, setTrack] = useState<OverlayTrack | null>(null);
+
+  useEffect(() => {
+    if (!visible || track) return;
+    let cancelled = false;
+    fetch(trackUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to fetch overlay track: ${response.status}`);
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) setTrack(validateOverlayTrack(data));
+      })
+      .catch((error) => console.error('[RecordingOverlay] Could not load overlay track', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, track, trackUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!visible || !track || !canvas || !video) return;
+
+    let animationFrameId: number;
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        const ratio = window.devicePixelRatio || 1;
+        if (canvas.width !== video.clientWidth * ratio || canvas.height !== video.clientHeight * ratio) {
+          canvas.width = video.clientWidth * ratio;
+          canvas.height = video.clientHeight * ratio;
+        }
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, video.clientWidth, video.clientHeight);
+
+        const frame = displayedVideoRect(video);
+        const area = {
+          x: frame.x + track.area.x * frame.width,
+          y: frame.y + track.area.y * frame.height,
+          width: track.area.width * frame.width,
+          height: track.area.height * frame.height
+        };
+        const { landmarks, stats } = overlayAt(track, video.currentTime * 1000);
+        if (landmarks) drawPoseSkeleton(ctx, landmarks, area, { lineWidth: 3, pointRadius: 4 });
+        if (stats) drawOverlayStats(ctx, stats, area);
+      }
+      animationFrameId = requestAnimationFrame(draw);
+    };
+    draw();
+
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [visible, track, videoRef]);
+
+  if (!visible) return null;
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" />;
+};
+
+export default RecordingOverlay;
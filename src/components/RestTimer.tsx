@@ -1,18 +1,50 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Play } from 'lucide-react';
+import { t, type Language } from '@/lib/i18n';
 
 interface RestTimerProps {
   duration: number;
   onComplete: () => void;
   exerciseName?: string;
+  endsAt?: number | null; // Interval formats: rest runs on the workout clock, so it can't be paused
+  skippable?: boolean;
+  paused?: boolean; // Workout-level pause; freezes the countdown too
+  language?: Language;
 }
 
-export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exerciseName }) => {
+export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exerciseName, endsAt, skippable = true, paused = false, language = 'en' }) => {
   const [timeLeft, setTimeLeft] = useState(duration);
   const [isPaused, setIsPaused] = useState(false);
+  const durationRef = useRef(duration);
   
+  // Rest extended while it runs, e.g. by the coach
   useEffect(() => {
-    if (isPaused) return;
+    const added = duration - durationRef.current;
+    durationRef.current = duration;
+    if (added > 0) setTimeLeft(prev => prev + added);
+  }, [duration]);
+  
+  useEffect(() => {
+    if (!endsAt || paused) return;
+    
+    const update = () => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setTimeLeft(remaining);
+      return remaining;
+    };
+    update();
+    const timer = setInterval(() => {
+      if (update() === 0) {
+        clearInterval(timer);
+        onComplete();
+      }
+    }, 250);
+    
+    return () => clearInterval(timer);
+  }, [endsAt, onComplete, paused]);
+  
+  useEffect(() => {
+    if (isPaused || paused || endsAt) return;
     
     const timer = setInterval(() => {
       setTimeLeft(prev => {
@@ -25,7 +57,7 @@ export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exer
     }, 1000);
     
     return () => clearInterval(timer);
-  }, [duration, onComplete, isPaused]);
+  }, [duration, onComplete, isPaused, paused, endsAt]);
   
   const progress = ((duration - timeLeft) / duration) * 100;
   const radius = 60; // Increased from 40 for better visibility
@@ -40,7 +72,7 @@ export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exer
       'Focus on your form',
       'Prepare for the next set'
     ];
-    return tips[Math.floor(Math.random() * tips.length)];
+    return t(tips[Math.floor(Math.random() * tips.length)], language);
   };
   
   return (
@@ -75,7 +107,7 @@ export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exer
         <div className="absolute inset-0 flex items-center justify-center">
           <div className="text-center">
             <div className="text-4xl font-bold text-white">{timeLeft}</div>
-            <div className="text-sm text-white/80">seconds</div>
+            <div className="text-sm text-white/80">{t('seconds', language)}</div>
           </div>
         </div>
       </div>
@@ -88,24 +120,28 @@ export const RestTimer: React.FC<RestTimerProps> = ({ duration, onComplete, exer
       {/* Next exercise reminder */}
       {exerciseName && (
         <div className="text-xs text-green-400 text-center">
-          Next: {exerciseName}
+          {t('Next: {exercise}', language, { exercise: t(exerciseName, language) })}
         </div>
       )}
       
       {/* Pause/Skip button */}
       <div className="flex gap-2">
-        <button
-          onClick={() => setIsPaused(!isPaused)}
-          className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-xs text-white transition-colors"
-        >
-          {isPaused ? <Play className="w-3 h-3" /> : 'Pause'}
-        </button>
-        <button
-          onClick={onComplete}
-          className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-xs text-white transition-colors"
-        >
-          Skip
-        </button>
+        {!endsAt && (
+          <button
+            onClick={() => setIsPaused(!isPaused)}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-xs text-white transition-colors"
+          >
+            {isPaused ? <Play className="w-3 h-3" /> : t('Pause', language)}
+          </button>
+        )}
+        {skippable && (
+          <button
+            onClick={onComplete}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-xs text-white transition-colors"
+          >
+            {t('Skip', language)}
+          </button>
+        )}
       </div>
     </div>
   );
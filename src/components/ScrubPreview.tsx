@@ -0,0 +1,40 @@
+import type { ScrubSprite } from '@/types/slices';
+
+interface ScrubPreviewProps {
+  sprite: ScrubSprite;
+  time: number;
+  duration: number;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Frame preview above a progress bar, cut from the thumbnail sprite sheet
+const ScrubPreview = ({ sprite, time, duration }: ScrubPreviewProps) => {
+  const index = Math.min(sprite.count - 1, Math.floor(time / sprite.interval));
+  const column = index % sprite.columns;
+  const row = Math.floor(index / sprite.columns);
+
+  return (
+    <div
+      className="pointer-events-none absolute bottom-3 z-30 -translate-x-1/2 overflow-hidden rounded-md border border-white/40 bg-black shadow-lg"
+      style={{ left: `${(time / duration) * 100}%` }}
+    >
+      <div
+        style={{
+          width: sprite.width,
+          height: sprite.height,
+          backgroundImage: `url(${sprite.url})`,
+          backgroundPosition: `-${column * sprite.width}px -${row * sprite.height}px`,
+          backgroundSize: `${sprite.columns * sprite.width}px ${sprite.rows * sprite.height}px`,
+        }}
+      />
+      <div className="py-0.5 text-center text-xs text-white">{formatTime(time)}</div>
+    </div>
+  );
+};
+
+export default ScrubPreview;
@@ -7,11 +7,12 @@ import CommunityIcon from "@/assets/svg/people-active.svg";
 import SaveIcon from "@/assets/svg/save-active.svg";
 import { useAuth } from "@/contexts/AuthContext";
 import { useAvatarChatState } from "@/contexts/AvatarChatContext";
+import { useHighlightReel } from "@/hooks/useHighlightReel";
 import { logError } from "@/lib/errorLogger";
 import { sessionRecordingService } from "@/services/SessionRecordingService";
 import { dispatch, useSelector } from "@/store";
 import { setSessionEndModal } from "@/store/slices/modal";
-import { Check, ChevronRight, Upload } from "lucide-react";
+import { Check, ChevronRight, Film, Upload } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 import {
@@ -32,9 +33,13 @@ const SessionEndDrawer = () => {
   const [uploadStatus, setUploadStatus] = useState<
     "idle" | "uploading" | "success" | "error"
   >("idle");
+  // Which recording is being shared: the full session or its highlight reel
+  const [sharingId, setSharingId] = useState<string | null>(null);
   const [recordingReady, setRecordingReady] = useState<boolean>(
     () => !!sessionRecordingService.getLastRecordingId(),
   );
+  const highlight = useHighlightReel();
+  const { reel } = highlight;
 
   // Listen for recording-finalised event so we know when the DB row exists
   useEffect(() => {
@@ -52,7 +57,20 @@ const SessionEndDrawer = () => {
     dispatch(setSessionEndModal([false]));
   };
 
-  const handleShareWithCommunity = async () => {
+  const getFinalRecordingId = () =>
+    sessionRecordingService.getLastRecordingId() ||
+    sessionRecordingService.getState().recordingId;
+
+  const handleCreateHighlight = () => {
+    const finalRecordingId = getFinalRecordingId();
+    if (finalRecordingId) {
+      highlight.createReel(finalRecordingId);
+    }
+  };
+
+  // With a highlight's recording id this publishes the reel instead of the
+  // full session
+  const handleShareWithCommunity = async (highlightId?: string) => {
     try {
       if (!user) {
         logError(
@@ -65,9 +83,7 @@ const SessionEndDrawer = () => {
 
       // At this point we expect the recording to be ready because the modal is
       // only shown after end-call, and we wait for the finalised event above.
-      const finalRecordingId =
-        sessionRecordingService.getLastRecordingId() ||
-        sessionRecordingService.getState().recordingId;
+      const finalRecordingId = highlightId || getFinalRecordingId();
 
       if (!finalRecordingId) {
         logError(
@@ -79,6 +95,7 @@ const SessionEndDrawer = () => {
         return;
       }
 
+      setSharingId(finalRecordingId);
       setUploadStatus("uploading");
 
       // Publish the existing recording to community
@@ -128,6 +145,17 @@ const SessionEndDrawer = () => {
     }
   };
 
+  const sharingHighlight = !!reel && sharingId === reel.recordingId;
+
+  const shareLabel = (idleLabel: string) =>
+    uploadStatus === "uploading"
+      ? "Uploading..."
+      : uploadStatus === "success"
+        ? "Shared successfully!"
+        : uploadStatus === "error"
+          ? "Upload failed - try again"
+          : idleLabel;
+
   const handleSaveAndExit = () => {
     // Function to handle save and exit
     dispatch(setSessionEndModal([false]));
@@ -149,15 +177,15 @@ const SessionEndDrawer = () => {
 
         <div className="flex flex-col gap-3 p-4">
           <button
-            onClick={handleShareWithCommunity}
+            onClick={() => handleShareWithCommunity()}
             disabled={uploadStatus === "uploading" || !recordingReady}
             className="bg-bg-foreground border-border flex items-center justify-between rounded-xl border px-5 py-4 text-left disabled:opacity-50"
           >
             <div className="flex items-center">
               <span className="text-accent mr-2">
-                {uploadStatus === "success" ? (
+                {uploadStatus === "success" && !sharingHighlight ? (
                   <Check className="h-6 w-6" />
-                ) : uploadStatus === "uploading" ? (
+                ) : uploadStatus === "uploading" && !sharingHighlight ? (
                   <Upload className="h-6 w-6 animate-bounce" />
                 ) : (
                   <img src={CommunityIcon} alt="Community Icon" />
@@ -166,13 +194,9 @@ const SessionEndDrawer = () => {
               <span>
                 {!recordingReady
                   ? "Preparing recording..."
-                  : uploadStatus === "uploading"
-                    ? "Uploading..."
-                    : uploadStatus === "success"
-                      ? "Shared successfully!"
-                      : uploadStatus === "error"
-                        ? "Upload failed - try again"
-                        : "Share it with community"}
+                  : sharingHighlight
+                    ? "Share it with community"
+                    : shareLabel("Share it with community")}
               </span>
             </div>
             {uploadStatus === "idle" && (
@@ -180,6 +204,71 @@ const SessionEndDrawer = () => {
             )}
           </button>
 
+          {highlight.status === "ready" && reel ? (
+            <div className="flex flex-col gap-3">
+              <video
+                src={reel.videoUrl}
+                poster={reel.thumbnailUrl || undefined}
+                controls
+                playsInline
+                className="border-border max-h-[50vh] w-full rounded-xl border bg-black object-contain"
+              />
+              <button
+                onClick={() => handleShareWithCommunity(reel.recordingId)}
+                disabled={uploadStatus === "uploading"}
+                className="bg-bg-foreground border-border flex items-center justify-between rounded-xl border px-5 py-4 text-left disabled:opacity-50"
+              >
+                <div className="flex items-center">
+                  <span className="text-accent mr-2">
+                    {sharingHighlight && uploadStatus === "success" ? (
+                      <Check className="h-6 w-6" />
+                    ) : sharingHighlight && uploadStatus === "uploading" ? (
+                      <Upload className="h-6 w-6 animate-bounce" />
+                    ) : (
+                      <Film className="h-6 w-6" />
+                    )}
+                  </span>
+                  <span>
+                    {sharingHighlight
+                      ? shareLabel("Share the highlight reel")
+                      : "Share the highlight reel"}
+                  </span>
+                </div>
+                <ChevronRight className="text-accent" />
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleCreateHighlight}
+              disabled={
+                !recordingReady ||
+                highlight.status === "building" ||
+                highlight.status === "empty"
+              }
+              className="bg-bg-foreground border-border flex items-center justify-between rounded-xl border px-5 py-4 text-left disabled:opacity-50"
+            >
+              <div className="flex items-center">
+                <span className="text-accent mr-2">
+                  <Film
+                    className={`h-6 w-6 ${highlight.status === "building" ? "animate-pulse" : ""}`}
+                  />
+                </span>
+                <span>
+                  {highlight.status === "building"
+                    ? `Cutting highlights... ${Math.round(highlight.progress)}%`
+                    : highlight.status === "empty"
+                      ? "No highlights in this session"
+                      : highlight.status === "error"
+                        ? "Highlight reel failed - try again"
+                        : "Make a highlight reel"}
+                </span>
+              </div>
+              {highlight.status === "idle" && (
+                <ChevronRight className="text-accent" />
+              )}
+            </button>
+          )}
+
           {/* <button
             onClick={handleSubmitForContests}
             className="bg-bg-foreground border-border flex items-center justify-between rounded-xl border px-5 py-4 text-left"
@@ -0,0 +1,71 @@
+import { useEffect, type RefObject } from 'react';
+import type Hls from 'hls.js';
+
+interface AdaptiveVideoSources {
+  hlsUrl?: string | null;
+  fallbackUrl: string;
+}
+
+// Plays the HLS rendition ladder where the browser can: natively on
+// Safari/iOS, through hls.js (Media Source Extensions) elsewhere, adapting
+// the rendition to the bandwidth and the player's size. Browsers with
+// neither, posts whose ladder isn't built yet and streams that fail to load
+// play the progressive video instead. The hook owns the element's src.
+export function useAdaptiveVideo(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  { hlsUrl, fallbackUrl }: AdaptiveVideoSources
+) {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let hls: Hls | null = null;
+    let cancelled = false;
+
+    // Carry on from the same spot in the progressive video
+    const switchToFallback = () => {
+      if (cancelled || video.src === fallbackUrl) return;
+      const resumeAt = video.currentTime;
+      const wasPlaying = !video.paused;
+      hls?.destroy();
+      hls = null;
+      video.removeEventListener('error', switchToFallback);
+      video.src = fallbackUrl;
+      video.addEventListener('loadedmetadata', () => {
+        video.currentTime = resumeAt;
+        if (wasPlaying) video.play().catch(() => {});
+      }, { once: true });
+    };
+
+    if (!hlsUrl) {
+      video.src = fallbackUrl;
+    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.addEventListener('error', switchToFallback);
+      video.src = hlsUrl;
+    } else {
+      import('hls.js')
+        .then(({ default: HlsPlayer }) => {
+          if (cancelled) return;
+          if (!HlsPlayer.isSupported()) {
+            video.src = fallbackUrl;
+            return;
+          }
+          hls = new HlsPlayer({ capLevelToPlayerSize: true });
+          hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+            if (data.fatal) switchToFallback();
+          });
+          hls.loadSource(hlsUrl);
+          hls.attachMedia(video);
+        })
+        .catch(() => {
+          if (!cancelled) video.src = fallbackUrl;
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+      video.removeEventListener('error', switchToFallback);
+    };
+  }, [videoRef, hlsUrl, fallbackUrl]);
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { logError } from "@/lib/errorLogger";
+
+const API_URL = import.meta.env.VITE_SERVER_URL || "http://localhost:3005";
+const POLL_INTERVAL_MS = 2000;
+
+export interface HighlightReel {
+  recordingId: string;
+  videoUrl: string;
+  thumbnailUrl: string | null;
+  duration: number;
+}
+
+interface HighlightReelState {
+  // "empty" when the session had no moments worth a reel
+  status: "idle" | "building" | "ready" | "empty" | "error";
+  progress: number;
+  jobId: string | null;
+  reel: HighlightReel | null;
+}
+
+/**
+ * Ask the server to cut a highlight reel from a session recording and follow
+ * the job until the reel (a recording of its own) is ready to preview
+ */
+export const useHighlightReel = () => {
+  const { token } = useAuth();
+  const [state, setState] = useState<HighlightReelState>({
+    status: "idle",
+    progress: 0,
+    jobId: null,
+    reel: null,
+  });
+
+  const createReel = useCallback(
+    async (recordingId: string) => {
+      setState({ status: "building", progress: 0, jobId: null, reel: null });
+      try {
+        const response = await fetch(
+          `${API_URL}/api/recordings/${recordingId}/highlights`,
+          {
+            method: "POST",
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        );
+        if (response.status === 422) {
+          setState((prev) => ({ ...prev, status: "empty" }));
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Highlight request failed: ${response.status}`);
+        }
+        const { jobId } = await response.json();
+        setState((prev) => ({ ...prev, jobId }));
+      } catch (error) {
+        logError("Error requesting highlight reel", error, {
+          section: "session_complete",
+        });
+        setState((prev) => ({ ...prev, status: "error" }));
+      }
+    },
+    [token],
+  );
+
+  useEffect(() => {
+    if (state.status !== "building" || !state.jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(
+          `${API_URL}/api/recordings/highlight-jobs/${state.jobId}`,
+          { headers: { Authorization: `Bearer ${token}` } },
+        );
+        if (!response.ok) {
+          throw new Error(`Highlight status failed: ${response.status}`);
+        }
+        const job = await response.json();
+        if (cancelled) return;
+
+        if (job.status === "completed") {
+          setState((prev) => ({
+            ...prev,
+            status: "ready",
+            progress: 100,
+            reel: job.result,
+          }));
+          return;
+        }
+        if (job.status === "failed") {
+          throw new Error(job.error || "Highlight reel failed");
+        }
+        setState((prev) => ({ ...prev, progress: job.progress || 0 }));
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      } catch (error) {
+        if (cancelled) return;
+        logError("Error building highlight reel", error, {
+          section: "session_complete",
+        });
+        setState((prev) => ({ ...prev, status: "error" }));
+      }
+    };
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state.status, state.jobId, token]);
+
+  return { ...state, createReel };
+};
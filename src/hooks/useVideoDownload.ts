@@ -1,5 +1,10 @@
 import { useState } from "react";
 
+import { useAuth } from "@/contexts/AuthContext";
+
+const POLL_INTERVAL_MS = 2000;
+const WATERMARK_TIMEOUT_MS = 5 * 60 * 1000;
+
 interface DownloadOptions {
   videoUrl: string;
   fileName?: string;
@@ -7,6 +12,7 @@ interface DownloadOptions {
 }
 
 export const useVideoDownload = () => {
+  const { token } = useAuth();
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
@@ -63,6 +69,7 @@ export const useVideoDownload = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           videoUrl,
@@ -72,10 +79,31 @@ export const useVideoDownload = () => {
       });
 
       if (!response.ok) throw new Error('Watermarking failed');
+      const { jobId } = await response.json();
+
+      // The encode runs as a background job; wait for it to complete
+      const deadline = Date.now() + WATERMARK_TIMEOUT_MS;
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        const statusResponse = await fetch(`${serverUrl}/api/watermark-jobs/${jobId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!statusResponse.ok) throw new Error('Watermarking failed');
+        const job = await statusResponse.json();
+        if (job.status === 'completed') break;
+        if (job.status === 'failed') throw new Error(job.error || 'Watermarking failed');
+        if (Date.now() > deadline) throw new Error('Watermarking timed out');
+        setProgress(20 + Math.round((job.progress || 0) * 0.4));
+      }
+
+      const videoResponse = await fetch(`${serverUrl}/api/watermark-jobs/${jobId}/video`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!videoResponse.ok) throw new Error('Failed to fetch watermarked video');
 
       setProgress(60);
 
-      const blob = await response.blob();
+      const blob = await videoResponse.blob();
       const blobUrl = window.URL.createObjectURL(blob);
 
       setProgress(80);
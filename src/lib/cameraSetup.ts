@@ -0,0 +1,174 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { POSE_LANDMARKS, type CameraOrientation, type ExerciseDefinition, type JointName } from './exerciseDsl';
+
+export type { CameraOrientation };
+
+const MIN_VISIBILITY = 0.5;
+const FRAME_MARGIN = 0.02; // Normalised distance from the frame edge that counts as cut off
+// Shoulder width relative to torso length when facing the camera square-on
+const FRONT_SHOULDER_TORSO_RATIO = 0.72;
+const FRONT_MAX_YAW = 25;
+const SIDE_MIN_YAW = 65;
+// Hysteresis so a brief occlusion mid-rep doesn't stop counting
+const FRAMES_TO_VALIDATE = 3;
+const FRAMES_TO_INVALIDATE = 10;
+
+export type SetupIssue =
+  | { type: 'no_pose' }
+  | { type: 'cut_off'; joints: JointName[]; edge: 'top' | 'bottom' | 'side' }
+  | { type: 'occluded'; joints: JointName[] }
+  | { type: 'orientation'; expected: readonly CameraOrientation[]; actual: CameraOrientation };
+
+export interface CameraSetupStatus {
+  valid: boolean;
+  orientation: CameraOrientation | null;
+  yawDegrees: number | null; // 0 = facing the camera, 90 = side-on
+  issues: SetupIssue[];
+  guidance: string | null;
+}
+
+// "left_ankle" -> "ankles", "nose" -> "head"
+function bodyPart(joint: JointName): string {
+  if (joint === 'nose') return 'head';
+  const part = joint.split('_')[1];
+  return `${part}s`;
+}
+
+function describeJoints(joints: JointName[]): string {
+  const parts = Array.from(new Set(joints.map(bodyPart)));
+  if (parts.length === 1) return parts[0];
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+export function estimateOrientation(landmarks: NormalizedLandmark[]): { orientation: CameraOrientation; yawDegrees: number } {
+  const at = (joint: JointName) => landmarks[POSE_LANDMARKS[joint]];
+  type Point = Pick<NormalizedLandmark, 'x' | 'y'>;
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+  const shoulderWidth = distance(at('left_shoulder'), at('right_shoulder'));
+  const torsoLength = distance(
+    mid(at('left_shoulder'), at('right_shoulder')),
+    mid(at('left_hip'), at('right_hip'))
+  );
+  if (torsoLength === 0) {
+    return { orientation: 'front', yawDegrees: 0 };
+  }
+
+  // Shoulders foreshorten as the user turns away from square-on
+  const ratio = Math.min(1, shoulderWidth / (torsoLength * FRONT_SHOULDER_TORSO_RATIO));
+  const yawDegrees = Math.acos(ratio) * 180 / Math.PI;
+  const orientation = yawDegrees < FRONT_MAX_YAW ? 'front' : yawDegrees > SIDE_MIN_YAW ? 'side' : 'angled';
+  return { orientation, yawDegrees };
+}
+
+// Single-frame check of whether the exercise's key joints are trackable from this camera position
+export function checkCameraSetup(definition: ExerciseDefinition, landmarks: NormalizedLandmark[]): CameraSetupStatus {
+  if (!landmarks || landmarks.length < 33) {
+    return {
+      valid: false,
+      orientation: null,
+      yawDegrees: null,
+      issues: [{ type: 'no_pose' }],
+      guidance: 'Step into the frame so I can see you'
+    };
+  }
+
+  const issues: SetupIssue[] = [];
+  const cutOff: Record<'top' | 'bottom' | 'side', JointName[]> = { top: [], bottom: [], side: [] };
+  const occluded: JointName[] = [];
+
+  definition.keyJoints.forEach(joint => {
+    const landmark = landmarks[POSE_LANDMARKS[joint]];
+    if (landmark.y > 1 - FRAME_MARGIN) {
+      cutOff.bottom.push(joint);
+    } else if (landmark.y < FRAME_MARGIN) {
+      cutOff.top.push(joint);
+    } else if (landmark.x < FRAME_MARGIN || landmark.x > 1 - FRAME_MARGIN) {
+      cutOff.side.push(joint);
+    } else if ((landmark.visibility ?? 1) < MIN_VISIBILITY) {
+      occluded.push(joint);
+    }
+  });
+
+  (['bottom', 'top', 'side'] as const).forEach(edge => {
+    if (cutOff[edge].length > 0) {
+      issues.push({ type: 'cut_off', joints: cutOff[edge], edge });
+    }
+  });
+  if (occluded.length > 0) {
+    issues.push({ type: 'occluded', joints: occluded });
+  }
+
+  const { orientation, yawDegrees } = estimateOrientation(landmarks);
+  const expected = definition.camera?.orientations;
+  if (expected && !expected.includes(orientation)) {
+    issues.push({ type: 'orientation', expected, actual: orientation });
+  }
+
+  return {
+    valid: issues.length === 0,
+    orientation,
+    yawDegrees,
+    issues,
+    guidance: issues.length > 0 ? describeIssue(definition, issues[0]) : null
+  };
+}
+
+function describeIssue(definition: ExerciseDefinition, issue: SetupIssue): string {
+  switch (issue.type) {
+    case 'no_pose':
+      return 'Step into the frame so I can see you';
+    case 'cut_off':
+      if (issue.edge === 'side') {
+        return `Move towards the middle of the frame, your ${describeJoints(issue.joints)} are out of view`;
+      }
+      return `Step back, your ${describeJoints(issue.joints)} are cut off`;
+    case 'occluded':
+      return `Make sure your ${describeJoints(issue.joints)} are visible to the camera`;
+    case 'orientation':
+      return definition.camera?.hint || `Turn so the camera sees you from the ${issue.expected.join(' or ')}`;
+  }
+}
+
+// Debounces checkCameraSetup so counting is blocked only once setup is
+// consistently wrong, and resumes once it is consistently right
+export class CameraSetupMonitor {
+  private valid = false;
+  private streak = 0;
+  private lastStatus: CameraSetupStatus | null = null;
+
+  constructor(private definition: ExerciseDefinition) {}
+
+  update(landmarks: NormalizedLandmark[]): CameraSetupStatus {
+    const status = checkCameraSetup(this.definition, landmarks);
+    if (status.valid === this.valid) {
+      this.streak = 0;
+    } else {
+      this.streak++;
+      const required = this.valid ? FRAMES_TO_INVALIDATE : FRAMES_TO_VALIDATE;
+      if (this.streak >= required) {
+        this.valid = status.valid;
+        this.streak = 0;
+      }
+    }
+
+    this.lastStatus = {
+      ...status,
+      valid: this.valid,
+      // Keep guidance up while blocked, even on a frame that happened to pass
+      guidance: this.valid ? null : status.guidance ?? this.lastStatus?.guidance ?? null
+    };
+    return this.lastStatus;
+  }
+
+  isValid(): boolean {
+    return this.valid;
+  }
+
+  reset() {
+    this.valid = false;
+    this.streak = 0;
+    this.lastStatus = null;
+  }
+}
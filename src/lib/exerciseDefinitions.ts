@@ -0,0 +1,297 @@
+import {
+  abs,
+  add,
+  all,
+  always,
+  angle,
+  any,
+  avg,
+  between,
+  calibrated,
+  defineExercise,
+  diff,
+  div,
+  gt,
+  inState,
+  lt,
+  midY,
+  min,
+  not,
+  scale,
+  spreadX,
+  sub,
+  velocityY,
+  y,
+  type ExerciseDefinition
+} from './exerciseDsl';
+
+// Exercise catalog. Adding an exercise means adding a definition here - the rep
+// counter, detector and UI pick it up from this list. The plan generator's
+// muscle groups and equipment live in server/constants/exercises.js, which
+// `npm run test:poses` checks against these keys, names and measures.
+
+const avgKnee = avg(angle('leftKnee'), angle('rightKnee'));
+const avgElbow = avg(angle('leftElbow'), angle('rightElbow'));
+const frontKnee = min(angle('leftKnee'), angle('rightKnee'));
+const shoulderY = midY('left_shoulder', 'right_shoulder');
+const hipY = midY('left_hip', 'right_hip');
+const elbowY = midY('left_elbow', 'right_elbow');
+const wristY = midY('left_wrist', 'right_wrist');
+const shoulderTilt = diff(y('left_shoulder'), y('right_shoulder'));
+const wristsAboveShoulders = all(lt(y('left_wrist'), y('left_shoulder')), lt(y('right_wrist'), y('right_shoulder')));
+
+// Jumping jack arm/leg positions (y increases downward)
+const leftArmUp = lt(y('left_wrist'), sub(y('left_shoulder'), 0.02));
+const rightArmUp = lt(y('right_wrist'), sub(y('right_shoulder'), 0.02));
+const leftArmDown = gt(y('left_wrist'), sub(y('left_hip'), 0.1)); // Arms don't need to be fully down
+const rightArmDown = gt(y('right_wrist'), sub(y('right_hip'), 0.1));
+const hipWidth = spreadX('left_hip', 'right_hip');
+const ankleSpread = spreadX('left_ankle', 'right_ankle');
+const legsSpread = gt(ankleSpread, scale(hipWidth, 1.5));
+const legsTogether = lt(ankleSpread, scale(hipWidth, 1.2));
+const partialArmUp = all(
+  any(leftArmUp, rightArmUp),
+  lt(y('left_wrist'), add(y('left_shoulder'), 0.1)),
+  lt(y('right_wrist'), add(y('right_shoulder'), 0.1))
+);
+const partialArmDown = all(
+  any(leftArmDown, rightArmDown),
+  gt(y('left_wrist'), sub(y('left_shoulder'), 0.1)),
+  gt(y('right_wrist'), sub(y('right_shoulder'), 0.1))
+);
+const JUMPING_JACK_VELOCITY_THRESHOLD = 0.02; // Minimum velocity to consider movement
+const fastUpwardMovement = all(
+  lt(velocityY('left_wrist'), -JUMPING_JACK_VELOCITY_THRESHOLD),
+  lt(velocityY('right_wrist'), -JUMPING_JACK_VELOCITY_THRESHOLD)
+);
+const fastDownwardMovement = all(
+  gt(velocityY('left_wrist'), JUMPING_JACK_VELOCITY_THRESHOLD),
+  gt(velocityY('right_wrist'), JUMPING_JACK_VELOCITY_THRESHOLD)
+);
+
+// Head position relative to elbows, normalised by forearm length (negative = above elbows)
+const headToElbowRatio = div(sub(y('nose'), elbowY), abs(sub(wristY, elbowY)));
+
+export const SQUATS = defineExercise({
+  key: 'SQUATS',
+  name: 'Squats',
+  measure: 'reps',
+  keyJoints: ['left_hip', 'left_knee', 'left_ankle', 'right_hip', 'right_knee', 'right_ankle'],
+  calibration: { metric: avgKnee, reference: { bottom: 85, top: 175 } },
+  phases: [
+    { state: 'down', when: lt(avgKnee, calibrated(140)) },
+    { state: 'up', when: gt(avgKnee, calibrated(150)) }
+  ],
+  reps: [{ from: ['down'], to: 'up' }],
+  romAngles: ['leftKnee', 'rightKnee', 'leftHip', 'rightHip'],
+  formRules: [
+    { when: gt(diff(angle('leftKnee'), angle('rightKnee')), 15), penalty: 0.2, correction: 'Keep your knees aligned' },
+    { when: gt(diff(angle('leftHip'), angle('rightHip')), 10), penalty: 0.1 },
+    {
+      when: all(inState('down'), any(gt(angle('leftKnee', 90), calibrated(100)), gt(angle('rightKnee', 90), calibrated(100)))),
+      correction: 'Go deeper into the squat'
+    }
+  ],
+  detection: [
+    { when: gt(spreadX('left_ankle', 'right_ankle'), 0.2), weight: 0.3 }, // Feet apart
+    { when: lt(avgKnee, 160), weight: 0.4 }, // Knees bent
+    { when: between(hipY, 0.4, 0.7), weight: 0.3 } // Hip at squat height
+  ],
+  defaults: { sets: 3, reps: 10 },
+  coaching: {
+    cues: ['Keep your chest up', 'Drive through your heels', 'Knees tracking over toes'],
+    complementary: 'Try some lunges to work different leg muscles'
+  }
+});
+
+export const PUSH_UPS = defineExercise({
+  key: 'PUSH_UPS',
+  name: 'Push-ups',
+  measure: 'reps',
+  keyJoints: ['left_shoulder', 'left_elbow', 'left_wrist', 'right_shoulder', 'right_elbow', 'right_wrist'],
+  camera: { orientations: ['angled', 'side'], hint: 'Turn about 45° to the camera for push-ups so I can see your elbows bend' },
+  calibration: { metric: avgElbow, reference: { bottom: 70, top: 175 } },
+  phases: [
+    { state: 'down', when: lt(avgElbow, calibrated(90)) },
+    { state: 'up', when: gt(avgElbow, calibrated(150)) }
+  ],
+  reps: [{ from: ['down'], to: 'up' }],
+  romAngles: ['leftElbow', 'rightElbow'],
+  formRules: [
+    { when: gt(diff(angle('leftElbow'), angle('rightElbow')), 20), penalty: 0.3, correction: 'Keep your arms even' },
+    { when: all(inState('down'), gt(angle('leftElbow', 90), calibrated(90))), correction: 'Lower your chest more' }
+  ],
+  detection: [
+    { when: lt(diff(y('left_shoulder'), y('left_hip')), 0.15), weight: 0.4 }, // Horizontal body
+    { when: gt(y('left_wrist'), 0.7), weight: 0.3 }, // Hands at ground level
+    { when: lt(angle('leftElbow'), 170), weight: 0.3 } // Arms bent
+  ],
+  defaults: { sets: 3, reps: 8 },
+  coaching: {
+    cues: ['Keep your core tight', 'Full range of motion', 'Elbows at 45 degrees'],
+    complementary: 'Switch to planks for core stability'
+  }
+});
+
+export const LUNGES = defineExercise({
+  key: 'LUNGES',
+  name: 'Lunges',
+  measure: 'reps',
+  keyJoints: ['left_hip', 'left_knee', 'left_ankle', 'right_hip', 'right_knee', 'right_ankle'],
+  calibration: { metric: frontKnee, reference: { bottom: 85, top: 175 } },
+  phases: [
+    { state: 'down', when: lt(frontKnee, calibrated(100)) },
+    { state: 'up', when: gt(frontKnee, calibrated(160)) }
+  ],
+  reps: [{ from: ['down'], to: 'up' }],
+  romAngles: ['leftKnee', 'rightKnee'],
+  // The front knee stays higher while the back knee drops towards the floor
+  unilateral: { leftSide: lt(y('left_knee'), y('right_knee')) },
+  baseFormScore: 0.8,
+  detection: [
+    { when: gt(spreadX('left_ankle', 'right_ankle'), 0.3), weight: 0.5 }, // Split stance
+    { when: gt(diff(angle('leftKnee'), angle('rightKnee')), 30), weight: 0.3 }, // One knee bent more
+    { when: any(lt(angle('leftKnee'), 120), lt(angle('rightKnee'), 120)), weight: 0.2 }
+  ],
+  defaults: { sets: 3, reps: 10 },
+  coaching: {
+    cues: ['Front knee over ankle', 'Back straight', 'Push through front heel'],
+    complementary: 'Move to squats for bilateral leg work'
+  }
+});
+
+export const JUMPING_JACKS = defineExercise({
+  key: 'JUMPING_JACKS',
+  name: 'Jumping Jacks',
+  measure: 'reps',
+  keyJoints: ['left_shoulder', 'left_hip', 'right_shoulder', 'right_hip'],
+  smoothingFactor: 0.9, // Less smoothing to detect fast movements
+  confirmationFrames: 1, // Fast exercise - accept phase changes immediately
+  velocityJoints: ['left_wrist', 'right_wrist'],
+  camera: { orientations: ['front'], hint: 'Face the camera square-on for jumping jacks' },
+  phases: [
+    // Arms up (full, partial with leg spread, or fast upward movement)
+    {
+      state: 'extended',
+      when: any(
+        all(leftArmUp, rightArmUp),
+        all(partialArmUp, legsSpread),
+        all(fastUpwardMovement, not(leftArmDown), not(rightArmDown))
+      )
+    },
+    // Arms down (full, partial with legs together, or fast downward movement)
+    {
+      state: 'contracted',
+      when: any(
+        all(leftArmDown, rightArmDown),
+        all(partialArmDown, legsTogether),
+        all(fastDownwardMovement, not(leftArmUp), not(rightArmUp))
+      )
+    }
+  ],
+  reps: [{ from: ['extended'], to: 'contracted' }],
+  romAngles: ['leftShoulder', 'rightShoulder'],
+  baseFormScore: 0.8,
+  detection: [
+    {
+      // Extended (arms up, legs apart) or together (arms down, legs close and
+      // straight - bent knees with the feet together are a squat, not a jack)
+      when: any(
+        all(wristsAboveShoulders, gt(ankleSpread, 0.3)),
+        all(not(wristsAboveShoulders), lt(ankleSpread, 0.15), gt(avgKnee, 160))
+      ),
+      weight: 0.6
+    },
+    { when: always, weight: 0.3 } // Transitioning
+  ],
+  defaults: { sets: 3, reps: 15 },
+  coaching: {
+    cues: ['Land softly', 'Full arm extension', 'Maintain rhythm'],
+    complementary: 'Rest with some planks for core work'
+  }
+});
+
+export const PLANKS = defineExercise({
+  key: 'PLANKS',
+  name: 'Planks',
+  measure: 'hold',
+  keyJoints: ['left_shoulder', 'left_hip', 'left_ankle', 'right_shoulder', 'right_hip', 'right_ankle'],
+  camera: { orientations: ['angled', 'side'], hint: 'Turn side-on to the camera so I can check your body line' },
+  phases: [
+    // Body horizontal with elbows bent (forearm plank) or arms straight
+    {
+      state: 'holding',
+      when: all(lt(diff(shoulderY, hipY), 0.15), any(lt(avgElbow, 100), gt(avgElbow, 150)))
+    }
+  ],
+  // Every second held counts as one "rep"
+  hold: { state: 'holding', secondsPerRep: 1 },
+  formRules: [
+    { when: gt(diff(shoulderY, hipY), 0.15), penalty: 0.3 }, // Hips too high or too low
+    { when: lt(hipY, sub(shoulderY, 0.1)), correction: 'Lower your hips' },
+    { when: gt(hipY, add(shoulderY, 0.1)), correction: 'Raise your hips' },
+    { when: gt(shoulderTilt, 0.05), penalty: 0.2, correction: 'Keep body straight' }
+  ],
+  detection: [
+    {
+      when: all(lt(diff(shoulderY, hipY), 0.1), lt(diff(hipY, midY('left_ankle', 'right_ankle')), 0.15)),
+      weight: 0.5
+    }, // Horizontal body
+    { when: gt(shoulderY, 0.6), weight: 0.3 }, // Low to ground
+    {
+      when: any(gt(y('left_elbow'), y('left_shoulder')), gt(y('right_elbow'), y('right_shoulder')), gt(shoulderY, 0.7)),
+      weight: 0.2
+    }
+  ],
+  defaults: { sets: 3, reps: 30 },
+  coaching: {
+    cues: ['Straight line from head to heels', 'Breathe normally', 'Engage your core'],
+    complementary: 'Try push-ups for upper body strength'
+  }
+});
+
+export const CHIN_UPS = defineExercise({
+  key: 'CHIN_UPS',
+  name: 'Chin-ups',
+  measure: 'reps',
+  keyJoints: ['left_wrist', 'left_elbow', 'left_shoulder', 'right_wrist', 'right_elbow', 'right_shoulder'],
+  camera: { orientations: ['front', 'angled'], hint: 'Face the camera for chin-ups so I can see both arms' },
+  phases: [
+    { state: 'hanging', when: gt(y('nose'), elbowY) }, // Head below elbows
+    { state: 'up', when: lt(headToElbowRatio, -0.7) }, // Head near wrist level
+    { state: 'pulling', when: lt(headToElbowRatio, -0.3) }, // Head moving up towards wrists
+    { state: 'hanging', when: always }
+  ],
+  reps: [{ from: ['pulling', 'up'], to: 'hanging' }],
+  romAngles: ['leftElbow', 'rightElbow'],
+  concentricFirst: true,
+  formRules: [
+    { when: gt(shoulderTilt, 0.05), penalty: 0.2, correction: 'Keep shoulders level' },
+    {
+      // Elbows should flare evenly on both sides
+      when: gt(diff(spreadX('left_elbow', 'left_shoulder'), spreadX('right_elbow', 'right_shoulder')), 0.1),
+      penalty: 0.2
+    },
+    { when: all(inState('pulling'), gt(y('nose'), elbowY)), correction: 'Pull higher' }
+  ],
+  detection: [
+    { when: wristsAboveShoulders, weight: 0.4 }, // Arms above head
+    { when: lt(spreadX('left_wrist', 'right_wrist'), 0.4), weight: 0.3 }, // Hands gripping bar
+    { when: lt(avg(angle('leftElbow'), angle('rightElbow')), 160), weight: 0.3 } // Arms bent (pulling up)
+  ],
+  defaults: { sets: 3, reps: 5 },
+  coaching: {
+    cues: ['Full extension at bottom', 'Chin over bar', 'Control the descent'],
+    complementary: 'Switch to push-ups for pushing movements'
+  }
+});
+
+export const EXERCISE_DEFINITIONS = [SQUATS, PUSH_UPS, LUNGES, JUMPING_JACKS, PLANKS, CHIN_UPS] as const;
+
+const definitionsByName = new Map<string, ExerciseDefinition>(
+  EXERCISE_DEFINITIONS.map((definition) => [definition.name, definition])
+);
+
+export function getExerciseDefinition(name: string): ExerciseDefinition | undefined {
+  return definitionsByName.get(name);
+}
@@ -0,0 +1,283 @@
+import type { Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// Building blocks for declarative exercise definitions (see ./exerciseDefinitions).
+// A definition describes an exercise as data: which joints matter, which
+// thresholds put the body in which phase, which phase transitions count as a
+// rep, and which form rules penalise the score or produce a correction.
+
+export type RepState = 'neutral' | 'down' | 'up' | 'extended' | 'contracted' | 'hanging' | 'pulling' | 'holding';
+
+export interface JointAngles {
+  leftKnee?: number;
+  rightKnee?: number;
+  leftElbow?: number;
+  rightElbow?: number;
+  leftHip?: number;
+  rightHip?: number;
+  leftShoulder?: number;
+  rightShoulder?: number;
+}
+
+export type AngleName = keyof JointAngles;
+
+export type Side = 'left' | 'right';
+
+// Where joint angles come from: 2D normalised image coordinates, or MediaPipe's
+// 3D world landmarks (metres, hip-centred) which don't depend on perspective
+export type AngleSource = 'image' | 'world';
+
+// How the user faces the camera: square-on, roughly 45 degrees, or side-on
+export type CameraOrientation = 'front' | 'angled' | 'side';
+
+// MediaPipe Pose landmark indices
+export const POSE_LANDMARKS = {
+  nose: 0,
+  left_shoulder: 11,
+  right_shoulder: 12,
+  left_elbow: 13,
+  right_elbow: 14,
+  left_wrist: 15,
+  right_wrist: 16,
+  left_hip: 23,
+  right_hip: 24,
+  left_knee: 25,
+  right_knee: 26,
+  left_ankle: 27,
+  right_ankle: 28
+} as const;
+
+export type JointName = keyof typeof POSE_LANDMARKS;
+
+// Values of a calibration metric at the bottom and top of a rep
+export interface CalibrationRange {
+  bottom: number;
+  top: number;
+}
+
+// Everything a rule can look at for a single frame
+export interface FrameContext {
+  landmarks: NormalizedLandmark[];
+  angles: JointAngles;
+  angleSource: AngleSource;
+  state: RepState;
+  velocities: Partial<Record<JointName, number>>; // Average vertical velocity (negative = moving up)
+  calibration?: { reference: CalibrationRange; personal: CalibrationRange }; // Set once the user has calibrated
+}
+
+export type Metric = (ctx: FrameContext) => number;
+export type Condition = (ctx: FrameContext) => boolean;
+
+export interface PhaseRule {
+  state: RepState;
+  when: Condition;
+}
+
+export interface RepTransition {
+  from: readonly RepState[];
+  to: RepState;
+}
+
+export interface FormRule {
+  when: Condition;
+  penalty?: number; // Subtracted from the form score when the rule matches
+  correction?: string; // Shown/spoken to the user when the rule matches
+}
+
+export interface PostureRule {
+  when: Condition;
+  weight: number; // Added to the detection confidence when the rule matches
+}
+
+export interface ExerciseDefinition<K extends string = string, N extends string = string> {
+  key: K; // Constant-style key, e.g. 'SQUATS'
+  name: N; // Canonical name shared with the server and persona config, e.g. 'Squats'
+  measure: 'reps' | 'hold'; // 'hold' exercises count seconds instead of reps
+  keyJoints: readonly JointName[];
+  smoothingFactor?: number; // Weight of the current frame vs history (default 0.7)
+  confirmationFrames?: number; // Consecutive frames before a phase change is accepted (default 2)
+  velocityJoints?: readonly JointName[]; // Joints whose vertical velocity is tracked for rules
+  phases: readonly PhaseRule[]; // Evaluated in order, first match wins, otherwise 'neutral'
+  reps?: readonly RepTransition[];
+  hold?: { state: RepState; secondsPerRep: number };
+  romAngles?: readonly AngleName[]; // Angles tracked for range of motion; the first drives tempo analytics
+  concentricFirst?: boolean; // Rep starts with the lifting phase (e.g. chin-ups) rather than the lowering one
+  unilateral?: { leftSide: Condition }; // One side works per rep; evaluated at the turnaround
+  camera?: { orientations: readonly CameraOrientation[]; hint: string }; // Views the 2D angle rules work from
+  // Metric that calibrated() thresholds are written against, and the range of a
+  // typical full rep they were tuned for
+  calibration?: { metric: Metric; reference: CalibrationRange };
+  baseFormScore?: number; // Score before penalties (default 1.0)
+  formRules?: readonly FormRule[];
+  detection: readonly PostureRule[]; // Used by MultiExerciseDetector to recognise the exercise
+  defaults: { sets: number; reps: number };
+  coaching: { cues: readonly string[]; complementary: string };
+}
+
+export function defineExercise<const K extends string, const N extends string>(
+  definition: ExerciseDefinition<K, N>
+): ExerciseDefinition<K, N> {
+  return definition;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+export function calculateAngle(a: NormalizedLandmark, b: NormalizedLandmark, c: NormalizedLandmark): number {
+  const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+  let angle = Math.abs(radians * 180.0 / Math.PI);
+  if (angle > 180.0) {
+    angle = 360 - angle;
+  }
+  return angle;
+}
+
+// Angle at b from 3D world landmarks, unaffected by how the user faces the camera
+export function calculateAngle3D(a: Landmark, b: Landmark, c: Landmark): number {
+  const ba = { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+  const bc = { x: c.x - b.x, y: c.y - b.y, z: c.z - b.z };
+  const magnitude = Math.hypot(ba.x, ba.y, ba.z) * Math.hypot(bc.x, bc.y, bc.z);
+  if (magnitude === 0) return 180;
+  const cosine = (ba.x * bc.x + ba.y * bc.y + ba.z * bc.z) / magnitude;
+  return Math.acos(Math.max(-1, Math.min(1, cosine))) * 180.0 / Math.PI;
+}
+
+export function calculateJointAngles(landmarks: NormalizedLandmark[] | Landmark[], source: AngleSource = 'image'): JointAngles {
+  const at = (joint: JointName) => landmarks[POSE_LANDMARKS[joint]];
+  const angleAt = (a: JointName, b: JointName, c: JointName) =>
+    source === 'world'
+      ? calculateAngle3D(at(a), at(b), at(c))
+      : calculateAngle(at(a), at(b), at(c));
+
+  return {
+    leftKnee: angleAt('left_hip', 'left_knee', 'left_ankle'),
+    rightKnee: angleAt('right_hip', 'right_knee', 'right_ankle'),
+    leftElbow: angleAt('left_shoulder', 'left_elbow', 'left_wrist'),
+    rightElbow: angleAt('right_shoulder', 'right_elbow', 'right_wrist'),
+    leftHip: angleAt('left_shoulder', 'left_hip', 'left_knee'),
+    rightHip: angleAt('right_shoulder', 'right_hip', 'right_knee'),
+    // Shoulder angles measure arm elevation from hip to wrist (used by jumping jacks)
+    leftShoulder: angleAt('left_hip', 'left_shoulder', 'left_wrist'),
+    rightShoulder: angleAt('right_hip', 'right_shoulder', 'right_wrist')
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+const toMetric = (value: number | Metric): Metric =>
+  typeof value === 'number' ? () => value : value;
+
+export const angle = (name: AngleName, fallback = 180): Metric =>
+  (ctx) => ctx.angles[name] || fallback;
+
+export const x = (joint: JointName): Metric =>
+  (ctx) => ctx.landmarks[POSE_LANDMARKS[joint]].x;
+
+export const y = (joint: JointName): Metric =>
+  (ctx) => ctx.landmarks[POSE_LANDMARKS[joint]].y;
+
+export const velocityY = (joint: JointName): Metric =>
+  (ctx) => ctx.velocities[joint] ?? 0;
+
+export const avg = (...metrics: Metric[]): Metric =>
+  (ctx) => metrics.reduce((sum, m) => sum + m(ctx), 0) / metrics.length;
+
+export const min = (...metrics: Metric[]): Metric =>
+  (ctx) => Math.min(...metrics.map((m) => m(ctx)));
+
+export const sub = (a: Metric, b: number | Metric): Metric =>
+  (ctx) => a(ctx) - toMetric(b)(ctx);
+
+export const add = (a: Metric, b: number | Metric): Metric =>
+  (ctx) => a(ctx) + toMetric(b)(ctx);
+
+export const scale = (a: Metric, factor: number): Metric =>
+  (ctx) => a(ctx) * factor;
+
+export const div = (a: Metric, b: Metric): Metric =>
+  (ctx) => a(ctx) / b(ctx);
+
+export const abs = (a: Metric): Metric =>
+  (ctx) => Math.abs(a(ctx));
+
+// Absolute difference between two metrics, e.g. left vs right knee angle
+export const diff = (a: Metric, b: Metric): Metric => abs(sub(a, b));
+
+export const midY = (a: JointName, b: JointName): Metric => avg(y(a), y(b));
+
+// A threshold on the definition's calibration metric. Once the user has
+// calibrated, it moves to the same relative point within their own range.
+export const calibrated = (value: number): Metric =>
+  (ctx) => {
+    if (!ctx.calibration) return value;
+    const { reference, personal } = ctx.calibration;
+    const fraction = (value - reference.bottom) / (reference.top - reference.bottom);
+    return personal.bottom + fraction * (personal.top - personal.bottom);
+  };
+
+export const spreadX = (a: JointName, b: JointName): Metric => diff(x(a), x(b));
+
+// ---------------------------------------------------------------------------
+// Conditions
+// ---------------------------------------------------------------------------
+
+export const lt = (a: Metric, b: number | Metric): Condition =>
+  (ctx) => a(ctx) < toMetric(b)(ctx);
+
+export const gt = (a: Metric, b: number | Metric): Condition =>
+  (ctx) => a(ctx) > toMetric(b)(ctx);
+
+export const between = (a: Metric, low: number, high: number): Condition =>
+  (ctx) => {
+    const value = a(ctx);
+    return value > low && value < high;
+  };
+
+export const all = (...conditions: Condition[]): Condition =>
+  (ctx) => conditions.every((c) => c(ctx));
+
+export const any = (...conditions: Condition[]): Condition =>
+  (ctx) => conditions.some((c) => c(ctx));
+
+export const not = (condition: Condition): Condition =>
+  (ctx) => !condition(ctx);
+
+export const inState = (...states: RepState[]): Condition =>
+  (ctx) => states.includes(ctx.state);
+
+export const always: Condition = () => true;
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export function evaluatePhase(definition: ExerciseDefinition, ctx: FrameContext): RepState {
+  const phase = definition.phases.find((p) => p.when(ctx));
+  return phase ? phase.state : 'neutral';
+}
+
+export function isRepTransition(definition: ExerciseDefinition, prevState: RepState, newState: RepState): boolean {
+  return (definition.reps || []).some((t) => t.to === newState && t.from.includes(prevState));
+}
+
+export function evaluateForm(
+  definition: ExerciseDefinition,
+  ctx: FrameContext
+): { formScore: number; corrections: string[] } {
+  let score = definition.baseFormScore ?? 1.0;
+  const corrections: string[] = [];
+
+  for (const rule of definition.formRules || []) {
+    if (!rule.when(ctx)) continue;
+    if (rule.penalty) score -= rule.penalty;
+    if (rule.correction) corrections.push(rule.correction);
+  }
+
+  return { formScore: Math.max(0, score), corrections };
+}
+
+export function evaluatePosture(definition: ExerciseDefinition, ctx: FrameContext): number {
+  return definition.detection.reduce((score, rule) => (rule.when(ctx) ? score + rule.weight : score), 0);
+}
@@ -1,9 +1,25 @@
-import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
 import type { ExerciseType } from './exercises';
-import { EXERCISE } from './exercises';
-
-// ExerciseType now comes from shared constants in ./exercises
-export type RepState = 'neutral' | 'down' | 'up' | 'extended' | 'contracted' | 'hanging' | 'pulling' | 'holding';
+import { getExerciseDefinition } from './exerciseDefinitions';
+import {
+  calculateJointAngles,
+  evaluateForm,
+  evaluatePhase,
+  isRepTransition,
+  POSE_LANDMARKS,
+  type AngleSource,
+  type ExerciseDefinition,
+  type FrameContext,
+  type JointAngles,
+  type JointName,
+  type RepState
+} from './exerciseDsl';
+import { CameraSetupMonitor, type CameraSetupStatus } from './cameraSetup';
+import type { ExerciseCalibration, ExerciseCalibrations } from './repCalibration';
+import { RepAnalyticsTracker, type AsymmetrySummary, type RepEvent, type RepsBySide } from './repAnalytics';
+
+// RepState/JointAngles live with the exercise DSL; re-exported for existing imports
+export type { JointAngles, RepState };
 
 export interface ExerciseFeedback {
   repCount: number;
@@ -13,38 +29,23 @@ export interface ExerciseFeedback {
   isRepComplete: boolean;
   isSetComplete: boolean;
   isNewPersonalRecord: boolean;
+  isFatigued: boolean; // Rep velocity has dropped off across the set
+  repEvent?: RepEvent; // Present on the frame a rep completes
+  repsBySide?: RepsBySide; // Unilateral exercises, e.g. lunges
+  setup?: CameraSetupStatus; // Counting is paused while setup is invalid
+  angleSource: AngleSource; // Landmarks this frame's angles and form score were computed from
 }
 
-export interface JointAngles {
-  leftKnee?: number;
-  rightKnee?: number;
-  leftElbow?: number;
-  rightElbow?: number;
-  leftHip?: number;
-  rightHip?: number;
-  leftShoulder?: number;
-  rightShoulder?: number;
+export interface RepCounterOptions {
+  // Compute joint angles from MediaPipe's 3D world landmarks when the frame has
+  // them, falling back to 2D image landmarks otherwise
+  useWorldLandmarks?: boolean;
+  // The user's saved calibrations; the counter picks up its own exercise's entry
+  calibrations?: ExerciseCalibrations;
 }
 
-// MediaPipe Pose landmark indices
-const POSE_LANDMARKS = {
-  NOSE: 0,
-  LEFT_SHOULDER: 11,
-  RIGHT_SHOULDER: 12,
-  LEFT_ELBOW: 13,
-  RIGHT_ELBOW: 14,
-  LEFT_WRIST: 15,
-  RIGHT_WRIST: 16,
-  LEFT_HIP: 23,
-  RIGHT_HIP: 24,
-  LEFT_KNEE: 25,
-  RIGHT_KNEE: 26,
-  LEFT_ANKLE: 27,
-  RIGHT_ANKLE: 28
-};
-
 export class ExerciseRepCounter {
-  private exerciseType: ExerciseType;
+  private definition: ExerciseDefinition;
   private repState: RepState = 'neutral';
   private repCount: number = 0;
   private targetReps: number = 10;
@@ -56,43 +57,90 @@ export class ExerciseRepCounter {
   // Frame confirmation for stability
   private pendingState: RepState | null = null;
   private pendingStateFrames: number = 0;
-  private readonly CONFIRMATION_FRAMES = 2; // Require 2 consecutive frames
+  private readonly CONFIRMATION_FRAMES = 2; // Default: require 2 consecutive frames
   
   // Position history for exponential smoothing
   private landmarkHistory: NormalizedLandmark[][] = [];
+  private worldLandmarkHistory: Landmark[][] = [];
+  private angleSource: AngleSource = 'image';
   private readonly POSITION_HISTORY_SIZE = 3;
-  private readonly SMOOTHING_FACTOR = 0.7; // Weight for current frame vs history
-  private readonly JUMPING_JACK_SMOOTHING_FACTOR = 0.9; // Less smoothing for faster detection
+  private readonly SMOOTHING_FACTOR = 0.7; // Default weight for current frame vs history
   
-  // Velocity tracking for jumping jacks
-  private wristVelocities: { left: number; right: number }[] = [];
+  // Vertical velocity tracking for the definition's velocityJoints
+  private velocityHistory: Partial<Record<JointName, number>>[] = [];
   private readonly VELOCITY_HISTORY_SIZE = 3;
-  private readonly VELOCITY_THRESHOLD = 0.02; // Minimum velocity to consider movement
   
-  // Plank timing
-  private plankStartTime: number | null = null;
-  private plankHoldTime: number = 0;
-  // Seconds of hold time that equate to one "rep" for planks. Previously hard-coded to 10.
-  // Setting this to 1 means every second contributes a rep, which matches UX expectations.
-  private readonly PLANK_SECONDS_PER_REP = 1;
-
-  constructor(exerciseType: ExerciseType, targetReps: number = 10) {
-    this.exerciseType = exerciseType;
+  // Hold timing (planks and other 'hold' exercises)
+  private holdStartTime: number | null = null;
+  private holdTime: number = 0;
+  
+  // Per-rep tempo, range of motion and velocity loss
+  private analytics: RepAnalyticsTracker;
+  private onRepCallback?: (event: RepEvent) => void;
+  
+  // Camera position / key joint visibility gate
+  private setupMonitor: CameraSetupMonitor;
+  
+  // Personal top/bottom range for the definition's calibrated() thresholds
+  private calibration: ExerciseCalibration | null;
+
+  constructor(
+    exercise: ExerciseType | ExerciseDefinition,
+    targetReps: number = 10,
+    private options: RepCounterOptions = {}
+  ) {
+    const definition = typeof exercise === 'string' ? getExerciseDefinition(exercise) : exercise;
+    if (!definition) {
+      throw new Error(`No exercise definition for: ${exercise}`);
+    }
+    this.definition = definition;
     this.targetReps = targetReps;
+    this.analytics = new RepAnalyticsTracker(definition);
+    this.setupMonitor = new CameraSetupMonitor(definition);
+    this.calibration = (definition.calibration && options.calibrations?.[definition.name]) || null;
+  }
+
+  setOnRepCallback(callback: (event: RepEvent) => void) {
+    this.onRepCallback = callback;
   }
 
-  processFrame(landmarks: NormalizedLandmark[]): ExerciseFeedback {
-    // Remember previous rep count so we can detect increments (especially for planks)
+  processFrame(
+    landmarks: NormalizedLandmark[],
+    timestamp: number = Date.now(),
+    worldLandmarks?: Landmark[]
+  ): ExerciseFeedback {
+    // Remember previous rep count so we can detect increments (especially for holds)
     const prevRepCount = this.repCount;
     if (!landmarks || landmarks.length < 33) {
       return this.getDefaultFeedback();
     }
 
+    // Don't count from a camera position the exercise's angle rules can't read
+    const setup = this.setupMonitor.update(landmarks);
+    if (!setup.valid) {
+      return {
+        ...this.getDefaultFeedback(),
+        corrections: setup.guidance ? [setup.guidance] : [],
+        setup
+      };
+    }
+
     // Apply exponential smoothing to landmarks
-    const smoothedLandmarks = this.smoothLandmarks(landmarks);
-    
-    // Calculate joint angles from smoothed positions
-    const angles = this.calculateJointAngles(smoothedLandmarks);
+    const smoothedLandmarks = this.smoothLandmarks(landmarks, this.landmarkHistory);
+    
+    // Calculate joint angles from smoothed positions, in 3D when enabled and available
+    const angleSource: AngleSource = this.options.useWorldLandmarks && worldLandmarks && worldLandmarks.length >= 33
+      ? 'world'
+      : 'image';
+    if (angleSource !== this.angleSource) {
+      // 2D and 3D angles differ for the same pose, so don't average across a switch
+      this.angleHistory = [];
+      this.worldLandmarkHistory = [];
+      this.angleSource = angleSource;
+    }
+    const angles = angleSource === 'world'
+      ? calculateJointAngles(this.smoothLandmarks(worldLandmarks!, this.worldLandmarkHistory), 'world')
+      : calculateJointAngles(smoothedLandmarks);
     
     // Smooth angles using history
     this.angleHistory.push(angles);
@@ -101,8 +149,18 @@ export class ExerciseRepCounter {
     }
     const smoothedAngles = this.smoothAngles();
 
-    // Determine current state based on exercise type
-    const candidateState = this.determineState(smoothedAngles, smoothedLandmarks);
+    const ctx: FrameContext = {
+      landmarks: smoothedLandmarks,
+      angles: smoothedAngles,
+      angleSource,
+      state: this.repState,
+      velocities: this.trackVelocities(smoothedLandmarks),
+      calibration: this.getCalibrationFor(angleSource)
+    };
+    this.analytics.recordFrame(ctx, timestamp);
+
+    // Determine current phase from the exercise definition
+    const candidateState = evaluatePhase(this.definition, ctx);
     
     // Apply frame confirmation for stability
     const confirmedState = this.confirmStateChange(candidateState);
@@ -110,142 +168,136 @@ export class ExerciseRepCounter {
     // Check for rep completion with confirmed state
     let isRepComplete = false;
     if (confirmedState !== this.repState) {
-      isRepComplete = this.detectRepCompletion(this.repState, confirmedState);
+      isRepComplete = isRepTransition(this.definition, this.repState, confirmedState);
       if (isRepComplete) {
         this.repCount++;
       }
       this.repState = confirmedState;
       
-      // Handle plank timing
-    if (this.exerciseType === EXERCISE.PLANKS) {
-        if (confirmedState === 'holding' && !this.plankStartTime) {
-          // Start the timer when we first enter a valid plank hold
-          this.plankStartTime = Date.now();
-        } else if (confirmedState !== 'holding' && this.plankStartTime) {
-          // We exited the plank – finalise the hold duration
-          this.plankHoldTime = Math.floor((Date.now() - this.plankStartTime) / 1000);
-          this.plankStartTime = null;
-          // Convert seconds held to rep count using the new constant
-          this.repCount = Math.floor(this.plankHoldTime / this.PLANK_SECONDS_PER_REP);
+      // Handle hold timing
+      const hold = this.definition.hold;
+      if (hold) {
+        if (confirmedState === hold.state && !this.holdStartTime) {
+          // Start the timer when we first enter a valid hold
+          this.holdStartTime = timestamp;
+        } else if (confirmedState !== hold.state && this.holdStartTime) {
+          // We exited the hold – finalise the hold duration
+          this.holdTime = Math.floor((timestamp - this.holdStartTime) / 1000);
+          this.holdStartTime = null;
+          this.repCount = Math.floor(this.holdTime / hold.secondsPerRep);
         }
       }
     }
     
-    if (this.exerciseType === EXERCISE.PLANKS && this.plankStartTime) {
+    if (this.definition.hold && this.holdStartTime) {
       // Continuous update while holding
-      this.plankHoldTime = Math.floor((Date.now() - this.plankStartTime) / 1000);
-      this.repCount = Math.floor(this.plankHoldTime / this.PLANK_SECONDS_PER_REP);
+      this.holdTime = Math.floor((timestamp - this.holdStartTime) / 1000);
+      this.repCount = Math.floor(this.holdTime / this.definition.hold.secondsPerRep);
     }
     
     this.frameCount++;
 
-    // Detect if rep count increased this frame (important for planks where state may not change)
+    // Detect if rep count increased this frame (important for holds where state may not change)
     const repIncremented = this.repCount > prevRepCount;
 
-    // Calculate form score and corrections
-      const formScore = this.calculateFormScore(smoothedAngles, smoothedLandmarks);
-    const corrections = this.getFormCorrections(smoothedAngles, smoothedLandmarks);
+    // Calculate form score and corrections against the confirmed state
+    const { formScore, corrections } = evaluateForm(this.definition, { ...ctx, state: this.repState });
 
-      return {
+    let repEvent: RepEvent | undefined;
+    if (isRepComplete && this.definition.measure === 'reps') {
+      repEvent = this.analytics.completeRep(this.repCount, formScore, timestamp);
+      this.onRepCallback?.(repEvent);
+    }
+
+    return {
       repCount: this.repCount,
       state: this.repState,
       formScore,
-      corrections,
-        isRepComplete: this.exerciseType === EXERCISE.PLANKS ? repIncremented : isRepComplete,
+      // Asymmetry from the last rep stays surfaced until the next one
+      corrections: [...corrections, ...this.analytics.getAsymmetryCorrections()],
+      isRepComplete: this.definition.measure === 'hold' ? repIncremented : isRepComplete,
       isSetComplete: this.repCount >= this.targetReps,
-      isNewPersonalRecord: this.repCount > this.personalRecord
+      isNewPersonalRecord: this.repCount > this.personalRecord,
+      isFatigued: this.analytics.isFatigued(),
+      repEvent,
+      repsBySide: this.analytics.getRepsBySide(),
+      setup,
+      angleSource
     };
   }
 
-  private calculateJointAngles(landmarks: NormalizedLandmark[]): JointAngles {
-    const angles: JointAngles = {};
-
-    // Calculate knee angles
-    angles.leftKnee = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.LEFT_HIP],
-      landmarks[POSE_LANDMARKS.LEFT_KNEE],
-      landmarks[POSE_LANDMARKS.LEFT_ANKLE]
-    );
-    angles.rightKnee = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.RIGHT_HIP],
-      landmarks[POSE_LANDMARKS.RIGHT_KNEE],
-      landmarks[POSE_LANDMARKS.RIGHT_ANKLE]
-    );
+  getRepEvents(): RepEvent[] {
+    return this.analytics.getEvents();
+  }
 
-    // Calculate elbow angles
-    angles.leftElbow = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
-      landmarks[POSE_LANDMARKS.LEFT_ELBOW],
-      landmarks[POSE_LANDMARKS.LEFT_WRIST]
-    );
-    angles.rightElbow = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER],
-      landmarks[POSE_LANDMARKS.RIGHT_ELBOW],
-      landmarks[POSE_LANDMARKS.RIGHT_WRIST]
-    );
+  getVelocityLoss(): number {
+    return this.analytics.getVelocityLoss();
+  }
 
-    // Calculate hip angles
-    angles.leftHip = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
-      landmarks[POSE_LANDMARKS.LEFT_HIP],
-      landmarks[POSE_LANDMARKS.LEFT_KNEE]
-    );
-    angles.rightHip = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER],
-      landmarks[POSE_LANDMARKS.RIGHT_HIP],
-      landmarks[POSE_LANDMARKS.RIGHT_KNEE]
-    );
+  getAsymmetrySummary(): AsymmetrySummary {
+    return this.analytics.getAsymmetrySummary();
+  }
 
-    // Calculate shoulder angles - for jumping jacks, measure arm elevation from hip to wrist
-    angles.leftShoulder = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.LEFT_HIP],
-      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
-      landmarks[POSE_LANDMARKS.LEFT_WRIST]
-    );
-    angles.rightShoulder = this.calculateAngle(
-      landmarks[POSE_LANDMARKS.RIGHT_HIP],
-      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER],
-      landmarks[POSE_LANDMARKS.RIGHT_WRIST]
-    );
+  isCalibrated(): boolean {
+    return this.calibration !== null;
+  }
 
-    return angles;
+  private getCalibrationFor(angleSource: AngleSource): FrameContext['calibration'] {
+    const reference = this.definition.calibration?.reference;
+    // 2D and 3D angles for the same pose differ, so a calibration only applies to its own source
+    if (!reference || !this.calibration || this.calibration.angleSource !== angleSource) {
+      return undefined;
+    }
+    return { reference, personal: { bottom: this.calibration.bottom, top: this.calibration.top } };
   }
 
-  private calculateAngle(
-    a: NormalizedLandmark,
-    b: NormalizedLandmark,
-    c: NormalizedLandmark
-  ): number {
-    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-    let angle = Math.abs(radians * 180.0 / Math.PI);
-    if (angle > 180.0) {
-      angle = 360 - angle;
+  private trackVelocities(landmarks: NormalizedLandmark[]): Partial<Record<JointName, number>> {
+    const joints = this.definition.velocityJoints;
+    if (!joints || joints.length === 0) return {};
+
+    if (this.landmarkHistory.length > 1) {
+      const prevLandmarks = this.landmarkHistory[this.landmarkHistory.length - 2];
+      const frameVelocities: Partial<Record<JointName, number>> = {};
+      joints.forEach(joint => {
+        const index = POSE_LANDMARKS[joint];
+        // Negative = moving up, positive = moving down
+        frameVelocities[joint] = landmarks[index].y - prevLandmarks[index].y;
+      });
+      this.velocityHistory.push(frameVelocities);
+      if (this.velocityHistory.length > this.VELOCITY_HISTORY_SIZE) {
+        this.velocityHistory.shift();
+      }
     }
-    return angle;
+
+    const averages: Partial<Record<JointName, number>> = {};
+    if (this.velocityHistory.length > 0) {
+      joints.forEach(joint => {
+        averages[joint] = this.velocityHistory.reduce((sum, v) => sum + (v[joint] ?? 0), 0) / this.velocityHistory.length;
+      });
+    }
+    return averages;
   }
 
-  private smoothLandmarks(landmarks: NormalizedLandmark[]): NormalizedLandmark[] {
+  private smoothLandmarks<T extends Landmark>(landmarks: T[], landmarkHistory: T[][]): T[] {
     // Add to history
-    this.landmarkHistory.push([...landmarks]);
-    if (this.landmarkHistory.length > this.POSITION_HISTORY_SIZE) {
-      this.landmarkHistory.shift();
+    landmarkHistory.push([...landmarks]);
+    if (landmarkHistory.length > this.POSITION_HISTORY_SIZE) {
+      landmarkHistory.shift();
     }
     
     // If not enough history, return original
-    if (this.landmarkHistory.length === 1) {
+    if (landmarkHistory.length === 1) {
       return landmarks;
     }
     
     // Apply exponential smoothing
-    const smoothed: NormalizedLandmark[] = [];
-    // Use less smoothing for jumping jacks to detect fast movements
-    const smoothingFactor = this.exerciseType === EXERCISE.JUMPING_JACKS 
-      ? this.JUMPING_JACK_SMOOTHING_FACTOR 
-      : this.SMOOTHING_FACTOR;
+    const smoothed: T[] = [];
+    // Fast exercises (e.g. jumping jacks) use less smoothing to detect quick movements
+    const smoothingFactor = this.definition.smoothingFactor ?? this.SMOOTHING_FACTOR;
     
     for (let i = 0; i < landmarks.length; i++) {
       const current = landmarks[i];
-      const history = this.landmarkHistory.slice(0, -1).map(h => h[i]);
+      const history = landmarkHistory.slice(0, -1).map(h => h[i]);
       
       // Calculate weighted average
       let weightedX = current.x * smoothingFactor;
@@ -262,10 +314,10 @@ export class ExerciseRepCounter {
       });
       
       smoothed.push({
+        ...current,
         x: weightedX,
         y: weightedY,
-        z: weightedZ,
-        visibility: current.visibility
+        z: weightedZ
       });
     }
     
@@ -292,8 +344,10 @@ export class ExerciseRepCounter {
   }
   
   private confirmStateChange(candidateState: RepState): RepState {
-    // Jumping Jacks are fast; no confirmation needed - accept state changes immediately
-    if (this.exerciseType === EXERCISE.JUMPING_JACKS) {
+    const requiredFrames = this.definition.confirmationFrames ?? this.CONFIRMATION_FRAMES;
+
+    // Fast exercises need no confirmation - accept state changes immediately
+    if (requiredFrames <= 1) {
       this.pendingState = null;
       this.pendingStateFrames = 0;
       return candidateState;
@@ -316,9 +370,6 @@ export class ExerciseRepCounter {
     // If same pending state, increment counter
     this.pendingStateFrames++;
     
-    // Use standard confirmation frames since jumping jacks already return early
-    const requiredFrames = this.CONFIRMATION_FRAMES;
-    
     // If we've seen enough frames, confirm the change
     if (this.pendingStateFrames >= requiredFrames) {
       this.pendingState = null;
@@ -329,400 +380,6 @@ export class ExerciseRepCounter {
     return this.repState; // Keep current state
   }
 
-  private determineState(angles: JointAngles, landmarks: NormalizedLandmark[]): RepState {
-    switch (this.exerciseType) {
-      case EXERCISE.SQUATS:
-        return this.determineSquatState(angles);
-      case EXERCISE.PUSH_UPS:
-        return this.determinePushupState(angles);
-      case EXERCISE.LUNGES:
-        return this.determineLungeState(angles);
-      case EXERCISE.JUMPING_JACKS:
-        return this.determineJumpingJackState(angles, landmarks);
-      case EXERCISE.PLANKS:
-        return this.determinePlankState(angles, landmarks);
-      case EXERCISE.CHIN_UPS:
-        return this.determinePullUpState(landmarks);
-      default:
-        return 'neutral';
-    }
-  }
-
-  private determineSquatState(angles: JointAngles): RepState {
-    const avgKneeAngle = ((angles.leftKnee || 180) + (angles.rightKnee || 180)) / 2;
-    
-    // More forgiving thresholds
-    if (avgKneeAngle < 140) {  // Was 100, now 120 (less deep required)
-      return 'down'; // Squatting position
-    } else if (avgKneeAngle > 150) {  // Was 160, now 150 (less straight required)
-      return 'up'; // Standing position
-    }
-    return 'neutral';
-  }
-
-  private determinePushupState(angles: JointAngles): RepState {
-    const avgElbowAngle = ((angles.leftElbow || 180) + (angles.rightElbow || 180)) / 2;
-    
-    if (avgElbowAngle < 90) {
-      return 'down'; // Lowered position
-    } else if (avgElbowAngle > 150) {
-      return 'up'; // Extended position
-    }
-    return 'neutral';
-  }
-
-  private determineLungeState(angles: JointAngles): RepState {
-    const frontKnee = Math.min(angles.leftKnee || 180, angles.rightKnee || 180);
-    
-    if (frontKnee < 100) {
-      return 'down'; // Lunge position
-    } else if (frontKnee > 160) {
-      return 'up'; // Standing position
-    }
-    return 'neutral';
-  }
-
-  private determineJumpingJackState(_angles: JointAngles, landmarks: NormalizedLandmark[]): RepState {
-    // Get all necessary landmarks
-    const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
-    const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
-    const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-    const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-    const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
-    const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-    const leftAnkle = landmarks[POSE_LANDMARKS.LEFT_ANKLE];
-    const rightAnkle = landmarks[POSE_LANDMARKS.RIGHT_ANKLE];
-    
-    // VELOCITY TRACKING - Calculate wrist velocities for fast movement detection
-    let leftVelocity = 0;
-    let rightVelocity = 0;
-    
-    if (this.landmarkHistory.length > 1) {
-      const prevLandmarks = this.landmarkHistory[this.landmarkHistory.length - 2];
-      const prevLeftWrist = prevLandmarks[POSE_LANDMARKS.LEFT_WRIST];
-      const prevRightWrist = prevLandmarks[POSE_LANDMARKS.RIGHT_WRIST];
-      
-      // Calculate vertical velocity (negative = moving up, positive = moving down)
-      leftVelocity = leftWrist.y - prevLeftWrist.y;
-      rightVelocity = rightWrist.y - prevRightWrist.y;
-      
-      // Store velocity history
-      this.wristVelocities.push({ left: leftVelocity, right: rightVelocity });
-      if (this.wristVelocities.length > this.VELOCITY_HISTORY_SIZE) {
-        this.wristVelocities.shift();
-      }
-    }
-    
-    // Calculate average velocities
-    const avgLeftVelocity = this.wristVelocities.length > 0 
-      ? this.wristVelocities.reduce((sum, v) => sum + v.left, 0) / this.wristVelocities.length 
-      : 0;
-    const avgRightVelocity = this.wristVelocities.length > 0 
-      ? this.wristVelocities.reduce((sum, v) => sum + v.right, 0) / this.wristVelocities.length 
-      : 0;
-    
-    // Detect fast upward/downward movement
-    const fastUpwardMovement = avgLeftVelocity < -this.VELOCITY_THRESHOLD && avgRightVelocity < -this.VELOCITY_THRESHOLD;
-    const fastDownwardMovement = avgLeftVelocity > this.VELOCITY_THRESHOLD && avgRightVelocity > this.VELOCITY_THRESHOLD;
-    
-    // ARM DETECTION - More sensitive thresholds
-    // Check if wrists are above shoulders (arms up) - reduced threshold from 0.05 to 0.02
-    const leftArmUp = leftWrist.y < leftShoulder.y - 0.02;  // Y increases downward
-    const rightArmUp = rightWrist.y < rightShoulder.y - 0.02;
-    
-    // Check if wrists are near or below hips (arms down) - more forgiving
-    const leftArmDown = leftWrist.y > leftHip.y - 0.1;  // Arms don't need to be fully down
-    const rightArmDown = rightWrist.y > rightHip.y - 0.1;
-    
-    // LEG DETECTION - Check if feet are spread apart
-    const hipWidth = Math.abs(leftHip.x - rightHip.x);
-    const ankleSpread = Math.abs(leftAnkle.x - rightAnkle.x);
-    const legsSpread = ankleSpread > hipWidth * 1.5;  // Feet spread wider than hips
-    const legsTogether = ankleSpread < hipWidth * 1.2;  // Feet close together
-    
-    // PARTIAL MOVEMENT DETECTION - Allow for less than perfect form
-    const partialArmUp = (leftArmUp || rightArmUp) && 
-                        (leftWrist.y < leftShoulder.y + 0.1 && rightWrist.y < rightShoulder.y + 0.1);
-    const partialArmDown = (leftArmDown || rightArmDown) && 
-                          (leftWrist.y > leftShoulder.y - 0.1 && rightWrist.y > rightShoulder.y - 0.1);
-    
-    // Debug logging
-    if (this.frameCount % 30 === 0) {
-      console.log('[Jumping Jack Debug]', {
-        armPositions: {
-          leftWristY: leftWrist.y.toFixed(2),
-          leftShoulderY: leftShoulder.y.toFixed(2),
-          rightWristY: rightWrist.y.toFixed(2),
-          rightShoulderY: rightShoulder.y.toFixed(2),
-          leftArmUp,
-          rightArmUp,
-          partialArmUp
-        },
-        legPositions: {
-          hipWidth: hipWidth.toFixed(2),
-          ankleSpread: ankleSpread.toFixed(2),
-          legsSpread,
-          legsTogether
-        },
-        velocity: {
-          leftVelocity: leftVelocity.toFixed(3),
-          rightVelocity: rightVelocity.toFixed(3),
-          avgLeftVelocity: avgLeftVelocity.toFixed(3),
-          avgRightVelocity: avgRightVelocity.toFixed(3),
-          fastUpwardMovement,
-          fastDownwardMovement
-        },
-        wouldBeState: (leftArmUp && rightArmUp) ? 'extended' : (leftArmDown && rightArmDown) ? 'contracted' : 'neutral'
-      });
-    }
-    
-    // State determination with velocity consideration
-    // For fast movements, be more lenient with position requirements
-    if ((leftArmUp && rightArmUp) || (partialArmUp && legsSpread) || 
-        (fastUpwardMovement && !leftArmDown && !rightArmDown)) {
-      return 'extended';  // Arms up (full, partial with leg spread, or fast upward movement)
-    } else if ((leftArmDown && rightArmDown) || (partialArmDown && legsTogether) || 
-               (fastDownwardMovement && !leftArmUp && !rightArmUp)) {
-      return 'contracted';  // Arms down (full, partial with legs together, or fast downward movement)
-    }
-    return 'neutral';
-  }
-  
-  private determinePlankState(angles: JointAngles, landmarks: NormalizedLandmark[]): RepState {
-    // For planks, we check if the body is in a proper plank position
-    const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-    const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-    const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
-    const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-    
-    // Check if person is horizontal (shoulders and hips at similar Y level)
-    const avgShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
-    const avgHipY = (leftHip.y + rightHip.y) / 2;
-    const bodyAngle = Math.abs(avgShoulderY - avgHipY);
-    
-    // Check if elbows are bent (for forearm plank) or arms straight
-    const avgElbowAngle = ((angles.leftElbow || 180) + (angles.rightElbow || 180)) / 2;
-    const isInPlankPosition = bodyAngle < 0.15 && (avgElbowAngle < 100 || avgElbowAngle > 150);
-    
-    // Debug logging
-    if (this.frameCount % 30 === 0) {
-      console.log('[Plank Debug]', {
-        bodyAngle: bodyAngle.toFixed(3),
-        avgElbowAngle: avgElbowAngle.toFixed(1),
-        isInPlankPosition
-      });
-    }
-    
-    if (isInPlankPosition) {
-      return 'holding';
-    }
-    return 'neutral';
-  }
-  
-  private determinePullUpState(landmarks: NormalizedLandmark[]): RepState {
-    const nose = landmarks[POSE_LANDMARKS.NOSE];
-    const leftElbow = landmarks[POSE_LANDMARKS.LEFT_ELBOW];
-    const rightElbow = landmarks[POSE_LANDMARKS.RIGHT_ELBOW];
-    const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
-    const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
-    
-    // Calculate average elbow and wrist positions
-    const avgElbowY = (leftElbow.y + rightElbow.y) / 2;
-    const avgWristY = (leftWrist.y + rightWrist.y) / 2;
-    
-    // Calculate relative position of head to elbows and wrists
-    const headToElbowRatio = (nose.y - avgElbowY) / Math.abs(avgWristY - avgElbowY);
-    
-    // Determine state based on relative positioning
-    if (nose.y > avgElbowY) {
-      return 'hanging'; // Head below elbows
-    } else if (headToElbowRatio < -0.3) {
-      return 'pulling'; // Head moving up towards wrists
-    } else if (headToElbowRatio < -0.7) {
-      return 'up'; // Head near wrist level
-    }
-    
-    return 'hanging';
-  }
-
-  private detectRepCompletion(prevState: RepState, newState: RepState): boolean {
-    switch (this.exerciseType) {
-      case EXERCISE.SQUATS:
-      case EXERCISE.PUSH_UPS:
-      case EXERCISE.LUNGES:
-        // Count rep when going from down to up
-        return prevState === 'down' && newState === 'up';
-      case EXERCISE.JUMPING_JACKS:
-        // Count rep when going from extended to contracted
-        return prevState === 'extended' && newState === 'contracted';
-      case EXERCISE.PLANKS:
-        // Planks don't have traditional reps, timing is handled separately
-        return false;
-      case EXERCISE.CHIN_UPS:
-        // Count rep when completing the chin-up motion
-        return (prevState === 'pulling' || prevState === 'up') && newState === 'hanging';
-      default:
-        return false;
-    }
-  }
-
-  private calculateFormScore(angles: JointAngles, landmarks: NormalizedLandmark[]): number {
-    switch (this.exerciseType) {
-      case EXERCISE.SQUATS:
-        return this.calculateSquatFormScore(angles);
-      case EXERCISE.PUSH_UPS:
-        return this.calculatePushupFormScore(angles);
-      case EXERCISE.CHIN_UPS:
-        return this.calculatePullUpFormScore(landmarks);
-      case EXERCISE.PLANKS:
-        return this.calculatePlankFormScore(angles, landmarks);
-      default:
-        return 0.8; // Default good form
-    }
-  }
-
-  private calculateSquatFormScore(angles: JointAngles): number {
-    let score = 1.0;
-    
-    // Check knee alignment (should not go past toes)
-    const kneeAngleDiff = Math.abs((angles.leftKnee || 180) - (angles.rightKnee || 180));
-    if (kneeAngleDiff > 15) {
-      score -= 0.2; // Uneven squat
-    }
-    
-    // Check hip alignment
-    const hipAngleDiff = Math.abs((angles.leftHip || 180) - (angles.rightHip || 180));
-    if (hipAngleDiff > 10) {
-      score -= 0.1;
-    }
-    
-    return Math.max(0, score);
-  }
-
-  private calculatePushupFormScore(angles: JointAngles): number {
-    let score = 1.0;
-    
-    // Check elbow alignment
-    const elbowAngleDiff = Math.abs((angles.leftElbow || 180) - (angles.rightElbow || 180));
-    if (elbowAngleDiff > 20) {
-      score -= 0.3; // Uneven push-up
-    }
-    
-    return Math.max(0, score);
-  }
-  
-  private calculatePlankFormScore(_angles: JointAngles, landmarks: NormalizedLandmark[]): number {
-    let score = 1.0;
-    
-    const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-    const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-    const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
-    const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-    
-    // Check if body is straight (shoulders and hips aligned)
-    const avgShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
-    const avgHipY = (leftHip.y + rightHip.y) / 2;
-    const bodyAlignment = Math.abs(avgShoulderY - avgHipY);
-    
-    if (bodyAlignment > 0.15) {
-      score -= 0.3; // Hips too high or too low
-    }
-    
-    // Check if shoulders are level
-    const shoulderLevelDiff = Math.abs(leftShoulder.y - rightShoulder.y);
-    if (shoulderLevelDiff > 0.05) {
-      score -= 0.2; // Uneven shoulders
-    }
-    
-    return Math.max(0, score);
-  }
-  
-  private calculatePullUpFormScore(landmarks: NormalizedLandmark[]): number {
-    let score = 1.0;
-    
-    const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-    const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-    const leftElbow = landmarks[POSE_LANDMARKS.LEFT_ELBOW];
-    const rightElbow = landmarks[POSE_LANDMARKS.RIGHT_ELBOW];
-    
-    // Check if shoulders are level
-    const shoulderLevelDiff = Math.abs(leftShoulder.y - rightShoulder.y);
-    if (shoulderLevelDiff > 0.05) {
-      score -= 0.2; // Uneven pull
-    }
-    
-    // Check if elbows are aligned
-    const elbowAlignmentDiff = Math.abs(leftElbow.x - leftShoulder.x) - Math.abs(rightElbow.x - rightShoulder.x);
-    if (Math.abs(elbowAlignmentDiff) > 0.1) {
-      score -= 0.2; // Poor elbow alignment
-    }
-    
-    return Math.max(0, score);
-  }
-
-  private getFormCorrections(angles: JointAngles, landmarks: NormalizedLandmark[]): string[] {
-    const corrections: string[] = [];
-    
-    switch (this.exerciseType) {
-      case EXERCISE.SQUATS:
-        const kneeAngleDiff = Math.abs((angles.leftKnee || 180) - (angles.rightKnee || 180));
-        if (kneeAngleDiff > 15) {
-          corrections.push('Keep your knees aligned');
-        }
-        if (this.repState === 'down' && ((angles.leftKnee || 90) > 100 || (angles.rightKnee || 90) > 100)) {
-          corrections.push('Go deeper into the squat');
-        }
-        break;
-      
-      case EXERCISE.PUSH_UPS:
-        const elbowAngleDiff = Math.abs((angles.leftElbow || 180) - (angles.rightElbow || 180));
-        if (elbowAngleDiff > 20) {
-          corrections.push('Keep your arms even');
-        }
-        if (this.repState === 'down' && ((angles.leftElbow || 90) > 90)) {
-          corrections.push('Lower your chest more');
-        }
-        break;
-        
-      case EXERCISE.PLANKS:
-        const leftShoulderP = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-        const rightShoulderP = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-        const leftHipP = landmarks[POSE_LANDMARKS.LEFT_HIP];
-        const rightHipP = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-        
-        const avgShoulderYP = (leftShoulderP.y + rightShoulderP.y) / 2;
-        const avgHipYP = (leftHipP.y + rightHipP.y) / 2;
-        
-        if (avgHipYP < avgShoulderYP - 0.1) {
-          corrections.push('Lower your hips');
-        } else if (avgHipYP > avgShoulderYP + 0.1) {
-          corrections.push('Raise your hips');
-        }
-        
-        const shoulderLevelDiffP = Math.abs(leftShoulderP.y - rightShoulderP.y);
-        if (shoulderLevelDiffP > 0.05) {
-          corrections.push('Keep body straight');
-        }
-        break;
-        
-      case EXERCISE.CHIN_UPS:
-        const leftShoulderC = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-        const rightShoulderC = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-        const shoulderLevelDiffC = Math.abs(leftShoulderC.y - rightShoulderC.y);
-        
-        if (shoulderLevelDiffC > 0.05) {
-          corrections.push('Keep shoulders level');
-        }
-        if (this.repState === 'pulling' && landmarks[POSE_LANDMARKS.NOSE].y > 
-            (landmarks[POSE_LANDMARKS.LEFT_ELBOW].y + landmarks[POSE_LANDMARKS.RIGHT_ELBOW].y) / 2) {
-          corrections.push('Pull higher');
-        }
-        break;
-    }
-    
-    return corrections;
-  }
-
   private getDefaultFeedback(): ExerciseFeedback {
     return {
       repCount: this.repCount,
@@ -731,7 +388,9 @@ export class ExerciseRepCounter {
       corrections: ['Position yourself in frame'],
       isRepComplete: false,
       isSetComplete: false,
-      isNewPersonalRecord: false
+      isNewPersonalRecord: false,
+      isFatigued: this.analytics.isFatigued(),
+      angleSource: this.angleSource
     };
   }
 
@@ -743,9 +402,13 @@ export class ExerciseRepCounter {
     this.pendingState = null;
     this.pendingStateFrames = 0;
     this.landmarkHistory = [];
-    this.wristVelocities = [];
-    this.plankStartTime = null;
-    this.plankHoldTime = 0;
+    this.worldLandmarkHistory = [];
+    this.angleSource = 'image';
+    this.velocityHistory = [];
+    this.holdStartTime = null;
+    this.holdTime = 0;
+    this.analytics.reset();
+    this.setupMonitor.reset();
   }
 
   setPersonalRecord(record: number) {
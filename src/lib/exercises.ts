@@ -1,23 +1,16 @@
-export const EXERCISE = {
-  SQUATS: 'Squats',
-  PUSH_UPS: 'Push-ups',
-  LUNGES: 'Lunges',
-  JUMPING_JACKS: 'Jumping Jacks',
-  PLANKS: 'Planks',
-  CHIN_UPS: 'Chin-ups',
-} as const;
+import { EXERCISE_DEFINITIONS } from './exerciseDefinitions';
 
-export const EXERCISES = [
-  EXERCISE.SQUATS,
-  EXERCISE.PUSH_UPS,
-  EXERCISE.LUNGES,
-  EXERCISE.JUMPING_JACKS,
-  EXERCISE.PLANKS,
-  EXERCISE.CHIN_UPS,
-] as const;
+// Names and keys are derived from the exercise catalog so that adding a
+// definition extends these constants (and the ExerciseName union) automatically.
+type Definitions = typeof EXERCISE_DEFINITIONS;
 
-export type ExerciseName = typeof EXERCISES[number];
+export type ExerciseName = Definitions[number]['name'];
 export type ExerciseType = ExerciseName;
 
-export const EXERCISE_SET: ReadonlySet<ExerciseName> = new Set(EXERCISES);
+export const EXERCISE = Object.fromEntries(
+  EXERCISE_DEFINITIONS.map((definition) => [definition.key, definition.name])
+) as { readonly [D in Definitions[number] as D['key']]: D['name'] };
+
+export const EXERCISES: readonly ExerciseName[] = EXERCISE_DEFINITIONS.map((definition) => definition.name);
 
+export const EXERCISE_SET: ReadonlySet<ExerciseName> = new Set(EXERCISES);
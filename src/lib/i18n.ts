@@ -0,0 +1,300 @@
+// Client-side strings for multilingual sessions. Detectors and the plan
+// counter keep producing English (the server matches on it for cue clips
+// and coaching context); the UI translates at display time.
+
+export type Language = 'en' | 'es' | 'fr' | 'de';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Labels are in the language itself so users can find theirs
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' }
+];
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some(({ code }) => code === value);
+}
+
+interface Catalog {
+  // English source string (with {param} placeholders) -> translation
+  strings: Record<string, string>;
+  // Single words that appear inside placeholders, e.g. body parts and sides
+  words: Record<string, string>;
+}
+
+const CATALOGS: Record<Exclude<Language, 'en'>, Catalog> = {
+  es: {
+    strings: {
+      // Workout UI
+      'seconds': 'segundos',
+      'Next: {exercise}': 'Siguiente: {exercise}',
+      'Pause': 'Pausa',
+      'Resume': 'Reanudar',
+      "I'm OK": 'Estoy bien',
+      'End workout': 'Terminar entrenamiento',
+      'Skip': 'Saltar',
+      'Take deep breaths': 'Respira hondo',
+      'Stay hydrated': 'Mantente hidratado',
+      'Keep moving lightly': 'Sigue moviéndote suavemente',
+      'Focus on your form': 'Concéntrate en tu técnica',
+      'Prepare for the next set': 'Prepárate para la siguiente serie',
+      'Quiet coach': 'Coach callado',
+      'Normal coach': 'Coach normal',
+      'Chatty coach': 'Coach hablador',
+      // Exercises
+      'Squats': 'Sentadillas',
+      'Push-ups': 'Flexiones',
+      'Lunges': 'Zancadas',
+      'Jumping Jacks': 'Saltos de tijera',
+      'Planks': 'Plancha',
+      'Chin-ups': 'Dominadas',
+      // Form corrections
+      'Keep your knees aligned': 'Mantén las rodillas alineadas',
+      'Go deeper into the squat': 'Baja más en la sentadilla',
+      'Keep your arms even': 'Mantén los brazos parejos',
+      'Lower your chest more': 'Baja más el pecho',
+      'Lower your hips': 'Baja la cadera',
+      'Raise your hips': 'Sube la cadera',
+      'Keep body straight': 'Mantén el cuerpo recto',
+      'Keep shoulders level': 'Mantén los hombros nivelados',
+      'Pull higher': 'Tira más alto',
+      'Position yourself in frame': 'Colócate dentro del encuadre',
+      'No exercise selected': 'Ningún ejercicio seleccionado',
+      "Match your depth - your left leg isn't going as low": 'Iguala la profundidad: tu pierna izquierda no baja tanto',
+      "Match your depth - your right leg isn't going as low": 'Iguala la profundidad: tu pierna derecha no baja tanto',
+      "Even out your depth - your left side isn't going as deep": 'Iguala la profundidad: tu lado izquierdo no baja tanto',
+      "Even out your depth - your right side isn't going as deep": 'Iguala la profundidad: tu lado derecho no baja tanto',
+      'Move both sides together - your left side is lagging': 'Mueve ambos lados a la vez: tu lado izquierdo se retrasa',
+      'Move both sides together - your right side is lagging': 'Mueve ambos lados a la vez: tu lado derecho se retrasa',
+      "Keep your hips centred - you're shifting to the left": 'Mantén la cadera centrada: te desplazas a la izquierda',
+      "Keep your hips centred - you're shifting to the right": 'Mantén la cadera centrada: te desplazas a la derecha',
+      // Camera setup
+      'Step into the frame so I can see you': 'Entra en el encuadre para que pueda verte',
+      'Move towards the middle of the frame, your {joints} are out of view': 'Muévete hacia el centro del encuadre, no se ven tus {joints}',
+      'Step back, your {joints} are cut off': 'Da un paso atrás, tus {joints} quedan cortados',
+      'Make sure your {joints} are visible to the camera': 'Asegúrate de que la cámara vea tus {joints}',
+      'Turn so the camera sees you from the {orientations}': 'Gírate para que la cámara te vea de {orientations}',
+      'Turn about 45° to the camera for push-ups so I can see your elbows bend': 'Gírate unos 45° respecto a la cámara en las flexiones para que vea cómo doblas los codos',
+      'Face the camera square-on for jumping jacks': 'Ponte de frente a la cámara para los saltos de tijera',
+      'Turn side-on to the camera so I can check your body line': 'Ponte de lado a la cámara para que pueda revisar la línea de tu cuerpo',
+      'Face the camera for chin-ups so I can see both arms': 'Ponte de frente a la cámara en las dominadas para que vea ambos brazos',
+      // Plan progress
+      '{count} rep to go!': '¡Queda {count} repetición!',
+      '{count} reps to go!': '¡Quedan {count} repeticiones!',
+      'Target hit!': '¡Objetivo cumplido!',
+      '{count} reps - keep going until the buzzer!': '{count} repeticiones: ¡sigue hasta la señal!',
+      '{count} reps completed!': '¡{count} repeticiones completadas!',
+      'Great set! Rest for {seconds}s before set {set}': '¡Gran serie! Descansa {seconds}s antes de la serie {set}',
+      'Excellent work! Time to move to the next exercise.': '¡Excelente trabajo! Es hora de pasar al siguiente ejercicio.',
+      'Workout complete! Great job! 💪': '¡Entrenamiento completado! ¡Buen trabajo! 💪',
+      "Great job! You've completed your target. Time to rest or switch exercises.": '¡Buen trabajo! Has cumplido tu objetivo. Descansa o cambia de ejercicio.',
+      "Impressive! You're exceeding your plan. Consider saving energy for the next exercise.": '¡Impresionante! Estás superando tu plan. Guarda energía para el siguiente ejercicio.',
+      "Incredible endurance! You've crushed your target. Time to channel this energy into your next exercise!": '¡Resistencia increíble! Has superado tu objetivo. ¡Lleva esa energía al siguiente ejercicio!'
+    },
+    words: {
+      and: 'y', or: 'o',
+      head: 'cabeza', shoulders: 'hombros', elbows: 'codos', wrists: 'muñecas',
+      hips: 'caderas', knees: 'rodillas', ankles: 'tobillos',
+      front: 'frente', side: 'lado', angled: 'lado en ángulo'
+    }
+  },
+  fr: {
+    strings: {
+      'seconds': 'secondes',
+      'Next: {exercise}': 'Ensuite : {exercise}',
+      'Pause': 'Pause',
+      'Resume': 'Reprendre',
+      "I'm OK": 'Ça va',
+      'End workout': 'Terminer la séance',
+      'Skip': 'Passer',
+      'Take deep breaths': 'Respirez profondément',
+      'Stay hydrated': 'Hydratez-vous',
+      'Keep moving lightly': 'Continuez à bouger doucement',
+      'Focus on your form': 'Concentrez-vous sur votre technique',
+      'Prepare for the next set': 'Préparez-vous pour la série suivante',
+      'Quiet coach': 'Coach discret',
+      'Normal coach': 'Coach normal',
+      'Chatty coach': 'Coach bavard',
+      'Squats': 'Squats',
+      'Push-ups': 'Pompes',
+      'Lunges': 'Fentes',
+      'Jumping Jacks': 'Jumping jacks',
+      'Planks': 'Gainage',
+      'Chin-ups': 'Tractions',
+      'Keep your knees aligned': 'Gardez les genoux alignés',
+      'Go deeper into the squat': 'Descendez plus bas dans le squat',
+      'Keep your arms even': 'Gardez les bras à la même hauteur',
+      'Lower your chest more': 'Descendez davantage la poitrine',
+      'Lower your hips': 'Baissez les hanches',
+      'Raise your hips': 'Remontez les hanches',
+      'Keep body straight': 'Gardez le corps droit',
+      'Keep shoulders level': 'Gardez les épaules à niveau',
+      'Pull higher': 'Tirez plus haut',
+      'Position yourself in frame': 'Placez-vous dans le cadre',
+      'No exercise selected': 'Aucun exercice sélectionné',
+      "Match your depth - your left leg isn't going as low": 'Égalisez la profondeur : votre jambe gauche descend moins',
+      "Match your depth - your right leg isn't going as low": 'Égalisez la profondeur : votre jambe droite descend moins',
+      "Even out your depth - your left side isn't going as deep": 'Égalisez la profondeur : votre côté gauche descend moins',
+      "Even out your depth - your right side isn't going as deep": 'Égalisez la profondeur : votre côté droit descend moins',
+      'Move both sides together - your left side is lagging': 'Bougez les deux côtés ensemble : votre côté gauche est en retard',
+      'Move both sides together - your right side is lagging': 'Bougez les deux côtés ensemble : votre côté droit est en retard',
+      "Keep your hips centred - you're shifting to the left": 'Gardez les hanches centrées : vous vous décalez vers la gauche',
+      "Keep your hips centred - you're shifting to the right": 'Gardez les hanches centrées : vous vous décalez vers la droite',
+      'Step into the frame so I can see you': 'Entrez dans le cadre pour que je puisse vous voir',
+      'Move towards the middle of the frame, your {joints} are out of view': 'Rapprochez-vous du centre du cadre, vos {joints} ne sont pas visibles',
+      'Step back, your {joints} are cut off': 'Reculez, vos {joints} sont coupés',
+      'Make sure your {joints} are visible to the camera': 'Assurez-vous que vos {joints} sont visibles par la caméra',
+      'Turn so the camera sees you from the {orientations}': 'Tournez-vous pour que la caméra vous voie de {orientations}',
+      'Turn about 45° to the camera for push-ups so I can see your elbows bend': 'Tournez-vous d’environ 45° pour les pompes afin que je voie vos coudes plier',
+      'Face the camera square-on for jumping jacks': 'Faites bien face à la caméra pour les jumping jacks',
+      'Turn side-on to the camera so I can check your body line': 'Mettez-vous de profil pour que je vérifie l’alignement de votre corps',
+      'Face the camera for chin-ups so I can see both arms': 'Faites face à la caméra pour les tractions afin que je voie vos deux bras',
+      '{count} rep to go!': 'Encore {count} répétition !',
+      '{count} reps to go!': 'Encore {count} répétitions !',
+      'Target hit!': 'Objectif atteint !',
+      '{count} reps - keep going until the buzzer!': '{count} répétitions, continuez jusqu’au signal !',
+      '{count} reps completed!': '{count} répétitions terminées !',
+      'Great set! Rest for {seconds}s before set {set}': 'Belle série ! Reposez-vous {seconds}s avant la série {set}',
+      'Excellent work! Time to move to the next exercise.': 'Excellent travail ! Passons à l’exercice suivant.',
+      'Workout complete! Great job! 💪': 'Séance terminée ! Bravo ! 💪',
+      "Great job! You've completed your target. Time to rest or switch exercises.": 'Bravo ! Objectif atteint. Reposez-vous ou changez d’exercice.',
+      "Impressive! You're exceeding your plan. Consider saving energy for the next exercise.": 'Impressionnant ! Vous dépassez votre plan. Gardez de l’énergie pour l’exercice suivant.',
+      "Incredible endurance! You've crushed your target. Time to channel this energy into your next exercise!": 'Endurance incroyable ! Objectif pulvérisé. Mettez cette énergie dans l’exercice suivant !'
+    },
+    words: {
+      and: 'et', or: 'ou',
+      head: 'tête', shoulders: 'épaules', elbows: 'coudes', wrists: 'poignets',
+      hips: 'hanches', knees: 'genoux', ankles: 'chevilles',
+      front: 'face', side: 'profil', angled: 'trois-quarts'
+    }
+  },
+  de: {
+    strings: {
+      'seconds': 'Sekunden',
+      'Next: {exercise}': 'Als Nächstes: {exercise}',
+      'Pause': 'Pause',
+      'Resume': 'Weiter',
+      "I'm OK": "Mir geht's gut",
+      'End workout': 'Training beenden',
+      'Skip': 'Überspringen',
+      'Take deep breaths': 'Atme tief durch',
+      'Stay hydrated': 'Trink genug',
+      'Keep moving lightly': 'Bleib locker in Bewegung',
+      'Focus on your form': 'Achte auf deine Technik',
+      'Prepare for the next set': 'Mach dich bereit für den nächsten Satz',
+      'Quiet coach': 'Ruhiger Coach',
+      'Normal coach': 'Normaler Coach',
+      'Chatty coach': 'Gesprächiger Coach',
+      'Squats': 'Kniebeugen',
+      'Push-ups': 'Liegestütze',
+      'Lunges': 'Ausfallschritte',
+      'Jumping Jacks': 'Hampelmänner',
+      'Planks': 'Unterarmstütz',
+      'Chin-ups': 'Klimmzüge',
+      'Keep your knees aligned': 'Halte die Knie in einer Linie',
+      'Go deeper into the squat': 'Geh tiefer in die Kniebeuge',
+      'Keep your arms even': 'Halte die Arme gleichmäßig',
+      'Lower your chest more': 'Senk die Brust weiter ab',
+      'Lower your hips': 'Senk die Hüfte',
+      'Raise your hips': 'Heb die Hüfte an',
+      'Keep body straight': 'Halte den Körper gerade',
+      'Keep shoulders level': 'Halte die Schultern waagerecht',
+      'Pull higher': 'Zieh dich höher',
+      'Position yourself in frame': 'Stell dich ins Bild',
+      'No exercise selected': 'Keine Übung ausgewählt',
+      "Match your depth - your left leg isn't going as low": 'Gleich tief gehen: dein linkes Bein geht nicht so weit runter',
+      "Match your depth - your right leg isn't going as low": 'Gleich tief gehen: dein rechtes Bein geht nicht so weit runter',
+      "Even out your depth - your left side isn't going as deep": 'Gleich tief gehen: deine linke Seite geht nicht so tief',
+      "Even out your depth - your right side isn't going as deep": 'Gleich tief gehen: deine rechte Seite geht nicht so tief',
+      'Move both sides together - your left side is lagging': 'Beweg beide Seiten gleichzeitig: deine linke Seite hängt hinterher',
+      'Move both sides together - your right side is lagging': 'Beweg beide Seiten gleichzeitig: deine rechte Seite hängt hinterher',
+      "Keep your hips centred - you're shifting to the left": 'Halte die Hüfte mittig: du verlagerst nach links',
+      "Keep your hips centred - you're shifting to the right": 'Halte die Hüfte mittig: du verlagerst nach rechts',
+      'Step into the frame so I can see you': 'Stell dich ins Bild, damit ich dich sehen kann',
+      'Move towards the middle of the frame, your {joints} are out of view': 'Geh mehr zur Bildmitte, deine {joints} sind nicht zu sehen',
+      'Step back, your {joints} are cut off': 'Geh einen Schritt zurück, deine {joints} sind abgeschnitten',
+      'Make sure your {joints} are visible to the camera': 'Achte darauf, dass die Kamera deine {joints} sieht',
+      'Turn so the camera sees you from the {orientations}': 'Dreh dich so, dass die Kamera dich von {orientations} sieht',
+      'Turn about 45° to the camera for push-ups so I can see your elbows bend': 'Dreh dich bei Liegestützen etwa 45° zur Kamera, damit ich deine Ellbogen sehe',
+      'Face the camera square-on for jumping jacks': 'Stell dich für Hampelmänner frontal zur Kamera',
+      'Turn side-on to the camera so I can check your body line': 'Stell dich seitlich zur Kamera, damit ich deine Körperlinie prüfen kann',
+      'Face the camera for chin-ups so I can see both arms': 'Schau bei Klimmzügen zur Kamera, damit ich beide Arme sehe',
+      '{count} rep to go!': 'Noch {count} Wiederholung!',
+      '{count} reps to go!': 'Noch {count} Wiederholungen!',
+      'Target hit!': 'Ziel erreicht!',
+      '{count} reps - keep going until the buzzer!': '{count} Wiederholungen – weiter bis zum Signal!',
+      '{count} reps completed!': '{count} Wiederholungen geschafft!',
+      'Great set! Rest for {seconds}s before set {set}': 'Starker Satz! {seconds}s Pause vor Satz {set}',
+      'Excellent work! Time to move to the next exercise.': 'Super Arbeit! Weiter zur nächsten Übung.',
+      'Workout complete! Great job! 💪': 'Training geschafft! Gut gemacht! 💪',
+      "Great job! You've completed your target. Time to rest or switch exercises.": 'Gut gemacht! Ziel erreicht. Mach Pause oder wechsle die Übung.',
+      "Impressive! You're exceeding your plan. Consider saving energy for the next exercise.": 'Beeindruckend! Du übertriffst deinen Plan. Spar etwas Energie für die nächste Übung.',
+      "Incredible endurance! You've crushed your target. Time to channel this energy into your next exercise!": 'Unglaubliche Ausdauer! Ziel pulverisiert. Steck die Energie in die nächste Übung!'
+    },
+    words: {
+      and: 'und', or: 'oder',
+      head: 'Kopf', shoulders: 'Schultern', elbows: 'Ellbogen', wrists: 'Handgelenke',
+      hips: 'Hüften', knees: 'Knie', ankles: 'Knöchel',
+      front: 'vorne', side: 'der Seite', angled: 'schräg'
+    }
+  }
+};
+
+type Params = Record<string, string | number>;
+
+function interpolate(text: string, params?: Params): string {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+// Translate a known UI string, filling {param} placeholders
+export function t(text: string, language: Language, params?: Params): string {
+  const catalog = language === 'en' ? undefined : CATALOGS[language];
+  return interpolate(catalog?.strings[text] ?? text, params);
+}
+
+// Templates with placeholders, compiled once into matchers for translateMessage
+const TEMPLATES = Object.keys(CATALOGS.es.strings)
+  .filter((text) => text.includes('{'))
+  .map((text) => {
+    const names: string[] = [];
+    const source = text
+      .split(/(\{\w+\})/)
+      .map((part) => {
+        const placeholder = /^\{(\w+)\}$/.exec(part);
+        if (!placeholder) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        names.push(placeholder[1]);
+        return '(.+?)';
+      })
+      .join('');
+    return { text, names, pattern: new RegExp(`^${source}$`) };
+  });
+
+/**
+ * Translate a message generated in English at runtime, e.g. camera setup
+ * guidance or plan progress. Exact catalog entries win; otherwise the message
+ * is matched against the catalog's templates and the captured values (body
+ * parts, sides, numbers) are translated word by word. Unknown messages are
+ * shown as-is.
+ */
+export function translateMessage(message: string, language: Language): string {
+  if (language === 'en' || !message) return message;
+  const catalog = CATALOGS[language];
+  if (catalog.strings[message]) return catalog.strings[message];
+
+  for (const template of TEMPLATES) {
+    const match = template.pattern.exec(message);
+    if (!match) continue;
+    const params = Object.fromEntries(
+      template.names.map((name, index) => [
+        name,
+        match[index + 1].replace(/[a-z]+/gi, (word) => catalog.words[word] ?? word)
+      ])
+    );
+    return t(template.text, language, params);
+  }
+  return message;
+}
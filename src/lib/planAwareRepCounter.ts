@@ -1,6 +1,10 @@
-import { ExerciseRepCounter, ExerciseFeedback } from './exerciseRepCounter';
+import type { Landmark } from '@mediapipe/tasks-vision';
+import { ExerciseRepCounter, ExerciseFeedback, type RepCounterOptions } from './exerciseRepCounter';
+import type { AsymmetrySummary } from './repAnalytics';
+import type { SetLoad } from './setLoad';
+import { isIntervalFormat, type IntervalSettings, type WorkoutFormat } from './workoutFormats';
 import type { ExerciseType } from './exercises';
-import { EXERCISE } from './exercises';
+import { getExerciseDefinition } from './exerciseDefinitions';
 
 export interface ExerciseGuidance {
   action: 'continue' | 'rest' | 'switch' | 'complete';
@@ -8,6 +12,7 @@ export interface ExerciseGuidance {
   nextExercise?: string;
   restDuration?: number;
   formCue?: string;
+  repsRemaining?: number; // Left in the current set or interval target, when there is one
 }
 
 export interface ExercisePlan {
@@ -16,12 +21,33 @@ export interface ExercisePlan {
   targetReps: number;
   restDuration: number;
   order: number;
+  load?: SetLoad; // Prescribed external load; absent for bodyweight
+  supersetGroup?: string; // Consecutive exercises sharing a group alternate (format 'superset')
 }
 
 export interface WorkoutPlan {
   exercises: ExercisePlan[];
   totalDuration: number;
   difficulty: string;
+  format?: WorkoutFormat; // Defaults to 'sets'
+  interval?: IntervalSettings; // Overrides for the format's timings
+}
+
+// A plan edit the coach made mid-workout through a tool call, validated and applied server-side
+export type WorkoutPlanChange =
+  | { type: 'adjust_reps'; exercise: ExerciseType; targetReps: number; sets: number }
+  | { type: 'swap_exercise'; from: ExerciseType; to: ExerciseType }
+  | { type: 'add_set'; exercise: ExerciseType; sets: number }
+  | { type: 'extend_rest'; seconds: number }
+  | { type: 'end_workout'; reason: string | null };
+
+// Plan position for crash recovery; the rep counter itself restarts at the set boundary
+export interface PlanCounterSnapshot {
+  currentExerciseIndex: number;
+  currentSet: number;
+  completedExercises: ExerciseType[];
+  setHistory: [ExerciseType, number[]][];
+  intervalTarget: number | null;
 }
 
 export class PlanAwareRepCounter {
@@ -32,8 +58,9 @@ export class PlanAwareRepCounter {
   private completedExercises: Set<ExerciseType> = new Set();
   private setHistory: Map<ExerciseType, number[]> = new Map(); // Track reps per set
   private currentRepCount: number = 0; // Track current rep count
+  private intervalTarget: number | null = null; // Reps for the current interval segment; null when timed
   
-  constructor(workoutPlan: WorkoutPlan) {
+  constructor(workoutPlan: WorkoutPlan, private counterOptions: RepCounterOptions = {}) {
     this.currentPlan = workoutPlan;
   }
   
@@ -42,7 +69,7 @@ export class PlanAwareRepCounter {
     this.currentRepCount = 0;
     
     // ExerciseRepCounter expects canonical ExerciseType; pass through directly
-    this.repCounter = new ExerciseRepCounter(exerciseType);
+    this.repCounter = new ExerciseRepCounter(exerciseType, undefined, this.counterOptions);
     
     // Find this exercise in the plan (exact match on canonical)
     const planIndex = this.currentPlan.exercises.findIndex(
@@ -54,7 +81,7 @@ export class PlanAwareRepCounter {
     }
   }
   
-  processFrame(landmarks: any): ExerciseFeedback & { guidance?: ExerciseGuidance } {
+  processFrame(landmarks: any, worldLandmarks?: Landmark[]): ExerciseFeedback & { guidance?: ExerciseGuidance } {
     if (!this.repCounter) {
       return {
         state: 'neutral',
@@ -62,13 +89,15 @@ export class PlanAwareRepCounter {
         isRepComplete: false,
         isSetComplete: false,
         isNewPersonalRecord: false,
+        isFatigued: false,
+        angleSource: 'image',
         formScore: 0,
         corrections: ['No exercise selected']
       };
     }
     
     // Get base feedback from rep counter
-    const feedback = this.repCounter.processFrame(landmarks);
+    const feedback = this.repCounter.processFrame(landmarks, undefined, worldLandmarks);
     
     // Update current rep count
     this.currentRepCount = feedback.repCount;
@@ -90,6 +119,11 @@ export class PlanAwareRepCounter {
   onRepCompleted(exercise: ExerciseType, repCount: number): ExerciseGuidance {
     const planExercise = this.currentPlan.exercises[this.currentExerciseIndex];
     
+    // Interval formats move on by clock or segment target, driven by WorkoutFlowManager
+    if (isIntervalFormat(this.currentPlan.format)) {
+      return this.getIntervalGuidance(exercise, repCount);
+    }
+    
     if (!planExercise) {
       return this.handleUnplannedExercise(exercise, repCount);
     }
@@ -114,6 +148,7 @@ export class PlanAwareRepCounter {
         return {
           action: 'rest',
           message: `Great set! Rest for ${planExercise.restDuration}s before set ${this.currentSet}`,
+          repsRemaining: 0,
           nextExercise: exercise,
           restDuration: planExercise.restDuration
         };
@@ -127,12 +162,14 @@ export class PlanAwareRepCounter {
           return {
             action: 'switch',
             message: 'Excellent work! Time to move to the next exercise.',
+            repsRemaining: 0,
             nextExercise: nextExercise.exerciseType
           };
         } else {
           return {
             action: 'complete',
-            message: 'Workout complete! Great job! 💪'
+            message: 'Workout complete! Great job! 💪',
+            repsRemaining: 0
           };
         }
       }
@@ -143,7 +180,25 @@ export class PlanAwareRepCounter {
     return {
       action: 'continue',
       message: `${repsRemaining} rep${repsRemaining === 1 ? '' : 's'} to go!`,
-      formCue: this.getFormCue(exercise, repCount)
+      formCue: this.getFormCue(exercise, repCount),
+      repsRemaining
+    };
+  }
+  
+  private getIntervalGuidance(exercise: ExerciseType, repCount: number): ExerciseGuidance {
+    if (this.intervalTarget === null) {
+      return {
+        action: 'continue',
+        message: `${repCount} reps - keep going until the buzzer!`,
+        formCue: this.getFormCue(exercise, repCount)
+      };
+    }
+    const repsRemaining = Math.max(0, this.intervalTarget - repCount);
+    return {
+      action: 'continue',
+      message: repsRemaining > 0 ? `${repsRemaining} rep${repsRemaining === 1 ? '' : 's'} to go!` : 'Target hit!',
+      formCue: this.getFormCue(exercise, repCount),
+      repsRemaining
     };
   }
   
@@ -175,16 +230,7 @@ export class PlanAwareRepCounter {
   }
   
   private suggestComplementaryExercise(currentExercise: ExerciseType): string {
-    const complementary: Record<ExerciseType, string> = {
-      [EXERCISE.SQUATS]: 'Try some lunges to work different leg muscles',
-      [EXERCISE.PUSH_UPS]: 'Switch to planks for core stability',
-      [EXERCISE.LUNGES]: 'Move to squats for bilateral leg work',
-      [EXERCISE.JUMPING_JACKS]: 'Rest with some planks for core work',
-      [EXERCISE.PLANKS]: 'Try push-ups for upper body strength',
-      [EXERCISE.CHIN_UPS]: 'Switch to push-ups for pushing movements'
-    };
-    
-    return complementary[currentExercise as ExerciseType] || 'Consider switching to work different muscle groups';
+    return getExerciseDefinition(currentExercise)?.coaching.complementary || 'Consider switching to work different muscle groups';
   }
   
   private handleUnplannedExercise(_exercise: ExerciseType, repCount: number): ExerciseGuidance {
@@ -209,43 +255,14 @@ export class PlanAwareRepCounter {
   
   private getFormCue(exercise: ExerciseType, repCount: number): string {
     // Provide form cues at specific rep counts
-    const cues: Record<ExerciseType, string[]> = {
-      [EXERCISE.SQUATS]: [
-        'Keep your chest up',
-        'Drive through your heels',
-        'Knees tracking over toes'
-      ],
-      [EXERCISE.PUSH_UPS]: [
-        'Keep your core tight',
-        'Full range of motion',
-        'Elbows at 45 degrees'
-      ],
-      [EXERCISE.LUNGES]: [
-        'Front knee over ankle',
-        'Back straight',
-        'Push through front heel'
-      ],
-      [EXERCISE.JUMPING_JACKS]: [
-        'Land softly',
-        'Full arm extension',
-        'Maintain rhythm'
-      ],
-      [EXERCISE.PLANKS]: [
-        'Straight line from head to heels',
-        'Breathe normally',
-        'Engage your core'
-      ],
-      [EXERCISE.CHIN_UPS]: [
-        'Full extension at bottom',
-        'Chin over bar',
-        'Control the descent'
-      ]
-    };
-    
-    const exerciseCues = cues[exercise as ExerciseType] || ['Focus on form'];
+    const exerciseCues = getExerciseDefinition(exercise)?.coaching.cues || ['Focus on form'];
     return exerciseCues[repCount % exerciseCues.length];
   }
   
+  getAsymmetrySummary(): AsymmetrySummary | null {
+    return this.repCounter?.getAsymmetrySummary() ?? null;
+  }
+  
   getCurrentProgress() {
     const planExercise = this.currentPlan.exercises[this.currentExerciseIndex];
     
@@ -279,6 +296,16 @@ export class PlanAwareRepCounter {
     return null;
   }
   
+  // Start a work segment of an interval workout with a fresh rep count
+  startIntervalSegment(exerciseType: ExerciseType, targetReps: number | null) {
+    this.intervalTarget = targetReps;
+    if (this.repCounter && this.currentPlan.exercises[this.currentExerciseIndex]?.exerciseType === exerciseType) {
+      this.startNextSet();
+    } else {
+      this.setCurrentExercise(exerciseType);
+    }
+  }
+  
   startNextSet() {
     // Reset rep counter for next set
     this.currentRepCount = 0;
@@ -290,6 +317,38 @@ export class PlanAwareRepCounter {
     this.completedExercises.add(exerciseType);
   }
   
+  getSnapshot(): PlanCounterSnapshot {
+    return {
+      currentExerciseIndex: this.currentExerciseIndex,
+      currentSet: this.currentSet,
+      completedExercises: Array.from(this.completedExercises),
+      setHistory: Array.from(this.setHistory.entries()),
+      intervalTarget: this.intervalTarget
+    };
+  }
+  
+  restore(snapshot: PlanCounterSnapshot) {
+    this.currentExerciseIndex = snapshot.currentExerciseIndex;
+    this.currentSet = snapshot.currentSet;
+    this.completedExercises = new Set(snapshot.completedExercises);
+    this.setHistory = new Map(snapshot.setHistory);
+    this.intervalTarget = snapshot.intervalTarget;
+    this.currentRepCount = 0;
+  }
+  
+  // Plan edited mid-workout; the position is kept and a swapped-in exercise takes over its slot
+  updatePlan(plan: WorkoutPlan) {
+    this.currentPlan = plan;
+    const planExercise = plan.exercises[this.currentExerciseIndex];
+    if (planExercise && this.currentSet > planExercise.sets) {
+      this.currentSet = planExercise.sets;
+    }
+  }
+  
+  getPlannedExercise(exerciseType: ExerciseType): ExercisePlan | null {
+    return this.currentPlan.exercises.find(ex => ex.exerciseType === exerciseType) ?? null;
+  }
+  
   setCurrentRepCount(count: number) {
     // Update the current rep count (used in test mode)
     this.currentRepCount = count;
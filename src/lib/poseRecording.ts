@@ -0,0 +1,194 @@
+import type { Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { ExerciseType } from './exercises';
+import type { RepState } from './exerciseDsl';
+
+// Versioned fixture format for recorded pose streams. Fixtures are replayed
+// through the rep counters by scripts/replay-pose-fixtures.js.
+export const POSE_FIXTURE_VERSION = 1;
+
+const LANDMARK_COUNT = 33;
+const VALUES_PER_LANDMARK = 4; // x, y, z, visibility
+const FRAME_STRIDE = LANDMARK_COUNT * VALUES_PER_LANDMARK;
+const JSON_PRECISION = 1e4;
+const BINARY_MAGIC = 0x45534f50; // 'POSE' little-endian
+
+export interface PoseFixtureFrame {
+  t: number; // ms since recording start
+  l: number[]; // flattened [x, y, z, visibility] * 33
+  w?: number[]; // 3D world landmarks in the same layout, when the pose model provided them
+}
+
+// Ground truth for a fixture, filled in by hand after reviewing the recording
+export interface PoseFixtureExpectation {
+  reps: number;
+  states?: RepState[]; // confirmed state sequence, consecutive duplicates collapsed
+  minFormScore?: number; // floor for the average form score
+  detectedExercise?: ExerciseType; // What MultiExerciseDetector reported on the most frames
+}
+
+export interface PoseFixture {
+  version: typeof POSE_FIXTURE_VERSION;
+  exercise: ExerciseType;
+  recordedAt: string;
+  source?: 'camera' | 'synthetic'; // Camera recordings are what the replay checks against real movement
+  description?: string;
+  frames: PoseFixtureFrame[];
+  expected?: PoseFixtureExpectation;
+}
+
+export class PoseRecorder {
+  private frames: PoseFixtureFrame[] = [];
+  private startTime: number | null = null;
+  private readonly recordedAt = new Date().toISOString();
+
+  constructor(private exercise: ExerciseType) {}
+
+  addFrame(landmarks: NormalizedLandmark[], worldLandmarks?: Landmark[], timestamp: number = performance.now()) {
+    if (!landmarks || landmarks.length < LANDMARK_COUNT) return;
+    if (this.startTime === null) {
+      this.startTime = timestamp;
+    }
+    this.frames.push({
+      t: Math.round(timestamp - this.startTime),
+      l: flattenLandmarks(landmarks),
+      ...(worldLandmarks && worldLandmarks.length >= LANDMARK_COUNT ? { w: flattenLandmarks(worldLandmarks) } : {})
+    });
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  finish(description?: string): PoseFixture {
+    return {
+      version: POSE_FIXTURE_VERSION,
+      exercise: this.exercise,
+      recordedAt: this.recordedAt,
+      source: 'camera',
+      ...(description ? { description } : {}),
+      frames: this.frames
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * JSON_PRECISION) / JSON_PRECISION;
+}
+
+export function flattenLandmarks(landmarks: NormalizedLandmark[] | Landmark[]): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < LANDMARK_COUNT; i++) {
+    const landmark = landmarks[i];
+    values.push(round(landmark.x), round(landmark.y), round(landmark.z), round(landmark.visibility ?? 0));
+  }
+  return values;
+}
+
+function unflattenLandmarks(values: number[]): Landmark[] {
+  const landmarks: Landmark[] = [];
+  for (let i = 0; i < values.length; i += VALUES_PER_LANDMARK) {
+    landmarks.push({ x: values[i], y: values[i + 1], z: values[i + 2], visibility: values[i + 3] });
+  }
+  return landmarks;
+}
+
+export function frameLandmarks(frame: PoseFixtureFrame): NormalizedLandmark[] {
+  return unflattenLandmarks(frame.l);
+}
+
+export function frameWorldLandmarks(frame: PoseFixtureFrame): Landmark[] | undefined {
+  return frame.w ? unflattenLandmarks(frame.w) : undefined;
+}
+
+export function validatePoseFixture(value: unknown): PoseFixture {
+  const fixture = value as PoseFixture;
+  if (!fixture || typeof fixture !== 'object') {
+    throw new Error('Pose fixture must be an object');
+  }
+  if (fixture.version !== POSE_FIXTURE_VERSION) {
+    throw new Error(`Unsupported pose fixture version: ${fixture.version}`);
+  }
+  if (typeof fixture.exercise !== 'string' || !Array.isArray(fixture.frames)) {
+    throw new Error('Pose fixture is missing exercise or frames');
+  }
+  fixture.frames.forEach((frame, index) => {
+    if (typeof frame.t !== 'number' || !Array.isArray(frame.l) || frame.l.length !== FRAME_STRIDE ||
+        (frame.w !== undefined && (!Array.isArray(frame.w) || frame.w.length !== FRAME_STRIDE))) {
+      throw new Error(`Pose fixture frame ${index} is malformed`);
+    }
+  });
+  return fixture;
+}
+
+export function encodePoseFixture(fixture: PoseFixture): string {
+  return JSON.stringify(fixture);
+}
+
+export function decodePoseFixture(json: string): PoseFixture {
+  return validatePoseFixture(JSON.parse(json));
+}
+
+// Binary layout: magic (u32) | header length (u32) | header JSON (everything
+// except frames, plus frameCount and world) | per frame: t (f32) + 132 landmark
+// values (f32), followed by 132 world landmark values when world is set
+export function encodePoseFixtureBinary(fixture: PoseFixture): ArrayBuffer {
+  const { frames, ...rest } = fixture;
+  // World landmarks are stored only when every frame has them, keeping a fixed stride
+  const world = frames.length > 0 && frames.every(frame => frame.w);
+  const stride = 1 + FRAME_STRIDE * (world ? 2 : 1);
+  const header = new TextEncoder().encode(JSON.stringify({ ...rest, frameCount: frames.length, world }));
+  const headerPadded = Math.ceil(header.length / 4) * 4;
+  const buffer = new ArrayBuffer(8 + headerPadded + frames.length * stride * 4);
+  const view = new DataView(buffer);
+  view.setUint32(0, BINARY_MAGIC, true);
+  view.setUint32(4, header.length, true);
+  new Uint8Array(buffer, 8, header.length).set(header);
+
+  const values = new Float32Array(buffer, 8 + headerPadded);
+  frames.forEach((frame, index) => {
+    const offset = index * stride;
+    values[offset] = frame.t;
+    values.set(frame.l, offset + 1);
+    if (world && frame.w) {
+      values.set(frame.w, offset + 1 + FRAME_STRIDE);
+    }
+  });
+  return buffer;
+}
+
+export function decodePoseFixtureBinary(buffer: ArrayBuffer): PoseFixture {
+  const view = new DataView(buffer);
+  if (view.getUint32(0, true) !== BINARY_MAGIC) {
+    throw new Error('Not a binary pose fixture');
+  }
+  const headerLength = view.getUint32(4, true);
+  const { frameCount, world, ...rest } = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength)));
+  const values = new Float32Array(buffer, 8 + Math.ceil(headerLength / 4) * 4);
+  const stride = 1 + FRAME_STRIDE * (world ? 2 : 1);
+
+  const frames: PoseFixtureFrame[] = [];
+  for (let index = 0; index < frameCount; index++) {
+    const offset = index * stride;
+    frames.push({
+      t: values[offset],
+      l: Array.from(values.subarray(offset + 1, offset + 1 + FRAME_STRIDE), round),
+      ...(world ? { w: Array.from(values.subarray(offset + 1 + FRAME_STRIDE, offset + stride), round) } : {})
+    });
+  }
+  return validatePoseFixture({ ...rest, frames });
+}
+
+export function downloadPoseFixture(fixture: PoseFixture) {
+  const slug = fixture.exercise.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const blob = new Blob([encodePoseFixture(fixture)], { type: 'application/json' });
+  const blobUrl = window.URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = `${slug}-${fixture.recordedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => window.URL.revokeObjectURL(blobUrl), 20000);
+}
@@ -0,0 +1,99 @@
+import { ExerciseRepCounter, type RepCounterOptions } from './exerciseRepCounter';
+import { MultiExerciseDetector } from './multiExerciseDetector';
+import type { ExerciseType } from './exercises';
+import type { AngleSource, RepState } from './exerciseDsl';
+import { frameLandmarks, frameWorldLandmarks, type PoseFixture } from './poseRecording';
+import type { RepEvent } from './repAnalytics';
+
+export interface ReplayResult {
+  exercise: ExerciseType;
+  frames: number;
+  reps: number;
+  states: RepState[]; // confirmed state sequence, consecutive duplicates collapsed
+  averageFormScore: number;
+  detectedExercise: ExerciseType | null; // What the detector reported on the most frames
+  detectionConfidence: number; // Last frame's confidence
+  repEvents: RepEvent[];
+  angleSource: AngleSource; // Source of the last frame's angles
+}
+
+// Feeds a recorded fixture through the rep counter and the multi-exercise
+// detector using the recorded timestamps, so hold timing and the detector's
+// frame throttling behave as they did live. World landmarks are used for the
+// angles whenever the fixture recorded them, unless the options say otherwise.
+export function replayPoseFixture(
+  fixture: PoseFixture,
+  options: RepCounterOptions = { useWorldLandmarks: true }
+): ReplayResult {
+  const counter = new ExerciseRepCounter(fixture.exercise, Number.MAX_SAFE_INTEGER, options);
+  const detector = new MultiExerciseDetector();
+  // Fixture timestamps start at 0; offset them so the first frame is neither
+  // throttled by the detector nor treated as an unset hold start
+  const timeOffset = 1000;
+
+  const states: RepState[] = [];
+  let reps = 0;
+  let formScoreTotal = 0;
+  const detections = new Map<ExerciseType, number>();
+  let detectionConfidence = 0;
+  let angleSource: AngleSource = 'image';
+
+  fixture.frames.forEach((frame) => {
+    const landmarks = frameLandmarks(frame);
+    const feedback = counter.processFrame(landmarks, frame.t + timeOffset, frameWorldLandmarks(frame));
+    reps = feedback.repCount;
+    angleSource = feedback.angleSource;
+    formScoreTotal += feedback.formScore;
+    if (states[states.length - 1] !== feedback.state) {
+      states.push(feedback.state);
+    }
+
+    const detection = detector.detectExercise(landmarks, frame.t + timeOffset);
+    if (detection.exercise) {
+      detections.set(detection.exercise, (detections.get(detection.exercise) ?? 0) + 1);
+    }
+    detectionConfidence = detection.confidence;
+  });
+
+  // A fixture starts and ends standing, which on its own says little about the
+  // exercise, so it's judged by what was detected for most of it
+  let detectedExercise: ExerciseType | null = null;
+  detections.forEach((count, exercise) => {
+    if (!detectedExercise || count > (detections.get(detectedExercise) ?? 0)) {
+      detectedExercise = exercise;
+    }
+  });
+
+  return {
+    exercise: fixture.exercise,
+    frames: fixture.frames.length,
+    reps,
+    states,
+    averageFormScore: fixture.frames.length > 0 ? formScoreTotal / fixture.frames.length : 0,
+    detectedExercise,
+    detectionConfidence,
+    repEvents: counter.getRepEvents(),
+    angleSource
+  };
+}
+
+// Returns a failure message per unmet expectation; empty when the replay matches
+export function checkReplayExpectations(fixture: PoseFixture, result: ReplayResult): string[] {
+  const expected = fixture.expected;
+  if (!expected) return [];
+
+  const failures: string[] = [];
+  if (result.reps !== expected.reps) {
+    failures.push(`expected ${expected.reps} reps, counted ${result.reps}`);
+  }
+  if (expected.states && expected.states.join(',') !== result.states.join(',')) {
+    failures.push(`expected states [${expected.states.join(', ')}], got [${result.states.join(', ')}]`);
+  }
+  if (expected.minFormScore !== undefined && result.averageFormScore < expected.minFormScore) {
+    failures.push(`expected average form score >= ${expected.minFormScore}, got ${result.averageFormScore.toFixed(3)}`);
+  }
+  if (expected.detectedExercise && result.detectedExercise !== expected.detectedExercise) {
+    failures.push(`expected detection of ${expected.detectedExercise}, got ${result.detectedExercise ?? 'none'}`);
+  }
+  return failures;
+}
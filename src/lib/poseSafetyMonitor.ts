@@ -0,0 +1,100 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { POSE_LANDMARKS, type JointName } from './exerciseDsl';
+
+// Watches the pose for fall-like moments during a workout: the head dropping
+// fast and the torso ending up horizontal (a collapse), then the body staying
+// still on the floor. Signals go to the server's safety guard, which pauses the
+// workout and switches the coach to its safe script.
+
+const MIN_VISIBILITY = 0.5;
+const COLLAPSE_WINDOW_MS = 500; // A fall takes well under a second; getting down into a plank takes longer
+const COLLAPSE_DROP = 0.3; // Normalised head drop within the window
+const LYING_TORSO_RATIO = 0.4; // Vertical share of the torso's length when lying down (~25° from horizontal)
+const UPRIGHT_TORSO_RATIO = 0.7; // Back on their feet (or at least sitting up)
+const STILL_TOLERANCE = 0.03; // Mean key point movement that still counts as not moving
+const NO_MOVEMENT_MS = 10000;
+const COLLAPSE_COOLDOWN_MS = 30000;
+
+const KEY_JOINTS: JointName[] = ['nose', 'left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
+
+export type PoseSafetySignal =
+  | { type: 'collapse'; dropRatio: number }
+  | { type: 'no_movement'; durationMs: number };
+
+interface Sample {
+  at: number;
+  headY: number;
+}
+
+export class PoseSafetyMonitor {
+  private samples: Sample[] = [];
+  private lastCollapseAt = -Infinity;
+  // Set after a collapse until the user is upright again
+  private down: { stillSince: number; anchor: NormalizedLandmark[]; reported: boolean } | null = null;
+
+  processFrame(landmarks: NormalizedLandmark[], timestamp: number = Date.now()): PoseSafetySignal | null {
+    if (!landmarks || landmarks.length < 33) return null;
+    const keyPoints = KEY_JOINTS.map(joint => landmarks[POSE_LANDMARKS[joint]]);
+    if (keyPoints.some(point => (point.visibility ?? 1) < MIN_VISIBILITY)) return null;
+
+    const [nose, leftShoulder, rightShoulder, leftHip, rightHip] = keyPoints;
+    const shoulder = { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 };
+    const hip = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 };
+    const torsoLength = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+    if (torsoLength === 0) return null;
+    const torsoRatio = Math.abs(hip.y - shoulder.y) / torsoLength;
+
+    if (this.down) {
+      return this.watchWhileDown(keyPoints, torsoRatio, timestamp);
+    }
+
+    this.samples.push({ at: timestamp, headY: nose.y });
+    this.samples = this.samples.filter(sample => timestamp - sample.at <= COLLAPSE_WINDOW_MS);
+
+    // Image y grows downwards, so a fall is the head's y increasing
+    const highest = Math.min(...this.samples.map(sample => sample.headY));
+    const dropRatio = nose.y - highest;
+    if (
+      dropRatio >= COLLAPSE_DROP &&
+      torsoRatio <= LYING_TORSO_RATIO &&
+      timestamp - this.lastCollapseAt >= COLLAPSE_COOLDOWN_MS
+    ) {
+      this.lastCollapseAt = timestamp;
+      this.samples = [];
+      this.down = { stillSince: timestamp, anchor: keyPoints, reported: false };
+      return { type: 'collapse', dropRatio: Math.round(dropRatio * 100) / 100 };
+    }
+    return null;
+  }
+
+  private watchWhileDown(keyPoints: NormalizedLandmark[], torsoRatio: number, timestamp: number): PoseSafetySignal | null {
+    const down = this.down!;
+    if (torsoRatio >= UPRIGHT_TORSO_RATIO) {
+      this.down = null;
+      return null;
+    }
+
+    const movement = keyPoints.reduce(
+      (sum, point, i) => sum + Math.hypot(point.x - down.anchor[i].x, point.y - down.anchor[i].y),
+      0
+    ) / keyPoints.length;
+    if (movement > STILL_TOLERANCE) {
+      down.stillSince = timestamp;
+      down.anchor = keyPoints;
+      down.reported = false;
+      return null;
+    }
+
+    const stillFor = timestamp - down.stillSince;
+    if (stillFor >= NO_MOVEMENT_MS && !down.reported) {
+      down.reported = true;
+      return { type: 'no_movement', durationMs: stillFor };
+    }
+    return null;
+  }
+
+  reset() {
+    this.samples = [];
+    this.down = null;
+  }
+}
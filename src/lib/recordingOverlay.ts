@@ -0,0 +1,251 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { flattenLandmarks, frameLandmarks, type PoseFixtureFrame } from './poseRecording';
+
+// Sidecar stored next to a session recording (recordings/<id>/overlay.json):
+// the user's pose landmarks and the workout stats shown with them, on the
+// video's timeline. Players draw the overlay from it on demand, and frames use
+// the pose fixture layout so a recording can be replayed through the rep
+// counters for analysis. Only 2D landmarks are kept, to keep the file small.
+export const OVERLAY_TRACK_VERSION = 1;
+
+const LANDMARK_COUNT = 33;
+const STALE_FRAME_MS = 500; // No skeleton once the pose has been lost this long
+const FRAME_INTERVAL_MS = 100; // Frames kept in the track, 10fps; playback holds each until the next
+const MIN_VISIBILITY = 0.3;
+const HUD_BASE_WIDTH = 360; // HUD sizes are for a frame this wide, scaled to the real one
+
+const SKELETON_CONNECTIONS: Array<[number, number]> = [
+  [11, 12], // shoulders
+  [11, 13], [13, 15], // left arm
+  [12, 14], [14, 16], // right arm
+  [11, 23], [12, 24], // torso
+  [23, 24], // hips
+  [23, 25], [25, 27], // left leg
+  [24, 26], [26, 28], // right leg
+];
+
+export interface OverlayStats {
+  exercise: string | null;
+  repCount: number;
+  setNumber: number | null;
+  totalSets: number | null;
+  formScore: number | null; // 0-1
+}
+
+export type OverlayStatsEntry = OverlayStats & { t: number };
+
+// Where the camera image sits in the recorded frame, as fractions of its size
+export interface OverlayArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OverlayTrack {
+  version: typeof OVERLAY_TRACK_VERSION;
+  recordedAt: string;
+  area: OverlayArea;
+  frames: PoseFixtureFrame[]; // t: ms since the recording started
+  stats: OverlayStatsEntry[]; // Only when something changed
+}
+
+export interface OverlayState {
+  landmarks: NormalizedLandmark[] | null;
+  stats: OverlayStats | null;
+}
+
+function sameStats(a: OverlayStats, b: OverlayStats): boolean {
+  return a.exercise === b.exercise && a.repCount === b.repCount && a.setNumber === b.setNumber &&
+    a.totalSets === b.totalSets && a.formScore === b.formScore;
+}
+
+// Last entry at or before t, entries being in time order
+function entryAt<T extends { t: number }>(entries: T[], t: number): T | null {
+  let low = 0;
+  let high = entries.length - 1;
+  let found: T | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].t <= t) {
+      found = entries[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+export class OverlayTrackRecorder {
+  private frames: PoseFixtureFrame[] = [];
+  private stats: OverlayStatsEntry[] = [];
+  private latestLandmarks: { t: number; landmarks: NormalizedLandmark[] } | null = null;
+  private readonly recordedAt = new Date().toISOString();
+
+  constructor(private startTime: number, private area: OverlayArea) {}
+
+  // Every frame updates what's burned in live; the track keeps one per FRAME_INTERVAL_MS
+  addFrame(landmarks: NormalizedLandmark[], timestamp: number = Date.now()) {
+    if (!landmarks || landmarks.length < LANDMARK_COUNT) return;
+    const t = Math.max(0, Math.round(timestamp - this.startTime));
+    this.latestLandmarks = { t, landmarks };
+    const last = this.frames[this.frames.length - 1];
+    if (last && t - last.t < FRAME_INTERVAL_MS) return;
+    this.frames.push({ t, l: flattenLandmarks(landmarks) });
+  }
+
+  setStats(stats: OverlayStats, timestamp: number = Date.now()) {
+    const last = this.stats[this.stats.length - 1];
+    if (last && sameStats(last, stats)) return;
+    this.stats.push({ t: Math.max(0, Math.round(timestamp - this.startTime)), ...stats });
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  // What to burn into the frame being recorded now
+  current(timestamp: number = Date.now()): OverlayState {
+    const t = timestamp - this.startTime;
+    const latest = this.latestLandmarks;
+    return {
+      landmarks: latest && t - latest.t <= STALE_FRAME_MS ? latest.landmarks : null,
+      stats: this.stats[this.stats.length - 1] ?? null
+    };
+  }
+
+  finish(): OverlayTrack {
+    return {
+      version: OVERLAY_TRACK_VERSION,
+      recordedAt: this.recordedAt,
+      area: this.area,
+      frames: this.frames,
+      stats: this.stats
+    };
+  }
+}
+
+/**
+ * The overlay at a point in the video (ms from its start)
+ */
+export function overlayAt(track: OverlayTrack, timeMs: number): OverlayState {
+  const frame = entryAt(track.frames, timeMs);
+  const stats = entryAt(track.stats, timeMs);
+  return {
+    landmarks: frame && timeMs - frame.t <= STALE_FRAME_MS ? frameLandmarks(frame) : null,
+    stats
+  };
+}
+
+export function validateOverlayTrack(value: unknown): OverlayTrack {
+  const track = value as OverlayTrack;
+  if (!track || typeof track !== 'object') {
+    throw new Error('Overlay track must be an object');
+  }
+  if (track.version !== OVERLAY_TRACK_VERSION) {
+    throw new Error(`Unsupported overlay track version: ${track.version}`);
+  }
+  if (!Array.isArray(track.frames) || !Array.isArray(track.stats) || !track.area) {
+    throw new Error('Overlay track is missing frames, stats or area');
+  }
+  return track;
+}
+
+export interface DrawRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Skeleton lines and keypoints for normalized landmarks, drawn into rect
+ */
+export function drawPoseSkeleton(
+  ctx: CanvasRenderingContext2D,
+  landmarks: NormalizedLandmark[],
+  rect: DrawRect,
+  { lineWidth = 4, pointRadius = 6 }: { lineWidth?: number; pointRadius?: number } = {}
+) {
+  const at = (point: NormalizedLandmark) => [rect.x + point.x * rect.width, rect.y + point.y * rect.height] as const;
+  const visible = (point?: NormalizedLandmark) => !!point && (point.visibility ?? 1) > MIN_VISIBILITY;
+
+  ctx.save();
+  ctx.strokeStyle = '#00ff00';
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  SKELETON_CONNECTIONS.forEach(([a, b]) => {
+    const pointA = landmarks[a];
+    const pointB = landmarks[b];
+    if (visible(pointA) && pointB) {
+      ctx.beginPath();
+      ctx.moveTo(...at(pointA));
+      ctx.lineTo(...at(pointB));
+      ctx.stroke();
+    }
+  });
+
+  landmarks.forEach((point) => {
+    if (!visible(point)) return;
+    const [x, y] = at(point);
+    // White outline around a red center
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(x, y, pointRadius + 2, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = '#ff0000';
+    ctx.beginPath();
+    ctx.arc(x, y, pointRadius, 0, 2 * Math.PI);
+    ctx.fill();
+  });
+  ctx.restore();
+}
+
+function gaugeColor(score: number): string {
+  if (score >= 0.8) return '#39d98a';
+  if (score >= 0.6) return '#ffd400';
+  return '#ff5a5a';
+}
+
+/**
+ * Exercise and set label, rep counter and form gauge in the top left of rect
+ */
+export function drawOverlayStats(ctx: CanvasRenderingContext2D, stats: OverlayStats, rect: DrawRect) {
+  if (!stats.exercise) return;
+  const scale = rect.width / HUD_BASE_WIDTH;
+  const left = rect.x + 12 * scale;
+  let top = rect.y + 12 * scale;
+
+  ctx.save();
+  ctx.textBaseline = 'top';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+  ctx.shadowBlur = 4 * scale;
+  ctx.fillStyle = '#ffffff';
+
+  const setLabel = stats.setNumber && stats.totalSets ? `  SET ${stats.setNumber}/${stats.totalSets}` : '';
+  ctx.font = `bold ${Math.round(13 * scale)}px sans-serif`;
+  ctx.fillText(`${stats.exercise.toUpperCase()}${setLabel}`, left, top);
+  top += 18 * scale;
+
+  ctx.font = `bold ${Math.round(34 * scale)}px sans-serif`;
+  ctx.fillText(String(stats.repCount), left, top);
+  const countWidth = ctx.measureText(String(stats.repCount)).width;
+  ctx.font = `bold ${Math.round(12 * scale)}px sans-serif`;
+  ctx.fillText('REPS', left + countWidth + 6 * scale, top + 18 * scale);
+  top += 40 * scale;
+
+  if (stats.formScore !== null) {
+    const width = 96 * scale;
+    const height = 6 * scale;
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(left, top, width, height);
+    ctx.fillStyle = gaugeColor(stats.formScore);
+    ctx.fillRect(left, top, width * Math.min(1, Math.max(0, stats.formScore)), height);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.round(11 * scale)}px sans-serif`;
+    ctx.fillText(`FORM ${Math.round(stats.formScore * 100)}%`, left + width + 6 * scale, top - 3 * scale);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,329 @@
+import { POSE_LANDMARKS, type AngleName, type AngleSource, type ExerciseDefinition, type FrameContext, type JointAngles, type Side } from './exerciseDsl';
+
+// Velocity loss (vs the fastest rep of the set) that counts as fatigue. Two
+// consecutive reps must cross it so a single slow rep doesn't trip the flag.
+const FATIGUE_VELOCITY_LOSS = 0.25;
+const MIN_REPS_FOR_FATIGUE = 3;
+const MAX_SAMPLES = 600; // ~1 minute at the 10 FPS pose rate
+
+// Asymmetry thresholds before a correction is surfaced
+const DEPTH_DIFFERENCE_THRESHOLD = 15; // degrees
+const TIMING_OFFSET_THRESHOLD = 250; // ms
+const HIP_SHIFT_THRESHOLD = 0.25; // fraction of hip width
+const MIN_HIP_WIDTH = 0.02; // Side-on camera; lateral shift can't be measured
+
+export interface RepTempo {
+  eccentricMs: number; // Lowering phase
+  pauseMs: number; // Time spent at the turnaround (bottom for squats, top for chin-ups)
+  concentricMs: number; // Lifting phase
+  timeUnderTensionMs: number;
+}
+
+export interface AngleRange {
+  min: number;
+  max: number;
+}
+
+// Signed left-vs-right comparison; positive values mean the left side leads
+export interface RepAsymmetry {
+  depthDifference: number; // Degrees the left side went deeper than the right
+  timingOffsetMs: number; // How much earlier the left side reached the turnaround
+  hipShift: number; // Peak lateral hip offset over the feet, in hip widths (positive = towards the left)
+}
+
+export interface RepsBySide {
+  left: number;
+  right: number;
+}
+
+export interface AsymmetrySummary extends RepAsymmetry {
+  reps: number;
+  repsBySide?: RepsBySide; // Unilateral exercises only
+}
+
+export interface RepEvent {
+  exercise: string;
+  repNumber: number;
+  completedAt: number;
+  tempo: RepTempo;
+  rangeOfMotion: Partial<Record<AngleName, AngleRange>>;
+  velocity: number; // Degrees per second of the primary angle during the concentric phase
+  velocityLoss: number; // 0-1 relative to the fastest rep of the set
+  isFatigued: boolean;
+  formScore: number;
+  side?: Side; // Unilateral exercises: the side this rep worked
+  asymmetry: RepAsymmetry;
+  angleSource: AngleSource; // Whether depth/ROM came from 2D image or 3D world landmarks
+}
+
+interface AngleSample {
+  t: number;
+  angles: JointAngles;
+  angleSource: AngleSource;
+  hipShift: number;
+  leftSide?: boolean;
+}
+
+interface SeriesPoint {
+  t: number;
+  v: number;
+}
+
+// Pairs e.g. leftKnee with rightKnee; angles without a side have no pair
+function sidePair(name: AngleName | undefined): [AngleName, AngleName] | null {
+  if (!name) return null;
+  const match = /^(left|right)(.+)$/.exec(name);
+  if (!match) return null;
+  return [`left${match[2]}` as AngleName, `right${match[2]}` as AngleName];
+}
+
+function measureHipShift(ctx: FrameContext): number {
+  const at = (index: number) => ctx.landmarks[index];
+  const leftHip = at(POSE_LANDMARKS.left_hip);
+  const rightHip = at(POSE_LANDMARKS.right_hip);
+  const leftAnkle = at(POSE_LANDMARKS.left_ankle);
+  const rightAnkle = at(POSE_LANDMARKS.right_ankle);
+  // Signed so that positive is towards the left side whether or not the image is mirrored
+  const hipWidth = leftHip.x - rightHip.x;
+  if (Math.abs(hipWidth) < MIN_HIP_WIDTH) return 0;
+  const hipMid = (leftHip.x + rightHip.x) / 2;
+  const ankleMid = (leftAnkle.x + rightAnkle.x) / 2;
+  return (hipMid - ankleMid) / hipWidth;
+}
+
+// Derives tempo, range of motion, velocity and left/right asymmetry for each
+// completed rep from the smoothed frames the rep counter already computes.
+export class RepAnalyticsTracker {
+  private samples: AngleSample[] = [];
+  private events: RepEvent[] = [];
+  private peakVelocity = 0;
+  private readonly angleNames: readonly AngleName[];
+
+  constructor(private definition: ExerciseDefinition) {
+    this.angleNames = definition.romAngles ?? [];
+  }
+
+  recordFrame(ctx: FrameContext, timestamp: number) {
+    if (this.angleNames.length === 0) return;
+    this.samples.push({
+      t: timestamp,
+      angles: ctx.angles,
+      angleSource: ctx.angleSource,
+      hipShift: measureHipShift(ctx),
+      leftSide: this.definition.unilateral?.leftSide(ctx)
+    });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  completeRep(repNumber: number, formScore: number, timestamp: number): RepEvent {
+    const rangeOfMotion = this.measureRangeOfMotion();
+    const primary = this.angleNames[0];
+    const primarySeries = this.series(primary);
+    const turnaround = this.findTurnaround(primarySeries, rangeOfMotion[primary]);
+    const { tempo, concentricDegrees } = this.measureTempo(primarySeries, turnaround, timestamp);
+    const velocity = tempo.concentricMs > 0 ? concentricDegrees / (tempo.concentricMs / 1000) : 0;
+
+    this.peakVelocity = Math.max(this.peakVelocity, velocity);
+    const velocityLoss = this.peakVelocity > 0 && velocity > 0 ? Math.max(0, 1 - velocity / this.peakVelocity) : 0;
+    const previous = this.events[this.events.length - 1];
+    const isFatigued = repNumber >= MIN_REPS_FOR_FATIGUE &&
+      velocityLoss >= FATIGUE_VELOCITY_LOSS &&
+      !!previous && previous.velocityLoss >= FATIGUE_VELOCITY_LOSS;
+
+    const turnaroundSample = turnaround ? this.samples.find(sample => sample.t === turnaround.point.t) : undefined;
+    const side = this.definition.unilateral && turnaroundSample
+      ? (turnaroundSample.leftSide ? 'left' : 'right')
+      : undefined;
+
+    const event: RepEvent = {
+      exercise: this.definition.name,
+      repNumber,
+      completedAt: timestamp,
+      tempo,
+      rangeOfMotion,
+      velocity,
+      velocityLoss,
+      isFatigued,
+      formScore,
+      side,
+      asymmetry: this.measureAsymmetry(primary, !!side),
+      // A rep that fell back to 2D for any frame is reported as image-based
+      angleSource: this.samples.length > 0 && this.samples.every(sample => sample.angleSource === 'world') ? 'world' : 'image'
+    };
+    this.events.push(event);
+    this.samples = [];
+    return event;
+  }
+
+  private series(name: AngleName | undefined): SeriesPoint[] {
+    if (!name) return [];
+    return this.samples
+      .filter(sample => sample.angles[name] !== undefined)
+      .map(sample => ({ t: sample.t, v: sample.angles[name]! }));
+  }
+
+  private measureRangeOfMotion(): Partial<Record<AngleName, AngleRange>> {
+    const ranges: Partial<Record<AngleName, AngleRange>> = {};
+    this.samples.forEach(({ angles }) => {
+      this.angleNames.forEach(name => {
+        const value = angles[name];
+        if (value === undefined) return;
+        const range = ranges[name];
+        if (!range) {
+          ranges[name] = { min: value, max: value };
+        } else {
+          range.min = Math.min(range.min, value);
+          range.max = Math.max(range.max, value);
+        }
+      });
+    });
+    return ranges;
+  }
+
+  // The turnaround is whichever extreme of the angle lies furthest from where
+  // the rep started (the bottom of a squat, the top of a chin-up)
+  private findTurnaround(series: SeriesPoint[], range: AngleRange | undefined): { point: SeriesPoint; towardsMin: boolean } | null {
+    if (!range || series.length < 2) return null;
+    const startValue = series[0].v;
+    const towardsMin = Math.abs(range.min - startValue) > Math.abs(range.max - startValue);
+    const point = series.reduce((best, sample) =>
+      (towardsMin ? sample.v < best.v : sample.v > best.v) ? sample : best
+    );
+    return { point, towardsMin };
+  }
+
+  // Time within tolerance of the turnaround counts as the pause
+  private measureTempo(
+    series: SeriesPoint[],
+    turnaround: { point: SeriesPoint } | null,
+    endTime: number
+  ): { tempo: RepTempo; concentricDegrees: number } {
+    if (!turnaround) {
+      return { tempo: { eccentricMs: 0, pauseMs: 0, concentricMs: 0, timeUnderTensionMs: 0 }, concentricDegrees: 0 };
+    }
+
+    const startValue = series[0].v;
+    const turnaroundValue = turnaround.point.v;
+    const tolerance = Math.max(5, Math.abs(turnaroundValue - startValue) * 0.1);
+
+    // Skip idle frames before the movement actually begins
+    const moveIndex = series.findIndex(sample => Math.abs(sample.v - startValue) > tolerance);
+    const startTime = series[Math.max(0, moveIndex - 1)].t;
+    const atTurnaround = series.filter(sample => Math.abs(sample.v - turnaroundValue) <= tolerance);
+    const pauseStart = atTurnaround[0]?.t ?? startTime;
+    const pauseEnd = atTurnaround[atTurnaround.length - 1]?.t ?? pauseStart;
+
+    const firstPhaseMs = Math.max(0, pauseStart - startTime);
+    const secondPhaseMs = Math.max(0, endTime - pauseEnd);
+    const concentricFirst = !!this.definition.concentricFirst;
+    const endValue = series[series.length - 1].v;
+    return {
+      tempo: {
+        eccentricMs: concentricFirst ? secondPhaseMs : firstPhaseMs,
+        pauseMs: Math.max(0, pauseEnd - pauseStart),
+        concentricMs: concentricFirst ? firstPhaseMs : secondPhaseMs,
+        timeUnderTensionMs: Math.max(0, endTime - startTime)
+      },
+      concentricDegrees: Math.abs(turnaroundValue - (concentricFirst ? startValue : endValue))
+    };
+  }
+
+  private measureAsymmetry(primary: AngleName | undefined, unilateral: boolean): RepAsymmetry {
+    const hipShift = this.samples.reduce(
+      (peak, sample) => (Math.abs(sample.hipShift) > Math.abs(peak) ? sample.hipShift : peak),
+      0
+    );
+
+    // Unilateral reps are compared side against side across the set instead
+    const pair = unilateral ? null : sidePair(primary);
+    if (!pair) {
+      return { depthDifference: 0, timingOffsetMs: 0, hipShift };
+    }
+
+    const ranges = this.measureRangeOfMotion();
+    const left = this.findTurnaround(this.series(pair[0]), ranges[pair[0]]);
+    const right = this.findTurnaround(this.series(pair[1]), ranges[pair[1]]);
+    if (!left || !right) {
+      return { depthDifference: 0, timingOffsetMs: 0, hipShift };
+    }
+
+    // Deeper means further towards the turnaround (smaller angle for flexion)
+    const depthDifference = left.towardsMin ? right.point.v - left.point.v : left.point.v - right.point.v;
+    return { depthDifference, timingOffsetMs: right.point.t - left.point.t, hipShift };
+  }
+
+  getEvents(): RepEvent[] {
+    return [...this.events];
+  }
+
+  getVelocityLoss(): number {
+    return this.events[this.events.length - 1]?.velocityLoss ?? 0;
+  }
+
+  isFatigued(): boolean {
+    return this.events[this.events.length - 1]?.isFatigued ?? false;
+  }
+
+  getRepsBySide(): RepsBySide | undefined {
+    if (!this.definition.unilateral) return undefined;
+    return {
+      left: this.events.filter(event => event.side === 'left').length,
+      right: this.events.filter(event => event.side === 'right').length
+    };
+  }
+
+  getAsymmetrySummary(): AsymmetrySummary {
+    const events = this.events;
+    const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const repsBySide = this.getRepsBySide();
+
+    let depthDifference = average(events.map(event => event.asymmetry.depthDifference));
+    if (repsBySide) {
+      // Compare how deep the working leg went on left reps vs right reps
+      const pair = sidePair(this.angleNames[0]);
+      const depthFor = (side: Side) => average(events
+        .filter(event => event.side === side)
+        .map(event => event.rangeOfMotion[pair ? pair[side === 'left' ? 0 : 1] : this.angleNames[0]]?.min ?? 0));
+      depthDifference = repsBySide.left > 0 && repsBySide.right > 0 ? depthFor('right') - depthFor('left') : 0;
+    }
+
+    return {
+      reps: events.length,
+      depthDifference,
+      timingOffsetMs: average(events.map(event => event.asymmetry.timingOffsetMs)),
+      hipShift: average(events.map(event => event.asymmetry.hipShift)),
+      ...(repsBySide ? { repsBySide } : {})
+    };
+  }
+
+  // Corrections for the latest rep (or the set so far for unilateral exercises)
+  getAsymmetryCorrections(): string[] {
+    const latest = this.events[this.events.length - 1];
+    if (!latest) return [];
+
+    const asymmetry = this.definition.unilateral ? this.getAsymmetrySummary() : latest.asymmetry;
+    const corrections: string[] = [];
+    if (Math.abs(asymmetry.depthDifference) >= DEPTH_DIFFERENCE_THRESHOLD) {
+      const shallowSide = asymmetry.depthDifference > 0 ? 'right' : 'left';
+      corrections.push(this.definition.unilateral
+        ? `Match your depth - your ${shallowSide} leg isn't going as low`
+        : `Even out your depth - your ${shallowSide} side isn't going as deep`);
+    }
+    if (Math.abs(asymmetry.timingOffsetMs) >= TIMING_OFFSET_THRESHOLD) {
+      const laggingSide = asymmetry.timingOffsetMs > 0 ? 'right' : 'left';
+      corrections.push(`Move both sides together - your ${laggingSide} side is lagging`);
+    }
+    if (Math.abs(asymmetry.hipShift) >= HIP_SHIFT_THRESHOLD) {
+      corrections.push(`Keep your hips centred - you're shifting to the ${asymmetry.hipShift > 0 ? 'left' : 'right'}`);
+    }
+    return corrections;
+  }
+
+  reset() {
+    this.samples = [];
+    this.events = [];
+    this.peakVelocity = 0;
+  }
+}
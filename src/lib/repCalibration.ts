@@ -0,0 +1,133 @@
+import type { Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import {
+  calculateJointAngles,
+  type AngleSource,
+  type CalibrationRange,
+  type ExerciseDefinition,
+  type FrameContext
+} from './exerciseDsl';
+
+// Guided calibration: the user does a few slow reps and we record where their
+// reps actually bottom out and top out on the exercise's calibration metric.
+// The rep counter then rescales the definition's calibrated() thresholds into
+// that range, so limited mobility or unusual proportions still count.
+
+export const CALIBRATION_REPS = 3;
+const MIN_CALIBRATION_REPS = 2;
+const MIN_RANGE = 30; // Movement smaller than this (in metric units, i.e. degrees) isn't a rep
+const SMOOTHING_WINDOW = 3;
+
+export interface ExerciseCalibration extends CalibrationRange {
+  reps: number;
+  angleSource: AngleSource; // Only applied when counting from the same landmarks
+  calibratedAt: string;
+}
+
+// Keyed by exercise name, as stored in user_fitness_profile.preferences.calibration
+export type ExerciseCalibrations = Record<string, ExerciseCalibration>;
+
+export interface CalibrationProgress {
+  reps: number;
+  target: number;
+  phase: 'top' | 'bottom'; // Heading down from the top, or back up from the bottom
+  current: number | null;
+}
+
+export class CalibrationSession {
+  private recent: number[] = [];
+  private phase: 'top' | 'bottom' = 'top';
+  private extreme: number | null = null; // Highest value in the top phase, lowest in the bottom phase
+  private tops: number[] = [];
+  private bottoms: number[] = [];
+  private angleSource: AngleSource = 'image';
+
+  constructor(private definition: ExerciseDefinition, private options: { useWorldLandmarks?: boolean } = {}) {
+    if (!definition.calibration) {
+      throw new Error(`${definition.name} has no calibration metric`);
+    }
+  }
+
+  addFrame(landmarks: NormalizedLandmark[], worldLandmarks?: Landmark[]): CalibrationProgress {
+    const calibration = this.definition.calibration!;
+    if (!landmarks || landmarks.length < 33) {
+      return this.getProgress();
+    }
+
+    const useWorld = !!this.options.useWorldLandmarks && !!worldLandmarks && worldLandmarks.length >= 33;
+    this.angleSource = useWorld ? 'world' : 'image';
+    const ctx: FrameContext = {
+      landmarks,
+      angles: useWorld ? calculateJointAngles(worldLandmarks!, 'world') : calculateJointAngles(landmarks),
+      angleSource: this.angleSource,
+      state: 'neutral',
+      velocities: {}
+    };
+
+    this.recent.push(calibration.metric(ctx));
+    if (this.recent.length > SMOOTHING_WINDOW) {
+      this.recent.shift();
+    }
+    const value = this.recent.reduce((sum, v) => sum + v, 0) / this.recent.length;
+    this.track(value);
+    return this.getProgress();
+  }
+
+  getProgress(): CalibrationProgress {
+    return {
+      reps: this.bottoms.length,
+      target: CALIBRATION_REPS,
+      phase: this.phase,
+      current: this.recent.length > 0 ? this.recent[this.recent.length - 1] : null
+    };
+  }
+
+  isComplete(): boolean {
+    return this.bottoms.length >= CALIBRATION_REPS;
+  }
+
+  // Median top/bottom across the recorded reps; null if the user didn't move enough
+  finish(): ExerciseCalibration | null {
+    if (this.bottoms.length < MIN_CALIBRATION_REPS) return null;
+    const top = median(this.tops);
+    const bottom = median(this.bottoms);
+    if (top - bottom < MIN_RANGE) return null;
+
+    return {
+      bottom: Math.round(bottom),
+      top: Math.round(top),
+      reps: this.bottoms.length,
+      angleSource: this.angleSource,
+      calibratedAt: new Date().toISOString()
+    };
+  }
+
+  // Hysteresis on the running extreme: a turnaround only counts once the value
+  // has moved MIN_RANGE back from it, so jitter at the top or bottom is ignored
+  private track(value: number) {
+    if (this.extreme === null) {
+      this.extreme = value;
+      return;
+    }
+    if (this.phase === 'top') {
+      if (value > this.extreme) {
+        this.extreme = value;
+      } else if (value < this.extreme - MIN_RANGE) {
+        this.tops.push(this.extreme);
+        this.phase = 'bottom';
+        this.extreme = value;
+      }
+    } else if (value < this.extreme) {
+      this.extreme = value;
+    } else if (value > this.extreme + MIN_RANGE) {
+      this.bottoms.push(this.extreme);
+      this.phase = 'top';
+      this.extreme = value;
+    }
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,105 @@
+// External load and perceived effort for a set. Bodyweight sets have no
+// weight; loaded sets carry the total weight used (both dumbbells together).
+
+export type WeightUnit = 'kg' | 'lb';
+
+export type Equipment = 'bodyweight' | 'dumbbells' | 'kettlebell' | 'barbell' | 'resistance_band' | 'weighted_vest';
+
+export interface SetLoad {
+  weight: number | null;
+  unit: WeightUnit;
+  equipment: Equipment;
+}
+
+// RPE 1-10 (10 = nothing left) and/or reps in reserve, as reported after the set
+export interface SetEffort {
+  rpe?: number;
+  rir?: number;
+}
+
+export const BODYWEIGHT: SetLoad = { weight: null, unit: 'kg', equipment: 'bodyweight' };
+
+const LB_PER_KG = 2.20462;
+const WEIGHT_STEP: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, none: 0, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const EQUIPMENT_WORDS: [RegExp, Equipment][] = [
+  [/dumb\s?bells?/, 'dumbbells'],
+  [/kettle\s?bells?/, 'kettlebell'],
+  [/barbell|bar\b/, 'barbell'],
+  [/bands?\b/, 'resistance_band'],
+  [/vest/, 'weighted_vest']
+];
+
+function parseNumber(token: string): number | null {
+  if (token in NUMBER_WORDS) return NUMBER_WORDS[token];
+  const value = parseFloat(token);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function toKilograms(weight: number, unit: WeightUnit): number {
+  return unit === 'lb' ? weight / LB_PER_KG : weight;
+}
+
+// Volume load (kg x reps); bodyweight sets contribute nothing
+export function setVolume(reps: number, load: SetLoad | null | undefined): number {
+  if (!load?.weight) return 0;
+  return toKilograms(load.weight, load.unit) * reps;
+}
+
+export function adjustWeight(load: SetLoad, steps: number): SetLoad {
+  const weight = Math.max(0, (load.weight ?? 0) + steps * WEIGHT_STEP[load.unit]);
+  return { ...load, weight: weight > 0 ? weight : null };
+}
+
+export function describeLoad(load: SetLoad | null | undefined): string {
+  if (!load?.weight) return 'bodyweight';
+  const equipment = load.equipment === 'bodyweight' ? '' : ` ${load.equipment.replace('_', ' ')}`;
+  return `${load.weight} ${load.unit}${equipment}`;
+}
+
+// "RPE 8", "that was an 8 out of 10", "two reps left", "1 in the tank"
+export function parseSetEffort(text: string): SetEffort | null {
+  const lower = text.toLowerCase();
+  const number = '(\\d+(?:\\.\\d)?|zero|none|one|two|three|four|five|six|seven|eight|nine|ten)';
+  const effort: SetEffort = {};
+
+  const rpe = new RegExp(`(?:rpe|rate of perceived exertion)\\s*(?:of|was|is)?\\s*${number}`).exec(lower) ??
+    new RegExp(`${number}\\s*(?:out of|/)\\s*10`).exec(lower);
+  if (rpe) {
+    const value = parseNumber(rpe[1]);
+    if (value !== null && value >= 1 && value <= 10) effort.rpe = value;
+  }
+
+  const rir = new RegExp(`${number}\\s*(?:more\\s*)?(?:reps?\\s*)?(?:left|in reserve|in the tank)`).exec(lower) ??
+    /\brir\s*(\d+)/.exec(lower);
+  if (rir) {
+    const value = parseNumber(rir[1]);
+    if (value !== null && value >= 0 && value <= 10) effort.rir = value;
+  } else if (/nothing left|failure|couldn't do another|could not do another/.test(lower)) {
+    effort.rir = 0;
+  }
+
+  return effort.rpe !== undefined || effort.rir !== undefined ? effort : null;
+}
+
+// "20 kilo dumbbells", "using 45 pounds", "a 16kg kettlebell"
+export function parseSetLoad(text: string): Partial<SetLoad> | null {
+  const lower = text.toLowerCase();
+  const match = /(\d+(?:\.\d+)?)\s*(kg|kgs|kilos?|kilograms?|lbs?|pounds?)\b/.exec(lower);
+  if (!match) return null;
+
+  const load: Partial<SetLoad> = {
+    weight: parseFloat(match[1]),
+    unit: /^(lb|pound)/.test(match[2]) ? 'lb' : 'kg'
+  };
+  const equipment = EQUIPMENT_WORDS.find(([pattern]) => pattern.test(lower));
+  if (equipment) {
+    load.equipment = equipment[1];
+  }
+  return load;
+}
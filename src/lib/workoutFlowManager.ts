@@ -1,12 +1,32 @@
 import { WorkoutPlan, ExercisePlan } from './planAwareRepCounter';
+import type { RepEvent } from './repAnalytics';
+import { setVolume, type SetEffort, type SetLoad } from './setLoad';
+import {
+  IntervalSession,
+  isIntervalFormat,
+  type IntervalFormat,
+  type IntervalScore,
+  type IntervalSegment,
+  type IntervalSessionSnapshot,
+  type IntervalWork
+} from './workoutFormats';
 
 export interface WorkoutTransition {
-  type: 'exercise_switch' | 'workout_complete' | 'rest_period';
+  type: 'exercise_switch' | 'workout_complete' | 'rest_period' | 'interval_work' | 'interval_rest';
   from?: string;
   to?: string;
   guidance?: string;
   countdown?: number;
   summary?: WorkoutSummary;
+  // Interval formats only
+  format?: IntervalFormat;
+  round?: number;
+  totalRounds?: number | null;
+  targetReps?: number | null; // null for timed work
+  endsAt?: number | null; // Segment deadline; null when it ends on reps
+  skippable?: boolean; // Rest can be cut short (rep-driven formats)
+  completedWork?: IntervalWork; // Work segment that just finished, to persist as a set
+  resumed?: boolean; // Re-announces the current segment after a pause; counting carries on
 }
 
 export interface WorkoutSummary {
@@ -15,6 +35,11 @@ export interface WorkoutSummary {
   totalTime: number;
   totalReps: number;
   averageFormScore: number;
+  timeUnderTension: number; // seconds, across all tracked reps
+  fatiguedExercises: string[];
+  totalVolume: number; // kg x reps across loaded sets
+  averageRpe: number | null; // Across sets the user rated
+  intervalScore?: IntervalScore; // Rounds plus reps for interval formats
   achievements: string[];
 }
 
@@ -25,6 +50,23 @@ export interface ExerciseProgress {
   formScore: number;
   startTime: number;
   endTime?: number;
+  timeUnderTensionMs: number;
+  velocityLoss: number; // Latest rep's velocity loss within the current set
+  fatigued: boolean;
+  load?: SetLoad; // Load of the latest set
+  volume: number; // kg x reps
+  efforts: SetEffort[];
+}
+
+// Flow state for crash recovery. Times are stored relative to the workout so
+// the time spent away doesn't count against it.
+export interface WorkoutFlowSnapshot {
+  currentExerciseIndex: number;
+  elapsedMs: number;
+  exerciseProgress: ExerciseProgress[];
+  completedExercises: string[];
+  interval: IntervalSessionSnapshot | null;
+  intervalElapsedMs: number | null; // Offset of the snapshot into the interval clock
 }
 
 export class WorkoutFlowManager {
@@ -36,10 +78,16 @@ export class WorkoutFlowManager {
   private completedExercises: Set<string> = new Set();
   private onTransitionCallback?: (transition: WorkoutTransition) => void;
   private activeTimers: Set<NodeJS.Timeout> = new Set(); // Track active timers for cleanup
+  private intervalSession: IntervalSession | null = null;
+  private intervalTimer: NodeJS.Timeout | null = null;
+  private pausedAt: number | null = null;
   
   constructor(workoutPlan: WorkoutPlan) {
     this.plan = workoutPlan;
     this.workoutStartTime = Date.now();
+    if (isIntervalFormat(workoutPlan.format)) {
+      this.intervalSession = new IntervalSession(workoutPlan, workoutPlan.format);
+    }
   }
   
   setOnTransitionCallback(callback: (transition: WorkoutTransition) => void) {
@@ -47,17 +95,29 @@ export class WorkoutFlowManager {
   }
   
   startExercise(exerciseType: string) {
+    // Interval formats revisit exercises every round; keep accumulating
+    if (this.intervalSession && this.exerciseProgress.has(exerciseType)) return;
     const progress: ExerciseProgress = {
       exerciseType,
       setsCompleted: 0,
       totalReps: 0,
       formScore: 1,
-      startTime: Date.now()
+      startTime: Date.now(),
+      timeUnderTensionMs: 0,
+      velocityLoss: 0,
+      fatigued: false,
+      volume: 0,
+      efforts: []
     };
     this.exerciseProgress.set(exerciseType, progress);
   }
   
   async handleExerciseCompletion(exercise: string): Promise<WorkoutTransition> {
+    // Ending an exercise early in an interval workout ends the whole block
+    if (this.intervalSession) {
+      return this.endIntervalWorkout();
+    }
+    
     // Mark exercise as completed
     this.completedExercises.add(exercise);
     
@@ -113,6 +173,210 @@ export class WorkoutFlowManager {
     }
   }
   
+  // Rep-level analytics from ExerciseRepCounter; fatigue sticks for the exercise once flagged
+  recordRep(exercise: string, event: RepEvent) {
+    const progress = this.exerciseProgress.get(exercise);
+    if (progress) {
+      progress.timeUnderTensionMs += event.tempo.timeUnderTensionMs;
+      progress.velocityLoss = event.velocityLoss;
+      progress.fatigued = progress.fatigued || event.isFatigued;
+    }
+  }
+  
+  recordSetLoad(exercise: string, reps: number, load: SetLoad | null) {
+    const progress = this.exerciseProgress.get(exercise);
+    if (progress && load) {
+      progress.load = load;
+      progress.volume += setVolume(reps, load);
+    }
+  }
+  
+  // RPE/RIR reported after a set, by voice or tap
+  recordSetEffort(exercise: string, effort: SetEffort) {
+    this.exerciseProgress.get(exercise)?.efforts.push(effort);
+  }
+  
+  isIntervalWorkout(): boolean {
+    return this.intervalSession !== null;
+  }
+  
+  isIntervalStarted(): boolean {
+    return this.intervalSession?.isStarted() ?? false;
+  }
+  
+  isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+  
+  // Freezes the workout clock and any interval deadline until resume()
+  pause() {
+    if (this.pausedAt !== null) return;
+    this.pausedAt = Date.now();
+    this.clearIntervalClock();
+  }
+  
+  resume() {
+    if (this.pausedAt === null) return;
+    const pausedFor = Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.workoutStartTime += pausedFor;
+    if (this.intervalSession?.isStarted() && !this.intervalSession.isComplete()) {
+      this.intervalSession.shiftClock(pausedFor);
+      this.emitIntervalSegment(null, true);
+    }
+  }
+  
+  getSnapshot(): WorkoutFlowSnapshot {
+    const now = this.pausedAt ?? Date.now();
+    const interval = this.intervalSession?.getSnapshot() ?? null;
+    return {
+      currentExerciseIndex: this.currentExerciseIndex,
+      elapsedMs: now - this.workoutStartTime,
+      exerciseProgress: Array.from(this.exerciseProgress.values()),
+      completedExercises: Array.from(this.completedExercises),
+      interval,
+      intervalElapsedMs: interval?.startedAt != null ? now - interval.startedAt : null
+    };
+  }
+  
+  // Restored workouts come back paused; resume() restarts the clocks from where they stopped
+  restore(snapshot: WorkoutFlowSnapshot) {
+    const now = Date.now();
+    this.pausedAt = now;
+    this.clearIntervalClock();
+    this.currentExerciseIndex = snapshot.currentExerciseIndex;
+    this.workoutStartTime = now - snapshot.elapsedMs;
+    this.exerciseProgress = new Map(snapshot.exerciseProgress.map(progress => [progress.exerciseType, progress]));
+    this.completedExercises = new Set(snapshot.completedExercises);
+    if (this.intervalSession && snapshot.interval) {
+      this.intervalSession.restore(snapshot.interval);
+      if (snapshot.interval.startedAt !== null && snapshot.intervalElapsedMs !== null) {
+        this.intervalSession.shiftClock(now - snapshot.intervalElapsedMs - snapshot.interval.startedAt);
+      }
+    }
+  }
+  
+  // Starts the interval clock; the first work segment arrives as an 'interval_work' transition
+  startIntervalWorkout() {
+    if (!this.intervalSession || this.intervalSession.isStarted()) return;
+    this.workoutStartTime = Date.now();
+    this.intervalSession.start(Date.now());
+    this.emitIntervalSegment(null);
+  }
+  
+  // Cumulative reps in the current work segment, from the plan-aware counter
+  recordIntervalReps(reps: number, formScore: number) {
+    if (this.pausedAt !== null) return;
+    const completed = this.intervalSession?.recordReps(reps, formScore, Date.now());
+    if (completed) {
+      this.emitIntervalSegment(completed);
+    }
+  }
+  
+  // Cut a rep-driven rest short; clock-driven rests ignore this
+  skipIntervalRest() {
+    if (this.pausedAt === null && this.intervalSession?.skipRest()) {
+      this.emitIntervalSegment(null);
+    }
+  }
+  
+  private onIntervalClock() {
+    this.intervalTimer = null;
+    if (!this.intervalSession) return;
+    const completed = this.intervalSession.tick(Date.now());
+    this.emitIntervalSegment(completed);
+  }
+  
+  private recordIntervalWork(work: IntervalWork) {
+    if (!this.exerciseProgress.has(work.exerciseType)) {
+      this.startExercise(work.exerciseType);
+    }
+    const progress = this.exerciseProgress.get(work.exerciseType)!;
+    this.handleSetCompletion(work.exerciseType, progress.setsCompleted + 1, work.reps, work.formScore);
+    this.completedExercises.add(work.exerciseType);
+  }
+  
+  private emitIntervalSegment(completed: IntervalWork | null, resumed = false) {
+    const session = this.intervalSession!;
+    if (completed) {
+      this.recordIntervalWork(completed);
+    }
+    if (session.isComplete()) {
+      this.finishIntervalWorkout(completed);
+      return;
+    }
+    
+    const segment = session.getSegment()!;
+    this.scheduleIntervalClock(segment);
+    this.onTransitionCallback?.({
+      type: segment.phase === 'work' ? 'interval_work' : 'interval_rest',
+      to: segment.exerciseType,
+      guidance: this.getIntervalGuidance(segment),
+      countdown: segment.endsAt !== null ? Math.max(0, Math.ceil((segment.endsAt - Date.now()) / 1000)) : undefined,
+      format: session.format,
+      round: segment.round,
+      totalRounds: segment.totalRounds,
+      targetReps: segment.targetReps,
+      endsAt: segment.endsAt,
+      skippable: segment.phase === 'rest' && !session.isClockDriven(),
+      ...(completed ? { completedWork: completed } : {}),
+      ...(resumed ? { resumed } : {})
+    });
+  }
+  
+  // Stop early, keeping the reps of the segment in progress
+  private endIntervalWorkout(): WorkoutTransition {
+    const work = this.intervalSession!.finish();
+    if (work) {
+      this.recordIntervalWork(work);
+    }
+    return this.finishIntervalWorkout(work);
+  }
+  
+  private finishIntervalWorkout(lastWork: IntervalWork | null): WorkoutTransition {
+    this.clearIntervalClock();
+    const transition: WorkoutTransition = {
+      type: 'workout_complete',
+      summary: this.generateWorkoutSummary(),
+      ...(lastWork ? { completedWork: lastWork } : {})
+    };
+    this.onTransitionCallback?.(transition);
+    return transition;
+  }
+  
+  private scheduleIntervalClock(segment: IntervalSegment) {
+    this.clearIntervalClock();
+    if (segment.endsAt === null) return;
+    const timer = setTimeout(() => {
+      this.activeTimers.delete(timer);
+      this.onIntervalClock();
+    }, Math.max(0, segment.endsAt - Date.now()));
+    this.intervalTimer = timer;
+    this.activeTimers.add(timer);
+  }
+  
+  private clearIntervalClock() {
+    if (this.intervalTimer) {
+      clearTimeout(this.intervalTimer);
+      this.activeTimers.delete(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+  }
+  
+  private getIntervalGuidance(segment: IntervalSegment): string {
+    const round = segment.totalRounds ? `Round ${segment.round}/${segment.totalRounds}` : `Round ${segment.round}`;
+    if (segment.phase === 'rest') {
+      return `${round} next: ${segment.exerciseType}${segment.targetReps ? ` x ${segment.targetReps}` : ''}`;
+    }
+    return segment.targetReps
+      ? `${round}: ${segment.targetReps} ${segment.exerciseType}`
+      : `${round}: max ${segment.exerciseType}!`;
+  }
+  
+  isFatigued(exercise: string): boolean {
+    return this.exerciseProgress.get(exercise)?.fatigued ?? false;
+  }
+  
   private getNextExercise(): ExercisePlan | null {
     // Find next uncompleted exercise in plan order
     for (let i = 0; i < this.plan.exercises.length; i++) {
@@ -143,11 +407,25 @@ export class WorkoutFlowManager {
     let totalReps = 0;
     let totalFormScore = 0;
     let exerciseCount = 0;
+    let timeUnderTensionMs = 0;
+    const fatiguedExercises: string[] = [];
+    let totalVolume = 0;
+    const rpes: number[] = [];
     
     this.exerciseProgress.forEach(progress => {
       totalReps += progress.totalReps;
       totalFormScore += progress.formScore;
       exerciseCount++;
+      timeUnderTensionMs += progress.timeUnderTensionMs;
+      if (progress.fatigued) {
+        fatiguedExercises.push(progress.exerciseType);
+      }
+      totalVolume += progress.volume;
+      progress.efforts.forEach(effort => {
+        // RIR maps onto RPE as 10 - RIR when only reps in reserve were given
+        const rpe = effort.rpe ?? (effort.rir !== undefined ? 10 - effort.rir : undefined);
+        if (rpe !== undefined) rpes.push(rpe);
+      });
     });
     
     const averageFormScore = exerciseCount > 0 ? totalFormScore / exerciseCount : 0;
@@ -163,9 +441,13 @@ export class WorkoutFlowManager {
     if (totalReps > 100) {
       achievements.push('100+ reps! 💪');
     }
-    if (totalTime < this.plan.totalDuration * 60) {
+    if (totalTime < this.plan.totalDuration * 60 && !this.intervalSession) {
       achievements.push('Finished ahead of schedule! ⚡');
     }
+    const intervalScore = this.intervalSession?.getScore();
+    if (intervalScore?.format === 'emom' && intervalScore.rounds === intervalScore.repsPerRound.length && intervalScore.rounds > 0) {
+      achievements.push('Beat the clock every minute! ⏱️');
+    }
     
     return {
       totalExercises: this.plan.exercises.length,
@@ -173,6 +455,11 @@ export class WorkoutFlowManager {
       totalTime,
       totalReps,
       averageFormScore,
+      timeUnderTension: Math.round(timeUnderTensionMs / 1000),
+      fatiguedExercises,
+      totalVolume: Math.round(totalVolume),
+      averageRpe: rpes.length > 0 ? Math.round((rpes.reduce((a, b) => a + b, 0) / rpes.length) * 10) / 10 : null,
+      ...(intervalScore ? { intervalScore } : {}),
       achievements
     };
   }
@@ -194,6 +481,9 @@ export class WorkoutFlowManager {
   }
   
   skipCurrentExercise() {
+    if (this.intervalSession) {
+      return Promise.resolve(this.endIntervalWorkout());
+    }
     const current = this.getCurrentExercise();
     if (current) {
       return this.handleExerciseCompletion(current.exerciseType);
@@ -204,6 +494,24 @@ export class WorkoutFlowManager {
     });
   }
   
+  // Plan edited mid-workout by the coach; interval sessions keep the schedule they started with
+  updatePlan(plan: WorkoutPlan) {
+    this.plan = plan;
+  }
+  
+  // Stop early with a summary of what was done (the coach's end_workout)
+  endWorkout(): WorkoutTransition {
+    if (this.intervalSession?.isStarted()) {
+      return this.endIntervalWorkout();
+    }
+    const transition: WorkoutTransition = {
+      type: 'workout_complete',
+      summary: this.generateWorkoutSummary()
+    };
+    this.onTransitionCallback?.(transition);
+    return transition;
+  }
+  
   setAutoSwitch(enabled: boolean) {
     this.autoSwitchEnabled = enabled;
   }
@@ -217,6 +525,8 @@ export class WorkoutFlowManager {
     // Clear all active timers
     this.activeTimers.forEach(timer => clearTimeout(timer));
     this.activeTimers.clear();
+    this.intervalTimer = null;
+    this.intervalSession = null;
     
     // Clear callback reference
     this.onTransitionCallback = undefined;
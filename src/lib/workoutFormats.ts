@@ -0,0 +1,402 @@
+import type { ExerciseType } from './exercises';
+import type { ExercisePlan, WorkoutPlan } from './planAwareRepCounter';
+
+// Structured interval formats on top of the plan's exercise list. 'sets' is the
+// classic N sets of M reps with rest and stays with PlanAwareRepCounter; the
+// others are driven by an IntervalSession, which is a pure state machine - the
+// caller passes the clock in and owns the timers.
+export type WorkoutFormat = 'sets' | 'emom' | 'amrap' | 'tabata' | 'circuit' | 'superset';
+export type IntervalFormat = Exclude<WorkoutFormat, 'sets'>;
+
+export interface IntervalSettings {
+  rounds?: number; // EMOM minutes, Tabata intervals, circuit rounds
+  intervalSeconds?: number; // EMOM slot length
+  timeCapSeconds?: number; // AMRAP cap
+  workSeconds?: number; // Tabata work interval
+  restSeconds?: number; // Tabata rest; circuit/superset rest between exercises
+  roundRestSeconds?: number; // Circuit rest after each round; superset rest after each pass (defaults to the exercises' restDuration)
+}
+
+export interface IntervalSegment {
+  phase: 'work' | 'rest';
+  exerciseType: ExerciseType; // Exercise being done, or coming up next during rest
+  round: number; // 1-based
+  totalRounds: number | null; // null when open-ended (AMRAP)
+  targetReps: number | null; // null for timed work (Tabata)
+  endsAt: number | null; // Clock deadline; null when the segment only ends on reps
+}
+
+export interface IntervalWork {
+  exerciseType: ExerciseType;
+  round: number;
+  reps: number;
+  formScore: number;
+  hitTarget: boolean;
+}
+
+export interface IntervalScore {
+  format: IntervalFormat;
+  rounds: number; // Fully completed rounds (EMOM: minutes where the target was hit)
+  partialReps: number; // AMRAP reps into the unfinished round
+  totalReps: number;
+  repsPerRound: number[];
+  description: string; // "5 rounds + 7 reps"
+}
+
+// Everything needed to rebuild an IntervalSession after a reload
+export interface IntervalSessionSnapshot {
+  startedAt: number | null;
+  stepIndex: number;
+  segment: IntervalSegment | null;
+  currentReps: number;
+  repsPerRound: number[];
+  roundsCompleted: number;
+  complete: boolean;
+}
+
+const DEFAULT_SETTINGS: Record<IntervalFormat, IntervalSettings> = {
+  emom: { intervalSeconds: 60, rounds: 10 },
+  amrap: { timeCapSeconds: 600 },
+  tabata: { workSeconds: 20, restSeconds: 10, rounds: 8 },
+  circuit: { rounds: 3, restSeconds: 10, roundRestSeconds: 60 },
+  superset: { restSeconds: 0 }
+};
+
+// Rest-only segments for these formats run on the workout clock and can't be skipped
+const CLOCK_DRIVEN: IntervalFormat[] = ['emom', 'amrap', 'tabata'];
+
+interface IntervalStep {
+  exercise: ExercisePlan;
+  round: number;
+  totalRounds: number | null;
+  restAfter: number; // Seconds of rest before the next step (rep-driven formats)
+  endsRound: boolean;
+}
+
+export function isIntervalFormat(format: WorkoutFormat | undefined): format is IntervalFormat {
+  return !!format && format !== 'sets';
+}
+
+export function resolveIntervalSettings(format: IntervalFormat, settings: IntervalSettings = {}): IntervalSettings {
+  return { ...DEFAULT_SETTINGS[format], ...settings };
+}
+
+// Superset groups: consecutive exercises sharing supersetGroup, or consecutive
+// pairs when the plan doesn't label any
+function supersetGroups(exercises: ExercisePlan[]): ExercisePlan[][] {
+  if (!exercises.some(ex => ex.supersetGroup)) {
+    const pairs: ExercisePlan[][] = [];
+    for (let i = 0; i < exercises.length; i += 2) {
+      pairs.push(exercises.slice(i, i + 2));
+    }
+    return pairs;
+  }
+  const groups: ExercisePlan[][] = [];
+  exercises.forEach((exercise, index) => {
+    const previous = exercises[index - 1];
+    if (previous && exercise.supersetGroup && exercise.supersetGroup === previous.supersetGroup) {
+      groups[groups.length - 1].push(exercise);
+    } else {
+      groups.push([exercise]);
+    }
+  });
+  return groups;
+}
+
+export class IntervalSession {
+  private settings: IntervalSettings;
+  private exercises: ExercisePlan[];
+  private steps: IntervalStep[] | null; // Precomputed for the finite rep-driven formats
+  private startedAt: number | null = null;
+  private stepIndex = 0;
+  private segment: IntervalSegment | null = null;
+  private currentReps = 0;
+  private currentFormScore = 1;
+  private repsPerRound: number[] = [];
+  private roundsCompleted = 0; // EMOM: minutes where the target was reached
+  private complete = false;
+
+  constructor(plan: WorkoutPlan, readonly format: IntervalFormat) {
+    this.settings = resolveIntervalSettings(format, plan.interval);
+    this.exercises = [...plan.exercises].sort((a, b) => a.order - b.order);
+    if (this.exercises.length === 0) {
+      throw new Error('Interval workout needs at least one exercise');
+    }
+    this.steps = format === 'circuit' ? this.circuitSteps() : format === 'superset' ? this.supersetSteps() : null;
+  }
+
+  start(now: number): IntervalSegment | null {
+    this.startedAt = now;
+    return this.enterWork(0);
+  }
+
+  isStarted(): boolean {
+    return this.startedAt !== null;
+  }
+
+  isComplete(): boolean {
+    return this.complete;
+  }
+
+  isClockDriven(): boolean {
+    return CLOCK_DRIVEN.includes(this.format);
+  }
+
+  getSegment(): IntervalSegment | null {
+    return this.segment;
+  }
+
+  // Cumulative reps in the current work segment; finishes it once the target is reached
+  recordReps(reps: number, formScore: number, now: number): IntervalWork | null {
+    if (!this.segment || this.segment.phase !== 'work') return null;
+    this.currentReps = reps;
+    this.currentFormScore = formScore;
+    if (this.segment.targetReps !== null && reps >= this.segment.targetReps) {
+      return this.finishWork(true, now);
+    }
+    return null;
+  }
+
+  // Advance past any segment whose deadline has passed
+  tick(now: number): IntervalWork | null {
+    if (!this.segment || this.segment.endsAt === null || now < this.segment.endsAt) return null;
+    if (this.segment.phase === 'work') {
+      return this.finishWork(false, now);
+    }
+    this.enterWork(this.stepIndex + 1);
+    return null;
+  }
+
+  // Rep-driven formats let the user cut rest short; clock-driven ones wait for the clock
+  skipRest(): boolean {
+    if (this.segment?.phase !== 'rest' || this.isClockDriven()) return false;
+    this.enterWork(this.stepIndex + 1);
+    return true;
+  }
+
+  // Ending early keeps whatever was done in the current work segment
+  finish(): IntervalWork | null {
+    if (this.complete) return null;
+    const work = this.segment?.phase === 'work' && this.currentReps > 0 ? this.recordWork(false) : null;
+    this.complete = true;
+    this.segment = null;
+    return work;
+  }
+
+  // Move the clock forward by a pause, so deadlines land where they would have without it
+  shiftClock(ms: number) {
+    if (this.startedAt !== null) {
+      this.startedAt += ms;
+    }
+    if (this.segment?.endsAt != null) {
+      this.segment = { ...this.segment, endsAt: this.segment.endsAt + ms };
+    }
+  }
+
+  getSnapshot(): IntervalSessionSnapshot {
+    return {
+      startedAt: this.startedAt,
+      stepIndex: this.stepIndex,
+      segment: this.segment,
+      currentReps: this.currentReps,
+      repsPerRound: [...this.repsPerRound],
+      roundsCompleted: this.roundsCompleted,
+      complete: this.complete
+    };
+  }
+
+  restore(snapshot: IntervalSessionSnapshot) {
+    this.startedAt = snapshot.startedAt;
+    this.stepIndex = snapshot.stepIndex;
+    this.segment = snapshot.segment;
+    this.currentReps = snapshot.currentReps;
+    this.repsPerRound = [...snapshot.repsPerRound];
+    this.roundsCompleted = snapshot.roundsCompleted;
+    this.complete = snapshot.complete;
+  }
+
+  getScore(): IntervalScore {
+    const totalReps = this.repsPerRound.reduce((sum, reps) => sum + (reps ?? 0), 0);
+    const rounds = this.roundsCompleted;
+    let partialReps = 0;
+    let description = `${rounds} round${rounds === 1 ? '' : 's'}, ${totalReps} reps`;
+
+    if (this.format === 'amrap') {
+      // Reps into the round the time cap cut off
+      partialReps = this.repsPerRound[rounds] ?? 0;
+      description = `${rounds} round${rounds === 1 ? '' : 's'} + ${partialReps} reps`;
+    } else if (this.format === 'emom') {
+      description = `${rounds}/${this.settings.rounds} minutes on target, ${totalReps} reps`;
+    } else if (this.format === 'tabata') {
+      // Classic Tabata score is the weakest interval
+      const lowest = this.repsPerRound.length > 0 ? Math.min(...this.repsPerRound) : 0;
+      description = `${totalReps} reps over ${this.repsPerRound.length} intervals (lowest ${lowest})`;
+    }
+
+    return {
+      format: this.format,
+      rounds,
+      partialReps,
+      totalReps,
+      repsPerRound: [...this.repsPerRound],
+      description
+    };
+  }
+
+  private stepAt(index: number): IntervalStep | null {
+    if (this.steps) return this.steps[index] ?? null;
+
+    const exercise = this.exercises[index % this.exercises.length];
+    if (this.format === 'amrap') {
+      return {
+        exercise,
+        round: Math.floor(index / this.exercises.length) + 1,
+        totalRounds: null,
+        restAfter: 0,
+        endsRound: index % this.exercises.length === this.exercises.length - 1
+      };
+    }
+    // EMOM and Tabata: one exercise per interval, rotating through the plan
+    const rounds = this.settings.rounds!;
+    if (index >= rounds) return null;
+    return { exercise, round: index + 1, totalRounds: rounds, restAfter: 0, endsRound: true };
+  }
+
+  private circuitSteps(): IntervalStep[] {
+    const rounds = this.settings.rounds!;
+    const steps: IntervalStep[] = [];
+    for (let round = 1; round <= rounds; round++) {
+      this.exercises.forEach((exercise, index) => {
+        const endsRound = index === this.exercises.length - 1;
+        steps.push({
+          exercise,
+          round,
+          totalRounds: rounds,
+          restAfter: endsRound ? this.settings.roundRestSeconds! : this.settings.restSeconds!,
+          endsRound
+        });
+      });
+    }
+    return steps;
+  }
+
+  private supersetSteps(): IntervalStep[] {
+    const steps: IntervalStep[] = [];
+    for (const group of supersetGroups(this.exercises)) {
+      const rounds = Math.max(...group.map(ex => ex.sets));
+      const roundRest = this.settings.roundRestSeconds ?? Math.max(...group.map(ex => ex.restDuration));
+      for (let round = 1; round <= rounds; round++) {
+        // An exercise with fewer sets drops out of the later passes
+        const active = group.filter(ex => ex.sets >= round);
+        active.forEach((exercise, index) => {
+          const endsRound = index === active.length - 1;
+          steps.push({
+            exercise,
+            round,
+            totalRounds: rounds,
+            restAfter: endsRound ? roundRest : this.settings.restSeconds!,
+            endsRound
+          });
+        });
+      }
+    }
+    return steps;
+  }
+
+  private workEndsAt(index: number): number | null {
+    const startedAt = this.startedAt!;
+    switch (this.format) {
+      case 'emom':
+        return startedAt + (index + 1) * this.settings.intervalSeconds! * 1000;
+      case 'tabata':
+        return startedAt + (index * (this.settings.workSeconds! + this.settings.restSeconds!) + this.settings.workSeconds!) * 1000;
+      case 'amrap':
+        return startedAt + this.settings.timeCapSeconds! * 1000;
+      default:
+        return null;
+    }
+  }
+
+  private enterWork(index: number): IntervalSegment | null {
+    const step = this.stepAt(index);
+    this.stepIndex = index;
+    this.currentReps = 0;
+    if (!step) {
+      this.complete = true;
+      this.segment = null;
+      return null;
+    }
+
+    this.segment = {
+      phase: 'work',
+      exerciseType: step.exercise.exerciseType,
+      round: step.round,
+      totalRounds: step.totalRounds,
+      // Tabata work is "as many as you can" until the buzzer
+      targetReps: this.format === 'tabata' ? null : step.exercise.targetReps,
+      endsAt: this.workEndsAt(index)
+    };
+    return this.segment;
+  }
+
+  private recordWork(hitTarget: boolean): IntervalWork {
+    const segment = this.segment!;
+    const roundIndex = segment.round - 1;
+    this.repsPerRound[roundIndex] = (this.repsPerRound[roundIndex] ?? 0) + this.currentReps;
+    // Tabata intervals always count; elsewhere a round only counts once its last exercise hit target
+    if (this.format === 'tabata' || (hitTarget && this.stepAt(this.stepIndex)?.endsRound)) {
+      this.roundsCompleted++;
+    }
+    return {
+      exerciseType: segment.exerciseType,
+      round: segment.round,
+      reps: this.currentReps,
+      formScore: this.currentFormScore,
+      hitTarget
+    };
+  }
+
+  private finishWork(hitTarget: boolean, now: number): IntervalWork {
+    const work = this.recordWork(hitTarget);
+    const step = this.stepAt(this.stepIndex)!;
+    const next = this.stepAt(this.stepIndex + 1);
+
+    if (this.format === 'amrap' && !hitTarget) {
+      // Time cap reached mid-round
+      this.complete = true;
+      this.segment = null;
+      return work;
+    }
+    if (!next) {
+      this.stepIndex++;
+      this.complete = true;
+      this.segment = null;
+      return work;
+    }
+
+    let restEndsAt: number | null = null;
+    if (this.format === 'emom' && hitTarget) {
+      // Rest for whatever is left of the minute
+      restEndsAt = this.segment!.endsAt;
+    } else if (this.format === 'tabata') {
+      restEndsAt = this.startedAt! + (this.stepIndex + 1) * (this.settings.workSeconds! + this.settings.restSeconds!) * 1000;
+    } else if (!this.isClockDriven() && step.restAfter > 0) {
+      restEndsAt = now + step.restAfter * 1000;
+    }
+
+    if (restEndsAt === null || restEndsAt <= now) {
+      this.enterWork(this.stepIndex + 1);
+      return work;
+    }
+
+    this.segment = {
+      phase: 'rest',
+      exerciseType: next.exercise.exerciseType,
+      round: next.round,
+      totalRounds: next.totalRounds,
+      targetReps: this.format === 'tabata' ? null : next.exercise.targetReps,
+      endsAt: restEndsAt
+    };
+    return work;
+  }
+}
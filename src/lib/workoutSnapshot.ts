@@ -0,0 +1,77 @@
+import type { ExerciseType } from './exercises';
+import type { PlanCounterSnapshot, WorkoutPlan } from './planAwareRepCounter';
+import type { WorkoutFlowSnapshot } from './workoutFlowManager';
+
+// In-progress workout state, saved to IndexedDB on every change so a reload can
+// pick up where the user left off, and mirrored to the server (exercise_sessions)
+// so a dropped socket or another device can too.
+export const WORKOUT_SNAPSHOT_VERSION = 1;
+
+const DB_NAME = 'workout-recovery';
+const STORE_NAME = 'snapshots';
+const MAX_AGE_MS = 12 * 60 * 60 * 1000; // Matches the server's resume window
+
+export interface WorkoutSnapshot {
+  version: typeof WORKOUT_SNAPSHOT_VERSION;
+  key: string; // Coach persona slug; one resumable workout per coach
+  savedAt: number;
+  position: string; // "Push-ups set 2/3", for the resume prompt
+  plan: WorkoutPlan;
+  currentExercise: ExerciseType | null;
+  paused: boolean;
+  flow: WorkoutFlowSnapshot;
+  counter: PlanCounterSnapshot;
+}
+
+export function describeWorkoutPosition(plan: WorkoutPlan, flow: WorkoutFlowSnapshot, counter: PlanCounterSnapshot): string {
+  const segment = flow.interval?.segment;
+  if (segment) {
+    return `${segment.exerciseType}, ${plan.format?.toUpperCase()} round ${segment.round}${segment.totalRounds ? `/${segment.totalRounds}` : ''}`;
+  }
+  const completed = new Set(counter.completedExercises);
+  const exercise = plan.exercises.find(ex => !completed.has(ex.exerciseType));
+  if (!exercise) return 'the end of your workout';
+  const currentSet = plan.exercises[counter.currentExerciseIndex]?.exerciseType === exercise.exerciseType ? counter.currentSet : 1;
+  return `${exercise.exerciseType} set ${currentSet}/${exercise.sets}`;
+}
+
+export function isResumableSnapshot(snapshot: WorkoutSnapshot | null | undefined): snapshot is WorkoutSnapshot {
+  return !!snapshot && snapshot.version === WORKOUT_SNAPSHOT_VERSION && Date.now() - snapshot.savedAt < MAX_AGE_MS;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveWorkoutSnapshot(snapshot: WorkoutSnapshot): Promise<void> {
+  await withStore('readwrite', store => store.put(snapshot));
+}
+
+export async function loadWorkoutSnapshot(key: string): Promise<WorkoutSnapshot | null> {
+  const snapshot = await withStore<WorkoutSnapshot | undefined>('readonly', store => store.get(key));
+  return isResumableSnapshot(snapshot) ? snapshot : null;
+}
+
+export async function clearWorkoutSnapshot(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
@@ -4,12 +4,20 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { TagInput } from '@/components/ui/TagInput';
 import { ReferenceOutfitsManager } from './ReferenceOutfitsManager';
-import { EXERCISE } from '@/lib/exercises';
+import { EXERCISE_DEFINITIONS } from '@/lib/exerciseDefinitions';
+import { LANGUAGES } from '@/lib/i18n';
 import { toast } from 'sonner';
 
 const API_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3005';
 const IS_PRODUCTION = import.meta.env.PROD;
 
+// Engine settings keyed by provider (e.g. elevenlabs.voiceId), with per-language overrides
+type EngineSettings = Record<string, Record<string, string | undefined>>;
+export interface VoiceSettings {
+  languages?: Record<string, EngineSettings>;
+  [engine: string]: unknown;
+}
+
 export interface Persona {
   id?: string;
   slug?: string;
@@ -30,6 +38,10 @@ export interface Persona {
   personality?: string | any;
   meta?: any;
   referenceOutfits?: any[];
+  languages?: string[];
+  voiceSettings?: VoiceSettings;
+  ttsProvider?: string | null;
+  sttProvider?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -71,7 +83,9 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
     systemPrompt: '',
     personality: '{}',
     meta: {},
-    referenceOutfits: []
+    referenceOutfits: [],
+    languages: ['en'],
+    voiceSettings: {}
   });
   const [isSaving, setIsSaving] = useState(false);
 
@@ -85,7 +99,9 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
         meta: typeof persona.meta === 'object' 
           ? persona.meta 
           : (persona.meta ? JSON.parse(persona.meta) : {}),
-        referenceOutfits: persona.referenceOutfits || []
+        referenceOutfits: persona.referenceOutfits || [],
+        languages: persona.languages?.length ? persona.languages : ['en'],
+        voiceSettings: persona.voiceSettings || {}
       });
     } else {
       // Reset to default values for new persona
@@ -106,7 +122,9 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
         systemPrompt: '',
         personality: '{}',
         meta: {},
-        referenceOutfits: []
+        referenceOutfits: [],
+        languages: ['en'],
+        voiceSettings: {}
       });
     }
   }, [persona]);
@@ -226,6 +244,35 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
     );
   };
 
+  const toggleLanguage = (code: string, enabled: boolean) => {
+    const current = formData.languages || ['en'];
+    const languages = enabled ? [...current, code] : current.filter(language => language !== code);
+    // English stays available as the fallback
+    setFormData({ ...formData, languages: languages.length ? languages : ['en'] });
+  };
+
+  // voiceSettings.languages[code][engine][field], e.g. languages.es.elevenlabs.voiceId
+  const getLanguageVoice = (code: string, engine: string, field: string): string =>
+    formData.voiceSettings?.languages?.[code]?.[engine]?.[field] || '';
+
+  const setLanguageVoice = (code: string, engine: string, field: string, value: string) => {
+    const voiceSettings = formData.voiceSettings || {};
+    const languageSettings = voiceSettings.languages?.[code] || {};
+    setFormData({
+      ...formData,
+      voiceSettings: {
+        ...voiceSettings,
+        languages: {
+          ...voiceSettings.languages,
+          [code]: {
+            ...languageSettings,
+            [engine]: { ...languageSettings[engine], [field]: value || undefined }
+          }
+        }
+      }
+    });
+  };
+
   const handleSubmit = async () => {
     setIsSaving(true);
     try {
@@ -422,14 +469,11 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
               <div className="space-y-4">
                 <h3 className="text-lg font-medium text-gray-200">Available Exercises</h3>
                 <div className="grid grid-cols-2 gap-3">
-                  {[
-                    { name: EXERCISE.SQUATS, defaultSets: 3, defaultReps: 10 },
-                    { name: EXERCISE.PUSH_UPS, defaultSets: 3, defaultReps: 8 },
-                    { name: EXERCISE.LUNGES, defaultSets: 3, defaultReps: 10 },
-                    { name: EXERCISE.JUMPING_JACKS, defaultSets: 3, defaultReps: 15 },
-                    { name: EXERCISE.PLANKS, defaultSets: 3, defaultReps: 30 },
-                    { name: EXERCISE.CHIN_UPS, defaultSets: 3, defaultReps: 5 }
-                  ].map((exercise) => {
+                  {EXERCISE_DEFINITIONS.map(({ name, defaults }) => ({
+                    name,
+                    defaultSets: defaults.sets,
+                    defaultReps: defaults.reps
+                  })).map((exercise) => {
                     const exercises = formData.meta?.exercises || [];
                     const isEnabled = exercises.some((e: any) => e.name === exercise.name && e.enabled);
                     
@@ -513,6 +557,79 @@ export const PersonaFormModal: React.FC<PersonaFormModalProps> = ({
               )}
             </div>
 
+            {/* Languages & Voices */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-gray-200">Languages & Voices</h3>
+              <div className="flex flex-wrap gap-4">
+                {LANGUAGES.map(({ code, label }) => (
+                  <label key={code} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={(formData.languages || ['en']).includes(code)}
+                      onChange={(e) => toggleLanguage(code, e.target.checked)}
+                      className="rounded border-gray-600 bg-gray-800 text-blue-600"
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Speech Synthesis</label>
+                  <select
+                    className="w-full p-2 border border-gray-600 rounded-md bg-gray-800 text-white"
+                    value={formData.ttsProvider || ''}
+                    onChange={(e) => setFormData({...formData, ttsProvider: e.target.value || null})}
+                  >
+                    <option value="">Default</option>
+                    <option value="elevenlabs">ElevenLabs</option>
+                    <option value="piper">Piper (local)</option>
+                    <option value="coqui">Coqui XTTS (local)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Speech Recognition</label>
+                  <select
+                    className="w-full p-2 border border-gray-600 rounded-md bg-gray-800 text-white"
+                    value={formData.sttProvider || ''}
+                    onChange={(e) => setFormData({...formData, sttProvider: e.target.value || null})}
+                  >
+                    <option value="">Default</option>
+                    <option value="openai">OpenAI Realtime</option>
+                    <option value="whisper_cpp">whisper.cpp (local)</option>
+                    <option value="vosk">Vosk (local)</option>
+                  </select>
+                </div>
+              </div>
+              {/* Per-language voices; unset ones fall back to the persona voice or the engine's stock voice */}
+              {(formData.languages || []).filter(code => code !== 'en').map(code => (
+                <div key={code} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      {LANGUAGES.find(language => language.code === code)?.label} ElevenLabs Voice ID
+                    </label>
+                    <Input
+                      value={getLanguageVoice(code, 'elevenlabs', 'voiceId')}
+                      onChange={(e) => setLanguageVoice(code, 'elevenlabs', 'voiceId', e.target.value)}
+                      placeholder={formData.voiceId}
+                      className="bg-gray-800 border-gray-600 text-white placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      {LANGUAGES.find(language => language.code === code)?.label} Piper Voice
+                    </label>
+                    <Input
+                      value={getLanguageVoice(code, 'piper', 'voice')}
+                      onChange={(e) => setLanguageVoice(code, 'piper', 'voice', e.target.value)}
+                      placeholder="Stock voice"
+                      className="bg-gray-800 border-gray-600 text-white placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
             {/* Advanced Settings */}
             <div className="space-y-4">
               <h3 className="text-lg font-medium text-gray-200">Advanced Settings</h3>
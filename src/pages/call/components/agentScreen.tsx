@@ -24,6 +24,10 @@ interface AgentScreenProps {
 // Global switch via .env but also allow per-instance override
 const GLOBAL_RECORDING_ENABLED =
   import.meta.env.VITE_ENABLE_SESSION_RECORDING !== "false";
+// Burn the skeleton and workout stats into coach session recordings. Off by
+// default: players draw them from the overlay track instead, on demand
+const RECORDING_OVERLAY_ENABLED =
+  import.meta.env.VITE_RECORDING_OVERLAY === "true";
 
 const AgentScreen = ({
   userVideoRef,
@@ -91,6 +95,11 @@ const AgentScreen = ({
           isCameraOn,
           userVideo,
           sessionInfo,
+          {
+            overlay:
+              RECORDING_OVERLAY_ENABLED &&
+              currentPersona?.category === "fitness",
+          },
         );
         recordingStartedRef.current = true;
       }
@@ -102,6 +111,7 @@ const AgentScreen = ({
     isSessionCompleteOpen,
     avatarId,
     recordingEnabled,
+    currentPersona?.category,
   ]);
 
   // Handle camera state changes during active recording (recording enabled only)
@@ -11,18 +11,60 @@ import { RotateCw, Sparkles, Activity, ChevronUp, Dumbbell } from "lucide-react"
 import { areImagesSimilar } from "@/utils/imageComparison";
 import { useVisionCapture } from "@/contexts/VisionCaptureContext";
 import { usePoseDetector, getEssentialKeypoints } from "@/hooks/usePoseDetector";
-import { ExerciseRepCounter } from "@/lib/exerciseRepCounter";
+import { ExerciseRepCounter, type RepCounterOptions } from "@/lib/exerciseRepCounter";
 import type { ExerciseType } from "@/lib/exercises";
 import { useSkeletonCanvas } from "@/hooks/useSkeletonCanvas";
 import { MultiExerciseDetector } from "@/lib/multiExerciseDetector";
-import { PlanAwareRepCounter, ExerciseGuidance, WorkoutPlan } from "@/lib/planAwareRepCounter";
-import { EXERCISE } from '@/lib/exercises';
+import { PlanAwareRepCounter, ExerciseGuidance, WorkoutPlan, type WorkoutPlanChange } from "@/lib/planAwareRepCounter";
+import { getExerciseDefinition } from '@/lib/exerciseDefinitions';
 import { RestTimer } from "@/components/RestTimer";
 import { WorkoutFlowManager, WorkoutTransition } from "@/lib/workoutFlowManager";
+import { PoseRecorder, downloadPoseFixture } from "@/lib/poseRecording";
+import { drawPoseSkeleton } from "@/lib/recordingOverlay";
+import { PoseSafetyMonitor } from "@/lib/poseSafetyMonitor";
+import type { RepsBySide } from "@/lib/repAnalytics";
+import { adjustWeight, describeLoad, parseSetEffort, parseSetLoad, BODYWEIGHT, type SetEffort, type SetLoad } from "@/lib/setLoad";
+import { CalibrationSession, type CalibrationProgress, type ExerciseCalibration, type ExerciseCalibrations } from "@/lib/repCalibration";
+import type { IntervalSettings, IntervalWork, WorkoutFormat } from "@/lib/workoutFormats";
+import {
+  clearWorkoutSnapshot,
+  describeWorkoutPosition,
+  loadWorkoutSnapshot,
+  saveWorkoutSnapshot,
+  WORKOUT_SNAPSHOT_VERSION,
+  type WorkoutSnapshot
+} from "@/lib/workoutSnapshot";
 import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { DEFAULT_LANGUAGE, LANGUAGES, isLanguage, t, translateMessage, type Language } from "@/lib/i18n";
 
 interface UserScreenProps {}
 
+// Opt-in 3D joint angles from the pose model's world landmarks (falls back to 2D per frame)
+const REP_COUNTER_OPTIONS: RepCounterOptions = {
+  useWorldLandmarks: import.meta.env.VITE_POSE_WORLD_ANGLES === 'true'
+};
+
+// Workout snapshots for crash recovery: local save debounce, and the longest the server copy may lag
+const SNAPSHOT_DEBOUNCE_MS = 1000;
+const SERVER_SNAPSHOT_INTERVAL_MS = 10000;
+
+// How often the coach chimes in unprompted; saved per user on the server
+type CoachVerbosity = 'quiet' | 'normal' | 'chatty';
+const COACH_VERBOSITY_LEVELS: CoachVerbosity[] = ['quiet', 'normal', 'chatty'];
+
+// Sent by the server's safety guard along with the coach's fixed safe script
+interface SafetyAlert {
+  level: 'stop' | 'emergency';
+  reasons: string[];
+  source: 'speech' | 'text' | 'pose';
+  bodyPart: string | null;
+  side: string | null;
+  message: string;
+}
+
+// Reps-left counts with a pre-synthesized cue (reps_left:N), played locally on the rep
+const REPS_LEFT_CUES = [5, 3, 2, 1, 0];
+
 const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) => {
   const { slug } = useParams();
   const dispatch = useDispatch();
@@ -30,6 +72,8 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   // Exercise tracking state (for coach personas)
   const [currentExercise, setCurrentExercise] = useState<ExerciseType | null>(null);
   const [repCount, setRepCount] = useState(0);
+  const [repsBySide, setRepsBySide] = useState<RepsBySide | null>(null);
+  const [setupGuidance, setSetupGuidance] = useState<string | null>(null);
   const [exerciseStarted, setExerciseStarted] = useState(false);
   const [formScore, setFormScore] = useState(1);
   const [formCorrections, setFormCorrections] = useState<string[]>([]);
@@ -37,6 +81,15 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   const multiDetectorRef = useRef<MultiExerciseDetector | null>(null);
   const planAwareCounterRef = useRef<PlanAwareRepCounter | null>(null);
   const flowManagerRef = useRef<WorkoutFlowManager | null>(null);
+  // Pose fixture recording for the replay harness (dev builds, ?recordPoses)
+  const [recordPoses] = useState(() => import.meta.env.DEV && new URLSearchParams(window.location.search).has('recordPoses'));
+  const poseRecorderRef = useRef<PoseRecorder | null>(null);
+  const poseSafetyRef = useRef(new PoseSafetyMonitor());
+  // Shared with every counter we create; calibrations are filled in once the server sends them
+  const counterOptionsRef = useRef<RepCounterOptions>({ ...REP_COUNTER_OPTIONS, calibrations: {} });
+  const calibrationSessionRef = useRef<CalibrationSession | null>(null);
+  const [calibratingExercise, setCalibratingExercise] = useState<ExerciseType | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<CalibrationProgress | null>(null);
   const [countdown, setCountdown] = useState<number | null>(null);
   type PosePoint = NormalizedLandmark & { visibility?: number };
   const [poseKeypoints, setPoseKeypoints] = useState<PosePoint[] | null>(null);
@@ -44,6 +97,9 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   const [isVideoReady, setIsVideoReady] = useState(false);
   const [isExerciseUICollapsed, setIsExerciseUICollapsed] = useState(false);
   const [workoutPlan, setWorkoutPlan] = useState<WorkoutPlan | null>(null);
+  // Bumped for every workout started; the coach's plan edits keep it so counting carries on
+  const [workoutKey, setWorkoutKey] = useState(0);
+  const hasWorkoutPlan = workoutPlan !== null;
   const [detectedExercise, setDetectedExercise] = useState<ExerciseType | null>(null);
   const [detectionConfidence, setDetectionConfidence] = useState(0);
   
@@ -58,6 +114,26 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   const [totalSets, setTotalSets] = useState(1);
   const [workoutTransition, setWorkoutTransition] = useState<WorkoutTransition | null>(null);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const intervalStatus = workoutTransition?.type === 'interval_work' || workoutTransition?.type === 'interval_rest' ? workoutTransition : null;
+  const [intervalSecondsLeft, setIntervalSecondsLeft] = useState<number | null>(null);
+  const isHoldExercise = !!currentExercise && getExerciseDefinition(currentExercise)?.measure === 'hold';
+  // Load for the current exercise (prescribed by the plan, adjusted by tap or voice)
+  const [setLoad, setSetLoad] = useState<SetLoad | null>(null);
+  const setLoadRef = useRef<SetLoad | null>(null); // Read by the pose interval without resubscribing
+  // Set waiting for an RPE/RIR rating after it was completed
+  const [pendingEffort, setPendingEffort] = useState<{ exercise: ExerciseType } | null>(null);
+  // Paused workouts freeze counting, timers and coach prompts
+  const [isPaused, setIsPaused] = useState(false);
+  const isPausedRef = useRef(false);
+  // Interrupted workout offered for resume when the session starts
+  const [recoveryOffer, setRecoveryOffer] = useState<WorkoutSnapshot | null>(null);
+  // Pain, dizziness or a fall paused the workout until the user says they're OK
+  const [safetyAlert, setSafetyAlert] = useState<SafetyAlert | null>(null);
+  const lastServerSnapshotRef = useRef({ at: 0, position: '', paused: false });
+  const [coachVerbosity, setCoachVerbosity] = useState<CoachVerbosity>('normal');
+  // Session language chosen by the server from the user's preference and the persona's languages
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [availableLanguages, setAvailableLanguages] = useState<Language[]>([DEFAULT_LANGUAGE]);
   
   // Get persona info to check if coach
   const personas = useSelector((state) => state.app.personas);
@@ -71,7 +147,7 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   const [videoTrack, setVideoTrack] = useState<LocalVideoTrack | null>(null);
   const lastCapturedImageRef = useRef<string | null>(null);
   
-  const { service } = useSharedAvatarChat();
+  const { service, recordingService } = useSharedAvatarChat();
   const { visionEnabled, isConnected, sessionId } = useAvatarChatState();
   const { registerCaptureHandler } = useVisionCapture();
   
@@ -84,11 +160,14 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
     if (!service?.socket || !isCoachAvatar) return;
     
     interface RawWorkoutPlan {
-      exercises: Array<{ exerciseType: string; sets: number; targetReps: number; restDuration: number; order: number }>;
+      exercises: Array<{ exerciseType: string; sets: number; targetReps: number; restDuration: number; order: number; load?: SetLoad; supersetGroup?: string }>;
       totalDuration?: number;
       difficulty?: string;
+      format?: WorkoutFormat;
+      interval?: IntervalSettings;
     }
-    const handleWorkoutPlan = (plan: RawWorkoutPlan) => {
+    // A new plan, or a restored one picking up from an interrupted workout's snapshot
+    const startWorkout = (plan: RawWorkoutPlan, snapshot?: WorkoutSnapshot) => {
       const finalPlan: WorkoutPlan = {
         exercises: plan.exercises.map(ex => ({
           ...ex,
@@ -96,19 +175,80 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
         })) || [],
         totalDuration: plan.totalDuration ?? 0,
         difficulty: plan.difficulty ?? 'medium',
+        format: plan.format,
+        interval: plan.interval,
       };
       setWorkoutPlan(finalPlan);
+      setWorkoutKey(key => key + 1);
       // Enable auto-detection when we have a plan
       setUseAutoDetection(true);
       // Initialize plan-aware counter and flow manager
-      planAwareCounterRef.current = new PlanAwareRepCounter(finalPlan);
+      planAwareCounterRef.current = new PlanAwareRepCounter(finalPlan, counterOptionsRef.current);
+      flowManagerRef.current?.dispose();
       flowManagerRef.current = new WorkoutFlowManager(finalPlan);
+      if (snapshot) {
+        // Restored workouts come back paused until the user is back in position
+        planAwareCounterRef.current.restore(snapshot.counter);
+        flowManagerRef.current.restore(snapshot.flow);
+        const progress = planAwareCounterRef.current.getCurrentProgress();
+        setCurrentSetNumber(progress.currentSet);
+        setTotalSets(progress.totalSets);
+        setIsPaused(true);
+        dispatch(addChatMessage({
+          id: `workout-resumed-${Date.now()}`,
+          text: `⏯️ Workout restored at ${snapshot.position} - tap Resume when you're ready`,
+          sender: 'separator' as const,
+          timestamp: Date.now()
+        }));
+      } else {
+        setIsPaused(false);
+      }
+      
+      // Each finished interval is persisted as its own set
+      const persistIntervalWork = (work: IntervalWork) => {
+        if (work.reps === 0) return;
+        service.socket?.emit('exercise_milestone', {
+          exercise: work.exerciseType,
+          reps: work.reps,
+          formScore: work.formScore,
+          sessionId: sessionId,
+          setComplete: true,
+          load: setLoadRef.current
+        });
+        flowManagerRef.current?.recordSetLoad(work.exerciseType, work.reps, setLoadRef.current);
+      };
       
       // Set up transition callback
       flowManagerRef.current.setOnTransitionCallback((transition) => {
         setWorkoutTransition(transition);
+        if (transition.completedWork) {
+          persistIntervalWork(transition.completedWork);
+        }
         
-        if (transition.type === 'exercise_switch') {
+        if (transition.type === 'interval_work' && transition.to) {
+          const exercise = transition.to as ExerciseType;
+          setIsResting(false);
+          setCurrentExercise(exercise);
+          setExerciseStarted(true);
+          // Coming back from a pause carries on the segment already in progress
+          if (!transition.resumed) {
+            planAwareCounterRef.current?.startIntervalSegment(exercise, transition.targetReps ?? null);
+            setRepCount(0);
+            service.playCue('countdown:go');
+            // New server-side exercise session so this interval's milestone isn't deduplicated
+            service.socket?.emit('exercise_start', {
+              exercise,
+              sessionId: sessionId,
+              timestamp: Date.now(),
+              isAutoDetected: false
+            });
+          }
+        } else if (transition.type === 'interval_rest') {
+          service.playCue('transition:rest');
+          setIsResting(true);
+          setRestDuration(transition.countdown ?? 0);
+          setNextExercise(transition.to || null);
+        } else if (transition.type === 'exercise_switch') {
           setIsTransitioning(true);
           // Auto-switch after countdown
           setTimeout(() => {
@@ -129,16 +269,21 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
           setExerciseStarted(false);
           setCurrentExercise(null);
           setIsTransitioning(false);
+          setIsResting(false);
           
           // IMPORTANT: Clear the workout plan to hide the UI
           setWorkoutPlan(null);
           setUseAutoDetection(false);
+          setIsPaused(false);
+          if (slug) {
+            clearWorkoutSnapshot(slug).catch(error => console.warn('[Workout] Failed to clear snapshot', error));
+          }
           
           // Add workout completion message to chat
           const completionMessage = {
             id: `workout-complete-${Date.now()}`,
             text: `🎉 Workout Complete!\n\n${transition.summary ? 
-              `**Summary:**\n- Total Exercises: ${transition.summary.totalExercises}\n- Completed: ${transition.summary.completedExercises}\n- Total Reps: ${transition.summary.totalReps}\n- Average Form: ${Math.round(transition.summary.averageFormScore * 100)}%\n\n${transition.summary.achievements.join('\n')}` : 
+              `**Summary:**\n- Total Exercises: ${transition.summary.totalExercises}\n- Completed: ${transition.summary.completedExercises}\n- Total Reps: ${transition.summary.totalReps}\n- Average Form: ${Math.round(transition.summary.averageFormScore * 100)}%\n${transition.summary.intervalScore ? `- ${transition.summary.intervalScore.format.toUpperCase()} score: ${transition.summary.intervalScore.description}\n` : ''}\n${transition.summary.achievements.join('\n')}` : 
               'Great job completing your workout!'}`,
             sender: 'separator' as const,
             timestamp: Date.now()
@@ -156,17 +301,348 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
       });
     };
     
+    const handleWorkoutPlan = (plan: RawWorkoutPlan) => startWorkout(plan);
+    const handleWorkoutResumed = ({ snapshot }: { snapshot: WorkoutSnapshot }) => startWorkout(snapshot.plan, snapshot);
+    
     service.socket.on('workout_plan_generated', handleWorkoutPlan);
+    service.socket.on('workout_resumed', handleWorkoutResumed);
     
     return () => {
       service.socket?.off('workout_plan_generated', handleWorkoutPlan);
+      service.socket?.off('workout_resumed', handleWorkoutResumed);
+    };
+  }, [service, service?.socket, isCoachAvatar, dispatch, sessionId, slug]);
+  
+  // Plan edits the coach made through tool calls, already validated and applied by the server
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar) return;
+    
+    const addNote = (text: string) => dispatch(addChatMessage({
+      id: `workout-change-${Date.now()}`,
+      text,
+      sender: 'separator' as const,
+      timestamp: Date.now()
+    }));
+    
+    const handlePlanChange = ({ change, plan }: { change: WorkoutPlanChange; plan: WorkoutPlan }) => {
+      const counter = planAwareCounterRef.current;
+      const flow = flowManagerRef.current;
+      if (!counter || !flow) return;
+      counter.updatePlan(plan);
+      flow.updatePlan(plan);
+      setWorkoutPlan(plan);
+      setTotalSets(counter.getCurrentProgress().totalSets);
+      
+      switch (change.type) {
+        case 'adjust_reps':
+          addNote(`📝 ${change.exercise}: ${change.sets} × ${change.targetReps}`);
+          break;
+        case 'add_set':
+          addNote(`➕ ${change.exercise}: ${change.sets} sets`);
+          break;
+        case 'swap_exercise':
+          addNote(`🔄 ${change.from} → ${change.to}`);
+          setNextExercise(next => (next === change.from ? change.to : next));
+          // Swapping the exercise in progress starts the new one in its place
+          if (currentExercise === change.from && exerciseStarted) {
+            setRepCount(0);
+            setFormScore(1);
+            setFormCorrections([]);
+            setCurrentExercise(change.to);
+            service.socket?.emit('exercise_start', {
+              exercise: change.to,
+              sessionId: sessionId,
+              timestamp: Date.now(),
+              isAutoDetected: false
+            });
+          }
+          break;
+        case 'extend_rest':
+          setRestDuration(duration => duration + change.seconds);
+          break;
+        case 'end_workout':
+          flow.endWorkout();
+          break;
+      }
+    };
+    const handleInjuryLogged = ({ bodyPart, side }: { bodyPart: string; side: string | null }) => {
+      addNote(`🩹 Noted: ${[side, bodyPart].filter(Boolean).join(' ')}`);
+    };
+    
+    service.socket.on('workout_plan_change', handlePlanChange);
+    service.socket.on('workout_injury_logged', handleInjuryLogged);
+    
+    return () => {
+      service.socket?.off('workout_plan_change', handlePlanChange);
+      service.socket?.off('workout_injury_logged', handleInjuryLogged);
+    };
+  }, [service?.socket, isCoachAvatar, dispatch, sessionId, currentExercise, exerciseStarted]);
+  
+  // An interrupted workout: prefer this device's snapshot when it is newer than the server's
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar || !slug) return;
+    
+    const handleRecoveryAvailable = async ({ snapshot }: { snapshot: WorkoutSnapshot }) => {
+      const local = await loadWorkoutSnapshot(slug).catch(() => null);
+      setRecoveryOffer(local && local.savedAt > (snapshot?.savedAt ?? 0) ? local : snapshot);
+    };
+    
+    service.socket.on('workout_recovery_available', handleRecoveryAvailable);
+    
+    return () => {
+      service.socket?.off('workout_recovery_available', handleRecoveryAvailable);
+    };
+  }, [service?.socket, isCoachAvatar, slug]);
+  
+  // The server's safety guard paused the workout and the coach switched to its safe script
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar) return;
+    
+    const handleSafetyAlert = (alert: SafetyAlert) => {
+      flowManagerRef.current?.pause();
+      setIsPaused(true);
+      setSafetyAlert(alert);
+    };
+    
+    service.socket.on('safety_alert', handleSafetyAlert);
+    
+    return () => {
+      service.socket?.off('safety_alert', handleSafetyAlert);
     };
-  }, [service?.socket, isCoachAvatar, dispatch, sessionId]);
+  }, [service?.socket, isCoachAvatar]);
+  
+  const resolveSafetyAlert = (resolution: 'resumed' | 'ended') => {
+    const flow = flowManagerRef.current;
+    if (resolution === 'resumed') {
+      flow?.resume();
+      setIsPaused(false);
+    } else {
+      flow?.endWorkout();
+    }
+    poseSafetyRef.current.reset();
+    service?.socket?.emit('safety_resolve', { resolution });
+    setSafetyAlert(null);
+  };
+  
+  const answerRecoveryOffer = (resume: boolean) => {
+    service?.socket?.emit('workout_recovery', { resume, snapshot: resume ? recoveryOffer : undefined });
+    if (!resume && slug) {
+      clearWorkoutSnapshot(slug).catch(error => console.warn('[Workout] Failed to clear snapshot', error));
+    }
+    setRecoveryOffer(null);
+  };
+  
+  const togglePause = () => {
+    const paused = !isPaused;
+    if (paused) {
+      flowManagerRef.current?.pause();
+    } else {
+      flowManagerRef.current?.resume();
+    }
+    setIsPaused(paused);
+    service?.socket?.emit('workout_pause', { paused, sessionId });
+  };
+  
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+  }, [isPaused]);
+  
+  // Snapshot the workout after every change, once it has actually started. The
+  // local copy is always current; the server copy is refreshed on a new set or
+  // exercise, a pause, or every SERVER_SNAPSHOT_INTERVAL_MS
+  useEffect(() => {
+    if (!workoutPlan || !slug) return;
+    
+    const timer = setTimeout(() => {
+      const counter = planAwareCounterRef.current;
+      const flow = flowManagerRef.current;
+      if (!counter || !flow) return;
+      const flowSnapshot = flow.getSnapshot();
+      if (flowSnapshot.exerciseProgress.length === 0) return;
+      
+      const counterSnapshot = counter.getSnapshot();
+      const snapshot: WorkoutSnapshot = {
+        version: WORKOUT_SNAPSHOT_VERSION,
+        key: slug,
+        savedAt: Date.now(),
+        position: describeWorkoutPosition(workoutPlan, flowSnapshot, counterSnapshot),
+        plan: workoutPlan,
+        currentExercise,
+        paused: isPaused,
+        flow: flowSnapshot,
+        counter: counterSnapshot
+      };
+      saveWorkoutSnapshot(snapshot).catch(error => console.warn('[Workout] Failed to save snapshot', error));
+      
+      const last = lastServerSnapshotRef.current;
+      if (snapshot.position !== last.position || snapshot.paused !== last.paused ||
+          snapshot.savedAt - last.at > SERVER_SNAPSHOT_INTERVAL_MS) {
+        lastServerSnapshotRef.current = { at: snapshot.savedAt, position: snapshot.position, paused: snapshot.paused };
+        service?.socket?.emit('workout_snapshot', { snapshot });
+      }
+    }, SNAPSHOT_DEBOUNCE_MS);
+    
+    return () => clearTimeout(timer);
+  }, [workoutPlan, slug, currentExercise, repCount, isResting, isPaused, workoutTransition, service]);
+  
+  // Personal rep thresholds saved by earlier calibration sessions
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar) return;
+    
+    const handleCalibrations = (calibrations: ExerciseCalibrations) => {
+      counterOptionsRef.current.calibrations = calibrations || {};
+    };
+    const handleCalibrationSaved = ({ exercise, calibration }: { exercise: string; calibration: ExerciseCalibration }) => {
+      counterOptionsRef.current.calibrations = { ...counterOptionsRef.current.calibrations, [exercise]: calibration };
+    };
+    
+    service.socket.on('exercise_calibrations', handleCalibrations);
+    service.socket.on('exercise_calibration_saved', handleCalibrationSaved);
+    
+    return () => {
+      service.socket?.off('exercise_calibrations', handleCalibrations);
+      service.socket?.off('exercise_calibration_saved', handleCalibrationSaved);
+    };
+  }, [service?.socket, isCoachAvatar]);
+  
+  // The user's saved coach verbosity, sent on session start and echoed on change
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar) return;
+    
+    const handleVerbosity = ({ verbosity }: { verbosity: CoachVerbosity }) => {
+      setCoachVerbosity(verbosity);
+    };
+    service.socket.on('coach_verbosity', handleVerbosity);
+    
+    return () => {
+      service.socket?.off('coach_verbosity', handleVerbosity);
+    };
+  }, [service?.socket, isCoachAvatar]);
+  
+  // Session language, sent on session start and echoed on change
+  useEffect(() => {
+    if (!service?.socket) return;
+    
+    const handleLanguage = ({ language, available }: { language: string; available?: string[] }) => {
+      if (isLanguage(language)) setLanguage(language);
+      if (available) setAvailableLanguages(available.filter(isLanguage));
+    };
+    service.socket.on('coach_language', handleLanguage);
+    
+    return () => {
+      service.socket?.off('coach_language', handleLanguage);
+    };
+  }, [service?.socket]);
+  
+  const startCalibration = (exercise: ExerciseType) => {
+    const definition = getExerciseDefinition(exercise);
+    if (!definition?.calibration) return;
+    calibrationSessionRef.current = new CalibrationSession(definition, REP_COUNTER_OPTIONS);
+    setCalibrationProgress(calibrationSessionRef.current.getProgress());
+    setCalibratingExercise(exercise);
+  };
+  
+  const stopCalibration = () => {
+    calibrationSessionRef.current = null;
+    setCalibratingExercise(null);
+    setCalibrationProgress(null);
+  };
+  
+  const finishCalibration = (exercise: ExerciseType, session: CalibrationSession) => {
+    const calibration = session.finish();
+    stopCalibration();
+    
+    if (calibration) {
+      counterOptionsRef.current.calibrations = { ...counterOptionsRef.current.calibrations, [exercise]: calibration };
+      // Counters created from here on pick up the new range; drop any stale one
+      if (multiDetectorRef.current) {
+        multiDetectorRef.current = new MultiExerciseDetector(undefined, counterOptionsRef.current);
+      }
+      repCounterRef.current = null;
+      service?.socket?.emit('exercise_calibration_save', { exercise, calibration });
+    }
+    
+    dispatch(addChatMessage({
+      id: `calibration-${exercise}-${Date.now()}`,
+      text: calibration
+        ? `📐 ${exercise} calibrated: reps now count from your own range (${calibration.bottom}°–${calibration.top}°)`
+        : `📐 Couldn't calibrate ${exercise} - try again with slower, fuller reps`,
+      sender: 'separator' as const,
+      timestamp: Date.now()
+    }));
+  };
+  
+  // Countdown for timed interval work (EMOM slot, Tabata interval, AMRAP cap)
+  const intervalEndsAt = intervalStatus?.type === 'interval_work' ? intervalStatus.endsAt ?? null : null;
+  useEffect(() => {
+    if (intervalEndsAt === null) {
+      setIntervalSecondsLeft(null);
+      return;
+    }
+    if (isPaused) return;
+    const update = () => setIntervalSecondsLeft(Math.max(0, Math.ceil((intervalEndsAt - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 500);
+    return () => clearInterval(timer);
+  }, [intervalEndsAt, isPaused]);
+  
+  // Call out the last three seconds of a work interval from the cue library
+  useEffect(() => {
+    if (intervalSecondsLeft !== null && intervalSecondsLeft >= 1 && intervalSecondsLeft <= 3) {
+      service?.playCue(`countdown:${intervalSecondsLeft}`);
+    }
+  }, [intervalSecondsLeft, service]);
+  
+  const handleRestComplete = useCallback(() => {
+    // Interval rests end on the flow manager's clock; skipping only applies to rep-driven formats
+    if (flowManagerRef.current?.isIntervalWorkout()) {
+      flowManagerRef.current.skipIntervalRest();
+      return;
+    }
+    setIsResting(false);
+    if (planAwareCounterRef.current) {
+      planAwareCounterRef.current.startNextSet();
+    }
+    setRepCount(0);
+  }, []);
+  
+  useEffect(() => {
+    setLoadRef.current = setLoad;
+  }, [setLoad]);
+  
+  const submitSetEffort = useCallback((exercise: ExerciseType, effort: SetEffort) => {
+    flowManagerRef.current?.recordSetEffort(exercise, effort);
+    service?.socket?.emit('exercise_set_effort', { exercise, sessionId, ...effort });
+    setPendingEffort(null);
+  }, [service, sessionId]);
+  
+  // Voice entry: "RPE 8", "two reps left", "I'm using 20 kilo dumbbells"
+  useEffect(() => {
+    if (!service?.socket || !isCoachAvatar) return;
+    
+    const handleTranscription = ({ text }: { text: string }) => {
+      if (!text) return;
+      const effort = pendingEffort ? parseSetEffort(text) : null;
+      if (pendingEffort && effort) {
+        submitSetEffort(pendingEffort.exercise, effort);
+        return;
+      }
+      const load = currentExercise ? parseSetLoad(text) : null;
+      if (load) {
+        setSetLoad(previous => ({ ...(previous ?? BODYWEIGHT), ...load }));
+      }
+    };
+    
+    service.socket.on('transcription_final', handleTranscription);
+    return () => {
+      service.socket?.off('transcription_final', handleTranscription);
+    };
+  }, [service?.socket, isCoachAvatar, pendingEffort, currentExercise, submitSetEffort]);
   
   // Initialize multi-exercise detector
   useEffect(() => {
     if (isCoachAvatar && useAutoDetection) {
-      multiDetectorRef.current = new MultiExerciseDetector();
+      multiDetectorRef.current = new MultiExerciseDetector(undefined, counterOptionsRef.current);
     }
     
     return () => {
@@ -181,6 +657,31 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
   const { detectPoses, isInitialized: isPoseDetectorReady } = usePoseDetector({
     onPoseDetected: (result) => {
       if (isCoachAvatar && result.landmarks.length > 0) {
+        poseRecorderRef.current?.addFrame(result.landmarks[0], result.worldLandmarks?.[0]);
+        
+        // Falls are watched while paused too, so lying still after a collapse is caught
+        if (workoutPlan && !calibratingExercise) {
+          const signal = poseSafetyRef.current.processFrame(result.landmarks[0]);
+          if (signal) {
+            service?.socket?.emit('pose_safety_signal', { ...signal, exercise: currentExercise });
+          }
+        }
+        
+        // Nothing is counted or auto-started while paused
+        if (isPaused) {
+          return;
+        }
+        
+        // Calibration reps are only measured, never counted
+        const calibrationSession = calibrationSessionRef.current;
+        if (calibrationSession && calibratingExercise) {
+          setCalibrationProgress(calibrationSession.addFrame(result.landmarks[0], result.worldLandmarks?.[0]));
+          if (calibrationSession.isComplete()) {
+            finishCalibration(calibratingExercise, calibrationSession);
+          }
+          return;
+        }
+        
         // Auto-detection mode - ONLY when no exercise is active
         if (useAutoDetection && !exerciseStarted && workoutPlan) {
           // NEW APPROACH: Try to detect first rep using actual rep counter
@@ -189,11 +690,11 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
           if (expectedExercise) {
             // Create a temporary rep counter for the expected exercise to test if user is doing it
             if (!repCounterRef.current) {
-              repCounterRef.current = new ExerciseRepCounter(expectedExercise.exerciseType as ExerciseType);
+              repCounterRef.current = new ExerciseRepCounter(expectedExercise.exerciseType as ExerciseType, undefined, counterOptionsRef.current);
             }
             
             // Process frame through rep counter
-            const feedback = repCounterRef.current.processFrame(result.landmarks[0]);
+            const feedback = repCounterRef.current.processFrame(result.landmarks[0], undefined, result.worldLandmarks?.[0]);
             
             // If we detect the first rep completion, auto-start the exercise
             if (feedback.isRepComplete && feedback.repCount === 1) {
@@ -230,7 +731,10 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
           
           // Use plan-aware counter if available
           if (planAwareCounterRef.current && workoutPlan) {
-            feedback = planAwareCounterRef.current.processFrame(result.landmarks[0]);
+            feedback = planAwareCounterRef.current.processFrame(result.landmarks[0], result.worldLandmarks?.[0]);
+            if (feedback.isRepComplete && flowManagerRef.current?.isIntervalWorkout()) {
+              flowManagerRef.current.recordIntervalReps(feedback.repCount, feedback.formScore);
+            }
             
             // Debug log every 30 frames (about once per second at 30fps)
             if (Math.random() < 0.033) {
@@ -240,6 +744,10 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
             // Handle guidance from plan-aware counter
             if (feedback.guidance) {
               setExerciseGuidance(feedback.guidance);
+              const { repsRemaining } = feedback.guidance;
+              if (repsRemaining !== undefined && REPS_LEFT_CUES.includes(repsRemaining)) {
+                service?.playCue(`reps_left:${repsRemaining}`);
+              }
               
               // Handle different guidance actions
               if (feedback.guidance.action === 'rest') {
@@ -288,11 +796,17 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
             setTotalSets(progress.totalSets);
           } else if (repCounterRef.current) {
             // Fallback to regular counter
-            feedback = repCounterRef.current.processFrame(result.landmarks[0]);
+            feedback = repCounterRef.current.processFrame(result.landmarks[0], undefined, result.worldLandmarks?.[0]);
           }
           
           // Update UI with feedback
           if (feedback) {
+            if (feedback.repEvent && flowManagerRef.current) {
+              flowManagerRef.current.recordRep(currentExercise, feedback.repEvent);
+            }
+            setRepsBySide(feedback.repsBySide ?? null);
+            setSetupGuidance(feedback.setup?.valid === false ? feedback.setup.guidance : null);
+            
             // Always update rep count, not just on completion
             if (feedback.repCount !== repCount) {
               setRepCount(feedback.repCount);
@@ -313,30 +827,52 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
     if (currentExercise && exerciseStarted) {
       
       // When using plan-aware counter (workout plan mode)
-      if (planAwareCounterRef.current && workoutPlan) {
+      if (planAwareCounterRef.current && hasWorkoutPlan) {
         // Set the current exercise in plan-aware counter
         planAwareCounterRef.current.setCurrentExercise(currentExercise);
         // Note: We don't set repCounterRef.current here because plan-aware counter manages its own internal counter
       } else {
         // For manual exercise selection (no workout plan)
-        repCounterRef.current = new ExerciseRepCounter(currentExercise);
+        repCounterRef.current = new ExerciseRepCounter(currentExercise, undefined, counterOptionsRef.current);
       }
       
       // Notify flow manager
       if (flowManagerRef.current) {
         flowManagerRef.current.startExercise(currentExercise);
+        // The interval clock starts with the first exercise of the workout
+        if (flowManagerRef.current.isIntervalWorkout() && !flowManagerRef.current.isIntervalStarted()) {
+          flowManagerRef.current.startIntervalWorkout();
+        }
       }
+      setSetLoad(hasWorkoutPlan ? planAwareCounterRef.current?.getPlannedExercise(currentExercise)?.load ?? null : null);
+      setPendingEffort(null);
       
       // Reset states
       setIsResting(false);
       setRepCount(0);
+      setRepsBySide(null);
+      setSetupGuidance(null);
       setIsTransitioning(false);
       
       // No countdown - start exercise immediately
     } else {
       repCounterRef.current = null;
     }
-  }, [currentExercise, exerciseStarted, workoutPlan]);
+  }, [currentExercise, exerciseStarted, workoutKey, hasWorkoutPlan]);
+  
+  // Record each exercise as a pose fixture and download it when the exercise ends
+  useEffect(() => {
+    if (!recordPoses || !currentExercise || !exerciseStarted) return;
+    
+    const recorder = new PoseRecorder(currentExercise);
+    poseRecorderRef.current = recorder;
+    return () => {
+      poseRecorderRef.current = null;
+      if (recorder.frameCount > 0) {
+        downloadPoseFixture(recorder.finish());
+      }
+    };
+  }, [recordPoses, currentExercise, exerciseStarted]);
   
   // Use existing MediaStream for gesture music (no need for new LocalVideoTrack)
   useEffect(() => {
@@ -551,49 +1087,7 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
     
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // MediaPipe pose connections
-    const connections: Array<[number, number]> = [
-      [11, 12], // shoulders
-      [11, 13], [13, 15], // left arm
-      [12, 14], [14, 16], // right arm
-      [11, 23], [12, 24], // torso
-      [23, 24], // hips
-      [23, 25], [25, 27], // left leg
-      [24, 26], [26, 28], // right leg
-    ];
-    
-    // Draw connections with thicker lines
-    ctx.strokeStyle = '#00ff00';
-    ctx.lineWidth = 4;
-    ctx.lineCap = 'round';
-    connections.forEach(([a, b]) => {
-      const pointA = poseKeypoints![a];
-      const pointB = poseKeypoints![b];
-      if (pointA && pointB && (pointA.visibility ?? 1) > 0.3) {
-        ctx.beginPath();
-        ctx.moveTo(pointA.x * canvas.width, pointA.y * canvas.height);
-        ctx.lineTo(pointB.x * canvas.width, pointB.y * canvas.height);
-        ctx.stroke();
-      }
-    });
-    
-    // Draw keypoints with larger circles
-    poseKeypoints!.forEach((point) => {
-      if (point && (point.visibility ?? 1) > 0.3) {
-        // Draw white outline
-        ctx.fillStyle = '#ffffff';
-        ctx.beginPath();
-        ctx.arc(point.x * canvas.width, point.y * canvas.height, 8, 0, 2 * Math.PI);
-        ctx.fill();
-        
-        // Draw colored center
-        ctx.fillStyle = '#ff0000';
-        ctx.beginPath();
-        ctx.arc(point.x * canvas.width, point.y * canvas.height, 6, 0, 2 * Math.PI);
-        ctx.fill();
-      }
-    });
+    drawPoseSkeleton(ctx, poseKeypoints, { x: 0, y: 0, width: canvas.width, height: canvas.height });
   }, [poseKeypoints]);
   
   // Update skeleton drawing with animation loop
@@ -621,6 +1115,18 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
     };
   }, [isCoachAvatar, drawSkeleton, poseKeypoints]);
   
+  // Rep counter, set/exercise label and form gauge for the recording's overlay track
+  useEffect(() => {
+    if (!isCoachAvatar) return;
+    recordingService.setOverlayStats({
+      exercise: exerciseStarted ? currentExercise : null,
+      repCount,
+      setNumber: hasWorkoutPlan ? currentSetNumber : null,
+      totalSets: hasWorkoutPlan ? totalSets : null,
+      formScore: exerciseStarted ? formScore : null
+    });
+  }, [isCoachAvatar, recordingService, exerciseStarted, currentExercise, repCount, hasWorkoutPlan, currentSetNumber, totalSets, formScore]);
+  
   // Register/unregister skeleton canvas for recording
   useEffect(() => {
     if (isCoachAvatar) {
@@ -681,11 +1187,12 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
             const pose = poseResult.landmarks[0] as PosePoint[];
             const essentialKeypoints = getEssentialKeypoints(pose);
             
-            // Store pose keypoints for visualization
+            // Store pose keypoints for visualization, and for the recording's overlay track
             setPoseKeypoints(pose);
+            recordingService.addOverlayFrame(pose);
             
             // Process through rep counter
-            if (currentExercise && exerciseStarted) {
+            if (currentExercise && exerciseStarted && !isPausedRef.current) {
               // Only log once per second to reduce noise
               const now = Date.now();
               if (!lastLogTimeRef.current || now - lastLogTimeRef.current > 1000) {
@@ -731,7 +1238,7 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                 }
               }
               
-              const feedback = repCounterRef.current.processFrame(pose);
+              const feedback = repCounterRef.current.processFrame(pose, undefined, poseResult.worldLandmarks?.[0]);
               
               // Track exercise state
               
@@ -762,8 +1269,16 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                     reps: feedback.repCount,
                     formScore: feedback.formScore,
                     sessionId: sessionId,
-                    setComplete: true
+                    setComplete: true,
+                    isFatigued: feedback.isFatigued,
+                    asymmetry: repCounterRef.current?.getAsymmetrySummary(),
+                    angleSource: feedback.angleSource,
+                    load: setLoadRef.current
                   });
+                  flowManagerRef.current?.recordSetLoad(currentExercise, feedback.repCount, setLoadRef.current);
+                  if (getExerciseDefinition(currentExercise)?.measure !== 'hold') {
+                    setPendingEffort({ exercise: currentExercise });
+                  }
                   
                   // Reset exercise
                   setExerciseStarted(false);
@@ -784,6 +1299,8 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
               
               setFormScore(feedback.formScore);
               setFormCorrections(feedback.corrections);
+              setRepsBySide(feedback.repsBySide ?? null);
+              setSetupGuidance(feedback.setup?.valid === false ? feedback.setup.guidance : null);
               
               // Send only when rep completes or periodically
               if (feedback.isRepComplete || now - lastCaptureTime > 2000) {
@@ -796,6 +1313,11 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                   repCount: feedback.repCount,
                   formScore: feedback.formScore,
                   formCorrections: feedback.corrections,
+                  velocityLoss: repCounterRef.current.getVelocityLoss(),
+                  isFatigued: feedback.isFatigued,
+                  repTempo: feedback.repEvent?.tempo,
+                  angleSource: feedback.angleSource,
+                  load: setLoadRef.current ?? undefined,
                   timestamp: now
                 });
               }
@@ -815,7 +1337,7 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
       if (frameInterval) clearInterval(frameInterval);
     };
   }, [isCameraOn, videoRef, currentPersona, service, visionEnabled, isConnected, sessionId, 
-      isCoachAvatar, isPoseDetectorReady, currentExercise, repCount, detectPoses, isVideoReady]);
+      isCoachAvatar, isPoseDetectorReady, currentExercise, repCount, detectPoses, isVideoReady, recordingService]);
 
   // Manual capture function for self-references
   const manualCaptureFrame = useCallback(async () => {
@@ -895,7 +1417,7 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
         
         {/* Exercise UI for Coach Avatars - positioned in top-right corner */}
         {/* Only show when there's a workout plan or exercise in progress */}
-        {isCoachAvatar && isCameraOn && (workoutPlan || exerciseStarted) && (
+        {isCoachAvatar && isCameraOn && (workoutPlan || exerciseStarted || pendingEffort || recoveryOffer) && (
           <div className="absolute top-4 right-4 z-20">
             {/* Collapsed state - just show icon */}
             {isExerciseUICollapsed ? (
@@ -918,7 +1440,131 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                   </button>
                 </div>
                 
-                {!exerciseStarted ? (
+                {/* Interrupted workout from an earlier session */}
+                {safetyAlert && (
+                  <div className={`p-2 rounded mb-2 space-y-1 ${safetyAlert.level === 'emergency' ? 'bg-red-600/40' : 'bg-orange-500/30'}`}>
+                    <div className="text-xs text-white">⚠️ {safetyAlert.message}</div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => resolveSafetyAlert('resumed')}
+                        className="flex-1 bg-green-600 hover:bg-green-700 text-white py-1 rounded text-xs transition-colors"
+                      >
+                        {t("I'm OK", language)}
+                      </button>
+                      <button
+                        onClick={() => resolveSafetyAlert('ended')}
+                        className="flex-1 bg-white/10 hover:bg-white/20 text-white py-1 rounded text-xs transition-colors"
+                      >
+                        {t('End workout', language)}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                
+                {recoveryOffer && (
+                  <div className="bg-white/5 p-2 rounded mb-2 space-y-1">
+                    <div className="text-xs text-white">Resume your workout at {recoveryOffer.position}?</div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => answerRecoveryOffer(true)}
+                        className="flex-1 bg-green-600 hover:bg-green-700 text-white py-1 rounded text-xs transition-colors"
+                      >
+                        Resume
+                      </button>
+                      <button
+                        onClick={() => answerRecoveryOffer(false)}
+                        className="flex-1 bg-white/10 hover:bg-white/20 text-white py-1 rounded text-xs transition-colors"
+                      >
+                        Start fresh
+                      </button>
+                    </div>
+                  </div>
+                )}
+                
+                {/* Pause freezes counting, timers and coach prompts */}
+                {workoutPlan && (
+                  <div className="flex items-center justify-between mb-2">
+                    {isPaused && <span className="text-xs font-medium text-yellow-300">⏸ Paused</span>}
+                    <select
+                      value={coachVerbosity}
+                      onChange={(e) => service?.socket?.emit('coach_verbosity', { verbosity: e.target.value })}
+                      title="How often the coach chimes in"
+                      className="ml-auto bg-white/10 text-white px-1 py-0.5 rounded text-xs"
+                    >
+                      {COACH_VERBOSITY_LEVELS.map(level => (
+                        <option key={level} value={level} className="bg-gray-900">
+                          {t(level === 'quiet' ? 'Quiet coach' : level === 'chatty' ? 'Chatty coach' : 'Normal coach', language)}
+                        </option>
+                      ))}
+                    </select>
+                    {availableLanguages.length > 1 && (
+                      <select
+                        value={language}
+                        onChange={(e) => service?.socket?.emit('coach_language', { language: e.target.value })}
+                        title="Coaching language"
+                        className="ml-1 bg-white/10 text-white px-1 py-0.5 rounded text-xs"
+                      >
+                        {LANGUAGES.filter(({ code }) => availableLanguages.includes(code)).map(({ code, label }) => (
+                          <option key={code} value={code} className="bg-gray-900">
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={togglePause}
+                      className="ml-1 bg-white/10 hover:bg-white/20 text-white px-2 py-0.5 rounded text-xs transition-colors"
+                    >
+                      {t(isPaused ? 'Resume' : 'Pause', language)}
+                    </button>
+                  </div>
+                )}
+                
+                {/* Effort rating for the set just finished (tap, or say "RPE 8" / "two reps left") */}
+                {pendingEffort && (
+                  <div className="bg-white/5 p-2 rounded mb-2 space-y-1">
+                    <div className="text-xs text-white/70">How hard was that {pendingEffort.exercise} set?</div>
+                    <div className="flex gap-1">
+                      {[6, 7, 8, 9, 10].map(rpe => (
+                        <button
+                          key={rpe}
+                          onClick={() => submitSetEffort(pendingEffort.exercise, { rpe })}
+                          className="flex-1 bg-white/10 hover:bg-white/20 text-white py-1 rounded text-xs transition-colors"
+                        >
+                          {rpe}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] text-white/40">
+                      <span>RPE · 10 = nothing left</span>
+                      <button onClick={() => setPendingEffort(null)} className="hover:text-white/70">Skip</button>
+                    </div>
+                  </div>
+                )}
+                
+                {!exerciseStarted && calibratingExercise && calibrationProgress ? (
+                  // Guided calibration: a few slow reps to measure the user's own range
+                  <div className="space-y-2">
+                    <div className="text-xs text-white/70">Calibrating {calibratingExercise}</div>
+                    <p className="text-xs text-white">
+                      Do {calibrationProgress.target} slow, full reps at a comfortable depth
+                    </p>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-blue-300">
+                        {calibrationProgress.reps}/{calibrationProgress.target} reps
+                      </span>
+                      {calibrationProgress.current !== null && (
+                        <span className="text-white/50">{Math.round(calibrationProgress.current)}°</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={stopCalibration}
+                      className="w-full bg-white/10 hover:bg-white/20 text-white/70 py-1 rounded text-xs transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : !exerciseStarted ? (
                   <>
                     {workoutPlan ? (
                       // Show workout plan
@@ -950,6 +1596,14 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                                           {expectedExercise.sets} × {expectedExercise.targetReps} reps
                                         </p>
                                       )}
+                                      {expectedExercise && getExerciseDefinition(expectedExercise.exerciseType)?.calibration && (
+                                        <button
+                                          onClick={() => startCalibration(expectedExercise.exerciseType as ExerciseType)}
+                                          className="text-xs text-blue-300/80 hover:text-blue-200 underline mt-1"
+                                        >
+                                          Calibrate to my range
+                                        </button>
+                                      )}
                                       <p className="text-xs text-white/50 mt-1">
                                         {!showProgress ? 'Move into position and start the exercise' : 
                                          detectionConfidence < 0.7 ? `Detecting... (${Math.round(detectionConfidence * 100)}% - need 70%)` : 
@@ -1021,6 +1675,14 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                                     Start
                                   </button>
                                 )}
+                                {!currentExercise && getExerciseDefinition(exercise.exerciseType)?.calibration && (
+                                  <button
+                                    onClick={() => startCalibration(exercise.exerciseType as ExerciseType)}
+                                    className="w-full bg-blue-500/10 hover:bg-blue-500/20 text-blue-300 py-1 rounded text-xs transition-colors"
+                                  >
+                                    Calibrate
+                                  </button>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -1037,16 +1699,17 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                         <div className="text-lg font-bold text-white bg-blue-600 px-4 py-2 rounded-lg">
                           REST PERIOD
                         </div>
+                        {intervalStatus?.type === 'interval_rest' && (
+                          <div className="text-xs text-white/70">{intervalStatus.guidance}</div>
+                        )}
                         <RestTimer
                           duration={restDuration}
-                          onComplete={() => {
-                            setIsResting(false);
-                            if (planAwareCounterRef.current) {
-                              planAwareCounterRef.current.startNextSet();
-                            }
-                            setRepCount(0);
-                          }}
+                          onComplete={handleRestComplete}
                           exerciseName={nextExercise || currentExercise || undefined}
+                          endsAt={intervalStatus?.type === 'interval_rest' ? intervalStatus.endsAt : undefined}
+                          paused={isPaused}
+                          skippable={intervalStatus?.type === 'interval_rest' ? !!intervalStatus.skippable : true}
+                          language={language}
                         />
                       </div>
                     ) : isTransitioning && workoutTransition ? (
@@ -1089,7 +1752,13 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                         <div className="flex items-center justify-between">
                           <div>
                             <span className="text-sm font-medium text-white">{currentExercise}</span>
-                            {workoutPlan && totalSets > 1 && (
+                            {intervalStatus ? (
+                              <span className="text-xs text-white/50 ml-1">
+                                {intervalStatus.format?.toUpperCase()} · Round {intervalStatus.round}{intervalStatus.totalRounds ? `/${intervalStatus.totalRounds}` : ''}
+                                {intervalStatus.targetReps ? ` · ${intervalStatus.targetReps} reps` : ''}
+                                {intervalSecondsLeft !== null ? ` · ${Math.floor(intervalSecondsLeft / 60)}:${String(intervalSecondsLeft % 60).padStart(2, '0')}` : ''}
+                              </span>
+                            ) : workoutPlan && totalSets > 1 && (
                               <span className="text-xs text-white/50 ml-1">
                                 Set {currentSetNumber}/{totalSets}
                               </span>
@@ -1097,16 +1766,42 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                           </div>
                           <div className="text-right">
                              <div className="text-3xl font-bold text-green-400">
-                               {currentExercise === EXERCISE.PLANKS 
+                               {isHoldExercise 
                                 ? `${repCount}s` 
                                 : repCount}
                             </div>
                             <div className="text-xs text-white/60">
-                               {currentExercise === EXERCISE.PLANKS ? 'seconds' : 'reps'}
+                               {isHoldExercise ? 'seconds' : 'reps'}
                             </div>
+                            {repsBySide && (
+                              <div className="text-xs text-white/60">
+                                L {repsBySide.left} / R {repsBySide.right}
+                              </div>
+                            )}
                           </div>
                         </div>
                         
+                        {/* Load for this set; plus/minus adjust by one plate step */}
+                        {setLoad?.weight && (
+                          <div className="flex items-center justify-between text-xs text-white/70">
+                            <span>🏋️ {describeLoad(setLoad)}</span>
+                            <span className="flex gap-1">
+                              <button
+                                onClick={() => setSetLoad(adjustWeight(setLoad, -1))}
+                                className="bg-white/10 hover:bg-white/20 rounded px-1.5"
+                              >
+                                −
+                              </button>
+                              <button
+                                onClick={() => setSetLoad(adjustWeight(setLoad, 1))}
+                                className="bg-white/10 hover:bg-white/20 rounded px-1.5"
+                              >
+                                +
+                              </button>
+                            </span>
+                          </div>
+                        )}
+                        
                         {/* Compact form score */}
                         <div className="flex items-center gap-2">
                           <div className="flex-1 bg-white/10 rounded-full h-1">
@@ -1126,15 +1821,22 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                           </span>
                         </div>
                         
+                        {/* Camera setup guidance blocks counting until resolved */}
+                        {setupGuidance && (
+                          <div className="text-xs text-orange-300">
+                            📷 {translateMessage(setupGuidance, language)}
+                          </div>
+                        )}
+                        
                         {/* Exercise guidance and corrections */}
                         {exerciseGuidance && (
                           <div className="text-xs text-blue-300 truncate">
-                            {exerciseGuidance.message}
+                            {translateMessage(exerciseGuidance.message, language)}
                           </div>
                         )}
-                        {formCorrections.length > 0 && !exerciseGuidance && (
+                        {formCorrections.length > 0 && !exerciseGuidance && !setupGuidance && (
                           <div className="text-xs text-yellow-300 truncate">
-                            {formCorrections[0]}
+                            {translateMessage(formCorrections[0], language)}
                           </div>
                         )}
                         
@@ -1158,8 +1860,16 @@ const UserScreen = forwardRef<HTMLVideoElement, UserScreenProps>((props, ref) =>
                                 reps: repCount,
                                 formScore: formScore,
                                 sessionId: sessionId,
-                                setComplete: true  // Mark as complete
+                                setComplete: true,  // Mark as complete
+                                asymmetry: (planAwareCounterRef.current ?? repCounterRef.current)?.getAsymmetrySummary(),
+                                load: setLoad
                               });
+                              if (currentExercise) {
+                                flowManagerRef.current?.recordSetLoad(currentExercise, repCount, setLoad);
+                                if (!isHoldExercise) {
+                                  setPendingEffort({ exercise: currentExercise });
+                                }
+                              }
                             }
                             
                             // If using a workout plan, properly mark exercise as completed
@@ -1,10 +1,13 @@
 import { useEffect, useRef, useState } from "react";
 
+import ScrubPreview from "@/components/ScrubPreview";
 import { useAuth } from "@/contexts/AuthContext";
+import { useAdaptiveVideo } from "@/hooks/useAdaptiveVideo";
 import { logError } from "@/lib/errorLogger";
 import { dispatch } from "@/store";
 import { setAuthModal } from "@/store/slices/modal";
-import { formatTimeAgo } from "@/utility";
+import type { ScrubSprite } from "@/types/slices";
+import { formatTimeAgo, scrubTimeAt } from "@/utility";
 import {
   Bot,
   Heart,
@@ -24,6 +27,9 @@ interface CommunityPost {
   id: string;
   video_url: string;
   thumbnail_url: string;
+  hls_url?: string | null;
+  poster_url?: string | null;
+  scrub_sprite?: ScrubSprite | null;
   duration_sec: number;
   transcript: string;
   handle: string;
@@ -73,6 +79,7 @@ const PostCard = ({
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const progressRef = useRef<HTMLDivElement>(null);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
   const [isLiked, setIsLiked] = useState<boolean | null>(null);
   const [likeCount, setLikeCount] = useState(post.likes_count);
   const [inView, setInView] = useState(true);
@@ -83,6 +90,12 @@ const PostCard = ({
     }
   }, []);
 
+  // Adaptive stream when the post has one, the progressive video otherwise
+  useAdaptiveVideo(videoRef, {
+    hlsUrl: post.hls_url,
+    fallbackUrl: post.video_url,
+  });
+
   // Intersection Observer to detect if card is in view
   useEffect(() => {
     const node = containerRef.current;
@@ -346,8 +359,7 @@ const PostCard = ({
         {/* Video */}
         <video
           ref={videoRef}
-          src={post.video_url}
-          poster={post.thumbnail_url}
+          poster={post.poster_url || post.thumbnail_url}
           className="absolute inset-0 h-full w-full object-cover"
           loop
           muted={isMuted}
@@ -413,12 +425,21 @@ const PostCard = ({
           <div
             ref={progressRef}
             onClick={handleSeek}
+            onPointerMove={(e) => setScrubTime(scrubTimeAt(e, duration))}
+            onPointerLeave={() => setScrubTime(null)}
             className="absolute right-0 bottom-0 left-0 z-20 h-1 cursor-pointer bg-white/20"
           >
             <div
               className="h-full bg-white/60 transition-all duration-100"
               style={{ width: `${(currentTime / duration) * 100}%` }}
             />
+            {post.scrub_sprite && scrubTime !== null && (
+              <ScrubPreview
+                sprite={post.scrub_sprite}
+                time={scrubTime}
+                duration={duration}
+              />
+            )}
           </div>
         )}
 
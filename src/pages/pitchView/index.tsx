@@ -7,11 +7,16 @@ import { useParams } from "react-router-dom";
 import PitchVideo from "./player";
 import { useSelector } from "react-redux";
 import { RootState } from "@/store";
+import type { ScrubSprite } from "@/types/slices";
 
 interface PitchData {
   id: string;
   video_url: string;
   thumbnail_url: string;
+  hls_url?: string | null;
+  poster_url?: string | null;
+  scrub_sprite?: ScrubSprite | null;
+  overlay_url?: string | null;
   avatar_image_url?: string;
   avatar_name?: string;
   is_published: boolean;
@@ -32,6 +37,10 @@ const PitchView = () => {
           id: pitch.id,
           video_url: pitch.video_url,
           thumbnail_url: pitch.thumbnail_url,
+          hls_url: pitch.hls_url,
+          poster_url: pitch.poster_url,
+          scrub_sprite: pitch.scrub_sprite,
+          overlay_url: pitch.overlay_url,
           avatar_image_url: pitch.avatar_image_url,
           avatar_name: pitch.avatar_name,
           is_published: pitch.is_published,
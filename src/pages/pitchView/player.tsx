@@ -1,17 +1,25 @@
 import { useEffect, useRef, useState } from "react";
 
-import { formatJudgeName } from "@/utility";
-import { Bot, Play, Volume2, VolumeX } from "lucide-react";
+import { formatJudgeName, scrubTimeAt } from "@/utility";
+import { Bot, PersonStanding, Play, Volume2, VolumeX } from "lucide-react";
 import DownloadButton from "@/components/DownloadButton";
+import RecordingOverlay from "@/components/RecordingOverlay";
+import ScrubPreview from "@/components/ScrubPreview";
+import { useAdaptiveVideo } from "@/hooks/useAdaptiveVideo";
 import {dispatch} from "@/store";
 import {setPitchVisibility} from "@/store/slices/pitches";
 import { useAuth } from "@/contexts/AuthContext";
+import type { ScrubSprite } from "@/types/slices";
 import VisibilityDropdown from "./components/VisibilityDropdown";
 
 interface PitchData {
   id: string;
   video_url: string;
   thumbnail_url: string;
+  hls_url?: string | null;
+  poster_url?: string | null;
+  scrub_sprite?: ScrubSprite | null;
+  overlay_url?: string | null;
   avatar_image_url?: string;
   avatar_name?: string;
   is_published: boolean;
@@ -29,11 +37,17 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
   const [isMuted, setIsMuted] = useState(true);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [showOverlay, setShowOverlay] = useState(false);
   const [isPublic, setIsPublic] = useState(pitch?.is_published ?? false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { token } = useAuth();
 
+  useAdaptiveVideo(videoRef, {
+    hlsUrl: pitch?.hls_url,
+    fallbackUrl: pitch?.video_url ?? "",
+  });
 
   useEffect(() => {
     setIsPublic(pitch?.is_published ?? false);
@@ -137,8 +151,7 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
     <div className="relative h-full w-full bg-black">
       <video
         ref={videoRef}
-        src={pitch.video_url}
-        poster={pitch.thumbnail_url}
+        poster={pitch.poster_url || pitch.thumbnail_url}
         className="absolute inset-0 h-full w-full object-cover"
         loop
         muted={isMuted}
@@ -147,6 +160,14 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
         onPause={() => setIsPlaying(false)}
       />
 
+      {pitch.overlay_url && (
+        <RecordingOverlay
+          videoRef={videoRef}
+          trackUrl={pitch.overlay_url}
+          visible={showOverlay}
+        />
+      )}
+
       <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-black/20" />
 
       {!isPlaying && (
@@ -174,6 +195,7 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
       </div>
 
       <div className="absolute top-2 right-2 z-20 flex gap-2">
+        {/* Downloads take the progressive MP4, not the HLS stream */}
         <DownloadButton 
           videoUrl={pitch.video_url} 
           fileName={`pitch-${pitch.avatar_name?.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.mp4`}
@@ -181,6 +203,16 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
           size="md"
           addWatermark={true}
         />
+        {pitch.overlay_url && (
+          <button
+            onClick={() => setShowOverlay((prev) => !prev)}
+            aria-pressed={showOverlay}
+            title={showOverlay ? "Hide skeleton overlay" : "Show skeleton overlay"}
+            className={`rounded-full p-2 backdrop-blur-sm ${showOverlay ? "bg-accent/80" : "bg-black/50"}`}
+          >
+            <PersonStanding className="h-5 w-5 text-white" />
+          </button>
+        )}
         <button
           onClick={handleMuteToggle}
           className="rounded-full bg-black/50 p-2 backdrop-blur-sm"
@@ -231,12 +263,21 @@ const PitchVideo = ({ pitch, sessionRecordingId }: PitchVideoProps) => {
         <div
           ref={progressRef}
           onClick={handleSeek}
+          onPointerMove={(e) => setScrubTime(scrubTimeAt(e, duration))}
+          onPointerLeave={() => setScrubTime(null)}
           className="absolute right-0 bottom-0 left-0 z-20 h-1 cursor-pointer bg-white/20"
         >
           <div
             className="bg-white/80 h-full transition-all duration-100"
             style={{ width: `${(currentTime / duration) * 100}%` }}
           />
+          {pitch.scrub_sprite && scrubTime !== null && (
+            <ScrubPreview
+              sprite={pitch.scrub_sprite}
+              time={scrubTime}
+              duration={duration}
+            />
+          )}
         </div>
       )}
     </div>
@@ -4,6 +4,9 @@ import { TinyEmitter } from "tiny-emitter";
 
 import { logError } from "../lib/errorLogger";
 import { supabase } from "../lib/supabase";
+import type { RepTempo } from "../lib/repAnalytics";
+import type { AngleSource } from "../lib/exerciseDsl";
+import type { SetLoad } from "../lib/setLoad";
 import { sessionRecordingService } from "./SessionRecordingService";
 
 export interface MouthCue {
@@ -16,6 +19,45 @@ export interface VisemeData {
   mouthCues: MouthCue[];
 }
 
+// Pre-synthesized coaching line from the server's cue library
+export interface CoachCue {
+  cueId: string; // e.g. "reps_left:3", "countdown:go", "form:lower_your_hips"
+  text: string;
+  url: string;
+  alignment: {
+    characters: string[];
+    start_seconds: number[];
+    end_seconds: number[];
+  };
+  duration: number | null; // seconds
+}
+
+interface CueClip {
+  audio: string; // base64 mp3, same shape as a tts_stream chunk
+  duration: number;
+  visemes: MouthCue[];
+}
+
+// The response turn and segment (one sentence) a tts_stream chunk belongs to
+interface TurnTag {
+  turnId: string;
+  segment: number;
+}
+
+interface QueuedAudio {
+  audio: string;
+  turn?: TurnTag;
+}
+
+// Seconds of audio received and played per segment of a response turn,
+// reported to the server when the turn is cancelled
+interface TurnPlayback {
+  receivedSeconds: Record<number, number>;
+  playedSeconds: Record<number, number>;
+}
+
+const MAX_TRACKED_TURNS = 10;
+
 export interface AvatarChatState {
   isConnected: boolean;
   isRecording: boolean;
@@ -81,17 +123,23 @@ export class AvatarChatService extends TinyEmitter {
   private liveKitConnecting = false; // guard against double connect
 
   // --- Audio Queue for Streaming Playback ---
-  private audioQueue: string[] = [];
+  private audioQueue: QueuedAudio[] = [];
   private audioDurationAccumulator = 0;
-  private pendingAudioQueue: string[] = []; // Queue for audio received before AudioContext exists
+  private pendingAudioQueue: QueuedAudio[] = []; // Queue for audio received before AudioContext exists
   private visemeAccumulator: MouthCue[] = [];
   private isProcessingAudio = false;
+  private cueClips = new Map<string, CueClip>();
 
   // --- New timing model state ---
   private playedDuration = 0;
   private currentChunkStartTime: number | null = null;
+  private currentChunk: { turn?: TurnTag; duration: number } | null = null;
   // -----------------------------------------
 
+  // --- Response turns (barge-in cancellation) ---
+  private turnPlayback = new Map<string, TurnPlayback>();
+  private cancelledTurns = new Set<string>();
+
   private static resumeOnce = (() => {
     let done = false;
     return () => {
@@ -257,12 +305,146 @@ export class AvatarChatService extends TinyEmitter {
   };
 
   // Adds a chunk to the audio queue and starts processing if not already started.
-  private playAudioChunk = (base64Audio: string) => {
+  private playAudioChunk = (base64Audio: string, turn?: TurnTag) => {
     if (!this.audioContext) return;
-    this.audioQueue.push(base64Audio);
+    this.audioQueue.push({ audio: base64Audio, turn });
     this.processAudioQueue();
   };
 
+  private trackTurn(turnId: string): TurnPlayback {
+    let playback = this.turnPlayback.get(turnId);
+    if (!playback) {
+      playback = { receivedSeconds: {}, playedSeconds: {} };
+      this.turnPlayback.set(turnId, playback);
+      if (this.turnPlayback.size > MAX_TRACKED_TURNS) {
+        this.turnPlayback.delete(this.turnPlayback.keys().next().value!);
+      }
+    }
+    return playback;
+  }
+
+  private addPlayed(turn: TurnTag | undefined, seconds: number) {
+    if (!turn) return;
+    const played = this.trackTurn(turn.turnId).playedSeconds;
+    played[turn.segment] = (played[turn.segment] || 0) + seconds;
+  }
+
+  // The server cancelled a response turn (barge-in or a newer reply): stop its
+  // audio now, drop any chunks still on the way, and report how much of it
+  // was heard so the transcript only keeps that part.
+  private cancelTurn(turnId: string) {
+    this.cancelledTurns.add(turnId);
+    if (this.cancelledTurns.size > MAX_TRACKED_TURNS) {
+      this.cancelledTurns.delete(this.cancelledTurns.values().next().value!);
+    }
+
+    const current = this.currentChunk?.turn;
+    const isPlaying = current?.turnId === turnId;
+    if (isPlaying && this.currentChunkStartTime !== null && this.audioContext) {
+      this.addPlayed(
+        current,
+        Math.min(
+          this.audioContext.currentTime - this.currentChunkStartTime,
+          this.currentChunk!.duration,
+        ),
+      );
+    }
+    if (
+      isPlaying ||
+      this.audioQueue.some((item) => item.turn?.turnId === turnId) ||
+      this.pendingAudioQueue.some((item) => item.turn?.turnId === turnId)
+    ) {
+      this.stopAllAudioPlayback();
+    }
+
+    const playback = this.turnPlayback.get(turnId);
+    this.turnPlayback.delete(turnId);
+    this.socket?.emit("turn_playback", {
+      turnId,
+      receivedSeconds: playback?.receivedSeconds ?? {},
+      playedSeconds: playback?.playedSeconds ?? {},
+    });
+  }
+
+  // Fetches and prepares the coach's cue clips so they can start without a
+  // network round trip. Clips that fail to load are left to the LLM path;
+  // before there's an AudioContext to decode with, the manifest duration is
+  // trusted.
+  public loadCueLibrary = async (cues: CoachCue[]) => {
+    const clips = new Map<string, CueClip>();
+    await Promise.all(
+      cues.map(async (cue) => {
+        try {
+          const resp = await fetch(cue.url);
+          if (!resp.ok) {
+            throw new Error(`Failed to fetch coach cue: ${resp.status}`);
+          }
+          const bytes = new Uint8Array(await resp.arrayBuffer());
+          let binary = "";
+          for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+          }
+          const duration = this.audioContext
+            ? (await this.audioContext.decodeAudioData(bytes.slice().buffer))
+                .duration
+            : cue.duration;
+          if (!duration || bytes.length === 0) return;
+
+          clips.set(cue.cueId, {
+            audio: btoa(binary),
+            duration,
+            visemes: this.convertToVisemes(
+              cue.alignment.characters,
+              cue.alignment.start_seconds,
+              cue.alignment.end_seconds,
+            ),
+          });
+        } catch (error) {
+          logError("[SVC] Failed to load coach cue", error, {
+            section: "audio_processing",
+            cueId: cue.cueId,
+          });
+        }
+      }),
+    );
+    this.cueClips = clips;
+  };
+
+  public hasCue = (cueId: string): boolean => this.cueClips.has(cueId);
+
+  // Plays a cached cue through the normal audio queue, after anything the
+  // avatar is already saying. Returns false if the cue isn't loaded.
+  public playCue = (cueId: string): boolean => {
+    const clip = this.cueClips.get(cueId);
+    if (!clip || !this.audioContext) return false;
+
+    const idle =
+      !this.isProcessingAudio &&
+      this.audioQueue.length === 0 &&
+      this.activeAudioSources.length === 0;
+    if (idle) {
+      this.audioDurationAccumulator = 0;
+      this.visemeAccumulator = [];
+      this.playedDuration = 0;
+      this.currentChunkStartTime = null;
+    }
+
+    const offsetCues = clip.visemes.map((cue) => ({
+      ...cue,
+      start: cue.start + this.audioDurationAccumulator,
+      end: cue.end + this.audioDurationAccumulator,
+    }));
+    if (offsetCues.length > 0) {
+      offsetCues[offsetCues.length - 1].end += 0.1;
+    }
+    this.visemeAccumulator.push(...offsetCues);
+    this.setState({ visemes: { mouthCues: this.visemeAccumulator } });
+
+    this.audioDurationAccumulator += clip.duration;
+    this.playAudioChunk(clip.audio);
+    return true;
+  };
+
   // Processes the audio queue sequentially.
   private processAudioQueue = async () => {
     if (this.isProcessingAudio || this.audioQueue.length === 0) {
@@ -288,7 +470,8 @@ export class AvatarChatService extends TinyEmitter {
     }
 
     this.isProcessingAudio = true;
-    const base64Audio = this.audioQueue.shift();
+    const queued = this.audioQueue.shift();
+    const base64Audio = queued?.audio;
 
     if (!base64Audio || !this.audioContext) {
       this.isProcessingAudio = false;
@@ -321,6 +504,8 @@ export class AvatarChatService extends TinyEmitter {
       this.activeAudioSources.push(source);
 
       source.onended = () => {
+        // A stopped source was already cleared out by stopAllAudioPlayback
+        const playedThrough = this.activeAudioSources.includes(source);
         this.activeAudioSources = this.activeAudioSources.filter(
           (s) => s !== source,
         );
@@ -328,6 +513,10 @@ export class AvatarChatService extends TinyEmitter {
         // Add ended chunk's duration to playedDuration
         this.playedDuration += audioBuffer.duration;
         this.currentChunkStartTime = null; // Mark that no chunk is currently playing
+        if (playedThrough) {
+          this.addPlayed(queued?.turn, audioBuffer.duration);
+          this.currentChunk = null;
+        }
 
         this.isProcessingAudio = false;
 
@@ -353,6 +542,7 @@ export class AvatarChatService extends TinyEmitter {
 
       // Record the start time for the current chunk
       this.currentChunkStartTime = this.audioContext.currentTime;
+      this.currentChunk = { turn: queued?.turn, duration: audioBuffer.duration };
       source.start();
     } catch (error) {
       logError("[SVC] Audio chunk processing error", error, {
@@ -531,7 +721,7 @@ export class AvatarChatService extends TinyEmitter {
 
         // Play all queued audio chunks
         for (const audioChunk of queuedAudio) {
-          this.playAudioChunk(audioChunk);
+          this.playAudioChunk(audioChunk.audio, audioChunk.turn);
         }
       }
     }
@@ -560,6 +750,7 @@ export class AvatarChatService extends TinyEmitter {
     // Reset new timing model state
     this.playedDuration = 0;
     this.currentChunkStartTime = null;
+    this.currentChunk = null;
 
     this.audioDurationAccumulator = 0;
 
@@ -667,10 +858,16 @@ export class AvatarChatService extends TinyEmitter {
     );
 
     this.socket.on("tts_stream", async (data) => {
+      // Audio from a cancelled turn that was already on the way
+      if (data.turnId && this.cancelledTurns.has(data.turnId)) return;
+      const turn: TurnTag | undefined = data.turnId
+        ? { turnId: data.turnId, segment: data.segment ?? 0 }
+        : undefined;
+
       if (data.audio) {
         if (!this.audioContext) {
           console.log("[SVC] AudioContext not ready, queueing audio chunk");
-          this.pendingAudioQueue.push(data.audio);
+          this.pendingAudioQueue.push({ audio: data.audio, turn });
           return;
         }
 
@@ -682,13 +879,22 @@ export class AvatarChatService extends TinyEmitter {
           audioData.buffer,
         );
 
+        // Cancelled while decoding
+        if (turn && this.cancelledTurns.has(turn.turnId)) return;
+        if (turn) {
+          const received = this.trackTurn(turn.turnId).receivedSeconds;
+          received[turn.segment] =
+            (received[turn.segment] || 0) + audioBuffer.duration;
+        }
+
         this.audioDurationAccumulator += audioBuffer.duration;
 
-        this.playAudioChunk(data.audio);
+        this.playAudioChunk(data.audio, turn);
       }
     });
 
     this.socket.on("tts_stream_alignment", (data) => {
+      if (data.turnId && this.cancelledTurns.has(data.turnId)) return;
       const newCues = this.convertToVisemes(
         data.characters,
         data.start_seconds,
@@ -714,6 +920,7 @@ export class AvatarChatService extends TinyEmitter {
     });
 
     this.socket.on("llm_response_chunk", (data) => {
+      if (data.turnId && this.cancelledTurns.has(data.turnId)) return;
       // Reset audio state at the start of a new LLM response
       if (this.state.llmResponse === "") {
         this.audioDurationAccumulator = 0;
@@ -746,6 +953,11 @@ export class AvatarChatService extends TinyEmitter {
       this.setState({ error: error.message || "Unknown error" });
     });
 
+    this.socket.on("turn_cancelled", (data: { turnId: string }) => {
+      this.cancelTurn(data.turnId);
+      this.setState({ isLLMResponding: false });
+    });
+
     this.socket.on("user_spoke", () => {
       // Log interruption for analysis
       const wasPlaying = this.state.audioPlaying;
@@ -764,6 +976,31 @@ export class AvatarChatService extends TinyEmitter {
       });
     });
 
+    this.socket.on("coach_cue_library", (data: { cues: CoachCue[] }) => {
+      this.loadCueLibrary(data.cues || []);
+    });
+
+    // The server falls back to a spoken LLM line when a cue isn't played
+    this.socket.on(
+      "coach_cue",
+      (
+        data: { cueId: string },
+        ack?: (response: { played: boolean }) => void,
+      ) => {
+        ack?.({ played: this.playCue(data.cueId) });
+      },
+    );
+
+    // A more urgent coaching cue (e.g. a safety warning) cuts this one off
+    this.socket.on("coach_preempted", () => {
+      this.stopAllAudioPlayback();
+      this.setState({
+        llmResponse: "",
+        visemes: null,
+        audioPlaying: false,
+      });
+    });
+
     // --- CREDIT SYSTEM EVENT HANDLERS ---
     this.socket.on("credits_charged", (data) => {
       // Emit event so UI can update credit display
@@ -909,7 +1146,7 @@ export class AvatarChatService extends TinyEmitter {
 
         // Play all queued audio chunks
         for (const audioChunk of queuedAudio) {
-          this.playAudioChunk(audioChunk);
+          this.playAudioChunk(audioChunk.audio, audioChunk.turn);
         }
       }
 
@@ -1031,6 +1268,11 @@ export class AvatarChatService extends TinyEmitter {
     repCount: number;
     formScore?: number;
     formCorrections?: string[];
+    velocityLoss?: number;
+    isFatigued?: boolean;
+    repTempo?: RepTempo;
+    angleSource?: AngleSource;
+    load?: SetLoad;
     timestamp: number;
   }): Promise<void> {
     if (!this.socket || !this.state.isConnected) {
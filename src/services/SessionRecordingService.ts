@@ -1,8 +1,15 @@
 import { TinyEmitter } from "tiny-emitter";
 
 import { logError, logWarn } from "../lib/errorLogger";
+import { supabase } from "../lib/supabase";
 import { avatarChatService } from "./AvatarChatService";
-import { getGlobalSkeletonCanvas } from "../hooks/useSkeletonCanvas";
+import {
+  drawOverlayStats,
+  drawPoseSkeleton,
+  OverlayTrackRecorder,
+  type OverlayStats,
+} from "../lib/recordingOverlay";
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
 
 export interface RecordingState {
   isRecording: boolean;
@@ -14,6 +21,37 @@ export interface RecordingState {
   uploadProgress: number; // 0-100
 }
 
+export interface RecordingOptions {
+  // Burn the pose skeleton, rep counter, set/exercise label and form gauge
+  // into the video. The landmark timeline is uploaded as a sidecar either way.
+  overlay?: boolean;
+}
+
+// Server reply to a recording_chunk
+interface ChunkAck {
+  ok: boolean;
+  chunkIndex: number;
+  duplicate?: boolean;
+  status?: number;
+  error?: string;
+}
+
+// Server reply to recording_resume: the chunks it already has
+interface RecordingManifest {
+  ok: boolean;
+  status?: string;
+  chunks?: { index: number; size: number; checksum: string }[];
+  missing?: number[];
+  error?: string;
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
 export class SessionRecordingService extends TinyEmitter {
   private state: RecordingState = {
     isRecording: false,
@@ -41,6 +79,13 @@ export class SessionRecordingService extends TinyEmitter {
   // Interval ID for periodic MediaRecorder.requestData calls (forces consistent chunking even when
   // the browser ignores the timeslice parameter for certain MIME types like MP4)
   private requestDataIntervalId: ReturnType<typeof setInterval> | null = null;
+  // Chunks the server hasn't acknowledged yet, kept to resend after a
+  // reconnect or when the server reports them missing at finish
+  private unackedChunks = new Map<number, { data: Uint8Array; checksum: string }>();
+  private inFlightChunks = new Set<Promise<boolean>>();
+  // Pose landmarks and workout stats of a split-screen recording, for the sidecar
+  private overlayTrack: OverlayTrackRecorder | null = null;
+  private burnInOverlay: boolean = false;
 
   // Low-fidelity constants
   private static readonly CAPTURE_FPS = 15; // lower FPS to cut CPU/bitrate by ~50%
@@ -49,6 +94,12 @@ export class SessionRecordingService extends TinyEmitter {
   private static readonly VIDEO_BITRATE = 1_000_000; // 1 Mbps
   // Interval between MediaRecorder dataavailable events (ms)
   private static readonly CHUNK_TIMESLICE_MS = 1000; // 1 s for more frequent chunks
+  private static readonly CHUNK_ACK_TIMEOUT_MS = 15000;
+  private static readonly MAX_FINISH_ATTEMPTS = 3; // Rounds of resending missing chunks
+  private static readonly STATUS_POLL_INTERVAL_MS = 2000; // While the server transcodes
+  // The user's camera in the split-screen layout (bottom half), as fractions
+  // of the frame
+  private static readonly USER_VIDEO_AREA = { x: 0, y: 0.5, width: 1, height: 0.5 };
 
   constructor() {
     super();
@@ -106,7 +157,87 @@ export class SessionRecordingService extends TinyEmitter {
    * Set the WebSocket connection from AvatarChatService
    */
   public setSocket(socket: any): void {
+    this.socket?.off("connect", this.resumeUpload);
     this.socket = socket;
+    // Fires again on every reconnect
+    this.socket?.on("connect", this.resumeUpload);
+  }
+
+  /**
+   * After a reconnect, ask the server which chunks it kept and resend the rest
+   */
+  private resumeUpload = () => {
+    const recordingId = this.currentRecordingId;
+    if (!recordingId || !this.socket) return;
+
+    this.socket
+      .timeout(SessionRecordingService.CHUNK_ACK_TIMEOUT_MS)
+      .emit(
+        "recording_resume",
+        { recordingId },
+        (err: Error | null, manifest: RecordingManifest) => {
+          if (err || !manifest?.ok) {
+            logWarn("[SessionRecording] Could not resume recording upload", {
+              recordingId,
+              error: err?.message || manifest?.error,
+            });
+            return;
+          }
+          for (const chunk of manifest.chunks ?? []) {
+            if (this.unackedChunks.get(chunk.index)?.checksum === chunk.checksum) {
+              this.unackedChunks.delete(chunk.index);
+            }
+          }
+          console.log("[SessionRecording] Resuming upload:", {
+            recordingId,
+            serverChunks: manifest.chunks?.length ?? 0,
+            resending: this.unackedChunks.size,
+          });
+          for (const chunkIndex of this.unackedChunks.keys()) {
+            this.sendChunk(chunkIndex);
+          }
+        },
+      );
+  };
+
+  /**
+   * Send a stored chunk; resolves true once the server acknowledged it
+   */
+  private sendChunk(chunkIndex: number): Promise<boolean> {
+    const chunk = this.unackedChunks.get(chunkIndex);
+    if (!chunk || !this.socket?.connected || !this.currentRecordingId) {
+      return Promise.resolve(false);
+    }
+
+    const sent = new Promise<boolean>((resolve) => {
+      this.socket
+        .timeout(SessionRecordingService.CHUNK_ACK_TIMEOUT_MS)
+        .emit(
+          "recording_chunk",
+          {
+            recordingId: this.currentRecordingId,
+            chunkIndex,
+            checksum: chunk.checksum,
+          },
+          chunk.data,
+          (err: Error | null, ack: ChunkAck) => {
+            if (!err && ack?.ok) {
+              this.unackedChunks.delete(chunkIndex);
+              resolve(true);
+              return;
+            }
+            // Kept for the next resume or finish round
+            console.warn("[SessionRecording] Chunk not acknowledged:", {
+              chunkIndex,
+              error: err?.message || ack?.error,
+            });
+            resolve(false);
+          },
+        );
+    });
+    this.inFlightChunks.add(sent);
+    sent.finally(() => this.inFlightChunks.delete(sent));
+    return sent;
   }
 
   // New methods for canvas listeners
@@ -403,6 +534,7 @@ export class SessionRecordingService extends TinyEmitter {
     isCameraOn: boolean,
     userVideoElement?: HTMLVideoElement,
     sessionInfo?: { sessionId: string; avatarId: string; userId: string },
+    options: RecordingOptions = {},
   ): Promise<void> {
     console.log(
       "[SessionRecording] startRecording called. Call stack:",
@@ -417,6 +549,7 @@ export class SessionRecordingService extends TinyEmitter {
         canvasElement,
         userVideoElement,
         sessionInfo,
+        options,
       );
     } else {
       await this.startAvatarRecording(canvasElement, sessionInfo);
@@ -480,7 +613,11 @@ export class SessionRecordingService extends TinyEmitter {
 
       // Reset counters/flags for fresh recording session
       this.chunkCount = 0;
+      this.unackedChunks.clear();
       this.isStopping = false;
+      // No camera, so nothing for an overlay track
+      this.overlayTrack = null;
+      this.burnInOverlay = false;
 
       // Validate canvas readiness before proceeding
       if (
@@ -765,24 +902,15 @@ export class SessionRecordingService extends TinyEmitter {
       return;
     }
     
-    // Additional check for socket connection state
-    if (!this.socket.connected) {
-      console.warn(
-        "[SessionRecording] Socket disconnected - skipping chunk:",
-        {
-          recordingId: this.currentRecordingId,
-          chunkIndex: this.chunkCount,
-          socketId: this.socket.id,
-        },
-      );
-      return;
-    }
+    // Indices follow dataavailable order even if hashing finishes out of order
+    const chunkIndex = this.chunkCount++;
+
     // Check if chunk is suspiciously small
     if (chunk.size < 100) {
       console.warn("[SessionRecording] SUSPICIOUSLY SMALL CHUNK:", {
         size: chunk.size,
         type: chunk.type,
-        chunkCount: this.chunkCount,
+        chunkCount: chunkIndex,
       });
 
       // Log canvas state if available
@@ -802,25 +930,19 @@ export class SessionRecordingService extends TinyEmitter {
     // --- END DIAGNOSTIC LOGGING ---
 
     try {
-      // Convert blob to base64 for WebSocket transmission - NON-BLOCKING APPROACH
-      const arrayBuffer = await chunk.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
+      const data = new Uint8Array(await chunk.arrayBuffer());
+      const checksum = await sha256Hex(data);
+      this.unackedChunks.set(chunkIndex, { data, checksum });
 
-      // Emit metadata + binary payload (second argument treated as attachment by Socket.IO)
-      this.socket.emit(
-        "recording_chunk",
-        {
+      // While disconnected the chunk waits for the resume on reconnect
+      if (!this.socket.connected) {
+        console.warn("[SessionRecording] Socket disconnected - holding chunk:", {
           recordingId: this.currentRecordingId,
-          chunkIndex: this.chunkCount,
-        },
-        uint8Array,
-      );
-
-      this.chunkCount++;
-
-      // Update progress (placeholder until we know total size)
-      const progress = 0;
-      this.setState({ uploadProgress: progress });
+          chunkIndex,
+        });
+        return;
+      }
+      this.sendChunk(chunkIndex);
     } catch (error) {
       logError("[SessionRecording] Error streaming chunk", error, {
         section: "recording",
@@ -879,6 +1001,64 @@ export class SessionRecordingService extends TinyEmitter {
     });
   }
 
+  /**
+   * Pose landmarks from the user's camera, for the overlay track
+   */
+  public addOverlayFrame(landmarks: NormalizedLandmark[]): void {
+    if (this.currentRecordingMode !== "split-screen" || this.isStopping) return;
+    this.overlayTrack?.addFrame(landmarks);
+  }
+
+  /**
+   * Current exercise, set, rep count and form score, for the overlay track
+   */
+  public setOverlayStats(stats: OverlayStats): void {
+    if (this.isStopping) return;
+    this.overlayTrack?.setStats(stats);
+  }
+
+  /**
+   * Upload the overlay track as the recording's JSON sidecar. Without it the
+   * recording only loses the playback overlay, so failures are just logged.
+   */
+  private async uploadOverlayTrack(recordingId: string): Promise<void> {
+    const track = this.overlayTrack;
+    this.overlayTrack = null;
+    if (!track || track.frameCount === 0) return;
+
+    try {
+      const serverUrl =
+        import.meta.env.VITE_SERVER_URL || "http://localhost:3005";
+      const formData = new FormData();
+      formData.append(
+        "overlay",
+        new Blob([JSON.stringify(track.finish())], {
+          type: "application/json",
+        }),
+        "overlay.json",
+      );
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const response = await fetch(
+        `${serverUrl}/api/recordings/${recordingId}/overlay`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${session?.access_token}` },
+          credentials: "include", // MiniKit sessions authenticate by cookie
+          body: formData,
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`Overlay upload failed: ${response.status}`);
+      }
+    } catch (error) {
+      logWarn("[SessionRecording] Could not upload overlay track", error, {
+        section: "recording",
+      });
+    }
+  }
+
   /**
    * Finalize the WebSocket recording
    */
@@ -887,12 +1067,51 @@ export class SessionRecordingService extends TinyEmitter {
       return null;
     }
 
+    // Let the last chunks be acknowledged first, so they aren't reported missing
+    await Promise.all([...this.inFlightChunks]);
+
+    const recordingId = this.currentRecordingId;
+    // Before finishing, so the recording row is created with the sidecar
+    await this.uploadOverlayTrack(recordingId);
+    const duration = Math.round((Date.now() - this.startTime) / 1000);
+    let attempts = 0;
+
     return new Promise((resolve, reject) => {
-      this.socket.emit("recording_finish", {
-        recordingId: this.currentRecordingId,
-        lastChunkIndex: this.chunkCount - 1,
-        duration: Math.round((Date.now() - this.startTime) / 1000),
-      });
+      const finish = (acceptMissing = false) =>
+        this.socket.emit("recording_finish", {
+          recordingId,
+          lastChunkIndex: this.chunkCount - 1,
+          duration,
+          acceptMissing,
+        });
+
+      // Resend what the server is missing; once nothing more can be resent,
+      // have it assemble what it got
+      const onRecordingMissing = async (data: {
+        recordingId: string;
+        missing: number[];
+      }) => {
+        if (data.recordingId !== recordingId) return;
+        attempts++;
+        const resendable = data.missing.filter((chunkIndex) =>
+          this.unackedChunks.has(chunkIndex),
+        );
+        await Promise.all(resendable.map((chunkIndex) => this.sendChunk(chunkIndex)));
+        finish(
+          resendable.length === 0 ||
+            attempts >= SessionRecordingService.MAX_FINISH_ATTEMPTS,
+        );
+      };
+
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+      const stopListening = () => {
+        this.socket.off("recording_finished", onRecordingFinished);
+        this.socket.off("recording_processing", onRecordingProcessing);
+        this.socket.off("recording_error", onRecordingError);
+        this.socket.off("recording_missing", onRecordingMissing);
+        clearTimeout(pollTimer);
+        clearTimeout(timeoutTimer);
+      };
 
       const onRecordingFinished = (data: {
         recordingId: string;
@@ -900,14 +1119,14 @@ export class SessionRecordingService extends TinyEmitter {
         thumbnailUrl: string;
         duration: number;
       }) => {
-        this.socket.off("recording_finished", onRecordingFinished);
-        this.socket.off("recording_error", onRecordingError);
+        stopListening();
         console.log(
           "[SessionRecording] WebSocket recording finished:",
           data.videoUrl,
         );
         this.lastFinalisedRecordingId = data.recordingId;
         this.currentRecordingId = null; // prevent further chunks from using old ID
+        this.unackedChunks.clear();
         this.isStopping = false; // cleanup complete
         // Notify UI listeners that the recording row now exists in DB
         this.emit("recording-finalised", data.recordingId);
@@ -915,20 +1134,64 @@ export class SessionRecordingService extends TinyEmitter {
       };
 
       const onRecordingError = (data: { error: string }) => {
-        this.socket.off("recording_finished", onRecordingFinished);
-        this.socket.off("recording_error", onRecordingError);
+        stopListening();
         reject(new Error(data.error));
       };
 
+      // The server transcodes in a background job; poll until it's done
+      const pollStatus = async () => {
+        try {
+          const serverUrl =
+            import.meta.env.VITE_SERVER_URL || "http://localhost:3005";
+          const response = await fetch(
+            `${serverUrl}/api/recordings/${recordingId}/status`,
+          );
+          if (!response.ok) {
+            throw new Error(`Recording status failed: ${response.status}`);
+          }
+          const status = await response.json();
+          if (status.status === "ready") {
+            onRecordingFinished(status);
+            return;
+          }
+          if (status.status === "failed") {
+            onRecordingError({
+              error: status.error || "Failed to finalize recording",
+            });
+            return;
+          }
+        } catch (error) {
+          logWarn("[SessionRecording] Could not check recording status", error, {
+            section: "recording",
+          });
+        }
+        pollTimer = setTimeout(
+          pollStatus,
+          SessionRecordingService.STATUS_POLL_INTERVAL_MS,
+        );
+      };
+
+      const onRecordingProcessing = (data: { recordingId: string }) => {
+        if (data.recordingId !== recordingId) return;
+        this.socket.off("recording_processing", onRecordingProcessing);
+        clearTimeout(pollTimer);
+        pollTimer = setTimeout(
+          pollStatus,
+          SessionRecordingService.STATUS_POLL_INTERVAL_MS,
+        );
+      };
+
       this.socket.on("recording_finished", onRecordingFinished);
+      this.socket.on("recording_processing", onRecordingProcessing);
       this.socket.on("recording_error", onRecordingError);
+      this.socket.on("recording_missing", onRecordingMissing);
+      finish();
 
       // Timeout after 5 minutes – longer videos need more processing time on
       // the server (FFmpeg encoding, thumbnail generation, DB writes). Adjust
       // to 300 000 ms to avoid premature failure on multi-minute recordings.
-      setTimeout(() => {
-        this.socket.off("recording_finished", onRecordingFinished);
-        this.socket.off("recording_error", onRecordingError);
+      const timeoutTimer = setTimeout(() => {
+        stopListening();
         reject(new Error("Recording finish timeout"));
       }, 300000);
     });
@@ -1050,6 +1313,7 @@ export class SessionRecordingService extends TinyEmitter {
     canvasElement: HTMLCanvasElement,
     userVideoElement: HTMLVideoElement,
     sessionInfo?: { sessionId: string; avatarId: string; userId: string },
+    options: RecordingOptions = {},
   ): Promise<void> {
     try {
       if (this.state.isRecording) {
@@ -1062,6 +1326,7 @@ export class SessionRecordingService extends TinyEmitter {
 
       // Reset previous recording
       this.chunkCount = 0;
+      this.unackedChunks.clear();
       this.setState({ error: null });
 
       // Validate canvas readiness before proceeding
@@ -1239,6 +1504,11 @@ export class SessionRecordingService extends TinyEmitter {
 
       // 6. Start recording
       this.startTime = Date.now();
+      this.overlayTrack = new OverlayTrackRecorder(
+        this.startTime,
+        SessionRecordingService.USER_VIDEO_AREA,
+      );
+      this.burnInOverlay = !!options.overlay;
       this.mediaRecorder!.start(SessionRecordingService.CHUNK_TIMESLICE_MS);
       this.startRequestDataLoop();
       this.setState({ isRecording: true });
@@ -1358,17 +1628,26 @@ export class SessionRecordingService extends TinyEmitter {
         if (uvid && uvid.readyState >= 2 && uvid.videoWidth > 0) {
           ctx.drawImage(uvid, userX, userY, userWidth, userHeight);
           
-          // Draw skeleton overlay if available (dynamically get current skeleton canvas)
-          const currentSkeletonCanvas = getGlobalSkeletonCanvas();
-          if (currentSkeletonCanvas && currentSkeletonCanvas.width > 0 && currentSkeletonCanvas.height > 0) {
-            ctx.save();
-            // Scale skeleton canvas to fit the user video area
-            ctx.drawImage(
-              currentSkeletonCanvas,
-              0, 0, currentSkeletonCanvas.width, currentSkeletonCanvas.height,
-              userX, userY, userWidth, userHeight
-            );
-            ctx.restore();
+          // Skeleton and workout stats, when this recording burns them in
+          const overlay = this.burnInOverlay
+            ? this.overlayTrack?.current()
+            : null;
+          if (overlay) {
+            const userRect = {
+              x: userX,
+              y: userY,
+              width: userWidth,
+              height: userHeight,
+            };
+            if (overlay.landmarks) {
+              drawPoseSkeleton(ctx, overlay.landmarks, userRect, {
+                lineWidth: 2,
+                pointRadius: 3,
+              });
+            }
+            if (overlay.stats) {
+              drawOverlayStats(ctx, overlay.stats, userRect);
+            }
           }
         } else {
           // No user video or camera off - draw dark placeholder
@@ -107,13 +107,29 @@ export type Show = {
 
 export type ShowsTabs = "Past" | "Upcoming";
 
+// Thumbnail sprite sheet for scrubbing: one tile every `interval` seconds,
+// laid out left to right, top to bottom
+export interface ScrubSprite {
+  url: string;
+  interval: number;
+  count: number;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+}
+
 export interface Pitch {
   id: string;
   session_id: string;
   user_id: string;
   avatar_id: string;
-  video_url: string;
+  video_url: string; // Progressive MP4/WebM, also what gets downloaded
   thumbnail_url: string;
+  hls_url?: string | null; // Adaptive ladder, once it's been built
+  poster_url?: string | null;
+  scrub_sprite?: ScrubSprite | null;
+  overlay_url?: string | null; // Pose landmark and workout stats timeline (JSON sidecar)
   duration_sec: number;
   file_size: string;
   is_published: boolean;
@@ -66,4 +66,9 @@ export function formatTimeAgo(isoString: string): string {
   return `${diffYears} yr${diffYears === 1 ? '' : 's'} ago`;
 }
 
-
+// Seconds under the pointer on a progress bar
+export function scrubTimeAt(e: React.PointerEvent<HTMLElement>, duration: number): number {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const percent = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+  return percent * duration;
+}